@@ -7,6 +7,7 @@ import { useAuth } from "@/hooks/useAuth";
 import Landing from "@/pages/landing";
 import Home from "@/pages/home";
 import Admin from "@/pages/admin";
+import PatientDetail from "@/pages/patient-detail";
 import Resources from "@/pages/resources";
 import ResourceDetail from "@/pages/resource-detail";
 import Team from "@/pages/team";
@@ -40,6 +41,7 @@ function Router() {
         <>
           <Route path="/" component={Home} />
           <Route path="/admin" component={Admin} />
+          <Route path="/admin/patients/:id" component={PatientDetail} />
           <Route path="/resources" component={Resources} />
           <Route path="/resources/:id" component={ResourceDetail} />
           <Route path="/team" component={Team} />
@@ -6,6 +6,8 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { usePracticeTime } from "@/hooks/usePracticeTime";
+import { addDays, formatDate, formatTime } from "@shared/datetime";
 import {
   Dialog,
   DialogContent,
@@ -34,12 +36,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Calendar, Plus, Trash2, Clock, User, CalendarCheck } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
+import { type ProviderWithProcedures } from "@shared/schema";
 
 interface TimeSlot {
   id: string;
   date: string;
   time: string;
   isAvailable: boolean;
+  blockedByStaff: boolean;
   doctorName: string;
   slotType: string;
   duration: number;
@@ -52,8 +56,7 @@ interface TimeSlot {
 const timeSlotSchema = z.object({
   date: z.string().min(1, "Date is required"),
   time: z.string().min(1, "Time is required"),
-  isAvailable: z.boolean().default(true),
-  doctorName: z.string().min(1, "Doctor name is required"),
+  providerId: z.string().min(1, "Provider is required"),
   slotType: z.string().default('general'),
   duration: z.number().default(60),
   maxBookings: z.number().default(1),
@@ -67,11 +70,10 @@ interface CalendarManagerProps {
   onClose: () => void;
 }
 
-const doctors = ["Dr. Sarah Johnson", "Dr. Mike Chen", "Dr. James Wilson"];
 const timeSlots = [
-  "8:00 AM", "8:30 AM", "9:00 AM", "9:30 AM", "10:00 AM", "10:30 AM",
-  "11:00 AM", "11:30 AM", "1:00 PM", "1:30 PM", "2:00 PM", "2:30 PM",
-  "3:00 PM", "3:30 PM", "4:00 PM", "4:30 PM", "5:00 PM", "5:30 PM"
+  "08:00", "08:30", "09:00", "09:30", "10:00", "10:30",
+  "11:00", "11:30", "13:00", "13:30", "14:00", "14:30",
+  "15:00", "15:30", "16:00", "16:30", "17:00", "17:30"
 ];
 
 export default function CalendarManager({ isOpen, onClose }: CalendarManagerProps) {
@@ -85,8 +87,7 @@ export default function CalendarManager({ isOpen, onClose }: CalendarManagerProp
     defaultValues: {
       date: "",
       time: "",
-      isAvailable: true,
-      doctorName: "",
+      providerId: "",
       slotType: "general",
       duration: 60,
       maxBookings: 1,
@@ -94,28 +95,17 @@ export default function CalendarManager({ isOpen, onClose }: CalendarManagerProp
     },
   });
 
-  // Get today's date in YYYY-MM-DD format
-  const today = new Date().toISOString().split('T')[0];
+  // Today's date at the practice, in YYYY-MM-DD format
+  const { today: practiceToday } = usePracticeTime();
+  const today = practiceToday();
   
   // Get the next 30 days for display
-  const getNext30Days = () => {
-    try {
-      const dates = [];
-      const baseDate = new Date();
-      for (let i = 0; i < 30; i++) {
-        const date = new Date(baseDate);
-        date.setDate(baseDate.getDate() + i);
-        const dateString = date.toISOString().split('T')[0];
-        if (dateString) {
-          dates.push(dateString);
-        }
-      }
-      return dates;
-    } catch (error) {
-      console.error('Error generating dates:', error);
-      return [today];
-    }
-  };
+  const getNext30Days = () => Array.from({ length: 30 }, (_, i) => addDays(today, i));
+
+  const { data: providers = [] } = useQuery<ProviderWithProcedures[]>({
+    queryKey: ["/api/providers"],
+    enabled: isOpen,
+  });
 
   const { data: availableTimeSlots, isLoading } = useQuery<TimeSlot[]>({
     queryKey: ["/api/timeslots", selectedDate || today],
@@ -157,8 +147,8 @@ export default function CalendarManager({ isOpen, onClose }: CalendarManagerProp
   });
 
   const updateAvailabilityMutation = useMutation({
-    mutationFn: async ({ id, isAvailable }: { id: string; isAvailable: boolean }) => {
-      await apiRequest('PATCH', `/api/timeslots/${id}`, { isAvailable });
+    mutationFn: async ({ id, blockedByStaff }: { id: string; blockedByStaff: boolean }) => {
+      await apiRequest('PATCH', `/api/timeslots/${id}`, { blockedByStaff });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/timeslots'] });
@@ -219,12 +209,11 @@ export default function CalendarManager({ isOpen, onClose }: CalendarManagerProp
   });
 
   const bulkCreateMutation = useMutation({
-    mutationFn: async (data: { date: string; doctorName: string }) => {
+    mutationFn: async (data: { date: string; providerId: string }) => {
       const slots = timeSlots.map(time => ({
         date: data.date,
         time,
-        doctorName: data.doctorName,
-        isAvailable: true,
+        providerId: data.providerId,
         slotType: 'general',
         duration: 30,
         maxBookings: 1,
@@ -263,9 +252,9 @@ export default function CalendarManager({ isOpen, onClose }: CalendarManagerProp
     createTimeSlotMutation.mutate(data);
   };
 
-  const handleBulkCreate = (date: string, doctorName: string) => {
-    if (confirm(`Create all time slots for ${doctorName} on ${date}?`)) {
-      bulkCreateMutation.mutate({ date, doctorName });
+  const handleBulkCreate = (date: string, provider: ProviderWithProcedures) => {
+    if (confirm(`Create all time slots for ${provider.name} on ${date}?`)) {
+      bulkCreateMutation.mutate({ date, providerId: provider.id });
     }
   };
 
@@ -297,27 +286,11 @@ export default function CalendarManager({ isOpen, onClose }: CalendarManagerProp
                 <SelectValue placeholder="Select date..." />
               </SelectTrigger>
               <SelectContent>
-                {getNext30Days().map(date => {
-                  try {
-                    const dateObj = new Date(date + 'T00:00:00');
-                    return (
-                      <SelectItem key={date} value={date}>
-                        {dateObj.toLocaleDateString('en-US', { 
-                          weekday: 'short', 
-                          month: 'short', 
-                          day: 'numeric' 
-                        })}
-                      </SelectItem>
-                    );
-                  } catch (error) {
-                    console.error('Error formatting date:', date, error);
-                    return (
-                      <SelectItem key={date} value={date}>
-                        {date}
-                      </SelectItem>
-                    );
-                  }
-                })}
+                {getNext30Days().map(date => (
+                  <SelectItem key={date} value={date}>
+                    {formatDate(date, { weekday: 'short', month: 'short', day: 'numeric' })}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
             <Button onClick={() => setShowForm(true)} className="flex items-center">
@@ -333,16 +306,16 @@ export default function CalendarManager({ isOpen, onClose }: CalendarManagerProp
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                {doctors.map(doctor => (
-                  <div key={doctor} className="p-4 border rounded-lg">
+                {providers.map(provider => (
+                  <div key={provider.id} className="p-4 border rounded-lg">
                     <div className="flex items-center mb-2">
                       <User className="w-4 h-4 mr-2 text-blue-600" />
-                      <span className="font-medium">{doctor}</span>
+                      <span className="font-medium">{provider.name}</span>
                     </div>
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => handleBulkCreate(selectedDate || today, doctor)}
+                      onClick={() => handleBulkCreate(selectedDate || today, provider)}
                       disabled={bulkCreateMutation.isPending}
                       className="w-full"
                     >
@@ -396,7 +369,7 @@ export default function CalendarManager({ isOpen, onClose }: CalendarManagerProp
                             <SelectContent>
                               {timeSlots.map(time => (
                                 <SelectItem key={time} value={time}>
-                                  {time}
+                                  {formatTime(time)}
                                 </SelectItem>
                               ))}
                             </SelectContent>
@@ -408,7 +381,7 @@ export default function CalendarManager({ isOpen, onClose }: CalendarManagerProp
 
                     <FormField
                       control={form.control}
-                      name="doctorName"
+                      name="providerId"
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Doctor</FormLabel>
@@ -419,9 +392,9 @@ export default function CalendarManager({ isOpen, onClose }: CalendarManagerProp
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              {doctors.map(doctor => (
-                                <SelectItem key={doctor} value={doctor}>
-                                  {doctor}
+                              {providers.map(provider => (
+                                <SelectItem key={provider.id} value={provider.id}>
+                                  {provider.name}
                                 </SelectItem>
                               ))}
                             </SelectContent>
@@ -545,7 +518,7 @@ export default function CalendarManager({ isOpen, onClose }: CalendarManagerProp
             <CardHeader>
               <CardTitle className="flex items-center">
                 <CalendarCheck className="w-5 h-5 mr-2" />
-                Available Time Slots - {new Date(selectedDate || today).toLocaleDateString()}
+                Available Time Slots - {formatDate(selectedDate || today, { dateStyle: 'short' })}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -563,13 +536,13 @@ export default function CalendarManager({ isOpen, onClose }: CalendarManagerProp
                         <div className="flex justify-between items-start mb-2">
                           <div className="flex items-center">
                             <Clock className="w-4 h-4 mr-2 text-gray-500" />
-                            <span className="font-medium">{slot.time}</span>
+                            <span className="font-medium">{formatTime(slot.time)}</span>
                             <Badge variant="outline" className="ml-2 text-xs">
                               {slot.duration || 30}min
                             </Badge>
                           </div>
                           <Badge variant={slot.isAvailable ? "default" : "secondary"}>
-                            {slot.isAvailable ? "Available" : "Blocked"}
+                            {slot.blockedByStaff ? "Blocked" : slot.isAvailable ? "Available" : "Full"}
                           </Badge>
                         </div>
                         <div className="flex items-center justify-between mb-3">
@@ -590,11 +563,11 @@ export default function CalendarManager({ isOpen, onClose }: CalendarManagerProp
                         <div className="flex items-center justify-between">
                           <div className="flex items-center space-x-2">
                             <Switch
-                              checked={slot.isAvailable}
+                              checked={!slot.blockedByStaff}
                               onCheckedChange={(checked) => 
                                 updateAvailabilityMutation.mutate({ 
                                   id: slot.id, 
-                                  isAvailable: checked 
+                                  blockedByStaff: !checked 
                                 })
                               }
                               disabled={updateAvailabilityMutation.isPending}
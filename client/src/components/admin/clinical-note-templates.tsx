@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Edit, NotebookPen, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { apiRequest } from "@/lib/queryClient";
+import { insertClinicalNoteTemplateSchema, type ClinicalNoteTemplate, type ClinicalNoteTemplateInput, type Procedure } from "@shared/schema";
+import { soapSectionLabels, soapSectionPrompts, soapSections } from "@shared/clinical-notes";
+
+const emptyTemplate = (): ClinicalNoteTemplateInput => ({
+  name: "",
+  procedureIds: [],
+  subjective: "",
+  objective: "",
+  assessment: "",
+  plan: "",
+});
+
+interface ClinicalNoteTemplateDialogProps {
+  template?: ClinicalNoteTemplate;
+  children: React.ReactNode;
+}
+
+// Notes already started keep the text they were started with
+function ClinicalNoteTemplateDialog({ template, children }: ClinicalNoteTemplateDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const handleError = useErrorToast();
+  const queryClient = useQueryClient();
+
+  const { data: procedures = [] } = useQuery<Procedure[]>({
+    queryKey: ['/api/procedures'],
+    enabled: open,
+  });
+
+  const form = useForm<ClinicalNoteTemplateInput>({
+    resolver: zodResolver(insertClinicalNoteTemplateSchema),
+    defaultValues: template
+      ? {
+        name: template.name,
+        procedureIds: template.procedureIds,
+        subjective: template.subjective,
+        objective: template.objective,
+        assessment: template.assessment,
+        plan: template.plan,
+      }
+      : emptyTemplate(),
+  });
+
+  const mutation = useMutation({
+    mutationFn: (data: ClinicalNoteTemplateInput) => template
+      ? apiRequest('PUT', `/api/admin/clinical-note-templates/${template.id}`, data)
+      : apiRequest('POST', '/api/admin/clinical-note-templates', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/clinical-note-templates'] });
+      toast({
+        title: template ? "Template Updated" : "Template Created",
+        description: "It's offered when starting notes for matching appointments.",
+      });
+      setOpen(false);
+      if (!template) form.reset(emptyTemplate());
+    },
+    onError: (error: Error) => handleError(error, "Failed to save template."),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit Note Template" : "New Note Template"}</DialogTitle>
+          <DialogDescription>Text that prefills each SOAP section; providers edit it before signing.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => mutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Extraction, Periodic exam" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {soapSections.map(section => (
+              <FormField
+                key={section}
+                control={form.control}
+                name={section}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{soapSectionLabels[section]}</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} placeholder={soapSectionPrompts[section]} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+            <FormField
+              control={form.control}
+              name="procedureIds"
+              render={({ field }) => {
+                const value = field.value ?? [];
+                return (
+                  <FormItem>
+                    <FormLabel>Only for these procedures (leave all unticked for every appointment)</FormLabel>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                      {procedures.map(procedure => (
+                        <label key={procedure.id} className="flex items-center gap-2 text-sm text-gray-700">
+                          <Checkbox
+                            checked={value.includes(procedure.id)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked ? [...value, procedure.id] : value.filter(id => id !== procedure.id)
+                            )}
+                          />
+                          {procedure.name}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                );
+              }}
+            />
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending ? "Saving..." : template ? "Save Template" : "Create Template"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ClinicalNoteTemplatesList() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: templates = [], isLoading } = useQuery<ClinicalNoteTemplate[]>({
+    queryKey: ['/api/admin/clinical-note-templates'],
+  });
+
+  const { data: procedures = [] } = useQuery<Procedure[]>({
+    queryKey: ['/api/procedures'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/admin/clinical-note-templates/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/clinical-note-templates'] });
+      toast({
+        title: "Template Retired",
+        description: "It won't be offered for new notes. Existing notes are unchanged.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to retire template. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const appliesTo = (template: ClinicalNoteTemplate) => template.procedureIds.length === 0
+    ? "Every appointment"
+    : procedures.filter(p => template.procedureIds.includes(p.id)).map(p => p.name).join(", ") || "No current procedures";
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Clinical Note Templates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="animate-pulse space-y-3">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 dark:bg-gray-800 rounded" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Clinical Note Templates</CardTitle>
+            <CardDescription>
+              Starting text for staff SOAP notes; a blank SOAP note is always available
+            </CardDescription>
+          </div>
+          <ClinicalNoteTemplateDialog>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              New Template
+            </Button>
+          </ClinicalNoteTemplateDialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {templates.length === 0 ? (
+          <div className="text-center py-8">
+            <NotebookPen className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500 dark:text-gray-400">
+              No note templates yet. Add one for procedures you document the same way each time.
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Template</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map((template) => (
+                <TableRow key={template.id} className={template.isActive ? '' : 'opacity-60'}>
+                  <TableCell>
+                    <div className="font-medium flex items-center gap-2">
+                      {template.name}
+                      {!template.isActive && <Badge variant="outline">Retired</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{appliesTo(template)}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <ClinicalNoteTemplateDialog template={template}>
+                        <Button variant="outline" size="sm" title="Edit template">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </ClinicalNoteTemplateDialog>
+                      {template.isActive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Retire template"
+                          onClick={() => {
+                            if (confirm(`Stop offering "${template.name}" for new notes?`)) deleteMutation.mutate(template.id);
+                          }}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,276 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Lock, PenLine } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { type Appointment, type ClinicalNote, type ClinicalNoteAddendum, type ClinicalNoteSections, type Provider } from "@shared/schema";
+import { isBlankNote, soapSectionLabels, soapSectionPrompts, soapSections } from "@shared/clinical-notes";
+import { formatDate, formatTime } from "@shared/datetime";
+
+type Dated<T, K extends keyof T> = Omit<T, K> & { [P in K]: string | null };
+
+// GET /api/admin/appointments/:id/clinical-note
+export type ClinicalNoteView = Dated<ClinicalNote, 'signedAt' | 'createdAt' | 'updatedAt'> & {
+  addenda: Dated<ClinicalNoteAddendum, 'createdAt'>[];
+};
+
+// Enough of the appointment to title the note
+type NoteAppointment = Pick<Appointment, 'id' | 'treatmentType' | 'appointmentDate' | 'appointmentTime' | 'doctorName'>;
+
+type TemplateOption = ClinicalNoteSections & { id: string | null; name: string };
+
+interface AppointmentClinicalNote {
+  note: ClinicalNoteView | null;
+  templates: TemplateOption[];
+}
+
+export const clinicalNoteKey = (appointmentId: string) => ['/api/admin/appointments', appointmentId, 'clinical-note'];
+
+function sectionsOf(note: ClinicalNoteSections): ClinicalNoteSections {
+  return { subjective: note.subjective, objective: note.objective, assessment: note.assessment, plan: note.plan };
+}
+
+// A signed note as it reads in the record: the SOAP sections, who signed it,
+// and any addenda after it
+export function SignedClinicalNote({ note }: { note: ClinicalNoteView }) {
+  return (
+    <div className="space-y-3">
+      {soapSections.map(section => (
+        <div key={section}>
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">{soapSectionLabels[section]}</h4>
+          <p className="text-sm text-gray-900 whitespace-pre-wrap">{note[section] || <span className="text-gray-400">—</span>}</p>
+        </div>
+      ))}
+      {note.signedAt && (
+        <p className="text-xs text-gray-600 flex items-center gap-1 border-t pt-2">
+          <Lock className="w-3 h-3" />
+          Signed by {note.signingProviderName} on {new Date(note.signedAt).toLocaleString()}
+        </p>
+      )}
+      {note.addenda.map(addendum => (
+        <div key={addendum.id} className="border-l-4 border-amber-300 bg-amber-50 p-2 rounded-r">
+          <p className="text-xs font-medium text-amber-900">
+            Addendum by {addendum.authorName}{addendum.createdAt && `, ${new Date(addendum.createdAt).toLocaleString()}`}
+          </p>
+          <p className="text-sm text-gray-900 whitespace-pre-wrap">{addendum.body}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function useNoteMutation<T>(appointmentId: string, mutationFn: (input: T) => Promise<Response>, success?: { title: string; description: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: clinicalNoteKey(appointmentId) });
+      // The patient page lists notes too
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/patients'] });
+      if (success) toast(success);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        window.location.href = "/api/login";
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: clinicalNoteKey(appointmentId) });
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to save the note."),
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+function StartNote({ appointmentId, templates }: { appointmentId: string; templates: TemplateOption[] }) {
+  const [templateIndex, setTemplateIndex] = useState("0");
+  const start = useNoteMutation(appointmentId, (template: TemplateOption) =>
+    apiRequest('POST', `/api/admin/appointments/${appointmentId}/clinical-note`, { templateId: template.id })
+  );
+
+  return (
+    <div className="space-y-3 py-4">
+      <p className="text-sm text-gray-600">No clinical note yet. Start one from a template:</p>
+      <div className="flex gap-2">
+        <Select value={templateIndex} onValueChange={setTemplateIndex}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map((template, index) => (
+              <SelectItem key={template.id ?? 'blank'} value={String(index)}>{template.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={() => start.mutate(templates[Number(templateIndex)])} disabled={start.isPending || templates.length === 0}>
+          <PenLine className="w-4 h-4 mr-2" />
+          {start.isPending ? "Starting..." : "Start Note"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Editable until signed. Signing attests as the provider linked to the
+// signer's login, then locks the note for good.
+function DraftNote({ appointment, note }: { appointment: NoteAppointment; note: ClinicalNoteView }) {
+  const [sections, setSections] = useState<ClinicalNoteSections>(() => sectionsOf(note));
+  const { user } = useAuth();
+
+  useEffect(() => {
+    setSections(sectionsOf(note));
+  }, [note.id, note.updatedAt]);
+
+  const { data: providers = [] } = useQuery<Provider[]>({
+    queryKey: ['/api/admin/providers'],
+  });
+  const signingAs = user ? providers.find(p => p.userId === user.id) : undefined;
+
+  const save = useNoteMutation(appointment.id, (input: ClinicalNoteSections) =>
+    apiRequest('PUT', `/api/admin/clinical-notes/${note.id}`, input),
+    { title: "Draft Saved", description: "The note stays editable until it's signed." },
+  );
+  const sign = useNoteMutation(appointment.id, async (input: { providerId: string; sections: ClinicalNoteSections }) => {
+    // Whatever is on screen is what gets signed
+    await apiRequest('PUT', `/api/admin/clinical-notes/${note.id}`, input.sections);
+    return await apiRequest('POST', `/api/admin/clinical-notes/${note.id}/sign`, { providerId: input.providerId });
+  }, { title: "Note Signed", description: "The note is locked. Corrections can be added as addenda." });
+
+  const dirty = soapSections.some(section => sections[section] !== note[section]);
+  const busy = save.isPending || sign.isPending;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <Badge variant="outline">Draft</Badge>
+        Started from {note.templateName}
+        {note.updatedAt && ` · last saved ${new Date(note.updatedAt).toLocaleString()}`}
+      </div>
+      {soapSections.map(section => (
+        <div key={section} className="space-y-1">
+          <Label htmlFor={`soap-${section}`}>{soapSectionLabels[section]}</Label>
+          <Textarea
+            id={`soap-${section}`}
+            rows={section === 'objective' || section === 'plan' ? 5 : 3}
+            placeholder={soapSectionPrompts[section]}
+            value={sections[section]}
+            onChange={(e) => setSections({ ...sections, [section]: e.target.value })}
+            maxLength={20000}
+          />
+        </div>
+      ))}
+      <div className="flex flex-wrap items-center justify-between gap-2 border-t pt-4">
+        <Button variant="outline" onClick={() => save.mutate(sections)} disabled={!dirty || busy}>
+          {save.isPending ? "Saving..." : "Save Draft"}
+        </Button>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-600">
+            {signingAs ? `Signing as ${signingAs.name}` : "Link your login to a provider to sign notes"}
+          </span>
+          <Button
+            onClick={() => {
+              if (signingAs && confirm("Sign and lock this note? It can't be edited afterwards; corrections become addenda.")) {
+                sign.mutate({ providerId: signingAs.id, sections });
+              }
+            }}
+            disabled={!signingAs || isBlankNote(sections) || busy}
+          >
+            <Lock className="w-4 h-4 mr-2" />
+            {sign.isPending ? "Signing..." : "Sign & Lock"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function AddAddendum({ appointmentId, noteId }: { appointmentId: string; noteId: string }) {
+  const [body, setBody] = useState("");
+  const add = useNoteMutation(appointmentId, (text: string) =>
+    apiRequest('POST', `/api/admin/clinical-notes/${noteId}/addenda`, { body: text }),
+    { title: "Addendum Added", description: "It's attached to the signed note with your name and the time." },
+  );
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <Label htmlFor="addendum">Add an addendum</Label>
+      <Textarea
+        id="addendum"
+        rows={3}
+        placeholder="Corrections or later findings. The signed note itself can't change."
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        maxLength={10000}
+      />
+      <div className="flex justify-end">
+        <Button
+          onClick={() => add.mutate(body.trim(), { onSuccess: () => setBody("") })}
+          disabled={!body.trim() || add.isPending}
+        >
+          {add.isPending ? "Adding..." : "Add Addendum"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface ClinicalNoteDialogProps {
+  appointment: NoteAppointment;
+  children: React.ReactNode;
+}
+
+export function ClinicalNoteDialog({ appointment, children }: ClinicalNoteDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  const { data, isLoading } = useQuery<AppointmentClinicalNote>({
+    queryKey: clinicalNoteKey(appointment.id),
+    enabled: open,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Clinical Note</DialogTitle>
+          <DialogDescription>
+            {appointment.treatmentType} · {formatDate(appointment.appointmentDate, { month: 'short', day: 'numeric', year: 'numeric' })} {formatTime(appointment.appointmentTime)} · {appointment.doctorName}.
+            Staff only; never shown to the patient.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading || !data ? (
+          <div className="animate-pulse bg-gray-200 h-48 rounded"></div>
+        ) : !data.note ? (
+          <StartNote appointmentId={appointment.id} templates={data.templates} />
+        ) : data.note.signedAt ? (
+          <div className="space-y-4">
+            <SignedClinicalNote note={data.note} />
+            <AddAddendum appointmentId={appointment.id} noteId={data.note.id} />
+          </div>
+        ) : (
+          <DraftNote appointment={appointment} note={data.note} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
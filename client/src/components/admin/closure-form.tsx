@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { CalendarX } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { type PracticeClosure } from "@shared/schema";
+import { z } from "zod";
+
+const formSchema = z.object({
+  kind: z.enum(["holiday", "closure"]),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().min(1, "End date is required"),
+  allDay: z.boolean(),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  reason: z.string().min(1, "Reason is required"),
+}).refine((data) => data.startDate <= data.endDate, {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
+}).refine((data) => data.allDay || (!!data.startTime && !!data.endTime && data.startTime < data.endTime), {
+  message: "Enter valid hours for the closure",
+  path: ["endTime"],
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+interface ClosureFormProps {
+  onCreated?: (closure: PracticeClosure & { affected: unknown[] }) => void;
+}
+
+export function ClosureForm({ onCreated }: ClosureFormProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      kind: "holiday",
+      startDate: "",
+      endDate: "",
+      allDay: true,
+      startTime: "12:00",
+      endTime: "17:00",
+      reason: "",
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async ({ allDay, ...data }: FormData) => {
+      const response = await apiRequest('POST', '/api/closures', {
+        ...data,
+        startTime: allDay ? null : data.startTime,
+        endTime: allDay ? null : data.endTime,
+      });
+      return response.json();
+    },
+    onSuccess: (closure) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/closures'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/timeslots'] });
+      toast({
+        title: "Success",
+        description: closure.affected.length > 0
+          ? `Closure saved. ${closure.affected.length} booked appointments fall inside it.`
+          : "Closure saved. No booked appointments are affected.",
+      });
+      onCreated?.(closure);
+      setOpen(false);
+      form.reset();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save closure. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: FormData) => {
+    mutation.mutate(data);
+  };
+
+  const allDay = form.watch("allDay");
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <CalendarX className="h-4 w-4 mr-2" />
+          Add Closure
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Add Holiday or Closure</DialogTitle>
+          <DialogDescription>
+            Close the whole practice for one or more days, or part of each day. Open slots inside it are removed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="kind"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="holiday">Holiday</SelectItem>
+                      <SelectItem value="closure">Closure</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>From</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>To</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="allDay"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between">
+                  <FormLabel>All day</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {!allDay && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Closed From</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="endTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Closed Until</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Christmas Day, power outage" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
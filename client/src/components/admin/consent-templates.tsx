@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Edit, FileSignature, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { apiRequest } from "@/lib/queryClient";
+import { insertConsentTemplateSchema, type ConsentTemplate, type ConsentTemplateInput, type Procedure } from "@shared/schema";
+
+const emptyTemplate = (): ConsentTemplateInput => ({ title: "", body: "", procedureIds: [] });
+
+interface ConsentTemplateDialogProps {
+  template?: ConsentTemplate;
+  children: React.ReactNode;
+}
+
+// Changing the wording publishes a new version; consents already signed keep
+// the text their signer saw
+function ConsentTemplateDialog({ template, children }: ConsentTemplateDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const handleError = useErrorToast();
+  const queryClient = useQueryClient();
+
+  const { data: procedures = [] } = useQuery<Procedure[]>({
+    queryKey: ['/api/procedures'],
+    enabled: open,
+  });
+
+  const form = useForm<ConsentTemplateInput>({
+    resolver: zodResolver(insertConsentTemplateSchema),
+    defaultValues: template
+      ? { title: template.title, body: template.body, procedureIds: template.procedureIds }
+      : emptyTemplate(),
+  });
+
+  const mutation = useMutation({
+    mutationFn: (data: ConsentTemplateInput) => template
+      ? apiRequest('PUT', `/api/admin/consent-templates/${template.id}`, data)
+      : apiRequest('POST', '/api/admin/consent-templates', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/consent-templates'] });
+      toast({
+        title: template ? "Consent Updated" : "Consent Created",
+        description: template ? "Signed copies keep the wording that was signed." : "Patients will be asked to sign it before matching visits.",
+      });
+      setOpen(false);
+      if (!template) form.reset(emptyTemplate());
+    },
+    onError: (error: Error) => handleError(error, "Failed to save consent."),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? `Edit Consent (version ${template.version})` : "New Consent"}</DialogTitle>
+          <DialogDescription>Patients read and sign this in the portal before the procedures it applies to.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => mutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Consent for Tooth Extraction" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="body"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Consent text</FormLabel>
+                  <FormControl>
+                    <Textarea rows={12} placeholder="Risks, alternatives and what the patient agrees to" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="procedureIds"
+              render={({ field }) => {
+                const value = field.value ?? [];
+                return (
+                  <FormItem>
+                    <FormLabel>Only before these procedures (leave all unticked for every appointment)</FormLabel>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                      {procedures.map(procedure => (
+                        <label key={procedure.id} className="flex items-center gap-2 text-sm text-gray-700">
+                          <Checkbox
+                            checked={value.includes(procedure.id)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked ? [...value, procedure.id] : value.filter(id => id !== procedure.id)
+                            )}
+                          />
+                          {procedure.name}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                );
+              }}
+            />
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending ? "Saving..." : template ? "Save Consent" : "Create Consent"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ConsentTemplatesList() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: templates = [], isLoading } = useQuery<ConsentTemplate[]>({
+    queryKey: ['/api/admin/consent-templates'],
+  });
+
+  const { data: procedures = [] } = useQuery<Procedure[]>({
+    queryKey: ['/api/procedures'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/admin/consent-templates/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/consent-templates'] });
+      toast({
+        title: "Consent Retired",
+        description: "Patients won't be asked to sign it any more. Signed copies are kept.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to retire consent. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const appliesTo = (template: ConsentTemplate) => template.procedureIds.length === 0
+    ? "Every appointment"
+    : procedures.filter(p => template.procedureIds.includes(p.id)).map(p => p.name).join(", ") || "No current procedures";
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Consent Forms</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="animate-pulse space-y-3">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 dark:bg-gray-800 rounded" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Consent Forms</CardTitle>
+            <CardDescription>
+              Consents patients sign electronically; each signing is archived as a PDF
+            </CardDescription>
+          </div>
+          <ConsentTemplateDialog>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              New Consent
+            </Button>
+          </ConsentTemplateDialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {templates.length === 0 ? (
+          <div className="text-center py-8">
+            <FileSignature className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500 dark:text-gray-400">
+              No consent forms yet. Add one for procedures that need written consent.
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Consent</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Version</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map((template) => (
+                <TableRow key={template.id} className={template.isActive ? '' : 'opacity-60'}>
+                  <TableCell>
+                    <div className="font-medium flex items-center gap-2">
+                      {template.title}
+                      {!template.isActive && <Badge variant="outline">Retired</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{appliesTo(template)}</TableCell>
+                  <TableCell className="text-sm">v{template.version}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <ConsentTemplateDialog template={template}>
+                        <Button variant="outline" size="sm" title="Edit consent">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </ConsentTemplateDialog>
+                      {template.isActive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Retire consent"
+                          onClick={() => {
+                            if (confirm(`Stop asking patients to sign "${template.title}"?`)) deleteMutation.mutate(template.id);
+                          }}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  asOfInstant,
+  ChartControls,
+  ChartHistory,
+  ChartLegend,
+  DentalChart,
+  describeEntry,
+  type ChartEntry,
+} from "@/components/dental-chart";
+import {
+  surfaceToothConditions,
+  toothConditions,
+  toothSurfaces,
+  type Appointment,
+  type ToothCondition,
+  type ToothSurface,
+} from "@shared/schema";
+import { chartAsOf, toothConditionLabels, toothLabel, toothSurfaceLabels, type ToothNumbering } from "@shared/dental-chart";
+import { formatDate } from "@shared/datetime";
+
+// GET /api/admin/patients/:id/chart/pending
+interface PendingChartProcedure {
+  appointment: Appointment;
+  condition: ToothCondition;
+}
+
+const NO_VISIT = "none";
+
+interface DentalChartEditorProps {
+  patientId: string;
+  patientName?: string;
+  children: React.ReactNode;
+}
+
+// Staff chart: click a tooth, then record a finding or the treatment from a
+// completed visit. Recording resolves whatever the new entry replaces.
+export function DentalChartEditor({ patientId, patientName, children }: DentalChartEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [numbering, setNumbering] = useState<ToothNumbering>('universal');
+  const [primary, setPrimary] = useState(false);
+  const [asOf, setAsOf] = useState("");
+  const [tooth, setTooth] = useState<string | null>(null);
+  const [condition, setCondition] = useState<ToothCondition>('caries');
+  const [surfaces, setSurfaces] = useState<ToothSurface[]>([]);
+  const [notes, setNotes] = useState("");
+  const [visitId, setVisitId] = useState(NO_VISIT);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const chartKey = ['/api/patients', patientId, 'chart'];
+  const pendingKey = ['/api/admin/patients', patientId, 'chart', 'pending'];
+
+  const { data: entries = [], isLoading } = useQuery<ChartEntry[]>({
+    queryKey: chartKey,
+    enabled: open,
+  });
+
+  const { data: pending = [] } = useQuery<PendingChartProcedure[]>({
+    queryKey: pendingKey,
+    enabled: open,
+  });
+
+  const handleError = useErrorToast();
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: chartKey });
+    queryClient.invalidateQueries({ queryKey: pendingKey });
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/admin/patients/${patientId}/chart`, {
+      tooth,
+      surfaces,
+      condition,
+      notes,
+      appointmentId: visitId === NO_VISIT ? null : visitId,
+    }),
+    onSuccess: () => {
+      refresh();
+      setSurfaces([]);
+      setNotes("");
+      setVisitId(NO_VISIT);
+      toast({
+        title: "Charted",
+        description: `${toothConditionLabels[condition]} recorded on tooth ${toothLabel(tooth!, numbering)}.`,
+      });
+    },
+    onError: (error: Error) => handleError(error, "Failed to record chart entry."),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/admin/chart-entries/${id}/resolve`),
+    onSuccess: refresh,
+    onError: (error: Error) => handleError(error, "Failed to resolve chart entry."),
+  });
+
+  const bySurface = surfaceToothConditions.includes(condition);
+  const openOnTooth = tooth ? chartAsOf(entries)[tooth] || [] : [];
+
+  const chooseVisit = (id: string) => {
+    setVisitId(id);
+    const visit = pending.find(p => p.appointment.id === id);
+    if (visit) {
+      setCondition(visit.condition);
+      if (!surfaceToothConditions.includes(visit.condition)) setSurfaces([]);
+    }
+  };
+
+  const toggleSurface = (surface: ToothSurface) => {
+    setSurfaces(current => current.includes(surface) ? current.filter(s => s !== surface) : [...current, surface]);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Dental Chart{patientName ? ` · ${patientName}` : ''}</DialogTitle>
+          <DialogDescription>Click a tooth to record a finding or a completed treatment.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="animate-pulse bg-gray-200 h-48 rounded"></div>
+        ) : (
+          <div className="space-y-4">
+            <ChartControls
+              numbering={numbering}
+              onNumberingChange={setNumbering}
+              primary={primary}
+              onPrimaryChange={(value) => {
+                setPrimary(value);
+                setTooth(null);
+              }}
+              asOf={asOf}
+              onAsOfChange={setAsOf}
+            />
+            <DentalChart
+              entries={entries}
+              at={asOfInstant(asOf)}
+              numbering={numbering}
+              primary={primary}
+              selectedTooth={tooth}
+              onSelectTooth={asOf ? undefined : setTooth}
+            />
+            <ChartLegend />
+            {asOf && <p className="text-xs text-gray-500">Clear the date to chart today.</p>}
+
+            {tooth && !asOf && (
+              <div className="border rounded-lg p-4 space-y-4">
+                <h3 className="text-sm font-semibold text-gray-900">Tooth {toothLabel(tooth, numbering)}</h3>
+
+                {openOnTooth.length > 0 && (
+                  <ul className="space-y-1 text-sm">
+                    {openOnTooth.map(entry => (
+                      <li key={entry.id} className="flex justify-between items-center">
+                        <span>{describeEntry(entry, numbering)}</span>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 text-xs"
+                          onClick={() => resolveMutation.mutate(entry.id)}
+                          disabled={resolveMutation.isPending}
+                        >
+                          Resolve
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {pending.length > 0 && (
+                    <div className="space-y-1 md:col-span-2">
+                      <Label className="text-xs">From a completed visit</Label>
+                      <Select value={visitId} onValueChange={chooseVisit}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_VISIT}>Not linked to a visit</SelectItem>
+                          {pending.map(({ appointment }) => (
+                            <SelectItem key={appointment.id} value={appointment.id}>
+                              {appointment.treatmentType} · {formatDate(appointment.appointmentDate)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="space-y-1">
+                    <Label className="text-xs">Condition</Label>
+                    <Select
+                      value={condition}
+                      onValueChange={(value) => {
+                        setCondition(value as ToothCondition);
+                        if (!surfaceToothConditions.includes(value as ToothCondition) && value !== 'fracture') setSurfaces([]);
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {toothConditions.map(c => (
+                          <SelectItem key={c} value={c}>{toothConditionLabels[c]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Notes</Label>
+                    <Input value={notes} onChange={(e) => setNotes(e.target.value)} />
+                  </div>
+                </div>
+
+                {(bySurface || condition === 'fracture') && (
+                  <div className="space-y-1">
+                    <Label className="text-xs">Surfaces{bySurface ? '' : ' (optional)'}</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {toothSurfaces.map(surface => (
+                        <Button
+                          key={surface}
+                          type="button"
+                          size="sm"
+                          variant={surfaces.includes(surface) ? "default" : "outline"}
+                          className="h-7 text-xs"
+                          title={toothSurfaceLabels[surface]}
+                          onClick={() => toggleSurface(surface)}
+                        >
+                          {surface}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex justify-end">
+                  <Button
+                    size="sm"
+                    onClick={() => recordMutation.mutate()}
+                    disabled={recordMutation.isPending || (bySurface && surfaces.length === 0)}
+                  >
+                    {recordMutation.isPending ? "Saving..." : "Record"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">History</h3>
+              <ChartHistory entries={entries} numbering={numbering} />
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
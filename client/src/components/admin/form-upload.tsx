@@ -30,7 +30,8 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Plus, Edit, Upload, FileText } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { uploadFile } from "@/lib/uploads";
 import { insertFormSchema, type Form as FormType } from "@shared/schema";
 import { z } from "zod";
 
@@ -87,19 +88,17 @@ export function FormUpload({ form, trigger }: FormUploadProps) {
       
       setPdfFile(file);
       formHandler.setValue('fileName', file.name);
-      
-      // In a real app, you would upload the file to your storage service
-      // For now, we'll use a placeholder URL
-      const fileUrl = `/forms/${Date.now()}_${file.name}`;
-      formHandler.setValue('fileUrl', fileUrl);
     }
   };
 
   const mutation = useMutation({
     mutationFn: async (data: FormData) => {
-      // In a real application, you would upload the PDF file to your storage service here
-      // and get back the actual URL to store in the database
-      
+      // Upload the chosen PDF first; the form then points at the stored copy
+      if (pdfFile) {
+        const stored = await uploadFile(pdfFile, pdfFile.name, { category: 'form' });
+        data = { ...data, fileName: stored.fileName, fileUrl: stored.url };
+      }
+
       const method = form ? 'PUT' : 'POST';
       const url = form ? `/api/forms/${form.id}` : '/api/forms';
       await apiRequest(method, url, data);
@@ -117,7 +116,7 @@ export function FormUpload({ form, trigger }: FormUploadProps) {
     onError: (error: Error) => {
       toast({
         title: "Error",
-        description: `Failed to ${form ? 'update' : 'upload'} form. Please try again.`,
+        description: errorMessage(error, `Failed to ${form ? 'update' : 'upload'} form. Please try again.`),
         variant: "destructive",
       });
     },
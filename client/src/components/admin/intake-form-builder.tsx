@@ -0,0 +1,465 @@
+import { useState } from "react";
+import { useFieldArray, useForm, useWatch, type Control } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Eye, Plus, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { apiRequest } from "@/lib/queryClient";
+import { IntakeFormFields } from "@/components/intake-forms";
+import {
+  insertIntakeFormSchema,
+  intakeChoiceFieldTypes,
+  intakeFieldTypes,
+  intakeFormFrequencies,
+  type IntakeAnswer,
+  type IntakeAnswers,
+  type IntakeField,
+  type IntakeForm,
+  type IntakeFormInput,
+  type Procedure,
+} from "@shared/schema";
+import { conditionValues, intakeFieldTypeLabels, intakeFormFrequencyLabels } from "@shared/intake-form";
+
+const NO_CONDITION = "always";
+
+// Short random ids; answers are keyed by them, so they never change once made
+const newId = (prefix: string) => `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
+
+const newField = (): IntakeField => ({ id: newId('f'), label: "", type: 'text', required: false, options: [], helpText: "" });
+
+const emptyForm = (): IntakeFormInput => ({
+  title: "",
+  description: "",
+  sections: [{ id: newId('s'), title: "About you", showIf: null, fields: [newField()] }],
+  frequency: 'every_visit',
+  procedureIds: [],
+  displayOrder: 0,
+});
+
+// One option per line; saved when the box loses focus so blank lines can be typed
+function OptionsInput({ value, onChange }: { value: string[]; onChange: (options: string[]) => void }) {
+  return (
+    <Textarea
+      rows={3}
+      placeholder="One option per line"
+      defaultValue={value.join("\n")}
+      onBlur={(e) => onChange(e.target.value.split("\n").map(option => option.trim()).filter(Boolean))}
+    />
+  );
+}
+
+interface SectionFieldsProps {
+  control: Control<IntakeFormInput>;
+  index: number;
+  // Fields in earlier sections, which this one can depend on
+  earlierFields: IntakeField[];
+  onRemove?: () => void;
+}
+
+function SectionFields({ control, index, earlierFields, onRemove }: SectionFieldsProps) {
+  const fields = useFieldArray({ control, name: `sections.${index}.fields` });
+  const values = useWatch({ control, name: `sections.${index}.fields` }) || [];
+  const conditionFields = earlierFields.filter(field => conditionValues(field).length > 0);
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-[2fr_1.5fr_1fr_auto] gap-2 items-start">
+        <FormField
+          control={control}
+          name={`sections.${index}.title`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-xs">Section {index + 1}</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Insurance" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`sections.${index}.showIf`}
+          render={({ field }) => {
+            const source = conditionFields.find(f => f.id === field.value?.fieldId);
+            return (
+              <>
+                <FormItem>
+                  <FormLabel className="text-xs">Show</FormLabel>
+                  <Select
+                    value={field.value?.fieldId ?? NO_CONDITION}
+                    onValueChange={(fieldId) => {
+                      const chosen = conditionFields.find(f => f.id === fieldId);
+                      field.onChange(chosen ? { fieldId, equals: conditionValues(chosen)[0].value } : null);
+                    }}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_CONDITION}>Always</SelectItem>
+                      {conditionFields.map(f => (
+                        <SelectItem key={f.id} value={f.id}>When "{f.label || 'Untitled'}" is…</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+                <FormItem>
+                  <FormLabel className="text-xs">&nbsp;</FormLabel>
+                  {source && field.value ? (
+                    <Select value={field.value.equals} onValueChange={(equals) => field.onChange({ ...field.value, equals })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {conditionValues(source).map(option => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : <div />}
+                </FormItem>
+              </>
+            );
+          }}
+        />
+        {onRemove ? (
+          <Button type="button" variant="ghost" size="sm" className="mt-6" title="Remove section" onClick={onRemove}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        ) : <div />}
+      </div>
+
+      {fields.fields.map((item, fieldIndex) => {
+        const name = `sections.${index}.fields.${fieldIndex}` as const;
+        const type = values[fieldIndex]?.type;
+        return (
+          <div key={item.id} className="border-l-2 border-blue-200 pl-3 space-y-2">
+            <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_auto_auto] gap-2 items-center">
+              <FormField
+                control={control}
+                name={`${name}.label`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input placeholder="Question" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`${name}.type`}
+                render={({ field }) => (
+                  <FormItem>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {intakeFieldTypes.map(t => (
+                          <SelectItem key={t} value={t}>{intakeFieldTypeLabels[t]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`${name}.required`}
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel className="text-xs font-normal">Required</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <div className="flex">
+                <Button type="button" variant="ghost" size="sm" title="Move up" disabled={fieldIndex === 0} onClick={() => fields.move(fieldIndex, fieldIndex - 1)}>
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" title="Move down" disabled={fieldIndex === fields.fields.length - 1} onClick={() => fields.move(fieldIndex, fieldIndex + 1)}>
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" title="Remove field" disabled={fields.fields.length === 1} onClick={() => fields.remove(fieldIndex)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <FormField
+              control={control}
+              name={`${name}.helpText`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input placeholder="Help text (optional)" className="h-8 text-xs" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {type && intakeChoiceFieldTypes.includes(type) && (
+              <FormField
+                control={control}
+                name={`${name}.options`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <OptionsInput value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+        );
+      })}
+
+      <Button type="button" variant="outline" size="sm" onClick={() => fields.append(newField())}>
+        <Plus className="w-4 h-4 mr-1" />
+        Add Field
+      </Button>
+    </div>
+  );
+}
+
+interface IntakeFormBuilderProps {
+  form?: IntakeForm;
+  children: React.ReactNode;
+}
+
+// Staff form builder: sections of typed questions, each section optionally
+// shown only for a particular earlier answer
+export function IntakeFormBuilder({ form, children }: IntakeFormBuilderProps) {
+  const [open, setOpen] = useState(false);
+  const [preview, setPreview] = useState(false);
+  const [previewAnswers, setPreviewAnswers] = useState<IntakeAnswers>({});
+  const { toast } = useToast();
+  const handleError = useErrorToast();
+  const queryClient = useQueryClient();
+
+  const { data: procedures = [] } = useQuery<Procedure[]>({
+    queryKey: ['/api/procedures'],
+    enabled: open,
+  });
+
+  const formHandler = useForm<IntakeFormInput>({
+    resolver: zodResolver(insertIntakeFormSchema),
+    defaultValues: form ? {
+      title: form.title,
+      description: form.description ?? "",
+      sections: form.sections,
+      frequency: form.frequency as IntakeFormInput['frequency'],
+      procedureIds: form.procedureIds,
+      displayOrder: form.displayOrder || 0,
+    } : emptyForm(),
+  });
+  const sections = useFieldArray({ control: formHandler.control, name: "sections" });
+  const sectionValues = useWatch({ control: formHandler.control, name: "sections" }) || [];
+
+  const mutation = useMutation({
+    mutationFn: (data: IntakeFormInput) => form
+      ? apiRequest('PUT', `/api/admin/intake-forms/${form.id}`, data)
+      : apiRequest('POST', '/api/admin/intake-forms', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/intake-forms'] });
+      toast({
+        title: form ? "Form Updated" : "Form Created",
+        description: form ? "Earlier responses keep the questions they answered." : "Patients will be asked to fill it in before their visits.",
+      });
+      setOpen(false);
+      if (!form) formHandler.reset(emptyForm());
+    },
+    onError: (error: Error) => handleError(error, "Failed to save form."),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => {
+      setOpen(value);
+      setPreview(false);
+    }}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{form ? "Edit Intake Form" : "New Intake Form"}</DialogTitle>
+          <DialogDescription>Patients fill this in online before the appointments it applies to.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end">
+          <Button type="button" variant="outline" size="sm" onClick={() => {
+            setPreviewAnswers({});
+            setPreview(!preview);
+          }}>
+            <Eye className="w-4 h-4 mr-1" />
+            {preview ? "Back to Editing" : "Preview"}
+          </Button>
+        </div>
+
+        {preview ? (
+          <IntakeFormFields
+            sections={sectionValues}
+            answers={previewAnswers}
+            onChange={(fieldId: string, value: IntakeAnswer | undefined) => setPreviewAnswers(current => {
+              const next = { ...current };
+              if (value === undefined) delete next[fieldId];
+              else next[fieldId] = value;
+              return next;
+            })}
+          />
+        ) : (
+          <Form {...formHandler}>
+            <form onSubmit={formHandler.handleSubmit(data => mutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_0.6fr] gap-3">
+                <FormField
+                  control={formHandler.control}
+                  name="title"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Title</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. New Patient Registration" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={formHandler.control}
+                  name="frequency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ask</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {intakeFormFrequencies.map(f => (
+                            <SelectItem key={f} value={f}>{intakeFormFrequencyLabels[f]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={formHandler.control}
+                  name="displayOrder"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Order</FormLabel>
+                      <FormControl>
+                        <Input type="number" value={field.value} onChange={(e) => field.onChange(parseInt(e.target.value) || 0)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={formHandler.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Instructions</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={formHandler.control}
+                name="procedureIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Only before these procedures (leave all unticked for every appointment)</FormLabel>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                      {procedures.map(procedure => (
+                        <label key={procedure.id} className="flex items-center gap-2 text-sm text-gray-700">
+                          <Checkbox
+                            checked={field.value.includes(procedure.id)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked ? [...field.value, procedure.id] : field.value.filter(id => id !== procedure.id)
+                            )}
+                          />
+                          {procedure.name}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {sections.fields.map((item, index) => (
+                <SectionFields
+                  key={item.id}
+                  control={formHandler.control}
+                  index={index}
+                  earlierFields={sectionValues.slice(0, index).flatMap(section => section.fields)}
+                  onRemove={sections.fields.length > 1 ? () => sections.remove(index) : undefined}
+                />
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => sections.append({ id: newId('s'), title: "", showIf: null, fields: [newField()] })}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Section
+              </Button>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={mutation.isPending}>
+                  {mutation.isPending ? "Saving..." : form ? "Save Form" : "Create Form"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
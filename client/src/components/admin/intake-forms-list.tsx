@@ -0,0 +1,158 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ClipboardList, Edit, Plus, Trash2 } from "lucide-react";
+import { IntakeFormBuilder } from "./intake-form-builder";
+import { apiRequest } from "@/lib/queryClient";
+import { type IntakeForm, type IntakeFormFrequency, type Procedure } from "@shared/schema";
+import { intakeFormFrequencyLabels } from "@shared/intake-form";
+
+export function IntakeFormsList() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: forms = [], isLoading } = useQuery<IntakeForm[]>({
+    queryKey: ['/api/admin/intake-forms'],
+  });
+
+  const { data: procedures = [] } = useQuery<Procedure[]>({
+    queryKey: ['/api/procedures'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/admin/intake-forms/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/intake-forms'] });
+      toast({
+        title: "Form Retired",
+        description: "Patients won't be asked for it any more. Past responses are kept.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to retire form. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const appliesTo = (form: IntakeForm) => form.procedureIds.length === 0
+    ? "Every appointment"
+    : procedures.filter(p => form.procedureIds.includes(p.id)).map(p => p.name).join(", ") || "No current procedures";
+
+  const newFormButton = (
+    <IntakeFormBuilder>
+      <Button>
+        <Plus className="h-4 w-4 mr-2" />
+        New Form
+      </Button>
+    </IntakeFormBuilder>
+  );
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Intake Forms</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="animate-pulse space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 dark:bg-gray-800 rounded" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Intake Forms</CardTitle>
+            <CardDescription>
+              Online forms patients fill in before their appointments
+            </CardDescription>
+          </div>
+          {newFormButton}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {forms.length === 0 ? (
+          <div className="text-center py-8">
+            <ClipboardList className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500 dark:text-gray-400">
+              No intake forms yet. Build one to collect patient details before visits.
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Form</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Asked</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {forms.map((form) => (
+                <TableRow key={form.id} className={form.isActive ? '' : 'opacity-60'}>
+                  <TableCell>
+                    <div className="font-medium flex items-center gap-2">
+                      {form.title}
+                      {!form.isActive && <Badge variant="outline">Retired</Badge>}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                      {form.sections.length} section{form.sections.length === 1 ? '' : 's'},{' '}
+                      {form.sections.reduce((sum, section) => sum + section.fields.length, 0)} questions
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{appliesTo(form)}</TableCell>
+                  <TableCell className="text-sm">
+                    {intakeFormFrequencyLabels[form.frequency as IntakeFormFrequency] || form.frequency}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <IntakeFormBuilder form={form}>
+                        <Button variant="outline" size="sm" title="Edit form">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </IntakeFormBuilder>
+                      {form.isActive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Retire form"
+                          onClick={() => {
+                            if (confirm(`Stop asking patients for "${form.title}"?`)) deleteMutation.mutate(form.id);
+                          }}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
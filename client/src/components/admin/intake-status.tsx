@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ClipboardCheck, ClipboardList } from "lucide-react";
+import { IntakeAnswersView, intakeFormsKey, type AppointmentIntakeForm } from "@/components/intake-forms";
+import { SignedConsentLine, consentsKey, type AppointmentConsent } from "@/components/consent-forms";
+
+// GET /api/admin/intake-status, per appointment: intake forms, then consents
+export interface IntakeFormSummary {
+  kind: 'form' | 'consent';
+  formId: string;
+  title: string;
+  completed: boolean;
+  submittedAt: string | null;
+}
+
+// Form completion for every appointment in a list, in one request
+export function useIntakeStatus(appointmentIds: string[], enabled = true) {
+  const ids = Array.from(new Set(appointmentIds)).sort().join(',');
+  const { data = {} } = useQuery<Record<string, IntakeFormSummary[]>>({
+    queryKey: ['/api/admin/intake-status', ids],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/intake-status?appointmentIds=${encodeURIComponent(ids)}`, { credentials: "include" });
+      if (!response.ok) throw new Error('Failed to fetch intake form status');
+      return response.json();
+    },
+    enabled: enabled && ids.length > 0,
+  });
+  return data;
+}
+
+function IntakeResponses({ appointmentId }: { appointmentId: string }) {
+  const { data: items = [], isLoading } = useQuery<AppointmentIntakeForm[]>({
+    queryKey: intakeFormsKey(appointmentId),
+    staleTime: 0,
+  });
+  const { data: consents = [], isLoading: consentsLoading } = useQuery<AppointmentConsent[]>({
+    queryKey: consentsKey(appointmentId),
+    staleTime: 0,
+  });
+
+  if (isLoading || consentsLoading) {
+    return <div className="animate-pulse bg-gray-200 h-32 rounded"></div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {items.map(({ form, response }) => (
+        <div key={form.id} className="border rounded-lg p-4 space-y-3">
+          <div className="flex justify-between items-center">
+            <h3 className="font-semibold text-gray-900">{form.title}</h3>
+            <span className={`text-xs ${response ? 'text-green-700' : 'text-amber-700'}`}>
+              {response?.submittedAt ? `Submitted ${new Date(response.submittedAt).toLocaleString()}` : "Not completed"}
+            </span>
+          </div>
+          {response && <IntakeAnswersView sections={response.sections} answers={response.answers} />}
+        </div>
+      ))}
+      {consents.map(({ template, signed }) => (
+        <div key={template.id} className="border rounded-lg p-4 space-y-1">
+          <div className="flex justify-between items-center">
+            <h3 className="font-semibold text-gray-900">{template.title}</h3>
+            {!signed && <span className="text-xs text-amber-700">Not signed</span>}
+          </div>
+          {signed && <SignedConsentLine signed={signed} />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface IntakeStatusBadgeProps {
+  appointmentId: string;
+  forms?: IntakeFormSummary[];
+}
+
+// "Forms 1/2" that opens the patient's answers; nothing when no forms apply
+export function IntakeStatusBadge({ appointmentId, forms }: IntakeStatusBadgeProps) {
+  const [open, setOpen] = useState(false);
+  if (!forms || forms.length === 0) return null;
+
+  const done = forms.filter(form => form.completed).length;
+  const complete = done === forms.length;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button
+          className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-semibold rounded-full ${
+            complete ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'
+          }`}
+          title={forms.map(form => `${form.title}: ${form.completed ? 'done' : 'not done'}`).join('\n')}
+          data-testid={`badge-intake-${appointmentId}`}
+        >
+          {complete ? <ClipboardCheck className="w-3 h-3" /> : <ClipboardList className="w-3 h-3" />}
+          Forms {done}/{forms.length}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Intake Forms & Consents</DialogTitle>
+          <DialogDescription>What the patient submitted and signed for this appointment.</DialogDescription>
+        </DialogHeader>
+        {open && <IntakeResponses appointmentId={appointmentId} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
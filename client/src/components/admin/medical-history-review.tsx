@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { apiRequest } from "@/lib/queryClient";
+import { MedicalAlertBadges } from "@/components/medical-alerts";
+import { type MedicalHistoryVersion } from "@/components/medical-history-form";
+import { allergySeverityLabels, medicalAlerts, medicalConditionInfo } from "@shared/medical-history";
+
+const changeStyles: Record<string, string> = {
+  added: 'text-green-700',
+  removed: 'text-red-700 line-through',
+  changed: 'text-amber-700',
+};
+
+interface MedicalHistoryReviewProps {
+  patientId: string;
+  patientName?: string;
+  children: React.ReactNode;
+}
+
+// Staff view of a patient's questionnaire: the current answers, what each
+// version changed, and a button to sign off the latest one
+export function MedicalHistoryReview({ patientId, patientName, children }: MedicalHistoryReviewProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const handleError = useErrorToast();
+  const queryClient = useQueryClient();
+  const historyPath = `/api/patients/${patientId}/medical-history`;
+
+  const { data: versions = [], isLoading } = useQuery<MedicalHistoryVersion[]>({
+    queryKey: [historyPath],
+    enabled: open,
+  });
+  const latest = versions[0];
+
+  const reviewMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/admin/medical-history/${id}/review`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [historyPath] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/medical-alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/schedule'] });
+      toast({
+        title: "Reviewed",
+        description: "Medical history marked as reviewed.",
+      });
+    },
+    onError: (error: Error) => handleError(error, "Failed to mark as reviewed."),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Medical History{patientName ? ` · ${patientName}` : ''}</DialogTitle>
+          <DialogDescription>Check allergies and alerts before treatment.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="animate-pulse bg-gray-200 h-48 rounded"></div>
+        ) : !latest ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            This patient hasn't filled in the medical history questionnaire yet. Ask them to complete it before any procedure.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex justify-between items-start gap-4">
+              <div className="space-y-2">
+                <p className="text-sm text-gray-600">
+                  Version {latest.version}
+                  {latest.createdAt && `, submitted ${new Date(latest.createdAt).toLocaleString()}`}
+                </p>
+                <MedicalAlertBadges
+                  summary={{ version: latest.version, submittedAt: latest.createdAt, needsReview: false, alerts: medicalAlerts(latest) }}
+                />
+              </div>
+              {latest.reviewedAt ? (
+                <Badge className="bg-green-100 text-green-800 shrink-0">
+                  Reviewed {new Date(latest.reviewedAt).toLocaleDateString()}
+                </Badge>
+              ) : (
+                <Button
+                  size="sm"
+                  className="shrink-0"
+                  onClick={() => reviewMutation.mutate(latest.id)}
+                  disabled={reviewMutation.isPending}
+                  data-testid="button-review-medical-history"
+                >
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                  Mark Reviewed
+                </Button>
+              )}
+            </div>
+
+            <section className="space-y-1 text-sm">
+              <h3 className="font-semibold text-gray-900">Allergies</h3>
+              {latest.allergies.length > 0 ? latest.allergies.map(allergy => (
+                <p key={allergy.substance} className="text-red-800">
+                  {allergy.substance} · {allergySeverityLabels[allergy.severity]}{allergy.reaction ? ` · ${allergy.reaction}` : ''}
+                </p>
+              )) : (
+                <p className="text-gray-600">{latest.noKnownAllergies ? "No known allergies" : "Not answered"}</p>
+              )}
+            </section>
+
+            <section className="space-y-1 text-sm">
+              <h3 className="font-semibold text-gray-900">Conditions</h3>
+              {latest.conditions.length === 0 && !latest.otherConditions && <p className="text-gray-600">None reported</p>}
+              {latest.conditions.map(condition => (
+                <p key={condition} className={medicalConditionInfo[condition]?.alert ? 'text-amber-800 font-medium' : 'text-gray-700'}>
+                  {medicalConditionInfo[condition]?.label || condition}
+                </p>
+              ))}
+              {latest.otherConditions && <p className="text-gray-700">Other: {latest.otherConditions}</p>}
+            </section>
+
+            <section className="space-y-1 text-sm">
+              <h3 className="font-semibold text-gray-900">Medications</h3>
+              {latest.medications.length === 0 && <p className="text-gray-600">None reported</p>}
+              {latest.medications.map(medication => (
+                <p key={medication.name} className="text-gray-700">
+                  {[medication.name, medication.dose, medication.frequency].filter(Boolean).join(' · ')}
+                </p>
+              ))}
+            </section>
+
+            {latest.notes && (
+              <section className="space-y-1 text-sm">
+                <h3 className="font-semibold text-gray-900">Notes</h3>
+                <p className="text-gray-700 whitespace-pre-wrap">{latest.notes}</p>
+              </section>
+            )}
+
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-900">Versions</h3>
+              {versions.map(version => (
+                <div key={version.id} className="border rounded-lg p-3 text-sm">
+                  <div className="flex justify-between text-gray-600 mb-1">
+                    <span className="font-medium text-gray-900">Version {version.version}</span>
+                    <span>
+                      {version.createdAt && new Date(version.createdAt).toLocaleDateString()}
+                      {version.reviewedAt ? ' · reviewed' : ''}
+                    </span>
+                  </div>
+                  {version.changes.length === 0 ? (
+                    <p className="text-gray-500">No changes</p>
+                  ) : (
+                    <ul className="space-y-0.5">
+                      {version.changes.map((change, i) => (
+                        <li key={i} className={changeStyles[change.kind]}>
+                          <span className="capitalize">{change.section}</span>: {change.kind} {change.description}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </section>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,126 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { PatientLink } from "@/components/patient-link";
+import { type Appointment } from "@shared/schema";
+import { formatTime } from "@shared/datetime";
+
+interface NoShowSummaryData {
+  policy: {
+    graceMinutes: number;
+    flagThreshold: number;
+    flaggedRequirement: 'deposit' | 'confirmation';
+  };
+  days: number;
+  total: number;
+  recent: (Appointment & { patientName: string })[];
+  flaggedPatients: {
+    id: string;
+    name: string;
+    noShowCount: number;
+    flaggedAt: string;
+  }[];
+}
+
+export function NoShowSummary() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: summary, isLoading } = useQuery<NoShowSummaryData>({
+    queryKey: ['/api/admin/no-shows/summary'],
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  const clearFlagMutation = useMutation({
+    mutationFn: (patientId: string) => apiRequest('DELETE', `/api/admin/patients/${patientId}/no-show-flag`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/no-shows/summary'] });
+      toast({
+        title: "Success",
+        description: "Flag cleared. The patient can book normally again.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to clear flag. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>No-Shows</CardTitle>
+        {summary && (
+          <CardDescription>
+            Marked automatically {summary.policy.graceMinutes} minutes after the start without a check-in
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading || !summary ? (
+          <div className="space-y-4">
+            {[1, 2].map(i => (
+              <div key={i} className="animate-pulse bg-gray-200 h-12 rounded"></div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <p className="text-2xl font-semibold text-gray-900">{summary.total}</p>
+              <p className="text-sm text-gray-600">No-shows in the last {summary.days} days</p>
+            </div>
+
+            {summary.recent.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-700">Most Recent</h4>
+                {summary.recent.map(appointment => (
+                  <div key={appointment.id} className="flex justify-between text-sm p-2 bg-gray-50 rounded">
+                    <span><PatientLink patientId={appointment.patientId} name={appointment.patientName} /> · {appointment.treatmentType}</span>
+                    <span className="text-gray-500">{appointment.appointmentDate} {formatTime(appointment.appointmentTime)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {summary.policy.flagThreshold > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-700">
+                  Flagged Patients
+                  <span className="font-normal text-gray-500">
+                    {" "}({summary.policy.flagThreshold}+ no-shows, {summary.policy.flaggedRequirement === 'deposit' ? 'deposit' : 'confirmation call'} required)
+                  </span>
+                </h4>
+                {summary.flaggedPatients.length === 0 ? (
+                  <p className="text-sm text-gray-500">No patients are flagged</p>
+                ) : (
+                  summary.flaggedPatients.map(patient => (
+                    <div key={patient.id} className="flex items-center justify-between p-2 bg-red-50 rounded">
+                      <div className="flex items-center gap-2 text-sm">
+                        <PatientLink patientId={patient.id} name={patient.name} className="font-medium" />
+                        <Badge variant="destructive">{patient.noShowCount} no-shows</Badge>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => clearFlagMutation.mutate(patient.id)}
+                        disabled={clearFlagMutation.isPending}
+                      >
+                        Clear Flag
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
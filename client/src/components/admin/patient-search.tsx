@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Search } from "lucide-react";
+import { formatDate } from "@shared/datetime";
+import {
+  MIN_PATIENT_QUERY_LENGTH,
+  PATIENT_SEARCH_LIMIT,
+  parsePatientQuery,
+  patientDetailPath,
+  patientDisplayName,
+  type PatientSearchResult,
+} from "@shared/patient-search";
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+const searchHints: Record<string, string> = {
+  dob: "Searching by date of birth",
+  email: "Searching by email",
+  phone: "Searching by phone number",
+  name: "Searching by name",
+};
+
+export function PatientSearch() {
+  const [text, setText] = useState("");
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(text.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  const parsed = parsePatientQuery(query);
+
+  const { data: results = [], isFetching } = useQuery<PatientSearchResult[]>({
+    queryKey: ['/api/admin/patients', query],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/patients?q=${encodeURIComponent(query)}`, { credentials: "include" });
+      if (!response.ok) throw new Error('Failed to search patients');
+      return response.json();
+    },
+    enabled: !!parsed,
+  });
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Search className="h-5 w-5" />
+          Find a Patient
+        </CardTitle>
+        <CardDescription>
+          Name, email, phone number or date of birth (YYYY-MM-DD or MM/DD/YYYY)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Input
+          placeholder="e.g. Smith, jane@example.com, 555-0134, 04/12/1986"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          data-testid="input-patient-search"
+        />
+        {query.length > 0 && !parsed ? (
+          <p className="text-sm text-gray-500">
+            {query.length < MIN_PATIENT_QUERY_LENGTH
+              ? `Type at least ${MIN_PATIENT_QUERY_LENGTH} characters`
+              : "That isn't a date, phone number, email or name we can search on"}
+          </p>
+        ) : parsed && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500">
+              {searchHints[parsed.kind]}
+              {isFetching ? "..." : ` · ${results.length}${results.length === PATIENT_SEARCH_LIMIT ? '+' : ''} found`}
+            </p>
+            {!isFetching && results.length === 0 && (
+              <p className="text-sm text-gray-500">No matching patients</p>
+            )}
+            {results.length > 0 && (
+              <div className="divide-y rounded border">
+                {results.map(patient => (
+                  <Link
+                    key={patient.id}
+                    href={patientDetailPath(patient.id)}
+                    className="flex flex-wrap items-center justify-between gap-2 p-2 text-sm hover:bg-blue-50"
+                    data-testid={`patient-result-${patient.id}`}
+                  >
+                    <span className="font-medium text-blue-700">{patientDisplayName(patient)}</span>
+                    <span className="text-xs text-gray-500">
+                      {[
+                        patient.dateOfBirth && `DOB ${formatDate(patient.dateOfBirth, { month: 'short', day: 'numeric', year: 'numeric' })}`,
+                        patient.mobilePhone || patient.homePhone,
+                        patient.email,
+                      ].filter(Boolean).join(' · ')}
+                    </span>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,295 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Trash2, Users, Save } from "lucide-react";
+import { weekdays } from "./schedule-template-form";
+import { ClosureForm } from "./closure-form";
+import { apiRequest } from "@/lib/queryClient";
+import { type Appointment, type PracticeClosure, type PracticeHours } from "@shared/schema";
+import { formatTime } from "@shared/datetime";
+
+type AffectedAppointment = Appointment & { patientName: string; patientEmail: string | null; patientPhone: string | null };
+
+interface DayHours {
+  open: boolean;
+  openTime: string;
+  closeTime: string;
+}
+
+interface RebookResult {
+  cancelled: number;
+  waitlisted: number;
+}
+
+const defaultDay: DayHours = { open: false, openTime: "09:00", closeTime: "17:00" };
+
+export function PracticeCalendarList() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [week, setWeek] = useState<DayHours[]>(weekdays.map(() => defaultDay));
+  const [selectedClosureId, setSelectedClosureId] = useState<string | null>(null);
+
+  const { data: hours = [], isLoading } = useQuery<PracticeHours[]>({
+    queryKey: ['/api/practice-hours'],
+  });
+
+  const { data: closures = [] } = useQuery<PracticeClosure[]>({
+    queryKey: ['/api/closures'],
+  });
+
+  const { data: affected = [], isLoading: affectedLoading } = useQuery<AffectedAppointment[]>({
+    queryKey: ['/api/closures', selectedClosureId, 'affected'],
+    enabled: !!selectedClosureId,
+  });
+
+  useEffect(() => {
+    setWeek(weekdays.map((_, day) => {
+      const row = hours.find(h => h.dayOfWeek === day);
+      return row ? { open: true, openTime: row.openTime, closeTime: row.closeTime } : defaultDay;
+    }));
+  }, [hours]);
+
+  const saveHoursMutation = useMutation({
+    mutationFn: async () => {
+      const body = week.flatMap((day, dayOfWeek) =>
+        day.open ? [{ dayOfWeek, openTime: day.openTime, closeTime: day.closeTime }] : []
+      );
+      const response = await apiRequest('PUT', '/api/practice-hours', body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/practice-hours'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/timeslots'] });
+      toast({
+        title: "Success",
+        description: "Office hours saved. Open slots outside them were removed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save office hours. Check that each open day closes after it opens.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/closures/${id}`),
+    onSuccess: (_, id) => {
+      if (id === selectedClosureId) setSelectedClosureId(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/closures'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/timeslots'] });
+      toast({
+        title: "Success",
+        description: "Closure removed. Those days are bookable again.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove closure. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rebookMutation = useMutation({
+    mutationFn: async (id: string): Promise<RebookResult> => {
+      const response = await apiRequest('POST', `/api/closures/${id}/rebook`);
+      return response.json();
+    },
+    onSuccess: (result, id) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/closures', id, 'affected'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/waitlist'] });
+      toast({
+        title: "Patients Rebooked",
+        description: `Cancelled ${result.cancelled} appointments and added ${result.waitlisted} patients to the waitlist for the first times after reopening.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to rebook affected patients. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDay = (day: number, changes: Partial<DayHours>) => {
+    setWeek(current => current.map((d, i) => i === day ? { ...d, ...changes } : d));
+  };
+
+  const formatRange = (closure: PracticeClosure) =>
+    closure.startDate === closure.endDate ? closure.startDate : `${closure.startDate} – ${closure.endDate}`;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Office Hours</CardTitle>
+              <CardDescription>
+                {hours.length === 0
+                  ? "No office hours set, so every doctor's schedule is bookable as is"
+                  : "Nothing can be booked outside these hours, whatever the doctors' schedules say"}
+              </CardDescription>
+            </div>
+            <Button onClick={() => saveHoursMutation.mutate()} disabled={saveHoursMutation.isPending || isLoading}>
+              <Save className="h-4 w-4 mr-2" />
+              {saveHoursMutation.isPending ? "Saving..." : "Save Hours"}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {week.map((day, i) => (
+            <div key={weekdays[i]} className="flex items-center gap-4">
+              <span className="w-12 text-sm font-medium">{weekdays[i]}</span>
+              <Switch checked={day.open} onCheckedChange={(open) => updateDay(i, { open })} />
+              {day.open ? (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    className="w-32"
+                    value={day.openTime}
+                    onChange={(e) => updateDay(i, { openTime: e.target.value })}
+                  />
+                  <span className="text-sm text-gray-500">to</span>
+                  <Input
+                    type="time"
+                    className="w-32"
+                    value={day.closeTime}
+                    onChange={(e) => updateDay(i, { closeTime: e.target.value })}
+                  />
+                </div>
+              ) : (
+                <span className="text-sm text-gray-500">Closed</span>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Holidays & Closures</CardTitle>
+              <CardDescription>
+                Days or hours when the whole practice is closed
+              </CardDescription>
+            </div>
+            <ClosureForm onCreated={(closure) => closure.affected.length > 0 && setSelectedClosureId(closure.id)} />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {closures.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400 text-center py-4">
+              No upcoming closures.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Hours</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {closures.map((closure) => (
+                  <TableRow key={closure.id}>
+                    <TableCell className="font-medium">{formatRange(closure)}</TableCell>
+                    <TableCell>
+                      {closure.startTime && closure.endTime ? `${closure.startTime}–${closure.endTime}` : "All day"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={closure.kind === "holiday" ? "secondary" : "destructive"}>
+                        {closure.kind === "holiday" ? "Holiday" : "Closure"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{closure.reason}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSelectedClosureId(closure.id === selectedClosureId ? null : closure.id)}
+                        >
+                          <Users className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => deleteMutation.mutate(closure.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {selectedClosureId && (
+            <div className="border rounded-lg p-4 space-y-3">
+              <div className="flex justify-between items-center">
+                <h4 className="text-sm font-medium text-gray-700">Affected Appointments</h4>
+                <Button
+                  size="sm"
+                  onClick={() => rebookMutation.mutate(selectedClosureId)}
+                  disabled={rebookMutation.isPending || affected.length === 0}
+                >
+                  {rebookMutation.isPending ? "Rebooking..." : "Rebook All"}
+                </Button>
+              </div>
+              {affectedLoading ? (
+                <div className="animate-pulse bg-gray-200 h-12 rounded"></div>
+              ) : affected.length === 0 ? (
+                <p className="text-sm text-gray-500">No booked appointments fall inside this closure.</p>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-500">
+                    Rebooking cancels these appointments and waitlists each patient for the two weeks after reopening.
+                  </p>
+                  {affected.map(appointment => (
+                    <div key={appointment.id} className="flex justify-between text-sm p-2 bg-gray-50 rounded">
+                      <span>
+                        {appointment.patientName}
+                        {appointment.patientEmail && <span className="text-gray-500"> · {appointment.patientEmail}</span>}
+                        {appointment.patientPhone && <span className="text-gray-500"> · {appointment.patientPhone}</span>}
+                      </span>
+                      <span className="text-gray-500">
+                        {appointment.appointmentDate} {formatTime(appointment.appointmentTime)} · {appointment.treatmentType}
+                      </span>
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -31,9 +31,14 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Plus, Edit } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import { insertProcedureSchema, type Procedure } from "@shared/schema";
+import { bookingIntents, insertProcedureSchema, toothConditions, type Procedure } from "@shared/schema";
+import { toothConditionLabels } from "@shared/dental-chart";
+import { bookingIntentLabels } from "@shared/quick-booking";
 import { z } from "zod";
 
+const NO_CHART_CHANGE = "none";
+const NO_BOOKING_INTENT = "none";
+
 const formSchema = insertProcedureSchema.extend({
   price: z.union([z.string(), z.number()]).transform((val) => {
     if (typeof val === 'string') {
@@ -63,6 +68,8 @@ export function ProcedureForm({ procedure, trigger }: ProcedureFormProps) {
       duration: 30,
       price: 0,
       category: "general",
+      chartCondition: null,
+      bookingIntent: null,
       displayOrder: 0,
     },
   });
@@ -75,6 +82,8 @@ export function ProcedureForm({ procedure, trigger }: ProcedureFormProps) {
         duration: procedure.duration,
         price: procedure.priceCents ? (procedure.priceCents / 100) : 0,
         category: procedure.category,
+        chartCondition: procedure.chartCondition as FormData['chartCondition'],
+        bookingIntent: procedure.bookingIntent as FormData['bookingIntent'],
         displayOrder: procedure.displayOrder || 0,
       });
     }
@@ -267,6 +276,60 @@ export function ProcedureForm({ procedure, trigger }: ProcedureFormProps) {
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="chartCondition"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Dental chart</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === NO_CHART_CHANGE ? null : value)}
+                    value={field.value || NO_CHART_CHANGE}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_CHART_CHANGE}>Doesn't change the chart</SelectItem>
+                      {toothConditions.map(condition => (
+                        <SelectItem key={condition} value={condition}>Records {toothConditionLabels[condition].toLowerCase()}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="bookingIntent"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>One-click booking</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === NO_BOOKING_INTENT ? null : value)}
+                    value={field.value || NO_BOOKING_INTENT}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_BOOKING_INTENT}>No button books it</SelectItem>
+                      {bookingIntents.map(intent => (
+                        <SelectItem key={intent} value={intent}>Booked by "{bookingIntentLabels[intent]}"</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="flex justify-end space-x-2">
               <Button
                 type="button"
@@ -0,0 +1,319 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Plus, Edit } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { type Procedure, type ProviderWithProcedures, type TeamMember } from "@shared/schema";
+import { z } from "zod";
+
+const formSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  teamMemberId: z.string(),
+  userId: z.string(),
+  specialties: z.string(),
+  procedureIds: z.array(z.string()),
+  isActive: z.boolean(),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+interface StaffLogin {
+  id: string;
+  name: string;
+  email: string | null;
+}
+
+interface ProviderFormProps {
+  provider?: ProviderWithProcedures;
+  trigger?: React.ReactNode;
+}
+
+export function ProviderForm({ provider, trigger }: ProviderFormProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: teamMembers = [] } = useQuery<TeamMember[]>({
+    queryKey: ['/api/team'],
+  });
+
+  const { data: procedures = [] } = useQuery<Procedure[]>({
+    queryKey: ['/api/procedures'],
+  });
+
+  const { data: staff = [] } = useQuery<StaffLogin[]>({
+    queryKey: ['/api/admin/staff'],
+  });
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      teamMemberId: "none",
+      userId: "none",
+      specialties: "",
+      procedureIds: [],
+      isActive: true,
+    },
+  });
+
+  useEffect(() => {
+    if (provider) {
+      form.reset({
+        name: provider.name,
+        teamMemberId: provider.teamMemberId || "none",
+        userId: provider.userId || "none",
+        specialties: provider.specialties.join(", "),
+        procedureIds: provider.procedureIds,
+        isActive: provider.isActive ?? true,
+      });
+    }
+  }, [provider, form]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const method = provider ? 'PUT' : 'POST';
+      const url = provider ? `/api/providers/${provider.id}` : '/api/providers';
+
+      await apiRequest(method, url, {
+        ...data,
+        teamMemberId: data.teamMemberId === "none" ? null : data.teamMemberId,
+        userId: data.userId === "none" ? null : data.userId,
+        specialties: data.specialties.split(",").map(s => s.trim()).filter(Boolean),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/providers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/providers'] });
+      toast({
+        title: "Success",
+        description: `Provider ${provider ? 'updated' : 'created'} successfully!`,
+      });
+      setOpen(false);
+      if (!provider) form.reset();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: `Failed to ${provider ? 'update' : 'create'} provider. Please try again.`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: FormData) => {
+    mutation.mutate(data);
+  };
+
+  // Picking a team member fills in an empty name
+  const handleTeamMemberChange = (value: string, onChange: (value: string) => void) => {
+    onChange(value);
+    const member = teamMembers.find(m => m.id === value);
+    if (member && !form.getValues("name")) {
+      form.setValue("name", member.name);
+    }
+  };
+
+  const defaultTrigger = provider ? (
+    <Button variant="outline" size="sm">
+      <Edit className="h-4 w-4" />
+    </Button>
+  ) : (
+    <Button>
+      <Plus className="h-4 w-4 mr-2" />
+      Add Provider
+    </Button>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger || defaultTrigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {provider ? "Edit Provider" : "Add New Provider"}
+          </DialogTitle>
+          <DialogDescription>
+            Providers are the clinicians patients can book with.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="teamMemberId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Team Profile</FormLabel>
+                  <Select
+                    onValueChange={(value) => handleTeamMemberChange(value, field.onChange)}
+                    value={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Not linked</SelectItem>
+                      {teamMembers.map(member => (
+                        <SelectItem key={member.id} value={member.id}>
+                          {member.name} ({member.position})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Display Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Dr. Sarah Johnson" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="userId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Staff Login</FormLabel>
+                  <p className="text-xs text-gray-500">Whoever signs in with this login signs clinical notes as this provider.</p>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Not linked</SelectItem>
+                      {staff.map(login => (
+                        <SelectItem key={login.id} value={login.id}>
+                          {login.name}{login.email && login.email !== login.name ? ` (${login.email})` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="specialties"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Specialties</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Endodontics, Implants" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="procedureIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Procedures Performed</FormLabel>
+                  <p className="text-xs text-gray-500">Leave all unchecked to allow any procedure.</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {procedures.map(procedure => (
+                      <label key={procedure.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(procedure.id)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked
+                                ? [...field.value, procedure.id]
+                                : field.value.filter((id) => id !== procedure.id)
+                            )
+                          }
+                        />
+                        {procedure.name}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between">
+                  <FormLabel>Accepting Bookings</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending
+                  ? (provider ? "Updating..." : "Creating...")
+                  : (provider ? "Update" : "Create")}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,170 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Trash2, CalendarPlus } from "lucide-react";
+import { ProviderForm } from "./provider-form";
+import { CalendarFeedDialog } from "@/components/calendar-feed-dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { type Procedure, type ProviderWithProcedures, type TeamMember } from "@shared/schema";
+
+export function ProviderList() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: providers = [], isLoading } = useQuery<ProviderWithProcedures[]>({
+    queryKey: ['/api/admin/providers'],
+  });
+
+  const { data: teamMembers = [] } = useQuery<TeamMember[]>({
+    queryKey: ['/api/team'],
+  });
+
+  const { data: procedures = [] } = useQuery<Procedure[]>({
+    queryKey: ['/api/procedures'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/providers/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/providers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/providers'] });
+      toast({
+        title: "Success",
+        description: "Provider deactivated. Existing appointments are kept.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to deactivate provider. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatProcedures = (procedureIds: string[]) => {
+    if (procedureIds.length === 0) return "All procedures";
+    return procedures
+      .filter(p => procedureIds.includes(p.id))
+      .map(p => p.name)
+      .join(", ");
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Providers</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="animate-pulse space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 dark:bg-gray-800 rounded" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Providers</CardTitle>
+            <CardDescription>
+              Clinicians patients can book, and the procedures each one performs
+            </CardDescription>
+          </div>
+          <ProviderForm />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {providers.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-500 dark:text-gray-400 mb-4">
+              No providers found. Add your first provider to start scheduling.
+            </p>
+            <ProviderForm />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Specialties</TableHead>
+                <TableHead>Procedures</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {providers.map((provider) => (
+                <TableRow key={provider.id}>
+                  <TableCell>
+                    <div className="font-medium">{provider.name}</div>
+                    {provider.teamMemberId && (
+                      <div className="text-sm text-gray-500 dark:text-gray-400">
+                        {teamMembers.find(m => m.id === provider.teamMemberId)?.position || "Team member"}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {provider.specialties.map(specialty => (
+                        <Badge key={specialty} variant="secondary">{specialty}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600 max-w-xs truncate">
+                    {formatProcedures(provider.procedureIds)}
+                  </TableCell>
+                  <TableCell>
+                    {provider.isActive ? (
+                      <Badge>Active</Badge>
+                    ) : (
+                      <Badge variant="outline">Inactive</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <ProviderForm provider={provider} />
+                      <CalendarFeedDialog
+                        feedPath={`/api/admin/providers/${provider.id}/calendar-feed`}
+                        title={`${provider.name}'s Calendar`}
+                        description="A subscription link to this provider's appointments for their own calendar app. Patients appear by first name and last initial."
+                      >
+                        <Button variant="outline" size="sm" title="Calendar feed">
+                          <CalendarPlus className="h-4 w-4" />
+                        </Button>
+                      </CalendarFeedDialog>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(provider.id)}
+                        disabled={deleteMutation.isPending || !provider.isActive}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
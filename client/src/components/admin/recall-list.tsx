@@ -0,0 +1,688 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { BellRing, CalendarClock, CalendarPlus, Edit, Plus, Settings, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { PatientLink } from "@/components/patient-link";
+import { insertRecallTypeSchema, type PatientRecall, type Procedure, type RecallType, type RecallTypeInput, type TimeSlot } from "@shared/schema";
+import { recallStatusLabels, type RecallStatus } from "@shared/recall";
+import { formatDate, formatTime } from "@shared/datetime";
+
+// GET /api/admin/recalls
+type RecallView = Omit<PatientRecall, 'lastNoticeAt' | 'createdAt' | 'updatedAt'> & {
+  lastNoticeAt: string | null;
+  recallTypeName: string;
+  intervalMonths: number;
+  patientName: string;
+  contact: { email: string | null; phone: string | null; preferredMethod: string; viaGuardian?: string };
+  status: RecallStatus;
+  daysUntilDue: number;
+  scheduled: { id: string; appointmentDate: string; appointmentTime: string; treatmentType: string; doctorName: string } | null;
+};
+
+// GET /api/admin/recalls/:id/openings
+type Opening = TimeSlot & { endTime: string; timeSlotIds: string[] };
+
+interface RecallFilters {
+  status: 'overdue' | 'upcoming' | 'all';
+  withinDays: string;
+  recallTypeId: string;
+  unscheduled: boolean;
+}
+
+const statusStyles: Record<RecallStatus, string> = {
+  overdue: 'bg-red-100 text-red-800',
+  due_soon: 'bg-yellow-100 text-yellow-800',
+  later: 'bg-blue-100 text-blue-800',
+};
+
+const emptyRecallType = (): RecallTypeInput => ({ name: "", intervalMonths: 6, procedureIds: [], displayOrder: 0 });
+
+function dueText(recall: RecallView): string {
+  if (recall.daysUntilDue < 0) return `${-recall.daysUntilDue} days overdue`;
+  if (recall.daysUntilDue === 0) return "Due today";
+  return `In ${recall.daysUntilDue} days`;
+}
+
+interface RecallTypeDialogProps {
+  recallType?: RecallType;
+  children: React.ReactNode;
+}
+
+// Changing the interval moves every patient's due date to match
+function RecallTypeDialog({ recallType, children }: RecallTypeDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const handleError = useErrorToast();
+  const queryClient = useQueryClient();
+
+  const { data: procedures = [] } = useQuery<Procedure[]>({
+    queryKey: ['/api/procedures'],
+    enabled: open,
+  });
+
+  const form = useForm<RecallTypeInput>({
+    resolver: zodResolver(insertRecallTypeSchema),
+    defaultValues: recallType
+      ? {
+        name: recallType.name,
+        intervalMonths: recallType.intervalMonths,
+        procedureIds: recallType.procedureIds,
+        displayOrder: recallType.displayOrder ?? 0,
+      }
+      : emptyRecallType(),
+  });
+
+  const mutation = useMutation({
+    mutationFn: (data: RecallTypeInput) => recallType
+      ? apiRequest('PUT', `/api/admin/recall-types/${recallType.id}`, data)
+      : apiRequest('POST', '/api/admin/recall-types', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/recall-types'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/recalls'] });
+      toast({
+        title: recallType ? "Recall Updated" : "Recall Created",
+        description: "Patients who've had a matching procedure are on the recall list.",
+      });
+      setOpen(false);
+      if (!recallType) form.reset(emptyRecallType());
+    },
+    onError: (error: Error) => handleError(error, "Failed to save recall."),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{recallType ? "Edit Recall" : "New Recall"}</DialogTitle>
+          <DialogDescription>
+            Completing one of these procedures sets when the patient is next due.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => mutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem] gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Prophy, Perio maintenance, Bitewing X-rays" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="intervalMonths"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Every (months)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={60}
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="procedureIds"
+              render={({ field }) => {
+                const value = field.value ?? [];
+                return (
+                  <FormItem>
+                    <FormLabel>Procedures that count (the first ticked is what a recall visit books)</FormLabel>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                      {procedures.map(procedure => (
+                        <label key={procedure.id} className="flex items-center gap-2 text-sm text-gray-700">
+                          <Checkbox
+                            checked={value.includes(procedure.id)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked ? [...value, procedure.id] : value.filter(id => id !== procedure.id)
+                            )}
+                          />
+                          {procedure.name}
+                          {value[0] === procedure.id && <Badge variant="outline" className="text-xs">Books</Badge>}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                );
+              }}
+            />
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending ? "Saving..." : recallType ? "Save Recall" : "Create Recall"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RecallTypesDialog({ children }: { children: React.ReactNode }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: recallTypes = [] } = useQuery<RecallType[]>({
+    queryKey: ['/api/admin/recall-types'],
+  });
+
+  const { data: procedures = [] } = useQuery<Procedure[]>({
+    queryKey: ['/api/procedures'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/admin/recall-types/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/recall-types'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/recalls'] });
+      toast({
+        title: "Recall Retired",
+        description: "It's no longer tracked. Patients' last visits are kept.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to retire recall. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const countedProcedures = (recallType: RecallType) =>
+    recallType.procedureIds
+      .map(id => procedures.find(p => p.id === id)?.name)
+      .filter(Boolean)
+      .join(", ") || "No current procedures";
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex justify-between items-center pr-6">
+            <div>
+              <DialogTitle>Recall Types</DialogTitle>
+              <DialogDescription>How often patients come back, and what counts as a visit</DialogDescription>
+            </div>
+            <RecallTypeDialog>
+              <Button size="sm">
+                <Plus className="h-4 w-4 mr-2" />
+                New Recall
+              </Button>
+            </RecallTypeDialog>
+          </div>
+        </DialogHeader>
+        {recallTypes.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No recalls yet. Add one for cleanings, perio maintenance or X-ray series.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Recall</TableHead>
+                <TableHead>Every</TableHead>
+                <TableHead>Counted Procedures</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {recallTypes.map(recallType => (
+                <TableRow key={recallType.id} className={recallType.isActive ? '' : 'opacity-60'}>
+                  <TableCell>
+                    <div className="font-medium flex items-center gap-2">
+                      {recallType.name}
+                      {!recallType.isActive && <Badge variant="outline">Retired</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{recallType.intervalMonths} months</TableCell>
+                  <TableCell className="text-sm">{countedProcedures(recallType)}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <RecallTypeDialog recallType={recallType}>
+                        <Button variant="outline" size="sm" title="Edit recall">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </RecallTypeDialog>
+                      {recallType.isActive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Retire recall"
+                          onClick={() => {
+                            if (confirm(`Stop tracking "${recallType.name}" recalls?`)) deleteMutation.mutate(recallType.id);
+                          }}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// The next openings for the recall's procedure, with the patient's usual
+// provider first
+function BookRecallDialog({ recall, children }: { recall: RecallView; children: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const openingsKey = ['/api/admin/recalls', recall.id, 'openings'];
+
+  const { data, isLoading, error } = useQuery<{ treatmentType: string; starts: Opening[] }>({
+    queryKey: openingsKey,
+    enabled: open,
+    staleTime: 0,
+  });
+  const openings = data?.starts ?? [];
+
+  const bookMutation = useMutation({
+    mutationFn: (opening: Opening) => apiRequest('POST', '/api/appointments', {
+      timeSlotId: opening.id,
+      treatmentType: data?.treatmentType,
+      patientId: recall.patientId,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/recalls'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      setOpen(false);
+      toast({
+        title: "Recall Booked",
+        description: `${data?.treatmentType} is booked for ${recall.patientName}.`,
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        window.location.href = "/api/login";
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: openingsKey });
+      toast({
+        title: "Booking Failed",
+        description: errorMessage(error, "Failed to book appointment."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Book {recall.recallTypeName} for {recall.patientName}</DialogTitle>
+          <DialogDescription>
+            Due {formatDate(recall.dueDate, { month: 'short', day: 'numeric', year: 'numeric' })}
+            {data && ` · books ${data.treatmentType}`}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="animate-pulse bg-gray-200 h-32 rounded"></div>
+        ) : error ? (
+          <p className="text-sm text-red-600 text-center py-6">{errorMessage(error as Error, "Failed to load openings.")}</p>
+        ) : openings.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No openings in the next four weeks. Add time slots or book further out from the calendar.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {openings.map(opening => (
+              <button
+                key={opening.timeSlotIds.join('-')}
+                className="w-full flex justify-between items-center border rounded-lg p-3 text-sm hover:bg-blue-50 disabled:opacity-50"
+                onClick={() => bookMutation.mutate(opening)}
+                disabled={bookMutation.isPending}
+              >
+                <span className="font-medium text-gray-900">
+                  {formatDate(opening.date, { weekday: 'short', month: 'short', day: 'numeric' })} · {formatTime(opening.time)}
+                </span>
+                <span className="text-gray-600">{opening.doctorName}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Staff can bring a patient in sooner or push them out; the next completed
+// visit sets the date from the interval again
+function DueDateDialog({ recall, children }: { recall: RecallView; children: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const [dueDate, setDueDate] = useState(recall.dueDate);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: () => apiRequest('PUT', `/api/admin/recalls/${recall.id}`, { dueDate }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/recalls'] });
+      setOpen(false);
+      toast({
+        title: "Due Date Changed",
+        description: `${recall.patientName} is now due ${formatDate(dueDate, { month: 'short', day: 'numeric', year: 'numeric' })}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to change the due date."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => {
+      setOpen(next);
+      if (next) setDueDate(recall.dueDate);
+    }}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>Change Due Date</DialogTitle>
+          <DialogDescription>
+            {recall.recallTypeName} for {recall.patientName}, last seen {formatDate(recall.lastVisitDate, { month: 'short', day: 'numeric', year: 'numeric' })}
+          </DialogDescription>
+        </DialogHeader>
+        <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={() => mutation.mutate()} disabled={!dueDate || mutation.isPending}>
+            {mutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Patients overdue or coming due for a recall, with notices and booking
+export function RecallList() {
+  const [filters, setFilters] = useState<RecallFilters>({
+    status: 'all',
+    withinDays: '60',
+    recallTypeId: 'all',
+    unscheduled: false,
+  });
+  const { toast } = useToast();
+  const handleError = useErrorToast();
+  const queryClient = useQueryClient();
+
+  const { data: recallTypes = [] } = useQuery<RecallType[]>({
+    queryKey: ['/api/admin/recall-types'],
+  });
+
+  const { data: recalls = [], isLoading } = useQuery<RecallView[]>({
+    queryKey: ['/api/admin/recalls', filters],
+    queryFn: async () => {
+      const params = new URLSearchParams({ status: filters.status, withinDays: filters.withinDays });
+      if (filters.recallTypeId !== 'all') params.set('recallTypeId', filters.recallTypeId);
+      if (filters.unscheduled) params.set('unscheduled', 'true');
+      const response = await fetch(`/api/admin/recalls?${params}`, { credentials: "include" });
+      if (!response.ok) throw new Error('Failed to fetch recalls');
+      return response.json();
+    },
+  });
+
+  const noticeMutation = useMutation({
+    mutationFn: async (recall: RecallView) => {
+      const response = await apiRequest('POST', `/api/admin/recalls/${recall.id}/notice`);
+      return await response.json() as { method: 'email' | 'sms'; recipient: string };
+    },
+    onSuccess: (notice) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/recalls'] });
+      toast({
+        title: "Recall Notice Sent",
+        description: `${notice.method === 'sms' ? 'Text' : 'Email'} sent to ${notice.recipient}.`,
+      });
+    },
+    onError: (error: Error) => handleError(error, "Failed to send recall notice."),
+  });
+
+  const overdueCount = recalls.filter(recall => recall.status === 'overdue').length;
+  const activeTypes = recallTypes.filter(recallType => recallType.isActive);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Hygiene Recalls</CardTitle>
+            <CardDescription>
+              Due dates are set automatically when a matching procedure is completed
+            </CardDescription>
+          </div>
+          <RecallTypesDialog>
+            <Button variant="outline" size="sm">
+              <Settings className="h-4 w-4 mr-2" />
+              Recall Types
+            </Button>
+          </RecallTypesDialog>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <Select
+            value={filters.status}
+            onValueChange={(status) => setFilters({ ...filters, status: status as RecallFilters['status'] })}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Overdue & upcoming</SelectItem>
+              <SelectItem value="overdue">Overdue only</SelectItem>
+              <SelectItem value="upcoming">Upcoming only</SelectItem>
+            </SelectContent>
+          </Select>
+          {filters.status !== 'overdue' && (
+            <Select value={filters.withinDays} onValueChange={(withinDays) => setFilters({ ...filters, withinDays })}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="30">Next 30 days</SelectItem>
+                <SelectItem value="60">Next 60 days</SelectItem>
+                <SelectItem value="90">Next 90 days</SelectItem>
+                <SelectItem value="180">Next 6 months</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={filters.recallTypeId} onValueChange={(recallTypeId) => setFilters({ ...filters, recallTypeId })}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All recall types</SelectItem>
+              {activeTypes.map(recallType => (
+                <SelectItem key={recallType.id} value={recallType.id}>{recallType.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <Checkbox
+              checked={filters.unscheduled}
+              onCheckedChange={(checked) => setFilters({ ...filters, unscheduled: checked === true })}
+            />
+            Not yet booked
+          </label>
+          {!isLoading && (
+            <span className="text-sm text-gray-500 ml-auto">
+              {recalls.length} patients{overdueCount > 0 && `, ${overdueCount} overdue`}
+            </span>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="animate-pulse bg-gray-200 h-12 rounded"></div>
+            ))}
+          </div>
+        ) : recalls.length === 0 ? (
+          <div className="text-center py-8">
+            <CalendarClock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">
+              {activeTypes.length === 0
+                ? "Set up recall types to start tracking when patients are due."
+                : "No patients match these filters."}
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Patient</TableHead>
+                <TableHead>Recall</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead>Last Visit</TableHead>
+                <TableHead>Booked</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {recalls.map(recall => (
+                <TableRow key={recall.id}>
+                  <TableCell>
+                    <PatientLink patientId={recall.patientId} name={recall.patientName} className="font-medium" />
+                    <div className="text-xs text-gray-500">
+                      {recall.contact.phone || recall.contact.email || "No contact details"}
+                      {recall.contact.viaGuardian && ` (via ${recall.contact.viaGuardian})`}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {recall.recallTypeName}
+                    <div className="text-xs text-gray-500">Every {recall.intervalMonths} months</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm">{formatDate(recall.dueDate, { month: 'short', day: 'numeric', year: 'numeric' })}</div>
+                    <Badge className={`${statusStyles[recall.status]} text-xs`}>
+                      {recall.status === 'overdue' ? dueText(recall) : `${recallStatusLabels[recall.status]} · ${dueText(recall).toLowerCase()}`}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {formatDate(recall.lastVisitDate, { month: 'short', day: 'numeric', year: 'numeric' })}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {recall.scheduled ? (
+                      <span className="text-green-700">
+                        {formatDate(recall.scheduled.appointmentDate, { month: 'short', day: 'numeric' })} · {formatTime(recall.scheduled.appointmentTime)}
+                      </span>
+                    ) : (
+                      <span className="text-gray-500">
+                        Not booked
+                        {recall.noticeCount > 0 && recall.lastNoticeAt && (
+                          <span className="block text-xs">
+                            {recall.noticeCount} {recall.noticeCount === 1 ? 'notice' : 'notices'}, last {new Date(recall.lastNoticeAt).toLocaleDateString()}
+                          </span>
+                        )}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      {!recall.scheduled && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="px-2 py-1 h-7 text-xs button-animate"
+                            title="Send recall notice"
+                            onClick={() => noticeMutation.mutate(recall)}
+                            disabled={noticeMutation.isPending}
+                          >
+                            <BellRing className="w-3 h-3" />
+                          </Button>
+                          <BookRecallDialog recall={recall}>
+                            <Button size="sm" variant="outline" className="px-2 py-1 h-7 text-xs button-animate" title="Book recall visit">
+                              <CalendarPlus className="w-3 h-3" />
+                            </Button>
+                          </BookRecallDialog>
+                        </>
+                      )}
+                      <DueDateDialog recall={recall}>
+                        <Button size="sm" variant="outline" className="px-2 py-1 h-7 text-xs button-animate" title="Change due date">
+                          <Edit className="w-3 h-3" />
+                        </Button>
+                      </DueDateDialog>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,6 +11,8 @@ import { Badge } from "@/components/ui/badge";
 import { Mail, MessageSquare, Bell, Send, User, Calendar, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { PatientLink } from "@/components/patient-link";
+import { formatDate, formatTime } from "@shared/datetime";
 
 interface Appointment {
   id: string;
@@ -22,6 +24,16 @@ interface Appointment {
   status: string;
 }
 
+// GET /api/admin/patients/:id/contact
+interface PatientContact {
+  name: string;
+  email: string | null;
+  phone: string | null;
+  preferredMethod: 'email' | 'sms' | 'phone';
+  language: string | null;
+  viaGuardian?: string;
+}
+
 interface ReminderPanelProps {
   appointment: Appointment;
   children: React.ReactNode;
@@ -32,15 +44,24 @@ export function ReminderPanel({ appointment, children }: ReminderPanelProps) {
   const [emailRecipient, setEmailRecipient] = useState("");
   const [phoneNumber, setPhoneNumber] = useState("");
   const [customMessage, setCustomMessage] = useState("");
+  const [channel, setChannel] = useState("email");
   const { toast } = useToast();
 
+  // Recipients default to the patient's profile; staff can still override them
+  const { data: contact } = useQuery<PatientContact>({
+    queryKey: ['/api/admin/patients', appointment.patientId, 'contact'],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!contact) return;
+    setEmailRecipient(current => current || contact.email || "");
+    setPhoneNumber(current => current || contact.phone || "");
+    setChannel(contact.preferredMethod === 'email' ? 'email' : 'sms');
+  }, [contact]);
+
   // Default reminder message
-  const defaultMessage = `Reminder: You have a dental appointment scheduled for ${new Date(appointment.appointmentDate).toLocaleDateString('en-US', { 
-    weekday: 'long',
-    year: 'numeric', 
-    month: 'long', 
-    day: 'numeric' 
-  })} at ${appointment.appointmentTime} with ${appointment.doctorName} for ${appointment.treatmentType}. Please arrive 15 minutes early. Contact us if you need to reschedule.`;
+  const defaultMessage = `Reminder: You have a dental appointment scheduled for ${formatDate(appointment.appointmentDate)} at ${formatTime(appointment.appointmentTime)} with ${appointment.doctorName} for ${appointment.treatmentType}. Please arrive 15 minutes early. Contact us if you need to reschedule.`;
 
   const sendEmailMutation = useMutation({
     mutationFn: async ({ email, message }: { email: string; message: string }) => {
@@ -163,17 +184,12 @@ export function ReminderPanel({ appointment, children }: ReminderPanelProps) {
                   <div className="flex items-center gap-2">
                     <Calendar className="w-4 h-4" />
                     <span>
-                      {new Date(appointment.appointmentDate).toLocaleDateString('en-US', { 
-                        weekday: 'long',
-                        year: 'numeric',
-                        month: 'long', 
-                        day: 'numeric' 
-                      })}
+                      {formatDate(appointment.appointmentDate)}
                     </span>
                   </div>
                   <div className="flex items-center gap-2">
                     <Clock className="w-4 h-4" />
-                    <span>{appointment.appointmentTime}</span>
+                    <span>{formatTime(appointment.appointmentTime)}</span>
                   </div>
                 </div>
               </div>
@@ -192,7 +208,16 @@ export function ReminderPanel({ appointment, children }: ReminderPanelProps) {
           </CardContent>
         </Card>
 
-        <Tabs defaultValue="email" className="w-full">
+        {contact && (
+          <p className="text-sm text-gray-600 -mt-2 mb-2">
+            <PatientLink patientId={appointment.patientId} name={contact.name} className="font-medium" />
+            {contact.viaGuardian && ` (reached through ${contact.viaGuardian})`}
+            {` prefers ${contact.preferredMethod === 'sms' ? 'text messages' : contact.preferredMethod === 'phone' ? 'phone calls' : 'email'}`}
+            {contact.language && `, language: ${contact.language}`}
+          </p>
+        )}
+
+        <Tabs value={channel} onValueChange={setChannel} className="w-full">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="email" className="flex items-center gap-2">
               <Mail className="w-4 h-4" />
@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { usePracticeTime } from "@/hooks/usePracticeTime";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { MedicalAlertBadges } from "@/components/medical-alerts";
+import { PatientLink } from "@/components/patient-link";
+import { hasCapacity, type PracticeHours, type ProviderWithProcedures, type TimeSlot } from "@shared/schema";
+import { assignLanes, nextSteps, requirementCheck, type BoardAppointment } from "@shared/schedule-board";
+import { addDays, formatDate, formatTime, toMinutes, weekdayOf } from "@shared/datetime";
+
+interface ScheduleBoardData {
+  providers: ProviderWithProcedures[];
+  slots: TimeSlot[];
+  appointments: BoardAppointment[];
+  hours: PracticeHours[];
+}
+
+interface Column {
+  date: string;
+  providerId: string | null;
+  label: string;
+}
+
+const statusStyles: Record<string, string> = {
+  pending: 'bg-yellow-100 border-yellow-400 text-yellow-900',
+  confirmed: 'bg-green-100 border-green-500 text-green-900',
+  checked_in: 'bg-blue-100 border-blue-500 text-blue-900',
+  in_chair: 'bg-indigo-100 border-indigo-500 text-indigo-900',
+  completed: 'bg-gray-100 border-gray-400 text-gray-700',
+  no_show: 'bg-red-100 border-red-400 text-red-900',
+};
+
+const MOVABLE_STATUSES = ['pending', 'confirmed'];
+const PX_PER_MINUTE = 1.6;
+const DEFAULT_DAY = { start: 8 * 60, end: 18 * 60 };
+
+// Drawn hours: the practice's office hours, stretched to fit anything booked
+// or scheduled outside them, rounded out to whole hours
+function visibleRange(board: ScheduleBoardData, dates: string[]) {
+  const starts: number[] = [];
+  const ends: number[] = [];
+  for (const day of board.hours.filter(h => dates.some(date => weekdayOf(date) === h.dayOfWeek))) {
+    starts.push(toMinutes(day.openTime));
+    ends.push(toMinutes(day.closeTime));
+  }
+  for (const slot of board.slots) {
+    starts.push(toMinutes(slot.time));
+    ends.push(toMinutes(slot.time) + (slot.duration || 60));
+  }
+  for (const appointment of board.appointments) {
+    starts.push(toMinutes(appointment.appointmentTime));
+    ends.push(toMinutes(appointment.appointmentTime) + appointment.durationMinutes);
+  }
+  if (starts.length === 0) return DEFAULT_DAY;
+  return {
+    start: Math.floor(Math.min(...starts) / 60) * 60,
+    end: Math.ceil(Math.max(...ends) / 60) * 60,
+  };
+}
+
+export function ScheduleBoard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const practiceTime = usePracticeTime();
+  const [view, setView] = useState<'day' | 'week'>('day');
+  const [anchor, setAnchor] = useState(practiceTime.today());
+  const [dragging, setDragging] = useState<BoardAppointment | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const startDate = view === 'day' ? anchor : addDays(anchor, -weekdayOf(anchor));
+  const endDate = view === 'day' ? anchor : addDays(startDate, 6);
+  const dates = Array.from({ length: view === 'day' ? 1 : 7 }, (_, i) => addDays(startDate, i));
+
+  const { data: board, isLoading } = useQuery<ScheduleBoardData>({
+    queryKey: ['/api/admin/schedule', startDate, endDate],
+    staleTime: 30 * 1000,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/schedule'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/timeslots'] });
+  };
+
+  const handleError = useErrorToast();
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ appointment, slot }: { appointment: BoardAppointment; slot: TimeSlot }) => {
+      await apiRequest('POST', `/api/appointments/${appointment.id}/reschedule`, {
+        timeSlotId: slot.id,
+        reason: 'Moved on the schedule board',
+      });
+    },
+    onSuccess: (_, { appointment, slot }) => {
+      refresh();
+      toast({
+        title: "Appointment Moved",
+        description: `${appointment.patientName} is now at ${formatTime(slot.time)} on ${formatDate(slot.date, { weekday: 'short', month: 'short', day: 'numeric' })} with ${slot.doctorName}.`,
+      });
+    },
+    onError: (error: Error) => handleError(error, "Failed to move the appointment."),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, ...change }: { id: string; status: string; requirementMet?: boolean }) => {
+      await apiRequest('PATCH', `/api/appointments/${id}/status`, change);
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => handleError(error, "Failed to update the appointment."),
+  });
+
+  const step = (days: number) => setAnchor(addDays(anchor, view === 'day' ? days : days * 7));
+
+  const providers = board?.providers || [];
+  const unassigned = (board?.appointments || []).some(a => !a.providerId);
+  const columns: Column[] = dates.flatMap(date => [
+    ...providers.map(provider => ({ date, providerId: provider.id, label: provider.name })),
+    ...(unassigned ? [{ date, providerId: null, label: 'Unassigned' }] : []),
+  ]);
+
+  const range = board ? visibleRange(board, dates) : DEFAULT_DAY;
+  const height = (range.end - range.start) * PX_PER_MINUTE;
+  const hourMarks = Array.from({ length: (range.end - range.start) / 60 + 1 }, (_, i) => range.start + i * 60);
+  const top = (time: string) => (toMinutes(time) - range.start) * PX_PER_MINUTE;
+
+  // Any slot with a free seat will do; the server re-checks the whole run
+  // against capacity and office hours when the appointment lands
+  const canDropOn = (slot: TimeSlot) =>
+    !!dragging && (hasCapacity(slot) || slot.id === dragging.timeSlotId);
+
+  const columnWidth = view === 'day' ? 'min-w-[180px] flex-1' : 'min-w-[110px] w-[110px]';
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <CardTitle>Schedule</CardTitle>
+            <CardDescription>
+              {view === 'day'
+                ? formatDate(anchor)
+                : `${formatDate(startDate, { month: 'short', day: 'numeric' })} – ${formatDate(endDate, { month: 'short', day: 'numeric', year: 'numeric' })}`}
+              {' '}· Drag a pending or confirmed appointment onto a free slot to move it
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => step(-1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAnchor(practiceTime.today())}>
+              Today
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => step(1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <div className="flex ml-2">
+              <Button
+                size="sm"
+                variant={view === 'day' ? 'default' : 'outline'}
+                className="rounded-r-none"
+                onClick={() => setView('day')}
+              >
+                Day
+              </Button>
+              <Button
+                size="sm"
+                variant={view === 'week' ? 'default' : 'outline'}
+                className="rounded-l-none"
+                onClick={() => setView('week')}
+              >
+                Week
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse bg-gray-200 h-64 rounded"></div>
+        ) : columns.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No providers have been set up yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <div className="flex min-w-max">
+              <div className="w-16 shrink-0">
+                <div className={view === 'week' ? 'h-14' : 'h-8'}></div>
+                <div className="relative" style={{ height }}>
+                  {hourMarks.map(minutes => (
+                    <span
+                      key={minutes}
+                      className="absolute right-2 -translate-y-1/2 text-xs text-gray-500"
+                      style={{ top: (minutes - range.start) * PX_PER_MINUTE }}
+                    >
+                      {formatTime(`${Math.floor(minutes / 60)}:00`)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              {columns.map((column, index) => {
+                const slots = (board?.slots || []).filter(s => s.date === column.date && s.providerId === column.providerId);
+                const appointments = (board?.appointments || []).filter(a =>
+                  a.appointmentDate === column.date && a.providerId === column.providerId
+                );
+                const { lanes, count } = assignLanes(appointments);
+                const firstOfDay = index === 0 || columns[index - 1].date !== column.date;
+
+                return (
+                  <div key={`${column.date}-${column.providerId}`} className={`${columnWidth} ${firstOfDay ? 'border-l-2 border-gray-300' : 'border-l'}`}>
+                    {view === 'week' && (
+                      <div className="h-6 text-xs font-semibold text-gray-700 px-1 truncate">
+                        {firstOfDay ? formatDate(column.date, { weekday: 'short', month: 'short', day: 'numeric' }) : ''}
+                      </div>
+                    )}
+                    <div className="h-8 px-1 text-xs font-medium text-gray-600 truncate border-b" title={column.label}>
+                      {column.label}
+                    </div>
+                    <div className="relative" style={{ height }}>
+                      {hourMarks.map(minutes => (
+                        <div
+                          key={minutes}
+                          className="absolute inset-x-0 border-t border-gray-100"
+                          style={{ top: (minutes - range.start) * PX_PER_MINUTE }}
+                        />
+                      ))}
+
+                      {slots.map(slot => {
+                        const slotId = slot.id;
+                        return (
+                          <div
+                            key={slotId}
+                            className={`absolute inset-x-0 border-b border-white ${
+                              dropTarget === slotId
+                                ? 'bg-blue-200'
+                                : hasCapacity(slot) ? 'bg-green-50' : 'bg-gray-100'
+                            }`}
+                            style={{ top: top(slot.time), height: (slot.duration || 60) * PX_PER_MINUTE }}
+                            title={`${formatTime(slot.time)} · ${slot.currentBookings || 0}/${slot.maxBookings || 1} booked`}
+                            onDragOver={(e) => {
+                              if (!canDropOn(slot)) return;
+                              e.preventDefault();
+                              setDropTarget(slotId);
+                            }}
+                            onDragLeave={() => setDropTarget(current => current === slotId ? null : current)}
+                            onDrop={(e) => {
+                              e.preventDefault();
+                              setDropTarget(null);
+                              if (dragging && canDropOn(slot) && slot.id !== dragging.timeSlotId) {
+                                moveMutation.mutate({ appointment: dragging, slot });
+                              }
+                              setDragging(null);
+                            }}
+                          />
+                        );
+                      })}
+
+                      {appointments.map(appointment => {
+                        const lane = lanes.get(appointment.id) || 0;
+                        const movable = MOVABLE_STATUSES.includes(appointment.status);
+                        const next = nextSteps[appointment.status];
+                        return (
+                          <div
+                            key={appointment.id}
+                            draggable={movable}
+                            onDragStart={(e) => {
+                              e.dataTransfer.effectAllowed = 'move';
+                              e.dataTransfer.setData('text/plain', appointment.id);
+                              setDragging(appointment);
+                            }}
+                            onDragEnd={() => {
+                              setDragging(null);
+                              setDropTarget(null);
+                            }}
+                            className={`absolute rounded border-l-4 px-1 py-0.5 text-xs overflow-hidden shadow-sm ${
+                              statusStyles[appointment.status] || statusStyles.completed
+                            } ${movable ? 'cursor-move' : ''} ${dragging?.id === appointment.id ? 'opacity-50' : ''} ${
+                              dragging && dragging.id !== appointment.id ? 'pointer-events-none' : ''
+                            }`}
+                            style={{
+                              top: top(appointment.appointmentTime),
+                              height: appointment.durationMinutes * PX_PER_MINUTE,
+                              left: `${(lane / count) * 100}%`,
+                              width: `${100 / count}%`,
+                            }}
+                            title={`${appointment.patientName} · ${appointment.treatmentType} · ${formatTime(appointment.appointmentTime)}–${formatTime(appointment.endTime)} · ${appointment.status.replace('_', ' ')}`}
+                            data-testid={`board-appointment-${appointment.id}`}
+                          >
+                            <div className="flex items-center gap-1">
+                              <MedicalAlertBadges summary={appointment.medicalAlerts} compact />
+                              <PatientLink patientId={appointment.patientId} name={appointment.patientName} className="font-medium truncate" />
+                            </div>
+                            <p className="truncate">
+                              {formatTime(appointment.appointmentTime)} · {appointment.treatmentType}
+                            </p>
+                            {next && appointment.durationMinutes >= 30 && (
+                              <button
+                                className="mt-0.5 rounded bg-white/80 px-1 font-medium hover:bg-white"
+                                onClick={() => {
+                                  const check = requirementCheck(appointment, next.status);
+                                  if (check && !confirm(check)) return;
+                                  statusMutation.mutate({ id: appointment.id, status: next.status, requirementMet: check ? true : undefined });
+                                }}
+                                disabled={statusMutation.isPending}
+                              >
+                                {next.label}
+                              </button>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,456 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Plus, Edit } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { type ProviderWithProcedures, type ScheduleTemplate } from "@shared/schema";
+import { z } from "zod";
+
+export const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const slotTypes = [
+  { value: "general", label: "General Appointment" },
+  { value: "emergency", label: "Emergency" },
+  { value: "consultation", label: "Consultation" },
+  { value: "cleaning", label: "Cleaning" },
+  { value: "followup", label: "Follow-up" },
+];
+
+const formSchema = z.object({
+  providerId: z.string().min(1, "Doctor is required"),
+  daysOfWeek: z.array(z.number()).min(1, "Pick at least one day"),
+  startTime: z.string().min(1, "Start time is required"),
+  endTime: z.string().min(1, "End time is required"),
+  slotDuration: z.number().min(5).max(240),
+  breakStart: z.string().optional(),
+  breakEnd: z.string().optional(),
+  slotType: z.string(),
+  slotTypesByDay: z.record(z.string()),
+  maxBookings: z.number().min(1).max(10),
+  effectiveFrom: z.string().optional(),
+  effectiveUntil: z.string().optional(),
+}).refine((data) => data.startTime < data.endTime, {
+  message: "End time must be after start time",
+  path: ["endTime"],
+}).refine((data) => !data.breakStart === !data.breakEnd, {
+  message: "Set both ends of the break or neither",
+  path: ["breakEnd"],
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+interface ScheduleTemplateFormProps {
+  template?: ScheduleTemplate;
+  trigger?: React.ReactNode;
+}
+
+export function ScheduleTemplateForm({ template, trigger }: ScheduleTemplateFormProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: providers = [] } = useQuery<ProviderWithProcedures[]>({
+    queryKey: ['/api/providers'],
+  });
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      providerId: "",
+      daysOfWeek: [1, 2, 3, 4, 5],
+      startTime: "08:00",
+      endTime: "17:00",
+      slotDuration: 30,
+      breakStart: "12:00",
+      breakEnd: "13:00",
+      slotType: "general",
+      slotTypesByDay: {},
+      maxBookings: 1,
+      effectiveFrom: "",
+      effectiveUntil: "",
+    },
+  });
+
+  useEffect(() => {
+    if (template) {
+      form.reset({
+        providerId: template.providerId,
+        daysOfWeek: template.daysOfWeek,
+        startTime: template.startTime,
+        endTime: template.endTime,
+        slotDuration: template.slotDuration,
+        breakStart: template.breakStart || "",
+        breakEnd: template.breakEnd || "",
+        slotType: template.slotType || "general",
+        slotTypesByDay: template.slotTypesByDay || {},
+        maxBookings: template.maxBookings || 1,
+        effectiveFrom: template.effectiveFrom || "",
+        effectiveUntil: template.effectiveUntil || "",
+      });
+    }
+  }, [template, form]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const method = template ? 'PUT' : 'POST';
+      const url = template ? `/api/schedule-templates/${template.id}` : '/api/schedule-templates';
+
+      // Blank optional fields go to the backend as null; overrides for days
+      // that are no longer selected are dropped
+      const slotTypesByDay = Object.fromEntries(
+        Object.entries(data.slotTypesByDay).filter(([day]) => data.daysOfWeek.includes(Number(day)))
+      );
+      await apiRequest(method, url, {
+        ...data,
+        breakStart: data.breakStart || null,
+        breakEnd: data.breakEnd || null,
+        effectiveFrom: data.effectiveFrom || null,
+        effectiveUntil: data.effectiveUntil || null,
+        slotTypesByDay,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule-templates'] });
+      toast({
+        title: "Success",
+        description: `Schedule ${template ? 'updated' : 'created'} successfully!`,
+      });
+      setOpen(false);
+      if (!template) form.reset();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: `Failed to ${template ? 'update' : 'create'} schedule. Please try again.`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: FormData) => {
+    mutation.mutate(data);
+  };
+
+  const selectedDays = form.watch("daysOfWeek");
+  const defaultSlotType = form.watch("slotType");
+
+  const defaultTrigger = template ? (
+    <Button variant="outline" size="sm">
+      <Edit className="h-4 w-4" />
+    </Button>
+  ) : (
+    <Button>
+      <Plus className="h-4 w-4 mr-2" />
+      Add Schedule
+    </Button>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger || defaultTrigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {template ? "Edit Weekly Schedule" : "Add Weekly Schedule"}
+          </DialogTitle>
+          <DialogDescription>
+            Time slots are generated from this schedule for the upcoming weeks.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="providerId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Doctor</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select doctor" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {providers.map(provider => (
+                        <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="daysOfWeek"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Working Days</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {weekdays.map((label, day) => (
+                      <label key={label} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(day)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked
+                                ? [...field.value, day].sort((a, b) => a - b)
+                                : field.value.filter((d) => d !== day)
+                            )
+                          }
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start Time</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="endTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End Time</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="breakStart"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lunch Break Start</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="breakEnd"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lunch Break End</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="slotDuration"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Slot Length (min)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="maxBookings"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Bookings</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="slotType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Slot Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {slotTypes.map(type => (
+                          <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="slotTypesByDay"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Slot Type by Day</FormLabel>
+                  <div className="grid grid-cols-2 gap-2">
+                    {selectedDays.map(day => (
+                      <div key={day} className="flex items-center gap-2">
+                        <span className="w-10 text-sm text-gray-600">{weekdays[day]}</span>
+                        <Select
+                          value={field.value[String(day)] || "default"}
+                          onValueChange={(value) => {
+                            const next = { ...field.value };
+                            if (value === "default") {
+                              delete next[String(day)];
+                            } else {
+                              next[String(day)] = value;
+                            }
+                            field.onChange(next);
+                          }}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="default">
+                              Default ({slotTypes.find(t => t.value === defaultSlotType)?.label || defaultSlotType})
+                            </SelectItem>
+                            {slotTypes.map(type => (
+                              <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="effectiveFrom"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Effective From</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="effectiveUntil"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Effective Until</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending
+                  ? (template ? "Updating..." : "Creating...")
+                  : (template ? "Update" : "Create")}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
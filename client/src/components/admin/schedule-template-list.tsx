@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Trash2, Clock, RefreshCw } from "lucide-react";
+import { ScheduleTemplateForm, weekdays, slotTypes } from "./schedule-template-form";
+import { ScheduleExceptionForm } from "./schedule-exception-form";
+import { apiRequest } from "@/lib/queryClient";
+import { type ProviderWithProcedures, type ScheduleTemplate, type ScheduleException } from "@shared/schema";
+
+interface GenerateResult {
+  created: number;
+  skippedDates: string[];
+}
+
+export function ScheduleTemplateList() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [horizonDays, setHorizonDays] = useState(28);
+
+  const { data: templates = [], isLoading } = useQuery<ScheduleTemplate[]>({
+    queryKey: ['/api/schedule-templates'],
+  });
+
+  const { data: exceptions = [] } = useQuery<ScheduleException[]>({
+    queryKey: ['/api/schedule-exceptions'],
+  });
+
+  const { data: providers = [] } = useQuery<ProviderWithProcedures[]>({
+    queryKey: ['/api/admin/providers'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/schedule-templates/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule-templates'] });
+      toast({
+        title: "Success",
+        description: "Schedule deleted. Slots already generated are kept.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete schedule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteExceptionMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/schedule-exceptions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule-exceptions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/timeslots'] });
+      toast({
+        title: "Success",
+        description: "Exception removed. The regular schedule applies again.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove exception. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async (days: number): Promise<GenerateResult> => {
+      const response = await apiRequest('POST', '/api/schedule-templates/generate', { days });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/timeslots'] });
+      toast({
+        title: "Slots Generated",
+        description: `Created ${result.created} time slots. ${result.skippedDates.length} days already had slots and were left as they were.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to generate time slots. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const providerName = (providerId: string) =>
+    providers.find(p => p.id === providerId)?.name || "Unknown provider";
+
+  const formatDays = (days: number[]) => days.map(day => weekdays[day]).join(", ");
+
+  const formatSlotType = (type: string | null) =>
+    slotTypes.find(t => t.value === type)?.label || type || "General Appointment";
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Weekly Schedules</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="animate-pulse space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 dark:bg-gray-800 rounded" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Weekly Schedules</CardTitle>
+              <CardDescription>
+                Recurring working hours used to generate bookable time slots
+              </CardDescription>
+            </div>
+            <ScheduleTemplateForm />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-600">Generate slots for the next</span>
+            <Input
+              type="number"
+              className="w-20"
+              min={1}
+              max={180}
+              value={horizonDays}
+              onChange={(e) => setHorizonDays(parseInt(e.target.value) || 1)}
+            />
+            <span className="text-sm text-gray-600">days</span>
+            <Button
+              variant="outline"
+              onClick={() => generateMutation.mutate(horizonDays)}
+              disabled={generateMutation.isPending || templates.length === 0}
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              {generateMutation.isPending ? "Generating..." : "Generate"}
+            </Button>
+          </div>
+
+          {templates.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-gray-500 dark:text-gray-400">
+                No weekly schedules yet. Add one to start generating time slots.
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Doctor</TableHead>
+                  <TableHead>Days</TableHead>
+                  <TableHead>Hours</TableHead>
+                  <TableHead>Slots</TableHead>
+                  <TableHead>Effective</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => (
+                  <TableRow key={template.id}>
+                    <TableCell className="font-medium">{providerName(template.providerId)}</TableCell>
+                    <TableCell>{formatDays(template.daysOfWeek)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center">
+                        <Clock className="h-4 w-4 mr-1" />
+                        {template.startTime}–{template.endTime}
+                      </div>
+                      {template.breakStart && template.breakEnd && (
+                        <div className="text-xs text-gray-500">
+                          Break {template.breakStart}–{template.breakEnd}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div>{template.slotDuration}m × {template.maxBookings || 1}</div>
+                      <Badge variant="secondary">{formatSlotType(template.slotType)}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {template.effectiveFrom || "Now"} – {template.effectiveUntil || "Ongoing"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <ScheduleTemplateForm template={template} />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => deleteMutation.mutate(template.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Upcoming Exceptions</CardTitle>
+              <CardDescription>
+                Days off and one-off hour changes
+              </CardDescription>
+            </div>
+            <ScheduleExceptionForm />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {exceptions.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400 text-center py-4">
+              No upcoming exceptions.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Doctor</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {exceptions.map((exception) => (
+                  <TableRow key={exception.id}>
+                    <TableCell className="font-medium">{exception.date}</TableCell>
+                    <TableCell>{providerName(exception.providerId)}</TableCell>
+                    <TableCell>
+                      {exception.type === "closed" ? (
+                        <Badge variant="destructive">Day off</Badge>
+                      ) : (
+                        <Badge variant="secondary">{exception.startTime}–{exception.endTime}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{exception.reason}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => deleteExceptionMutation.mutate(exception.id)}
+                        disabled={deleteExceptionMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
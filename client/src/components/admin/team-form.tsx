@@ -10,6 +10,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { insertTeamMemberSchema } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { uploadFile } from "@/lib/uploads";
 import { Upload, X, Loader2 } from "lucide-react";
 import { z } from "zod";
 
@@ -72,8 +73,8 @@ export default function TeamForm({ onClose, member }: TeamFormProps) {
     }
   };
 
-  // Compress and convert file to base64 for simple storage
-  const fileToBase64 = (file: File): Promise<string> => {
+  // Shrink the photo to at most 800px a side as a JPEG before uploading
+  const compressImage = (file: File): Promise<Blob> => {
     return new Promise((resolve, reject) => {
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d');
@@ -99,8 +100,11 @@ export default function TeamForm({ onClose, member }: TeamFormProps) {
         
         // Draw and compress
         ctx?.drawImage(img, 0, 0, width, height);
-        const compressedDataUrl = canvas.toDataURL('image/jpeg', 0.85); // 85% quality for better images
-        resolve(compressedDataUrl);
+        canvas.toBlob(
+          (blob) => blob ? resolve(blob) : reject(new Error('Failed to process image')),
+          'image/jpeg',
+          0.85, // 85% quality for better images
+        );
       };
       
       img.onerror = () => reject(new Error('Failed to load image'));
@@ -112,14 +116,11 @@ export default function TeamForm({ onClose, member }: TeamFormProps) {
     mutationFn: async (data: TeamFormData) => {
       let finalData = { ...data };
       
-      // If a file is selected, convert to base64 and use as imageUrl
+      // If a file is selected, upload it and point imageUrl at the stored copy
       if (selectedFile) {
-        try {
-          const base64 = await fileToBase64(selectedFile);
-          finalData.imageUrl = base64;
-        } catch (error) {
-          throw new Error('Failed to process image');
-        }
+        const photo = await compressImage(selectedFile);
+        const stored = await uploadFile(photo, selectedFile.name.replace(/\.[^.]*$/, '') + '.jpg', { category: 'team_photo' });
+        finalData.imageUrl = stored.url;
       }
       
       if (member) {
@@ -0,0 +1,477 @@
+import { useState } from "react";
+import { useFieldArray, useForm, useWatch, type Control } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Pencil, Plus, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCents, TreatmentPlanCard, type TreatmentPlanView } from "@/components/treatment-plans";
+import {
+  toothSurfaces,
+  treatmentPlanSchema,
+  treatmentPlanStatuses,
+  type Procedure,
+  type TreatmentPlanInput,
+  type TreatmentPlanItemInput,
+} from "@shared/schema";
+import { estimate, treatmentPlanStatusLabels } from "@shared/treatment-plan";
+
+const emptyItem: TreatmentPlanItemInput = {
+  procedureId: "",
+  tooth: "",
+  surfaces: [],
+  feeCents: undefined,
+  coveragePercent: 0,
+  notes: "",
+};
+
+const emptyPlan: TreatmentPlanInput = {
+  title: "",
+  notes: "",
+  phases: [{ name: "Phase 1", items: [emptyItem] }],
+};
+
+function planInput(plan: TreatmentPlanView): TreatmentPlanInput {
+  return {
+    title: plan.title,
+    notes: plan.notes ?? "",
+    phases: plan.phases.map(phase => ({
+      name: phase.name,
+      items: phase.items.map(item => ({
+        procedureId: item.procedureId,
+        tooth: item.tooth ?? "",
+        surfaces: item.surfaces,
+        feeCents: item.feeCents,
+        coveragePercent: item.coveragePercent,
+        notes: item.notes ?? "",
+      })),
+    })),
+  };
+}
+
+interface PhaseFieldsProps {
+  control: Control<TreatmentPlanInput>;
+  index: number;
+  procedures: Procedure[];
+  onRemove?: () => void;
+}
+
+function PhaseFields({ control, index, procedures, onRemove }: PhaseFieldsProps) {
+  const items = useFieldArray({ control, name: `phases.${index}.items` });
+  const values = useWatch({ control, name: `phases.${index}.items` }) || [];
+  const priceOf = (procedureId: string) => procedures.find(p => p.id === procedureId)?.priceCents ?? 0;
+  const phaseEstimate = estimate(values.map(item => ({
+    feeCents: item.feeCents ?? priceOf(item.procedureId),
+    coveragePercent: item.coveragePercent || 0,
+  })));
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="flex items-start gap-2">
+        <FormField
+          control={control}
+          name={`phases.${index}.name`}
+          render={({ field }) => (
+            <FormItem className="flex-1">
+              <FormLabel className="text-xs">Phase {index + 1}</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Urgent care" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {onRemove && (
+          <Button type="button" variant="ghost" size="sm" className="mt-6" title="Remove phase" onClick={onRemove}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {items.fields.map((field, itemIndex) => {
+        const name = `phases.${index}.items.${itemIndex}` as const;
+        const procedureId = values[itemIndex]?.procedureId;
+        return (
+          <div key={field.id} className="grid grid-cols-2 md:grid-cols-[2fr_0.7fr_1.3fr_1fr_0.8fr_auto] gap-2 items-start">
+            <FormField
+              control={control}
+              name={`${name}.procedureId`}
+              render={({ field }) => (
+                <FormItem className="col-span-2 md:col-span-1">
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Procedure" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {procedures.map(procedure => (
+                        <SelectItem key={procedure.id} value={procedure.id}>
+                          {procedure.name}
+                          {procedure.priceCents != null && ` · ${formatCents(procedure.priceCents)}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`${name}.tooth`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input placeholder="Tooth" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`${name}.surfaces`}
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex gap-1 pt-1">
+                    {toothSurfaces.map(surface => (
+                      <Button
+                        key={surface}
+                        type="button"
+                        size="sm"
+                        variant={field.value.includes(surface) ? "default" : "outline"}
+                        className="h-8 w-7 px-0 text-xs"
+                        onClick={() => field.onChange(
+                          field.value.includes(surface) ? field.value.filter(s => s !== surface) : [...field.value, surface]
+                        )}
+                      >
+                        {surface}
+                      </Button>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`${name}.feeCents`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      title="Fee; leave blank for the procedure's price"
+                      placeholder={procedureId ? (priceOf(procedureId) / 100).toFixed(2) : "Fee"}
+                      value={field.value === undefined ? "" : field.value / 100}
+                      onChange={(e) => field.onChange(e.target.value === "" ? undefined : Math.round(parseFloat(e.target.value) * 100))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`${name}.coveragePercent`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="100"
+                      title="Estimated insurance coverage (%)"
+                      value={field.value}
+                      onChange={(e) => field.onChange(e.target.value === "" ? 0 : parseInt(e.target.value, 10))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              title="Remove procedure"
+              onClick={() => items.remove(itemIndex)}
+              disabled={items.fields.length === 1}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+            <FormField
+              control={control}
+              name={`${name}.notes`}
+              render={({ field }) => (
+                <FormItem className="col-span-2 md:col-span-6">
+                  <FormControl>
+                    <Input placeholder="Notes for the patient (optional)" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        );
+      })}
+
+      <div className="flex justify-between items-center">
+        <Button type="button" variant="outline" size="sm" onClick={() => items.append(emptyItem)}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Procedure
+        </Button>
+        <span className="text-xs text-gray-600">
+          {formatCents(phaseEstimate.feeCents)} · patient est. {formatCents(phaseEstimate.patientCents)}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+interface TreatmentPlanFormProps {
+  patientId: string;
+  plan?: TreatmentPlanView;
+  onDone: () => void;
+}
+
+function TreatmentPlanForm({ patientId, plan, onDone }: TreatmentPlanFormProps) {
+  const { toast } = useToast();
+  const handleError = useErrorToast();
+  const queryClient = useQueryClient();
+
+  const { data: procedures = [] } = useQuery<Procedure[]>({
+    queryKey: ['/api/procedures'],
+  });
+
+  const form = useForm<TreatmentPlanInput>({
+    resolver: zodResolver(treatmentPlanSchema),
+    defaultValues: plan ? planInput(plan) : emptyPlan,
+  });
+  const phases = useFieldArray({ control: form.control, name: "phases" });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: TreatmentPlanInput) => plan
+      ? apiRequest('PUT', `/api/admin/treatment-plans/${plan.id}`, data)
+      : apiRequest('POST', `/api/admin/patients/${patientId}/treatment-plans`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/patients', patientId, 'treatment-plans'] });
+      toast({
+        title: plan ? "Plan Updated" : "Plan Created",
+        description: plan ? "The patient sees the revised plan." : "The plan is waiting for the patient to accept it.",
+      });
+      onDone();
+    },
+    onError: (error: Error) => handleError(error, "Failed to save treatment plan."),
+  });
+
+  const activeProcedures = procedures.filter(p => p.isActive !== false);
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => saveMutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Title</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Restore lower right quadrant" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <p className="text-xs text-gray-500">
+          Tooth, surfaces, fee and coverage % per procedure. A blank fee uses the procedure's current price.
+        </p>
+        {phases.fields.map((field, index) => (
+          <PhaseFields
+            key={field.id}
+            control={form.control}
+            index={index}
+            procedures={activeProcedures}
+            onRemove={phases.fields.length > 1 ? () => phases.remove(index) : undefined}
+          />
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => phases.append({ name: `Phase ${phases.fields.length + 1}`, items: [emptyItem] })}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Phase
+        </Button>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onDone}>Cancel</Button>
+          <Button type="submit" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : plan ? "Save Plan" : "Propose Plan"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+interface TreatmentPlanManagerProps {
+  patientId: string;
+  patientName?: string;
+  children: React.ReactNode;
+}
+
+// Staff view of a patient's plans: propose new ones, revise them until the
+// patient accepts, and move them along by hand when needed.
+export function TreatmentPlanManager({ patientId, patientName, children }: TreatmentPlanManagerProps) {
+  const [open, setOpen] = useState(false);
+  // null lists the plans, 'new' proposes one, an id edits that plan
+  const [editing, setEditing] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const plansKey = ['/api/patients', patientId, 'treatment-plans'];
+
+  const { data: plans = [], isLoading } = useQuery<TreatmentPlanView[]>({
+    queryKey: plansKey,
+    enabled: open,
+  });
+
+  const handleError = useErrorToast();
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: string }) =>
+      apiRequest('PATCH', `/api/admin/treatment-plans/${id}/status`, { status }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: plansKey }),
+    onError: (error: Error) => handleError(error, "Failed to update plan status."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/admin/treatment-plans/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: plansKey });
+      toast({ title: "Plan Deleted", description: "The treatment plan was removed." });
+    },
+    onError: (error: Error) => handleError(error, "Failed to delete plan."),
+  });
+
+  const editingPlan = editing && editing !== 'new' ? plans.find(plan => plan.id === editing) : undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => {
+      setOpen(value);
+      if (!value) setEditing(null);
+    }}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Treatment Plans{patientName ? ` · ${patientName}` : ''}</DialogTitle>
+          <DialogDescription>
+            {editing ? "Plans can be revised until the patient accepts them." : "Proposed plans wait for the patient to accept them."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing ? (
+          <TreatmentPlanForm
+            key={editing}
+            patientId={patientId}
+            plan={editingPlan}
+            onDone={() => setEditing(null)}
+          />
+        ) : isLoading ? (
+          <div className="animate-pulse bg-gray-200 h-48 rounded"></div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <Button size="sm" onClick={() => setEditing('new')}>
+                <Plus className="w-4 h-4 mr-1" />
+                New Plan
+              </Button>
+            </div>
+            {plans.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-6">No treatment plans yet.</p>
+            )}
+            {plans.map(plan => (
+              <TreatmentPlanCard
+                key={plan.id}
+                plan={plan}
+                actions={
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Select
+                      value={plan.status}
+                      onValueChange={(status) => statusMutation.mutate({ id: plan.id, status })}
+                    >
+                      <SelectTrigger className="h-8 w-32 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {treatmentPlanStatuses.map(status => (
+                          <SelectItem key={status} value={status}>{treatmentPlanStatusLabels[status]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {plan.status === 'proposed' && (
+                      <Button size="sm" variant="ghost" title="Edit plan" onClick={() => setEditing(plan.id)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Delete plan"
+                      onClick={() => {
+                        if (confirm(`Delete "${plan.title}"? Booked appointments are kept.`)) deleteMutation.mutate(plan.id);
+                      }}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                }
+              />
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
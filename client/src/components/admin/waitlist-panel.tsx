@@ -0,0 +1,108 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PatientLink } from "@/components/patient-link";
+import { type Procedure, type ProviderWithProcedures, type WaitlistEntryWithOffers } from "@shared/schema";
+
+type AdminWaitlistEntry = WaitlistEntryWithOffers & { patientName: string };
+
+export function WaitlistPanel() {
+  const { data: entries = [], isLoading } = useQuery<AdminWaitlistEntry[]>({
+    queryKey: ['/api/admin/waitlist'],
+    refetchInterval: 60 * 1000,
+  });
+
+  const { data: procedures = [] } = useQuery<Procedure[]>({
+    queryKey: ['/api/procedures'],
+  });
+
+  const { data: providers = [] } = useQuery<ProviderWithProcedures[]>({
+    queryKey: ['/api/admin/providers'],
+  });
+
+  const procedureName = (id: string) => procedures.find(p => p.id === id)?.name || "Unknown procedure";
+
+  const formatProviders = (providerIds: string[]) => {
+    if (providerIds.length === 0) return "Any doctor";
+    return providers
+      .filter(p => providerIds.includes(p.id))
+      .map(p => p.name)
+      .join(", ");
+  };
+
+  const formatExpiry = (entry: AdminWaitlistEntry) => {
+    const offer = entry.offers.find(o => o.status === 'pending');
+    if (!offer) return null;
+    return new Date(offer.expiresAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Waitlist</CardTitle>
+        <CardDescription>
+          Patients are offered freed slots in sign-up order
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="animate-pulse bg-gray-200 h-12 rounded"></div>
+            ))}
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">Nobody is waiting</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Patient</TableHead>
+                <TableHead>Wants</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell>
+                    <PatientLink patientId={entry.patientId} name={entry.patientName} className="font-medium" />
+                  </TableCell>
+                  <TableCell>
+                    <div>{procedureName(entry.procedureId)}</div>
+                    <div className="text-xs text-gray-500">{formatProviders(entry.providerIds)}</div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    <div>{entry.earliestDate} – {entry.latestDate}</div>
+                    {entry.earliestTime && entry.latestTime && (
+                      <div className="text-xs">{entry.earliestTime}–{entry.latestTime}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {entry.status === 'offered' ? (
+                      <div>
+                        <Badge>Offered</Badge>
+                        <div className="text-xs text-gray-500 mt-1">until {formatExpiry(entry)}</div>
+                      </div>
+                    ) : (
+                      <Badge variant="secondary">Waiting</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,13 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Calendar, Clock, User, RefreshCw, CalendarPlus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { usePracticeTime } from "@/hooks/usePracticeTime";
+import { formatDate, formatTime } from "@shared/datetime";
+import { calendarFileUrl } from "@/lib/calendarUtils";
+import { MedicalAlertBadges, useMedicalAlerts } from "@/components/medical-alerts";
+import { PatientLink, usePatientNames } from "@/components/patient-link";
+import { IntakeStatusBadge, useIntakeStatus } from "@/components/admin/intake-status";
 
 interface Appointment {
   id: string;
@@ -25,6 +32,7 @@ interface AllAppointmentsPopupProps {
 export function AllAppointmentsPopup({ children }: AllAppointmentsPopupProps) {
   const [open, setOpen] = useState(false);
   const { toast } = useToast();
+  const practiceTime = usePracticeTime();
   const queryClient = useQueryClient();
 
   const { data: appointments, isLoading, refetch, isFetching } = useQuery<Appointment[]>({
@@ -37,59 +45,20 @@ export function AllAppointmentsPopup({ children }: AllAppointmentsPopupProps) {
     enabled: open,
   });
 
-  // Function to create calendar reminder
-  const createCalendarReminder = (appointment: Appointment) => {
-    const [time, period] = appointment.appointmentTime.split(' ');
-    const [hours, minutes] = time.split(':').map((num: string) => parseInt(num));
-    const hour24 = period === 'PM' && hours !== 12 ? hours + 12 : (period === 'AM' && hours === 12 ? 0 : hours);
-    
-    const startDate = new Date(appointment.appointmentDate + 'T00:00:00');
-    startDate.setHours(hour24, minutes, 0, 0);
-    
-    const endDate = new Date(startDate);
-    endDate.setHours(startDate.getHours() + 1); // Assume 1 hour appointment
-    
-    // Format dates for calendar URL (YYYYMMDDTHHMMSS)
-    const formatDate = (date: Date) => {
-      return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-    };
-    
-    const startDateTime = formatDate(startDate);
-    const endDateTime = formatDate(endDate);
-    
-    // Create calendar URL
-    const title = encodeURIComponent(`Dental Appointment - ${appointment.treatmentType}`);
-    const details = encodeURIComponent(`Appointment with ${appointment.doctorName} for ${appointment.treatmentType}`);
-    const location = encodeURIComponent('Dental Clinic');
-    
-    // Google Calendar URL
-    const googleUrl = `https://calendar.google.com/calendar/render?action=TEMPLATE&text=${title}&dates=${startDateTime}/${endDateTime}&details=${details}&location=${location}`;
-    
-    // Try to detect if user prefers Google Calendar or download ICS
-    if (navigator.userAgent.includes('Chrome') || navigator.userAgent.includes('Edge')) {
-      window.open(googleUrl, '_blank');
-    } else {
-      // Create and download ICS file
-      const icsContent = `BEGIN:VCALENDAR
-VERSION:2.0
-PRODID:-//Dental Clinic//Appointment Reminder//EN
-BEGIN:VEVENT
-UID:${appointment.id}@dental.clinic
-DTSTART:${startDateTime}
-DTEND:${endDateTime}
-SUMMARY:${decodeURIComponent(title)}
-DESCRIPTION:${decodeURIComponent(details)}
-LOCATION:${decodeURIComponent(location)}
-END:VEVENT
-END:VCALENDAR`;
-      
-      const blob = new Blob([icsContent], { type: 'text/calendar;charset=utf-8' });
-      const link = document.createElement('a');
-      link.href = window.URL.createObjectURL(blob);
-      link.download = `dental-appointment-${appointment.appointmentDate}.ics`;
-      link.click();
-    }
-  };
+  // Staff see each patient's allergies and alerts
+  const { user } = useAuth();
+  const medicalAlerts = useMedicalAlerts(
+    (appointments || []).flatMap(appointment => appointment.patientId ? [appointment.patientId] : []),
+    open && user?.role === 'admin',
+  );
+  const patientNames = usePatientNames(
+    (appointments || []).flatMap(appointment => appointment.patientId ? [appointment.patientId] : []),
+    open && user?.role === 'admin',
+  );
+  const intakeStatus = useIntakeStatus(
+    (appointments || []).map(appointment => appointment.id),
+    open && user?.role === 'admin',
+  );
 
   const handleRefresh = () => {
     refetch();
@@ -103,29 +72,13 @@ END:VCALENDAR`;
 
   // Sort appointments by date and time
   const sortedAppointments = appointments?.sort((a, b) => {
-    const parseDateTime = (appointment: Appointment) => {
-      const [time, period] = appointment.appointmentTime.split(' ');
-      const [hours, minutes] = time.split(':').map((num: string) => parseInt(num));
-      const hour24 = period === 'PM' && hours !== 12 ? hours + 12 : (period === 'AM' && hours === 12 ? 0 : hours);
-      const date = new Date(appointment.appointmentDate + 'T00:00:00');
-      date.setHours(hour24, minutes, 0, 0);
-      return date;
-    };
-    
-    return parseDateTime(b).getTime() - parseDateTime(a).getTime(); // Most recent first
+    // Most recent first
+    return b.appointmentDate.localeCompare(a.appointmentDate) || b.appointmentTime.localeCompare(a.appointmentTime);
   }) || [];
 
   const getStatusColor = (status: string, appointmentDate: string, appointmentTime: string) => {
     // Check if appointment time has passed
-    const [time, period] = appointmentTime.split(' ');
-    const [hours, minutes] = time.split(':').map((num: string) => parseInt(num));
-    const hour24 = period === 'PM' && hours !== 12 ? hours + 12 : (period === 'AM' && hours === 12 ? 0 : hours);
-    
-    const appointmentDateTime = new Date(appointmentDate + 'T00:00:00');
-    appointmentDateTime.setHours(hour24, minutes, 0, 0);
-    
-    const now = new Date();
-    const isPast = appointmentDateTime < now;
+    const isPast = practiceTime.startOf(appointmentDate, appointmentTime) < new Date();
     
     if (isPast && status.toLowerCase() === 'pending') {
       return 'bg-red-100 text-red-700 border-red-200';
@@ -140,6 +93,11 @@ END:VCALENDAR`;
         return 'bg-gray-100 text-gray-700 border-gray-200';
       case 'completed':
         return 'bg-blue-100 text-blue-700 border-blue-200';
+      case 'checked_in':
+      case 'in_chair':
+        return 'bg-indigo-100 text-indigo-700 border-indigo-200';
+      case 'no_show':
+        return 'bg-red-100 text-red-700 border-red-200';
       default:
         return 'bg-gray-100 text-gray-700 border-gray-200';
     }
@@ -184,15 +142,7 @@ END:VCALENDAR`;
             <div className="space-y-4">
               {sortedAppointments.map((appointment) => {
                 // Check if appointment time has passed
-                const [time, period] = appointment.appointmentTime.split(' ');
-                const [hours, minutes] = time.split(':').map((num: string) => parseInt(num));
-                const hour24 = period === 'PM' && hours !== 12 ? hours + 12 : (period === 'AM' && hours === 12 ? 0 : hours);
-                
-                const appointmentDateTime = new Date(appointment.appointmentDate + 'T00:00:00');
-                appointmentDateTime.setHours(hour24, minutes, 0, 0);
-                
-                const now = new Date();
-                const isPast = appointmentDateTime < now;
+                const isPast = practiceTime.startOf(appointment.appointmentDate, appointment.appointmentTime) < new Date();
                 const isMissed = isPast && appointment.status.toLowerCase() === 'pending';
 
                 return (
@@ -215,6 +165,20 @@ END:VCALENDAR`;
                               {isMissed ? 'MISSED' : appointment.status.toUpperCase()}
                             </Badge>
                           </div>
+
+                          {user?.role === 'admin' && appointment.patientId && (
+                            <div className="mb-2 text-sm">
+                              <PatientLink patientId={appointment.patientId} name={patientNames[appointment.patientId]} className="font-medium" />
+                            </div>
+                          )}
+                          {appointment.patientId && (
+                            <MedicalAlertBadges summary={medicalAlerts[appointment.patientId]} className="mb-2" />
+                          )}
+                          {intakeStatus[appointment.id] && (
+                            <div className="mb-2">
+                              <IntakeStatusBadge appointmentId={appointment.id} forms={intakeStatus[appointment.id]} />
+                            </div>
+                          )}
                           
                           <div className="space-y-1 text-sm text-gray-600">
                             <div className="flex items-center gap-2">
@@ -224,18 +188,13 @@ END:VCALENDAR`;
                             <div className="flex items-center gap-2">
                               <Calendar className="w-4 h-4" />
                               <span>
-                                {new Date(appointment.appointmentDate).toLocaleDateString('en-US', { 
-                                  weekday: 'long',
-                                  year: 'numeric',
-                                  month: 'long', 
-                                  day: 'numeric' 
-                                })}
+                                {formatDate(appointment.appointmentDate)}
                               </span>
                             </div>
                             <div className="flex items-center gap-2">
                               <Clock className="w-4 h-4" />
                               <span className={isPast ? 'text-red-600 font-medium' : ''}>
-                                {appointment.appointmentTime}
+                                {formatTime(appointment.appointmentTime)}
                               </span>
                             </div>
                           </div>
@@ -252,13 +211,18 @@ END:VCALENDAR`;
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => createCalendarReminder(appointment)}
                               className="flex items-center gap-1 px-3 py-1 h-8 text-xs"
                               title="Add to Calendar"
-                              data-testid={`button-calendar-${appointment.id}`}
+                              asChild
                             >
-                              <CalendarPlus className="w-3 h-3" />
-                              Remind
+                              <a
+                                href={calendarFileUrl(appointment.id)}
+                                download
+                                data-testid={`button-calendar-${appointment.id}`}
+                              >
+                                <CalendarPlus className="w-3 h-3" />
+                                Remind
+                              </a>
                             </Button>
                           )}
                         </div>
@@ -4,9 +4,13 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Calendar, Clock, User, Trash2, CheckCircle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Calendar, Clock, User, CheckCircle, CalendarClock, XCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { usePracticeTime } from "@/hooks/usePracticeTime";
+import { formatDate, formatTime } from "@shared/datetime";
 
 interface Appointment {
   id: string;
@@ -19,14 +23,35 @@ interface Appointment {
   notes?: string;
 }
 
+interface ChangePolicy {
+  cutoffHours: number;
+  maxReschedules: number;
+}
+
+interface TimeSlot {
+  id: string;
+  date: string;
+  time: string;
+  doctorName: string;
+  endTime?: string;
+}
+
+// The open change form on one appointment card
+type PendingChange = { appointmentId: string; action: 'reschedule' | 'cancel' };
+
 interface AppointmentsPopupProps {
   children: React.ReactNode;
 }
 
 export function AppointmentsPopup({ children }: AppointmentsPopupProps) {
   const [open, setOpen] = useState(false);
-  const [selectedAppointments, setSelectedAppointments] = useState<string[]>([]);
+  const [pendingChange, setPendingChange] = useState<PendingChange | null>(null);
+  const [newDate, setNewDate] = useState('');
+  const [newSlotId, setNewSlotId] = useState('');
+  const [reason, setReason] = useState('');
   const { toast } = useToast();
+  const { user } = useAuth();
+  const practiceTime = usePracticeTime();
   const queryClient = useQueryClient();
 
   const { data: appointments, isLoading } = useQuery<Appointment[]>({
@@ -39,91 +64,108 @@ export function AppointmentsPopup({ children }: AppointmentsPopupProps) {
     enabled: open,
   });
 
-  const cleanupMutation = useMutation({
-    mutationFn: async (appointmentIds: string[]) => {
-      const response = await fetch('/api/appointments/cleanup', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ appointmentIds })
-      });
-      if (!response.ok) throw new Error('Failed to cleanup appointments');
+  const { data: policy } = useQuery<ChangePolicy>({
+    queryKey: ['/api/appointment-policy'],
+    enabled: open,
+  });
+
+  const reschedulingAppointment = pendingChange?.action === 'reschedule'
+    ? appointments?.find(apt => apt.id === pendingChange.appointmentId)
+    : undefined;
+
+  const { data: newSlots = [], isLoading: slotsLoading } = useQuery<TimeSlot[]>({
+    queryKey: ['/api/timeslots', newDate, reschedulingAppointment?.treatmentType],
+    queryFn: async () => {
+      const params = new URLSearchParams({ procedure: reschedulingAppointment!.treatmentType });
+      const response = await fetch(`/api/timeslots/${newDate}?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch timeslots');
       return response.json();
     },
+    enabled: !!reschedulingAppointment && !!newDate,
+  });
+
+  const closeChange = () => {
+    setPendingChange(null);
+    setNewDate('');
+    setNewSlotId('');
+    setReason('');
+  };
+
+  const onChangeError = (error: Error) => {
+    toast({
+      title: "Could Not Change Appointment",
+      description: errorMessage(error, "Please try again."),
+      variant: "destructive",
+    });
+    queryClient.invalidateQueries({ queryKey: ['/api/timeslots'] });
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      apiRequest('POST', `/api/appointments/${id}/cancel`, { reason: reason || undefined }),
     onSuccess: () => {
       toast({
-        title: "Success",
-        description: "Missed appointments have been cleaned up",
+        title: "Appointment Cancelled",
+        description: "Your time slot has been released.",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
-      setSelectedAppointments([]);
+      queryClient.invalidateQueries({ queryKey: ['/api/timeslots'] });
+      closeChange();
     },
-    onError: (error) => {
+    onError: onChangeError,
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: ({ id, timeSlotId, reason }: { id: string; timeSlotId: string; reason: string }) =>
+      apiRequest('POST', `/api/appointments/${id}/reschedule`, { timeSlotId, reason: reason || undefined }),
+    onSuccess: () => {
       toast({
-        title: "Error",
-        description: "Failed to clean up appointments",
-        variant: "destructive",
+        title: "Appointment Rescheduled",
+        description: "Your appointment has been moved to the new time.",
       });
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/timeslots'] });
+      closeChange();
     },
+    onError: onChangeError,
   });
 
-  const missedAppointments = appointments?.filter(apt => {
-    const today = new Date();
-    const appointmentDate = new Date(`${apt.appointmentDate}T${apt.appointmentTime}`);
-    return appointmentDate < today && apt.status === 'pending';
-  }) || [];
+  const appointmentStart = (appointment: Appointment) =>
+    practiceTime.startOf(appointment.appointmentDate, appointment.appointmentTime);
 
-  const upcomingAppointments = appointments?.filter(apt => {
-    const today = new Date();
-    const appointmentDate = new Date(`${apt.appointmentDate}T${apt.appointmentTime}`);
-    return appointmentDate >= today;
-  }) || [];
-
-  const handleSelectAppointment = (id: string) => {
-    setSelectedAppointments(prev => 
-      prev.includes(id) 
-        ? prev.filter(appointmentId => appointmentId !== id)
-        : [...prev, id]
-    );
+  // Mirrors the server's notice period so the buttons aren't offered when
+  // the change would be refused anyway
+  const canChange = (appointment: Appointment) => {
+    if (appointment.patientId !== user?.id) return false;
+    if (appointment.status !== 'pending' && appointment.status !== 'confirmed') return false;
+    if (!policy) return false;
+    return appointmentStart(appointment).getTime() - Date.now() >= policy.cutoffHours * 60 * 60 * 1000;
   };
 
-  const handleSelectAllMissed = () => {
-    const missedIds = missedAppointments.map(apt => apt.id);
-    setSelectedAppointments(prev => 
-      prev.length === missedIds.length ? [] : missedIds
-    );
+  const openChange = (appointmentId: string, action: PendingChange['action']) => {
+    closeChange();
+    setPendingChange({ appointmentId, action });
   };
 
-  const handleCleanup = () => {
-    if (selectedAppointments.length > 0) {
-      cleanupMutation.mutate(selectedAppointments);
-    }
-  };
+  // Marked automatically by the server once the grace period has passed
+  const missedAppointments = appointments?.filter(apt => apt.status === 'no_show') || [];
+
+  const upcomingAppointments = appointments?.filter(apt => appointmentStart(apt) >= new Date()) || [];
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed': return 'bg-green-100 text-green-800';
       case 'pending': return 'bg-yellow-100 text-yellow-800';
       case 'cancelled': return 'bg-red-100 text-red-800';
+      case 'checked_in':
+      case 'in_chair': return 'bg-blue-100 text-blue-800';
+      case 'no_show': return 'bg-red-100 text-red-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const formatDate = (dateStr: string) => {
-    return new Date(dateStr).toLocaleDateString('en-US', {
-      weekday: 'short',
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric'
-    });
-  };
-
-  const formatTime = (timeStr: string) => {
-    return new Date(`2000-01-01T${timeStr}`).toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    });
-  };
+  const formatShortDate = (dateStr: string) =>
+    formatDate(dateStr, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -150,48 +192,16 @@ export function AppointmentsPopup({ children }: AppointmentsPopupProps) {
               {/* Missed Appointments Section */}
               {missedAppointments.length > 0 && (
                 <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <h3 className="text-lg font-semibold text-red-600">
-                      Missed Appointments ({missedAppointments.length})
-                    </h3>
-                    <div className="flex gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={handleSelectAllMissed}
-                        data-testid="button-select-all-missed"
-                      >
-                        {selectedAppointments.length === missedAppointments.length ? 'Deselect All' : 'Select All'}
-                      </Button>
-                      <Button
-                        variant="destructive"
-                        size="sm"
-                        onClick={handleCleanup}
-                        disabled={selectedAppointments.length === 0 || cleanupMutation.isPending}
-                        data-testid="button-cleanup-missed"
-                      >
-                        <Trash2 className="h-4 w-4 mr-1" />
-                        Clean Up Selected ({selectedAppointments.length})
-                      </Button>
-                    </div>
-                  </div>
+                  <h3 className="text-lg font-semibold text-red-600">
+                    Missed Appointments ({missedAppointments.length})
+                  </h3>
                   
                   <div className="grid gap-3">
                     {missedAppointments.map((appointment) => (
-                      <Card 
-                        key={appointment.id} 
-                        className={`border-red-200 ${selectedAppointments.includes(appointment.id) ? 'ring-2 ring-red-300' : ''}`}
-                      >
+                      <Card key={appointment.id} className="border-red-200">
                         <CardContent className="p-4">
                           <div className="flex items-center justify-between">
                             <div className="flex items-center gap-3">
-                              <input
-                                type="checkbox"
-                                checked={selectedAppointments.includes(appointment.id)}
-                                onChange={() => handleSelectAppointment(appointment.id)}
-                                className="h-4 w-4 text-red-600"
-                                data-testid={`checkbox-appointment-${appointment.id}`}
-                              />
                               <div>
                                 <div className="flex items-center gap-2 mb-1">
                                   <User className="h-4 w-4 text-gray-500" />
@@ -206,7 +216,7 @@ export function AppointmentsPopup({ children }: AppointmentsPopupProps) {
                                 <div className="flex items-center gap-4 text-sm text-gray-500">
                                   <span className="flex items-center gap-1">
                                     <Calendar className="h-3 w-3" />
-                                    {formatDate(appointment.appointmentDate)}
+                                    {formatShortDate(appointment.appointmentDate)}
                                   </span>
                                   <span className="flex items-center gap-1">
                                     <Clock className="h-3 w-3" />
@@ -225,9 +235,16 @@ export function AppointmentsPopup({ children }: AppointmentsPopupProps) {
 
               {/* Upcoming Appointments Section */}
               <div className="space-y-4">
-                <h3 className="text-lg font-semibold text-green-600">
-                  Upcoming Appointments ({upcomingAppointments.length})
-                </h3>
+                <div>
+                  <h3 className="text-lg font-semibold text-green-600">
+                    Upcoming Appointments ({upcomingAppointments.length})
+                  </h3>
+                  {policy && (
+                    <p className="text-xs text-gray-500">
+                      You can cancel or reschedule online up to {policy.cutoffHours} hours before your appointment, and reschedule each appointment up to {policy.maxReschedules} times.
+                    </p>
+                  )}
+                </div>
                 
                 <div className="grid gap-3 max-h-96 overflow-y-auto">
                   {upcomingAppointments.map((appointment) => (
@@ -249,7 +266,7 @@ export function AppointmentsPopup({ children }: AppointmentsPopupProps) {
                             <div className="flex items-center gap-4 text-sm text-gray-500">
                               <span className="flex items-center gap-1">
                                 <Calendar className="h-3 w-3" />
-                                {formatDate(appointment.appointmentDate)}
+                                {formatShortDate(appointment.appointmentDate)}
                               </span>
                               <span className="flex items-center gap-1">
                                 <Clock className="h-3 w-3" />
@@ -257,7 +274,100 @@ export function AppointmentsPopup({ children }: AppointmentsPopupProps) {
                               </span>
                             </div>
                           </div>
+                          {canChange(appointment) && pendingChange?.appointmentId !== appointment.id && (
+                            <div className="flex gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openChange(appointment.id, 'reschedule')}
+                                data-testid={`button-reschedule-${appointment.id}`}
+                              >
+                                <CalendarClock className="h-4 w-4 mr-1" />
+                                Reschedule
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-red-600 hover:text-red-700"
+                                onClick={() => openChange(appointment.id, 'cancel')}
+                                data-testid={`button-cancel-${appointment.id}`}
+                              >
+                                <XCircle className="h-4 w-4 mr-1" />
+                                Cancel
+                              </Button>
+                            </div>
+                          )}
                         </div>
+
+                        {pendingChange?.appointmentId === appointment.id && (
+                          <div className="mt-4 pt-4 border-t space-y-3">
+                            {pendingChange.action === 'reschedule' && (
+                              <>
+                                <div className="flex items-center gap-2">
+                                  <span className="text-sm text-gray-600">New date</span>
+                                  <Input
+                                    type="date"
+                                    className="w-44"
+                                    value={newDate}
+                                    min={practiceTime.today()}
+                                    onChange={(e) => {
+                                      setNewDate(e.target.value);
+                                      setNewSlotId('');
+                                    }}
+                                  />
+                                </div>
+                                {newDate && (
+                                  slotsLoading ? (
+                                    <p className="text-sm text-gray-500">Loading times...</p>
+                                  ) : newSlots.length === 0 ? (
+                                    <p className="text-sm text-gray-500">No open times on this day.</p>
+                                  ) : (
+                                    <div className="grid grid-cols-3 gap-2">
+                                      {newSlots.map(slot => (
+                                        <Button
+                                          key={slot.id}
+                                          variant={newSlotId === slot.id ? 'default' : 'outline'}
+                                          size="sm"
+                                          onClick={() => setNewSlotId(slot.id)}
+                                        >
+                                          {formatTime(slot.time)} · {slot.doctorName}
+                                        </Button>
+                                      ))}
+                                    </div>
+                                  )
+                                )}
+                              </>
+                            )}
+                            <Input
+                              placeholder="Reason (optional)"
+                              value={reason}
+                              onChange={(e) => setReason(e.target.value)}
+                            />
+                            <div className="flex justify-end gap-2">
+                              <Button variant="ghost" size="sm" onClick={closeChange}>
+                                Keep Appointment
+                              </Button>
+                              {pendingChange.action === 'reschedule' ? (
+                                <Button
+                                  size="sm"
+                                  disabled={!newSlotId || rescheduleMutation.isPending}
+                                  onClick={() => rescheduleMutation.mutate({ id: appointment.id, timeSlotId: newSlotId, reason })}
+                                >
+                                  {rescheduleMutation.isPending ? 'Moving...' : 'Confirm New Time'}
+                                </Button>
+                              ) : (
+                                <Button
+                                  variant="destructive"
+                                  size="sm"
+                                  disabled={cancelMutation.isPending}
+                                  onClick={() => cancelMutation.mutate({ id: appointment.id, reason })}
+                                >
+                                  {cancelMutation.isPending ? 'Cancelling...' : 'Confirm Cancellation'}
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        )}
                       </CardContent>
                     </Card>
                   ))}
@@ -0,0 +1,53 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { type Dependent } from "@shared/schema";
+
+const MYSELF = "self";
+
+interface BookingForSelectProps {
+  // A dependent's id, or "" for the logged-in patient
+  value: string;
+  onChange: (patientId: string) => void;
+  label?: string;
+  className?: string;
+}
+
+// Who an appointment is being booked for. Hidden until the patient has added
+// family members.
+export function BookingForSelect({ value, onChange, label = "Booking For", className }: BookingForSelectProps) {
+  const { data: dependents = [] } = useQuery<Dependent[]>({
+    queryKey: ['/api/dependents'],
+  });
+
+  if (dependents.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <Select
+        value={value || MYSELF}
+        onValueChange={(selected) => onChange(selected === MYSELF ? "" : selected)}
+      >
+        <SelectTrigger className="form-field-animate focus-ring-animate">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={MYSELF}>Myself</SelectItem>
+          {dependents.map(dependent => (
+            <SelectItem key={dependent.id} value={dependent.id}>
+              {dependent.firstName} {dependent.lastName}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
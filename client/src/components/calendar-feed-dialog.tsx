@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Copy, ExternalLink, RefreshCw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface CalendarFeed {
+  url: string;
+}
+
+interface CalendarFeedDialogProps {
+  // Returns { url }; POST `${feedPath}/rotate` replaces the link
+  feedPath: string;
+  title: string;
+  description: string;
+  children: React.ReactNode;
+}
+
+// A private subscription link calendar apps can poll for appointments
+export function CalendarFeedDialog({ feedPath, title, description, children }: CalendarFeedDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: feed, isLoading } = useQuery<CalendarFeed>({
+    queryKey: [feedPath],
+    enabled: open,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (): Promise<CalendarFeed> => {
+      const response = await apiRequest('POST', `${feedPath}/rotate`);
+      return response.json();
+    },
+    onSuccess: (rotated) => {
+      queryClient.setQueryData([feedPath], rotated);
+      toast({
+        title: "Link Reset",
+        description: "The old link no longer works. Subscribe again with the new one.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to reset the calendar link. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = async () => {
+    if (!feed) return;
+    await navigator.clipboard.writeText(feed.url);
+    toast({
+      title: "Copied",
+      description: "Paste the link into your calendar app's \"subscribe by URL\" option.",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !feed ? (
+          <div className="animate-pulse bg-gray-200 h-10 rounded"></div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input readOnly value={feed.url} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="sm" onClick={copyLink} title="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Anyone with this link can see these appointments. Reset it if it has been shared by mistake.
+            </p>
+            <div className="flex justify-between">
+              <Button
+                variant="outline"
+                onClick={() => rotateMutation.mutate()}
+                disabled={rotateMutation.isPending}
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                {rotateMutation.isPending ? "Resetting..." : "Reset Link"}
+              </Button>
+              <Button asChild>
+                <a href={feed.url.replace(/^https?:/, 'webcal:')}>
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  Open in Calendar App
+                </a>
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,13 +8,36 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { ChevronLeft, ChevronRight, Calendar as CalendarIcon } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { usePracticeTime } from "@/hooks/usePracticeTime";
+import { useLiveUpdates } from "@/hooks/useLiveUpdates";
+import { BookingForSelect } from "@/components/booking-for-select";
+import { addDays, formatDate, formatTime, weekdayOf } from "@shared/datetime";
+import { hasCapacity } from "@shared/schema";
 
 interface TimeSlot {
   id: string;
   date: string;
   time: string;
   isAvailable: boolean;
+  blockedByStaff: boolean;
+  currentBookings: number | null;
+  maxBookings: number | null;
+  providerId: string | null;
   doctorName: string;
+  endTime?: string;
+}
+
+interface Provider {
+  id: string;
+  name: string;
+  specialties: string[];
+  procedureIds: string[];
+}
+
+interface Procedure {
+  id: string;
+  name: string;
+  duration: number;
 }
 
 export default function Calendar() {
@@ -22,42 +45,42 @@ export default function Calendar() {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const [selectedDate, setSelectedDate] = useState<string>('');
-  const [selectedTime, setSelectedTime] = useState<string>('');
+  const [selectedSlotId, setSelectedSlotId] = useState<string>('');
   const [selectedDoctor, setSelectedDoctor] = useState<string>('');
   const [treatmentType, setTreatmentType] = useState<string>('');
-  const [currentMonth, setCurrentMonth] = useState(new Date());
+  const [bookingFor, setBookingFor] = useState<string>('');
+  const { today } = usePracticeTime();
+  useLiveUpdates(['timeslots']);
+  // First of the month being shown, as a practice-local date
+  const [currentMonth, setCurrentMonth] = useState(() => `${today().slice(0, 7)}-01`);
 
-  const currentDate = new Date();
-  const year = currentMonth.getFullYear();
-  const month = currentMonth.getMonth();
-  
-  // Get first day of month and number of days
-  const firstDay = new Date(year, month, 1);
-  const lastDay = new Date(year, month + 1, 0);
-  const daysInMonth = lastDay.getDate();
-  const startingDayOfWeek = firstDay.getDay();
+  const todayDate = today();
+  const nextMonth = `${addDays(currentMonth, 31).slice(0, 7)}-01`;
+  const previousMonth = `${addDays(currentMonth, -1).slice(0, 7)}-01`;
+  const daysInMonth = parseInt(addDays(nextMonth, -1).slice(8), 10);
+  const startingDayOfWeek = weekdayOf(currentMonth);
 
   // Generate calendar days
   const calendarDays = [];
   
   // Add empty cells for days before month starts
-  for (let i = 0; i < startingDayOfWeek; i++) {
-    const prevDate = new Date(year, month, -startingDayOfWeek + i + 1);
+  for (let i = startingDayOfWeek; i > 0; i--) {
+    const fullDate = addDays(currentMonth, -i);
     calendarDays.push({
-      date: prevDate.getDate(),
+      date: parseInt(fullDate.slice(8), 10),
       isCurrentMonth: false,
-      fullDate: prevDate.toISOString().split('T')[0],
+      fullDate,
     });
   }
   
   // Add days of current month
   for (let day = 1; day <= daysInMonth; day++) {
-    const date = new Date(year, month, day);
+    const fullDate = addDays(currentMonth, day - 1);
     calendarDays.push({
       date: day,
       isCurrentMonth: true,
-      fullDate: date.toISOString().split('T')[0],
-      isPast: date < currentDate,
+      fullDate,
+      isPast: fullDate < todayDate,
     });
   }
 
@@ -80,23 +103,40 @@ export default function Calendar() {
     enabled: !!selectedDate,
   });
 
+  const { data: procedures } = useQuery<Procedure[]>({
+    queryKey: ["/api/procedures"],
+  });
+
+  const { data: providers = [] } = useQuery<Provider[]>({
+    queryKey: ["/api/providers"],
+  });
+
+  // The preferred dentist from whoever's being booked for is picked by default
+  const { data: profile } = useQuery<{ preferredProviderId?: string | null }>({
+    queryKey: [`/api/patients/${bookingFor || user?.id}/profile`],
+    enabled: !!user,
+  });
+
   const createAppointmentMutation = useMutation({
     mutationFn: async (appointmentData: {
-      doctorName: string;
+      timeSlotId: string;
       treatmentType: string;
-      appointmentDate: string;
-      appointmentTime: string;
-    }) => {
-      await apiRequest('POST', '/api/appointments', appointmentData);
+      patientId?: string;
+    }): Promise<{ bookingRequirement?: 'deposit' | 'confirmation' }> => {
+      const response = await apiRequest('POST', '/api/appointments', appointmentData);
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (appointment) => {
       queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/timeslots'] });
       toast({
         title: "Request Sent",
-        description: "Sending request for the appointment, we will call for confirmation",
+        description: appointment.bookingRequirement === 'deposit'
+          ? "Because of previous missed appointments, a deposit is needed before we can confirm this booking. We will call you."
+          : "Sending request for the appointment, we will call for confirmation",
       });
       setSelectedDate('');
-      setSelectedTime('');
+      setSelectedSlotId('');
       setSelectedDoctor('');
       setTreatmentType('');
     },
@@ -112,6 +152,16 @@ export default function Calendar() {
         }, 500);
         return;
       }
+      if (error.message.startsWith('409')) {
+        queryClient.invalidateQueries({ queryKey: ['/api/timeslots'] });
+        setSelectedSlotId('');
+        toast({
+          title: "Time No Longer Available",
+          description: "Someone just booked that time. Please pick another slot.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to book appointment. Please try again.",
@@ -121,26 +171,18 @@ export default function Calendar() {
   });
 
   const navigateMonth = (direction: 'prev' | 'next') => {
-    setCurrentMonth(prev => {
-      const newDate = new Date(prev);
-      if (direction === 'prev') {
-        newDate.setMonth(prev.getMonth() - 1);
-      } else {
-        newDate.setMonth(prev.getMonth() + 1);
-      }
-      return newDate;
-    });
+    setCurrentMonth(direction === 'prev' ? previousMonth : nextMonth);
   };
 
   const handleDateClick = (fullDate: string, isPast: boolean) => {
     if (isPast) return;
     setSelectedDate(fullDate);
-    setSelectedTime('');
+    setSelectedSlotId('');
     setSelectedDoctor('');
   };
 
   const handleBookAppointment = () => {
-    if (!selectedDate || !selectedTime || !selectedDoctor || !treatmentType) {
+    if (!selectedDate || !selectedSlotId || !selectedDoctor || !treatmentType) {
       toast({
         title: "Error",
         description: "Please select all required fields",
@@ -150,18 +192,15 @@ export default function Calendar() {
     }
 
     createAppointmentMutation.mutate({
-      doctorName: selectedDoctor,
+      timeSlotId: selectedSlotId,
       treatmentType,
-      appointmentDate: selectedDate,
-      appointmentTime: selectedTime,
+      patientId: bookingFor || undefined,
     });
   };
 
-  const availableSlots = timeSlots?.filter(slot => slot.isAvailable) || [];
-  const doctors = Array.from(new Set(availableSlots.map(slot => slot.doctorName)));
+  const availableSlots = timeSlots?.filter(hasCapacity) || [];
   const availableTimes = availableSlots
-    .filter(slot => !selectedDoctor || slot.doctorName === selectedDoctor)
-    .map(slot => slot.time);
+    .filter(slot => !selectedDoctor || slot.providerId === selectedDoctor);
 
   // Debug logging for troubleshooting time slots
   useEffect(() => {
@@ -175,8 +214,18 @@ export default function Calendar() {
     }
   }, [selectedDate, timeSlots, availableSlots, availableTimes, selectedDoctor]);
 
-  // Always use actual doctors from available slots, or show default options
-  const doctorsList = doctors.length > 0 ? doctors : ["Dr. Sarah Johnson", "Dr. Mike Chen", "Dr. James Wilson"];
+  // Only offer providers who perform the chosen treatment; an empty procedure list means unrestricted
+  const selectedProcedure = procedures?.find(p => p.name === treatmentType);
+  const doctorsList = providers.filter(provider =>
+    !selectedProcedure || provider.procedureIds.length === 0 || provider.procedureIds.includes(selectedProcedure.id)
+  );
+
+  const preferredDoctor = profile?.preferredProviderId;
+  useEffect(() => {
+    if (selectedDate && !selectedDoctor && preferredDoctor && doctorsList.some(p => p.id === preferredDoctor)) {
+      setSelectedDoctor(preferredDoctor);
+    }
+  }, [selectedDate, selectedDoctor, preferredDoctor, doctorsList]);
 
   return (
     <Card className="card-elevated glass-effect">
@@ -196,7 +245,7 @@ export default function Calendar() {
               <ChevronLeft className="w-4 h-4" />
             </Button>
             <span className="text-lg font-semibold text-gradient min-w-[120px] text-center">
-              {currentMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+              {formatDate(currentMonth, { month: 'long', year: 'numeric' })}
             </span>
             <Button
               variant="ghost"
@@ -260,32 +309,45 @@ export default function Calendar() {
         {selectedDate && (
           <div className="pt-6 border-t border-gray-200 space-y-4">
             <h4 className="text-md font-medium text-gray-900">
-              Book for {new Date(selectedDate).toLocaleDateString('en-US', { 
-                weekday: 'long', 
-                year: 'numeric', 
-                month: 'long', 
-                day: 'numeric' 
-              })}
+              Book for {formatDate(selectedDate)}
             </h4>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <BookingForSelect value={bookingFor} onChange={setBookingFor} />
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Treatment Type
                 </label>
-                <Select value={treatmentType} onValueChange={setTreatmentType}>
+                <Select
+                  value={treatmentType}
+                  onValueChange={(value) => {
+                    setTreatmentType(value);
+                    setSelectedSlotId('');
+                    setSelectedDoctor('');
+                  }}
+                >
                   <SelectTrigger className="form-field-animate focus-ring-animate">
                     <SelectValue placeholder="Select treatment" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="new-patient">New Patient Consultation (Don't know what you need?)</SelectItem>
-                    <SelectItem value="cleaning">Routine Cleaning</SelectItem>
-                    <SelectItem value="checkup">General Checkup</SelectItem>
-                    <SelectItem value="filling">Dental Filling</SelectItem>
-                    <SelectItem value="root-canal">Root Canal</SelectItem>
-                    <SelectItem value="crown">Crown Placement</SelectItem>
-                    <SelectItem value="extraction">Tooth Extraction</SelectItem>
-                    <SelectItem value="orthodontics">Orthodontic Consultation</SelectItem>
+                    {procedures && procedures.length > 0 ? (
+                      procedures.map(procedure => (
+                        <SelectItem key={procedure.id} value={procedure.name}>
+                          {procedure.name} ({procedure.duration} min)
+                        </SelectItem>
+                      ))
+                    ) : (
+                      <>
+                        <SelectItem value="new-patient">New Patient Consultation (Don't know what you need?)</SelectItem>
+                        <SelectItem value="cleaning">Routine Cleaning</SelectItem>
+                        <SelectItem value="checkup">General Checkup</SelectItem>
+                        <SelectItem value="filling">Dental Filling</SelectItem>
+                        <SelectItem value="root-canal">Root Canal</SelectItem>
+                        <SelectItem value="crown">Crown Placement</SelectItem>
+                        <SelectItem value="extraction">Tooth Extraction</SelectItem>
+                        <SelectItem value="orthodontics">Orthodontic Consultation</SelectItem>
+                      </>
+                    )}
                   </SelectContent>
                 </Select>
               </div>
@@ -294,14 +356,20 @@ export default function Calendar() {
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Doctor
                 </label>
-                <Select value={selectedDoctor} onValueChange={setSelectedDoctor}>
+                <Select
+                  value={selectedDoctor}
+                  onValueChange={(value) => {
+                    setSelectedDoctor(value);
+                    setSelectedSlotId('');
+                  }}
+                >
                   <SelectTrigger className="form-field-animate focus-ring-animate">
                     <SelectValue placeholder="Select doctor" />
                   </SelectTrigger>
                   <SelectContent>
-                    {doctorsList.map(doctor => (
-                      <SelectItem key={doctor} value={doctor}>
-                        {doctor}
+                    {doctorsList.map(provider => (
+                      <SelectItem key={provider.id} value={provider.id}>
+                        {provider.name}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -317,21 +385,21 @@ export default function Calendar() {
                   </label>
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
                     {availableTimes.length > 0 ? (
-                      availableTimes.map(time => (
+                      availableTimes.map(slot => (
                         <Button
-                          key={time}
-                          variant={selectedTime === time ? "default" : "outline"}
+                          key={slot.id}
+                          variant={selectedSlotId === slot.id ? "default" : "outline"}
                           size="sm"
-                          onClick={() => setSelectedTime(time)}
-                          className={`text-sm transition-all duration-200 button-animate ${selectedTime === time ? 'gradient-primary text-white shadow-lg transform scale-105' : 'hover:bg-blue-50 hover:border-blue-300 hover:shadow-md'}`}
+                          onClick={() => setSelectedSlotId(slot.id)}
+                          className={`text-sm transition-all duration-200 button-animate ${selectedSlotId === slot.id ? 'gradient-primary text-white shadow-lg transform scale-105' : 'hover:bg-blue-50 hover:border-blue-300 hover:shadow-md'}`}
                         >
-                          {time}
+                          {slot.endTime ? `${formatTime(slot.time)} - ${formatTime(slot.endTime)}` : formatTime(slot.time)}
                         </Button>
                       ))
                     ) : timeSlots && timeSlots.length === 0 ? (
                       <div className="col-span-full text-center py-4">
                         <p className="text-gray-500 text-sm">
-                          No time slots available for {new Date(selectedDate).toLocaleDateString()}
+                          No time slots available for {formatDate(selectedDate, { dateStyle: 'short' })}
                         </p>
                         <p className="text-gray-400 text-xs mt-1">
                           Please select a different date or contact admin to create time slots.
@@ -347,7 +415,7 @@ export default function Calendar() {
 
                 <Button
                   onClick={handleBookAppointment}
-                  disabled={!selectedTime || !treatmentType || createAppointmentMutation.isPending}
+                  disabled={!selectedSlotId || !treatmentType || createAppointmentMutation.isPending}
                   className="w-full btn-primary-gradient font-semibold py-3 text-lg button-animate"
                 >
                   {createAppointmentMutation.isPending ? "Booking..." : "Book Selected Time"}
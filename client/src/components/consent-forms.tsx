@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { FileText } from "lucide-react";
+import { SignaturePad } from "@/components/signature-pad";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { type ConsentTemplate, type SignedConsentRecord } from "@shared/schema";
+
+// GET /api/appointments/:id/consents
+export interface AppointmentConsent {
+  template: Pick<ConsentTemplate, 'id' | 'title' | 'body' | 'version'>;
+  signed: (Omit<SignedConsentRecord, 'signedAt'> & { signedAt: string }) | null;
+}
+
+export const consentsKey = (appointmentId: string) => ['/api/appointments', appointmentId, 'consents'];
+
+export const consentPdfUrl = (consentId: string) => `/api/consents/${consentId}/pdf`;
+
+// "Signed by ... on ..." with a link to the archived PDF
+export function SignedConsentLine({ signed }: { signed: NonNullable<AppointmentConsent['signed']> }) {
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-600">
+      <span>Signed by {signed.signerName} on {new Date(signed.signedAt).toLocaleString()}</span>
+      <a
+        href={consentPdfUrl(signed.id)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+        data-testid={`link-consent-pdf-${signed.id}`}
+      >
+        <FileText className="w-3 h-3" />
+        PDF
+      </a>
+    </div>
+  );
+}
+
+interface ConsentSignFormProps {
+  appointmentId: string;
+  consent: AppointmentConsent;
+  onDone: () => void;
+}
+
+// The full consent text, then typed name, agreement and a drawn signature
+export function ConsentSignForm({ appointmentId, consent, onDone }: ConsentSignFormProps) {
+  const { template } = consent;
+  const [signerName, setSignerName] = useState("");
+  const [agreed, setAgreed] = useState(false);
+  const [signature, setSignature] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const signMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/appointments/${appointmentId}/consents/${template.id}`, {
+      templateVersion: template.version,
+      signerName: signerName.trim(),
+      agreed,
+      signature,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: consentsKey(appointmentId) });
+      toast({
+        title: "Consent Signed",
+        description: "A signed copy has been saved with your appointment.",
+      });
+      onDone();
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        window.location.href = "/api/login";
+        return;
+      }
+      // A newer version may have been published while the patient was reading
+      queryClient.invalidateQueries({ queryKey: consentsKey(appointmentId) });
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to sign consent."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const ready = signerName.trim().length >= 2 && agreed && !!signature;
+
+  return (
+    <div className="space-y-4">
+      <div className="max-h-72 overflow-y-auto border rounded-lg p-4 bg-gray-50 text-sm text-gray-800 whitespace-pre-wrap">
+        {template.body}
+      </div>
+      <label className="flex items-start gap-2 text-sm text-gray-700">
+        <Checkbox checked={agreed} onCheckedChange={(checked) => setAgreed(checked === true)} className="mt-0.5" />
+        I have read and understood this consent and agree to it.
+      </label>
+      <div className="space-y-1">
+        <Label htmlFor="consent-signer-name" className="text-sm">Full name</Label>
+        <Input id="consent-signer-name" value={signerName} onChange={(e) => setSignerName(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-sm">Signature</Label>
+        <SignaturePad onChange={setSignature} />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onDone}>Back</Button>
+        <Button onClick={() => signMutation.mutate()} disabled={!ready || signMutation.isPending}>
+          {signMutation.isPending ? "Signing..." : "Sign"}
+        </Button>
+      </div>
+    </div>
+  );
+}
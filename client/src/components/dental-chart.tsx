@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { type ToothChartEntry, type ToothSurface } from "@shared/schema";
+import {
+  chartAsOf,
+  isPrimaryTooth,
+  mesialOnRight,
+  permanentArches,
+  primaryArches,
+  toothConditionLabels,
+  toothLabel,
+  toothSurfaceLabels,
+  type ToothNumbering,
+} from "@shared/dental-chart";
+
+// GET /api/patients/:id/chart
+export type ChartEntry = Omit<ToothChartEntry, 'recordedAt' | 'resolvedAt'> & {
+  recordedAt: string;
+  resolvedAt: string | null;
+};
+
+const surfaceColors: Record<string, string> = {
+  caries: 'bg-red-500',
+  filling: 'bg-blue-500',
+  sealant: 'bg-green-400',
+  fracture: 'bg-orange-400',
+};
+
+// Short tags for conditions that cover the whole tooth
+const toothTags: Record<string, { tag: string; className: string }> = {
+  crown: { tag: 'CR', className: 'bg-amber-100 text-amber-800' },
+  root_canal: { tag: 'RCT', className: 'bg-purple-100 text-purple-800' },
+  bridge: { tag: 'BR', className: 'bg-slate-200 text-slate-800' },
+  implant: { tag: 'IMP', className: 'bg-teal-100 text-teal-800' },
+  fracture: { tag: 'FX', className: 'bg-orange-100 text-orange-800' },
+  extraction_planned: { tag: 'EXT', className: 'bg-red-100 text-red-800' },
+};
+
+interface ToothProps {
+  tooth: string;
+  upper: boolean;
+  entries: ChartEntry[];
+  numbering: ToothNumbering;
+  selected?: boolean;
+  onClick?: () => void;
+}
+
+function Tooth({ tooth, upper, entries, numbering, selected, onClick }: ToothProps) {
+  const missing = entries.some(entry => entry.condition === 'missing');
+  const surfaceColor = (surface: ToothSurface) => {
+    const entry = entries.find(e => e.surfaces.includes(surface));
+    return entry ? surfaceColors[entry.condition] || 'bg-gray-400' : 'bg-white';
+  };
+  const [left, right]: ToothSurface[] = mesialOnRight(tooth) ? ['D', 'M'] : ['M', 'D'];
+  const [top, bottom]: ToothSurface[] = upper ? ['B', 'L'] : ['L', 'B'];
+  const tags = entries.filter(e => e.surfaces.length === 0 && toothTags[e.condition]);
+  const description = entries
+    .map(e => `${toothConditionLabels[e.condition as keyof typeof toothConditionLabels] || e.condition}${e.surfaces.length ? ` (${e.surfaces.join('')})` : ''}`)
+    .join(', ');
+
+  const label = <span className="text-[10px] text-gray-600">{toothLabel(tooth, numbering)}</span>;
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={!onClick}
+      title={`Tooth ${toothLabel(tooth, numbering)}${description ? `: ${description}` : ''}`}
+      className={`flex flex-col items-center gap-0.5 rounded p-0.5 ${selected ? 'ring-2 ring-blue-500' : ''} ${onClick ? 'hover:bg-blue-50' : 'cursor-default'}`}
+      data-testid={`tooth-${tooth}`}
+    >
+      {upper && label}
+      <div className={`relative grid grid-cols-3 grid-rows-3 w-8 h-8 border border-gray-400 rounded-sm overflow-hidden ${
+        missing ? 'opacity-30' : ''
+      } ${entries.some(e => e.condition === 'crown') ? 'ring-2 ring-amber-400' : ''}`}>
+        <div />
+        <div className={`border-b border-gray-300 ${surfaceColor(top)}`} />
+        <div />
+        <div className={`border-r border-gray-300 ${surfaceColor(left)}`} />
+        <div className={surfaceColor('O')} />
+        <div className={`border-l border-gray-300 ${surfaceColor(right)}`} />
+        <div />
+        <div className={`border-t border-gray-300 ${surfaceColor(bottom)}`} />
+        <div />
+        {missing && <span className="absolute inset-0 flex items-center justify-center text-gray-900 font-bold">✕</span>}
+      </div>
+      <div className="flex flex-col items-center min-h-[14px]">
+        {tags.map(entry => (
+          <span key={entry.id} className={`text-[9px] leading-tight px-0.5 rounded ${toothTags[entry.condition].className}`}>
+            {toothTags[entry.condition].tag}
+          </span>
+        ))}
+      </div>
+      {!upper && label}
+    </button>
+  );
+}
+
+interface DentalChartProps {
+  entries: ChartEntry[];
+  // Show the chart as it stood at this moment; defaults to now
+  at?: Date;
+  numbering?: ToothNumbering;
+  primary?: boolean;
+  selectedTooth?: string | null;
+  onSelectTooth?: (tooth: string) => void;
+}
+
+// Upper and lower arches, one box per tooth split into its five surfaces
+export function DentalChart({ entries, at, numbering = 'universal', primary = false, selectedTooth, onSelectTooth }: DentalChartProps) {
+  const chart = chartAsOf(entries, at);
+  const arches = primary ? primaryArches : permanentArches;
+
+  const row = (teeth: string[], upper: boolean) => (
+    <div className="flex justify-center gap-0.5">
+      {teeth.map((tooth, i) => (
+        <div key={tooth} className={`flex ${i === teeth.length / 2 ? 'ml-2 pl-2 border-l border-dashed border-gray-300' : ''}`}>
+          <Tooth
+            tooth={tooth}
+            upper={upper}
+            entries={chart[tooth] || []}
+            numbering={numbering}
+            selected={selectedTooth === tooth}
+            onClick={onSelectTooth ? () => onSelectTooth(tooth) : undefined}
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="min-w-max space-y-2 py-2">
+        <p className="text-xs text-center text-gray-500">Upper · patient's right on the left</p>
+        {row(arches.upper, true)}
+        <div className="border-t border-gray-300 mx-4" />
+        {row(arches.lower, false)}
+        <p className="text-xs text-center text-gray-500">Lower</p>
+      </div>
+    </div>
+  );
+}
+
+export function ChartLegend() {
+  return (
+    <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+      {Object.entries(surfaceColors).map(([condition, color]) => (
+        <span key={condition} className="flex items-center gap-1">
+          <span className={`inline-block w-3 h-3 rounded-sm ${color}`} />
+          {toothConditionLabels[condition as keyof typeof toothConditionLabels]}
+        </span>
+      ))}
+      {Object.entries(toothTags).map(([condition, { tag, className }]) => (
+        <span key={condition} className="flex items-center gap-1">
+          <span className={`px-0.5 rounded text-[10px] ${className}`}>{tag}</span>
+          {toothConditionLabels[condition as keyof typeof toothConditionLabels]}
+        </span>
+      ))}
+      <span className="flex items-center gap-1">✕ Missing</span>
+    </div>
+  );
+}
+
+export function describeEntry(entry: ChartEntry, numbering: ToothNumbering): string {
+  const condition = toothConditionLabels[entry.condition as keyof typeof toothConditionLabels] || entry.condition;
+  const surfaces = entry.surfaces.map(surface => toothSurfaceLabels[surface]).join(', ');
+  return `Tooth ${toothLabel(entry.tooth, numbering)}: ${condition}${surfaces ? ` (${surfaces})` : ''}`;
+}
+
+// Every entry, newest first, with when it was recorded and resolved
+export function ChartHistory({ entries, numbering }: { entries: ChartEntry[]; numbering: ToothNumbering }) {
+  const sorted = [...entries].sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+  if (sorted.length === 0) {
+    return <p className="text-sm text-gray-500">Nothing charted yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {sorted.map(entry => (
+        <li key={entry.id} className={entry.resolvedAt ? 'text-gray-500' : 'text-gray-900'}>
+          <span className="text-gray-500">{new Date(entry.recordedAt).toLocaleDateString()}</span>{' '}
+          {describeEntry(entry, numbering)}
+          {entry.notes && <span className="text-gray-600"> · {entry.notes}</span>}
+          {entry.resolvedAt && <span> · resolved {new Date(entry.resolvedAt).toLocaleDateString()}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface ChartControlsProps {
+  numbering: ToothNumbering;
+  onNumberingChange: (numbering: ToothNumbering) => void;
+  primary: boolean;
+  onPrimaryChange: (primary: boolean) => void;
+  asOf: string;
+  onAsOfChange: (date: string) => void;
+}
+
+export function ChartControls({ numbering, onNumberingChange, primary, onPrimaryChange, asOf, onAsOfChange }: ChartControlsProps) {
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="space-y-1">
+        <Label className="text-xs">Numbering</Label>
+        <Select value={numbering} onValueChange={(value) => onNumberingChange(value as ToothNumbering)}>
+          <SelectTrigger className="w-36 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="universal">Universal</SelectItem>
+            <SelectItem value="fdi">FDI</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Chart as of</Label>
+        <Input type="date" className="h-8 w-40" value={asOf} onChange={(e) => onAsOfChange(e.target.value)} />
+      </div>
+      <div className="flex items-center gap-2 pb-1">
+        <Switch id="primary-teeth" checked={primary} onCheckedChange={onPrimaryChange} />
+        <Label htmlFor="primary-teeth" className="text-xs">Primary teeth</Label>
+      </div>
+    </div>
+  );
+}
+
+// End of the chosen day, or now when no date is picked
+export function asOfInstant(date: string): Date | undefined {
+  return date ? new Date(`${date}T23:59:59`) : undefined;
+}
+
+// Read-only chart for the patient portal
+export function PatientDentalChart({ patientId }: { patientId: string }) {
+  const [numbering, setNumbering] = useState<ToothNumbering>('universal');
+  const [asOf, setAsOf] = useState("");
+  const { data: entries = [], isLoading } = useQuery<ChartEntry[]>({
+    queryKey: ['/api/patients', patientId, 'chart'],
+  });
+  const [primary, setPrimary] = useState<boolean | null>(null);
+  // Children's charts open on their primary teeth
+  const showPrimary = primary ?? (entries.length > 0 && entries.every(entry => isPrimaryTooth(entry.tooth)));
+
+  if (isLoading) {
+    return <div className="animate-pulse bg-gray-200 h-48 rounded"></div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <ChartControls
+        numbering={numbering}
+        onNumberingChange={setNumbering}
+        primary={showPrimary}
+        onPrimaryChange={setPrimary}
+        asOf={asOf}
+        onAsOfChange={setAsOf}
+      />
+      <DentalChart entries={entries} at={asOfInstant(asOf)} numbering={numbering} primary={showPrimary} />
+      <ChartLegend />
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-2">History</h3>
+        <ChartHistory entries={entries} numbering={numbering} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Users, UserPlus, UserCog, HeartPulse, ClipboardList, FolderOpen, X } from "lucide-react";
+import { PatientProfileDialog } from "@/components/patient-profile-form";
+import { MedicalHistoryDialog } from "@/components/medical-history-form";
+import { TreatmentPlanDialog } from "@/components/treatment-plans";
+import { PatientDocumentsDialog } from "@/components/patient-documents";
+import { apiRequest } from "@/lib/queryClient";
+import { type Dependent, guardianRelationships, insertDependentSchema } from "@shared/schema";
+import { z } from "zod";
+
+type FormData = z.infer<typeof insertDependentSchema>;
+
+export const relationshipLabels: Record<string, string> = {
+  child: "Child",
+  parent: "Parent",
+  spouse: "Spouse or partner",
+  other: "Other",
+};
+
+// Family members the patient books for. They get their own patient records
+// but no login; everything goes through this account.
+export function FamilyCard() {
+  const [showForm, setShowForm] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: dependents = [] } = useQuery<Dependent[]>({
+    queryKey: ['/api/dependents'],
+  });
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(insertDependentSchema),
+    defaultValues: {
+      firstName: "",
+      lastName: "",
+      relationship: "child",
+    },
+  });
+
+  const handleError = useErrorToast();
+
+  const addMutation = useMutation({
+    mutationFn: (data: FormData) => apiRequest('POST', '/api/dependents', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/dependents'] });
+      setShowForm(false);
+      form.reset();
+      toast({
+        title: "Family Member Added",
+        description: "You can now book appointments for them.",
+      });
+    },
+    onError: (error: Error) => handleError(error, "Failed to add family member."),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/dependents/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/dependents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+    },
+    onError: (error: Error) => handleError(error, "Failed to remove family member."),
+  });
+
+  return (
+    <Card className="card-elevated glass-effect">
+      <CardHeader>
+        <CardTitle className="text-lg text-gradient flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Family
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {dependents.length === 0 && !showForm && (
+          <p className="text-sm text-gray-600">
+            Booking for your children or a parent? Add them here and book, view and pay for their appointments from your account.
+          </p>
+        )}
+
+        {dependents.map(dependent => (
+          <div key={dependent.id} className="flex justify-between items-center border rounded-lg p-3">
+            <div>
+              <p className="text-sm font-medium text-gray-900">{dependent.firstName} {dependent.lastName}</p>
+              <p className="text-xs text-gray-500">{relationshipLabels[dependent.relationship] || dependent.relationship}</p>
+            </div>
+            <div className="flex">
+              <PatientProfileDialog patientId={dependent.id} title={`${dependent.firstName}'s Profile`}>
+                <Button variant="ghost" size="sm" className="text-gray-500 h-7 px-2" title="Edit profile">
+                  <UserCog className="w-4 h-4" />
+                </Button>
+              </PatientProfileDialog>
+              <MedicalHistoryDialog patientId={dependent.id} title={`${dependent.firstName}'s Medical History`}>
+                <Button variant="ghost" size="sm" className="text-gray-500 h-7 px-2" title="Medical history">
+                  <HeartPulse className="w-4 h-4" />
+                </Button>
+              </MedicalHistoryDialog>
+              <TreatmentPlanDialog patientId={dependent.id} title={`${dependent.firstName}'s Treatment Plans`}>
+                <Button variant="ghost" size="sm" className="text-gray-500 h-7 px-2" title="Treatment plans">
+                  <ClipboardList className="w-4 h-4" />
+                </Button>
+              </TreatmentPlanDialog>
+              <PatientDocumentsDialog patientId={dependent.id} title={`${dependent.firstName}'s Documents`}>
+                <Button variant="ghost" size="sm" className="text-gray-500 h-7 px-2" title="Documents and X-rays">
+                  <FolderOpen className="w-4 h-4" />
+                </Button>
+              </PatientDocumentsDialog>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-gray-500 h-7 px-2"
+                title="Remove from your family"
+                onClick={() => {
+                  if (confirm(`Stop managing ${dependent.firstName}'s appointments from this account?`)) {
+                    removeMutation.mutate(dependent.id);
+                  }
+                }}
+                disabled={removeMutation.isPending}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {showForm ? (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(data => addMutation.mutate(data))} className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <FormField
+                  control={form.control}
+                  name="firstName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>First name</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="lastName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Last name</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="relationship"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>They are your</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {guardianRelationships.map(relationship => (
+                          <SelectItem key={relationship} value={relationship}>
+                            {relationshipLabels[relationship]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex gap-2">
+                <Button type="submit" size="sm" className="flex-1" disabled={addMutation.isPending}>
+                  {addMutation.isPending ? "Adding..." : "Add"}
+                </Button>
+                <Button type="button" size="sm" variant="outline" onClick={() => setShowForm(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </Form>
+        ) : (
+          <Button variant="outline" size="sm" className="w-full" onClick={() => setShowForm(true)}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            Add Family Member
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -39,12 +39,11 @@ export function FormsDownload() {
       // Create download link and trigger download
       const link = document.createElement('a');
       
-      // If the fileUrl starts with a protocol, use it directly
-      // Otherwise, assume it's a relative path and prepend the base URL
-      if (form.fileUrl.startsWith('http://') || form.fileUrl.startsWith('https://')) {
+      // Uploaded forms live at /api/files/...; older ones may be external links
+      if (form.fileUrl.startsWith('http://') || form.fileUrl.startsWith('https://') || form.fileUrl.startsWith('/api/files/')) {
         link.href = form.fileUrl;
       } else {
-        // Handle relative paths - in a real app this would be your file storage URL
+        // Forms saved before uploads worked only have a placeholder path
         link.href = `${window.location.origin}/forms/${form.fileName}`;
       }
       
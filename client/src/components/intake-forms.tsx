@@ -0,0 +1,367 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle, ClipboardList, PenLine } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { apiRequest } from "@/lib/queryClient";
+import { ConsentSignForm, SignedConsentLine, consentsKey, type AppointmentConsent } from "@/components/consent-forms";
+import {
+  type IntakeAnswer,
+  type IntakeAnswers,
+  type IntakeField,
+  type IntakeForm,
+  type IntakeFormResponse,
+  type IntakeSection,
+} from "@shared/schema";
+import { checkIntakeAnswers, formatAnswer, visibleSections } from "@shared/intake-form";
+
+// GET /api/appointments/:id/intake-forms
+export interface AppointmentIntakeForm {
+  form: Omit<IntakeForm, 'createdAt' | 'updatedAt'>;
+  response: (Omit<IntakeFormResponse, 'submittedAt'> & { submittedAt: string | null }) | null;
+}
+
+export const intakeFormsKey = (appointmentId: string) => ['/api/appointments', appointmentId, 'intake-forms'];
+
+interface FieldInputProps {
+  field: IntakeField;
+  value: IntakeAnswer | undefined;
+  onChange: (value: IntakeAnswer | undefined) => void;
+}
+
+function FieldInput({ field, value, onChange }: FieldInputProps) {
+  const inputId = `intake-${field.id}`;
+  switch (field.type) {
+    case 'text':
+      return <Input id={inputId} value={(value as string) ?? ""} onChange={(e) => onChange(e.target.value)} />;
+    case 'textarea':
+      return <Textarea id={inputId} rows={3} value={(value as string) ?? ""} onChange={(e) => onChange(e.target.value)} />;
+    case 'number':
+      return (
+        <Input
+          id={inputId}
+          type="number"
+          value={value === undefined ? "" : String(value)}
+          onChange={(e) => onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+        />
+      );
+    case 'date':
+      return <Input id={inputId} type="date" className="w-48" value={(value as string) ?? ""} onChange={(e) => onChange(e.target.value)} />;
+    case 'yes_no':
+      return (
+        <RadioGroup value={(value as string) ?? ""} onValueChange={onChange} className="flex gap-6">
+          {['yes', 'no'].map(option => (
+            <label key={option} className="flex items-center gap-2 text-sm">
+              <RadioGroupItem value={option} />
+              {option === 'yes' ? "Yes" : "No"}
+            </label>
+          ))}
+        </RadioGroup>
+      );
+    case 'select':
+      return (
+        <Select value={(value as string) ?? ""} onValueChange={onChange}>
+          <SelectTrigger id={inputId}>
+            <SelectValue placeholder="Choose..." />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options.map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'multi_select': {
+      const chosen = Array.isArray(value) ? value : [];
+      return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {field.options.map(option => (
+            <label key={option} className="flex items-center gap-2 text-sm text-gray-700">
+              <Checkbox
+                checked={chosen.includes(option)}
+                onCheckedChange={(checked) => onChange(checked ? [...chosen, option] : chosen.filter(c => c !== option))}
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+    }
+    case 'checkbox':
+      return <Checkbox id={inputId} checked={value === true} onCheckedChange={(checked) => onChange(checked === true)} />;
+  }
+}
+
+interface IntakeFormFieldsProps {
+  sections: IntakeSection[];
+  answers: IntakeAnswers;
+  errors?: Record<string, string>;
+  onChange: (fieldId: string, value: IntakeAnswer | undefined) => void;
+}
+
+// The sections the current answers reveal, one input per field
+export function IntakeFormFields({ sections, answers, errors = {}, onChange }: IntakeFormFieldsProps) {
+  return (
+    <div className="space-y-6">
+      {visibleSections(sections, answers).map(section => (
+        <section key={section.id} className="space-y-4">
+          <h3 className="text-sm font-semibold text-gray-900">{section.title}</h3>
+          {section.fields.map(field => (
+            <div key={field.id} className={field.type === 'checkbox' ? "flex items-start gap-2" : "space-y-1"}>
+              {field.type === 'checkbox' && (
+                <FieldInput field={field} value={answers[field.id]} onChange={(value) => onChange(field.id, value)} />
+              )}
+              <div className="space-y-1 flex-1">
+                <Label htmlFor={`intake-${field.id}`} className="text-sm">
+                  {field.label}
+                  {field.required && <span className="text-red-600"> *</span>}
+                </Label>
+                {field.helpText && <p className="text-xs text-gray-500">{field.helpText}</p>}
+                {field.type !== 'checkbox' && (
+                  <FieldInput field={field} value={answers[field.id]} onChange={(value) => onChange(field.id, value)} />
+                )}
+                {errors[field.id] && <p className="text-sm font-medium text-destructive">{errors[field.id]}</p>}
+              </div>
+            </div>
+          ))}
+        </section>
+      ))}
+    </div>
+  );
+}
+
+// Read-only answers, in the form's layout as it was when answered
+export function IntakeAnswersView({ sections, answers }: { sections: IntakeSection[]; answers: IntakeAnswers }) {
+  return (
+    <div className="space-y-4">
+      {visibleSections(sections, answers).map(section => (
+        <div key={section.id}>
+          <h4 className="text-sm font-semibold text-gray-900 mb-1">{section.title}</h4>
+          <dl className="grid grid-cols-1 md:grid-cols-[1fr_1fr] gap-x-4 gap-y-1 text-sm">
+            {section.fields.map(field => (
+              <div key={field.id} className="contents">
+                <dt className="text-gray-600">{field.label}</dt>
+                <dd className="text-gray-900 whitespace-pre-wrap">{formatAnswer(field, answers[field.id])}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface IntakeFormFillProps {
+  appointmentId: string;
+  item: AppointmentIntakeForm;
+  onDone: () => void;
+}
+
+function IntakeFormFill({ appointmentId, item, onDone }: IntakeFormFillProps) {
+  const { form, response } = item;
+  // Start from the last answers when filling a form in again
+  const [answers, setAnswers] = useState<IntakeAnswers>(response?.answers ?? {});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const handleError = useErrorToast();
+  const queryClient = useQueryClient();
+
+  const submitMutation = useMutation({
+    mutationFn: (cleaned: IntakeAnswers) =>
+      apiRequest('POST', `/api/appointments/${appointmentId}/intake-forms/${form.id}`, { answers: cleaned }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: intakeFormsKey(appointmentId) });
+      toast({
+        title: "Form Submitted",
+        description: `Thanks, we've got your ${form.title}.`,
+      });
+      onDone();
+    },
+    onError: (error: Error) => handleError(error, "Failed to submit form."),
+  });
+
+  const submit = () => {
+    const checked = checkIntakeAnswers(form.sections, answers);
+    setErrors(checked.errors);
+    if (Object.keys(checked.errors).length === 0) submitMutation.mutate(checked.answers);
+  };
+
+  return (
+    <div className="space-y-6">
+      {form.description && <p className="text-sm text-gray-600 whitespace-pre-wrap">{form.description}</p>}
+      <IntakeFormFields
+        sections={form.sections}
+        answers={answers}
+        errors={errors}
+        onChange={(fieldId, value) => {
+          setAnswers(current => {
+            const next = { ...current };
+            if (value === undefined) delete next[fieldId];
+            else next[fieldId] = value;
+            return next;
+          });
+          setErrors(current => ({ ...current, [fieldId]: "" }));
+        }}
+      />
+      {Object.values(errors).some(Boolean) && (
+        <p className="text-sm text-destructive">Please fix the highlighted answers.</p>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onDone}>Back</Button>
+        <Button onClick={submit} disabled={submitMutation.isPending}>
+          {submitMutation.isPending ? "Submitting..." : "Submit"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface AppointmentFormsDialogProps {
+  appointmentId: string;
+  title: string;
+  children: React.ReactNode;
+}
+
+// Every form and consent an appointment needs, with what's done and what's left
+export function AppointmentFormsDialog({ appointmentId, title, children }: AppointmentFormsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [fillingId, setFillingId] = useState<string | null>(null);
+  const [signingId, setSigningId] = useState<string | null>(null);
+
+  const { data: items = [], isLoading } = useQuery<AppointmentIntakeForm[]>({
+    queryKey: intakeFormsKey(appointmentId),
+    enabled: open,
+  });
+  const { data: consents = [], isLoading: consentsLoading } = useQuery<AppointmentConsent[]>({
+    queryKey: consentsKey(appointmentId),
+    enabled: open,
+  });
+  const filling = items.find(item => item.form.id === fillingId);
+  const signing = consents.find(consent => consent.template.id === signingId && !consent.signed);
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => {
+      setOpen(value);
+      if (!value) {
+        setFillingId(null);
+        setSigningId(null);
+      }
+    }}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[680px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{filling ? filling.form.title : signing ? signing.template.title : title}</DialogTitle>
+          <DialogDescription>
+            {filling
+              ? "Fields marked * are required."
+              : signing
+                ? "Please read the whole consent before signing."
+                : "Please complete these before your visit."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {filling ? (
+          <IntakeFormFill key={filling.form.id} appointmentId={appointmentId} item={filling} onDone={() => setFillingId(null)} />
+        ) : signing ? (
+          <ConsentSignForm key={signing.template.id} appointmentId={appointmentId} consent={signing} onDone={() => setSigningId(null)} />
+        ) : isLoading || consentsLoading ? (
+          <div className="animate-pulse bg-gray-200 h-32 rounded"></div>
+        ) : items.length === 0 && consents.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No forms are needed for this visit.</p>
+        ) : (
+          <div className="space-y-2">
+            {items.map(item => (
+              <div key={item.form.id} className="flex justify-between items-center border rounded-lg p-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{item.form.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {item.response?.submittedAt
+                      ? `Completed ${new Date(item.response.submittedAt).toLocaleDateString()}`
+                      : "Not started"}
+                  </p>
+                </div>
+                {item.response ? (
+                  <div className="flex items-center gap-2">
+                    <CheckCircle className="w-4 h-4 text-green-600" />
+                    <Button size="sm" variant="ghost" onClick={() => setFillingId(item.form.id)}>
+                      Update
+                    </Button>
+                  </div>
+                ) : (
+                  <Button size="sm" onClick={() => setFillingId(item.form.id)}>
+                    Fill In
+                  </Button>
+                )}
+              </div>
+            ))}
+            {consents.map(consent => (
+              <div key={consent.template.id} className="flex justify-between items-center border rounded-lg p-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{consent.template.title}</p>
+                  {consent.signed ? (
+                    <SignedConsentLine signed={consent.signed} />
+                  ) : (
+                    <p className="text-xs text-gray-500">Consent, needs your signature</p>
+                  )}
+                </div>
+                {consent.signed ? (
+                  <CheckCircle className="w-4 h-4 text-green-600" />
+                ) : (
+                  <Button size="sm" onClick={() => setSigningId(consent.template.id)}>
+                    <PenLine className="w-3 h-3 mr-1" />
+                    Sign
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// "Forms 1/2" on an upcoming appointment, consents included; hidden when the
+// visit needs none
+export function AppointmentFormsButton({ appointmentId, treatmentType }: { appointmentId: string; treatmentType: string }) {
+  const { data: items = [] } = useQuery<AppointmentIntakeForm[]>({
+    queryKey: intakeFormsKey(appointmentId),
+  });
+  const { data: consents = [] } = useQuery<AppointmentConsent[]>({
+    queryKey: consentsKey(appointmentId),
+  });
+  const total = items.length + consents.length;
+  if (total === 0) return null;
+
+  const done = items.filter(item => item.response).length + consents.filter(consent => consent.signed).length;
+  return (
+    <AppointmentFormsDialog appointmentId={appointmentId} title={`Forms for ${treatmentType}`}>
+      <Button
+        variant={done === total ? "outline" : "default"}
+        size="sm"
+        className="flex items-center gap-1 px-2 py-1 h-8 text-xs"
+        title={done === total ? "All forms completed" : "Forms to fill in before your visit"}
+        data-testid={`button-intake-forms-${appointmentId}`}
+      >
+        <ClipboardList className="w-3 h-3" />
+        Forms {done}/{total}
+      </Button>
+    </AppointmentFormsDialog>
+  );
+}
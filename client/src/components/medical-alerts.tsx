@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, ClipboardCheck } from "lucide-react";
+import { type MedicalAlertSummary } from "@shared/medical-history";
+
+// Alerts for every patient in a list, in one request. Staff only.
+export function useMedicalAlerts(patientIds: string[], enabled = true) {
+  const ids = Array.from(new Set(patientIds)).sort().join(',');
+  const { data = {} } = useQuery<Record<string, MedicalAlertSummary>>({
+    queryKey: ['/api/admin/medical-alerts', ids],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/medical-alerts?patientIds=${encodeURIComponent(ids)}`, { credentials: "include" });
+      if (!response.ok) throw new Error('Failed to fetch medical alerts');
+      return response.json();
+    },
+    enabled: enabled && ids.length > 0,
+  });
+  return data;
+}
+
+interface MedicalAlertBadgesProps {
+  summary?: MedicalAlertSummary | null;
+  // Just an icon with the count, for tight spaces like the schedule board
+  compact?: boolean;
+  className?: string;
+}
+
+// Allergies in red, other alerts in amber, and a note when the latest answers
+// haven't been reviewed yet
+export function MedicalAlertBadges({ summary, compact, className = "" }: MedicalAlertBadgesProps) {
+  if (!summary || (summary.alerts.length === 0 && !summary.needsReview)) return null;
+
+  const allergies = summary.alerts.filter(alert => alert.kind === 'allergy');
+  const description = summary.alerts
+    .map(alert => alert.kind === 'allergy' ? `Allergy: ${alert.label}${alert.severity ? ` (${alert.severity})` : ''}` : alert.label)
+    .concat(summary.needsReview ? [`Medical history v${summary.version} not reviewed`] : [])
+    .join('\n');
+
+  if (compact) {
+    return (
+      <span
+        className={`inline-flex items-center gap-0.5 rounded px-1 font-semibold ${className} ${
+          allergies.length > 0 ? 'bg-red-600 text-white' : summary.alerts.length > 0 ? 'bg-amber-400 text-amber-950' : 'bg-white/80 text-gray-700'
+        }`}
+        title={description}
+        data-testid="badge-medical-alerts"
+      >
+        {summary.alerts.length > 0 ? <AlertTriangle className="w-3 h-3" /> : <ClipboardCheck className="w-3 h-3" />}
+        {summary.alerts.length > 0 && summary.alerts.length}
+      </span>
+    );
+  }
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`} title={description} data-testid="badge-medical-alerts">
+      {summary.alerts.map(alert => (
+        <span
+          key={`${alert.kind}-${alert.label}`}
+          className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-semibold rounded-full ${
+            alert.kind === 'allergy' ? 'bg-red-100 text-red-800 border border-red-300' : 'bg-amber-100 text-amber-800'
+          }`}
+        >
+          <AlertTriangle className="w-3 h-3" />
+          {alert.kind === 'allergy' ? `Allergy: ${alert.label}` : alert.label}
+        </span>
+      ))}
+      {summary.needsReview && (
+        <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+          <ClipboardCheck className="w-3 h-3" />
+          History to review
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+import { useEffect, useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import {
+  allergySeverities,
+  medicalConditions,
+  medicalHistorySchema,
+  type MedicalHistory,
+  type MedicalHistoryInput,
+} from "@shared/schema";
+import { allergySeverityLabels, medicalConditionInfo, type MedicalHistoryChange } from "@shared/medical-history";
+
+// GET /api/patients/:id/medical-history, newest first
+export type MedicalHistoryVersion = Omit<MedicalHistory, 'createdAt' | 'reviewedAt'> & {
+  createdAt: string | null;
+  reviewedAt: string | null;
+  changes: MedicalHistoryChange[];
+};
+
+const emptyHistory: MedicalHistoryInput = {
+  conditions: [],
+  otherConditions: "",
+  medications: [],
+  allergies: [],
+  noKnownAllergies: false,
+  notes: "",
+};
+
+interface MedicalHistoryFormProps {
+  patientId: string;
+  onSaved?: () => void;
+}
+
+// The medical history questionnaire. Starts from the latest answers; saving
+// always records a new version for staff to review.
+export function MedicalHistoryForm({ patientId, onSaved }: MedicalHistoryFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const historyPath = `/api/patients/${patientId}/medical-history`;
+
+  const { data: versions, isLoading } = useQuery<MedicalHistoryVersion[]>({
+    queryKey: [historyPath],
+  });
+  const latest = versions?.[0];
+
+  const form = useForm<MedicalHistoryInput>({
+    resolver: zodResolver(medicalHistorySchema),
+    defaultValues: emptyHistory,
+  });
+  const medications = useFieldArray({ control: form.control, name: "medications" });
+  const allergies = useFieldArray({ control: form.control, name: "allergies" });
+
+  useEffect(() => {
+    if (!latest) return;
+    form.reset({
+      conditions: latest.conditions,
+      otherConditions: latest.otherConditions ?? "",
+      medications: latest.medications.map(m => ({ name: m.name, dose: m.dose ?? "", frequency: m.frequency ?? "" })),
+      allergies: latest.allergies.map(a => ({ substance: a.substance, reaction: a.reaction ?? "", severity: a.severity })),
+      noKnownAllergies: latest.noKnownAllergies,
+      notes: latest.notes ?? "",
+    });
+  }, [latest, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: MedicalHistoryInput) => {
+      const response = await apiRequest('POST', historyPath, data);
+      return response.json();
+    },
+    onSuccess: (saved: MedicalHistoryVersion) => {
+      queryClient.invalidateQueries({ queryKey: [historyPath] });
+      toast({
+        title: "Medical History Saved",
+        description: saved.changes.length > 0
+          ? `Version ${saved.version} sent to the practice for review.`
+          : `Version ${saved.version} saved with no changes.`,
+      });
+      onSaved?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to save medical history."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="animate-pulse bg-gray-200 h-64 rounded"></div>;
+  }
+
+  const { control } = form;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => saveMutation.mutate(data))} className="space-y-6">
+        {latest ? (
+          <p className="text-sm text-gray-600">
+            Version {latest.version}, updated {latest.createdAt ? new Date(latest.createdAt).toLocaleDateString() : "recently"}
+            {latest.reviewedAt ? " and reviewed by the practice." : ". Waiting for the practice to review it."}
+          </p>
+        ) : (
+          <p className="text-sm text-gray-600">
+            Please tell us about your health before your next visit. We check this before every procedure.
+          </p>
+        )}
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-900">Allergies</h3>
+          {allergies.fields.map((field, index) => (
+            <div key={field.id} className="grid grid-cols-1 md:grid-cols-[2fr_2fr_1.5fr_auto] gap-2 items-start">
+              <FormField
+                control={control}
+                name={`allergies.${index}.substance`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input placeholder="Allergic to, e.g. penicillin or latex" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`allergies.${index}.reaction`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input placeholder="Reaction, e.g. hives" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`allergies.${index}.severity`}
+                render={({ field }) => (
+                  <FormItem>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {allergySeverities.map(severity => (
+                          <SelectItem key={severity} value={severity}>{allergySeverityLabels[severity]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="button" variant="ghost" size="sm" title="Remove allergy" onClick={() => allergies.remove(index)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              allergies.append({ substance: "", reaction: "", severity: "moderate" });
+              form.setValue("noKnownAllergies", false);
+            }}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Allergy
+          </Button>
+          <FormField
+            control={control}
+            name="noKnownAllergies"
+            render={({ field }) => (
+              <FormItem>
+                <div className="flex items-center gap-2">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                      disabled={allergies.fields.length > 0}
+                    />
+                  </FormControl>
+                  <FormLabel className="font-normal">I have no known allergies</FormLabel>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-900">Medical conditions</h3>
+          <FormField
+            control={control}
+            name="conditions"
+            render={({ field }) => (
+              <FormItem>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {medicalConditions.map(condition => (
+                    <label key={condition} className="flex items-center gap-2 text-sm text-gray-700">
+                      <Checkbox
+                        checked={field.value.includes(condition)}
+                        onCheckedChange={(checked) => field.onChange(
+                          checked ? [...field.value, condition] : field.value.filter(c => c !== condition)
+                        )}
+                      />
+                      {medicalConditionInfo[condition].label}
+                    </label>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="otherConditions"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Anything else we should know about</FormLabel>
+                <FormControl>
+                  <Textarea rows={2} {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-900">Current medications</h3>
+          {medications.fields.map((field, index) => (
+            <div key={field.id} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_auto] gap-2 items-start">
+              <FormField
+                control={control}
+                name={`medications.${index}.name`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input placeholder="Medication" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`medications.${index}.dose`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input placeholder="Dose" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`medications.${index}.frequency`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input placeholder="How often" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="button" variant="ghost" size="sm" title="Remove medication" onClick={() => medications.remove(index)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => medications.append({ name: "", dose: "", frequency: "" })}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Medication
+          </Button>
+        </section>
+
+        <FormField
+          control={control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes for the dentist</FormLabel>
+              <FormControl>
+                <Textarea rows={3} {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Medical History"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+interface MedicalHistoryDialogProps {
+  patientId: string;
+  title: string;
+  children: React.ReactNode;
+}
+
+export function MedicalHistoryDialog({ patientId, title, children }: MedicalHistoryDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Conditions, medications and allergies the dentist checks before treatment.</DialogDescription>
+        </DialogHeader>
+        {open && <MedicalHistoryForm patientId={patientId} onSaved={() => setOpen(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,201 +1,201 @@
 import { useState } from "react";
-import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { useLiveUpdates } from "@/hooks/useLiveUpdates";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Progress } from "@/components/ui/progress";
-import { Calendar, Clock, User, CheckCircle, Loader2, Zap } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Calendar, Clock, CheckCircle, Loader2, Zap } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatDate, formatTime } from "@shared/datetime";
+import { calendarFileUrl } from "@/lib/calendarUtils";
+import { BookingForSelect } from "@/components/booking-for-select";
+import { bookingIntentLabels } from "@shared/quick-booking";
+import type { BookingIntent } from "@shared/schema";
 
-interface QuickBookingOption {
+interface OpenStart {
   id: string;
+  date: string;
+  time: string;
+  endTime: string;
+  doctorName: string;
+}
+
+// GET /api/appointments/quick-book
+interface QuickBookingAvailability {
+  intent: BookingIntent;
+  procedure: string;
+  durationMinutes: number;
+  availableStarts: number;
+  nextStart?: OpenStart;
+}
+
+interface QuickBookingOption {
+  id: BookingIntent;
   title: string;
   description: string;
   procedure: string;
-  estimatedTime: string;
+  durationMinutes?: number;
   priority: 'high' | 'medium' | 'low';
   availableSlots: number;
+  nextStart?: OpenStart;
+}
+
+// Raised when the opening we picked went to someone else first
+class SlotTakenError extends Error {
+  constructor(message: string, public alternatives: OpenStart[]) {
+    super(message);
+  }
 }
 
 const BASE_BOOKING_OPTIONS = [
   {
-    id: 'emergency',
-    title: 'Emergency Visit',
+    id: 'emergency' as const,
+    title: bookingIntentLabels.emergency,
     description: 'Urgent dental care - next available slot',
-    procedure: 'Emergency Consultation',
-    estimatedTime: '30-45 min',
     priority: 'high' as const,
   },
   {
-    id: 'checkup',
-    title: 'Routine Checkup',
+    id: 'checkup' as const,
+    title: bookingIntentLabels.checkup,
     description: 'Regular dental examination and cleaning',
-    procedure: 'Routine Cleaning',
-    estimatedTime: '60 min',
     priority: 'medium' as const,
   },
   {
-    id: 'consultation',
-    title: 'New Patient Consultation',
+    id: 'consultation' as const,
+    title: bookingIntentLabels.consultation,
     description: 'First visit - comprehensive examination',
-    procedure: 'New Patient Consultation',
-    estimatedTime: '90 min',
     priority: 'medium' as const,
   },
   {
-    id: 'followup',
-    title: 'Follow-up Visit',
+    id: 'followup' as const,
+    title: bookingIntentLabels.followup,
     description: 'Check progress from previous treatment',
-    procedure: 'Follow-up',
-    estimatedTime: '30 min',
     priority: 'low' as const,
   }
 ];
 
-const BOOKING_STEPS = [
-  { id: 1, name: 'Select Type', description: 'Choose appointment type' },
-  { id: 2, name: 'Find Slot', description: 'Finding best available time' },
-  { id: 3, name: 'Confirm', description: 'Booking appointment' },
-  { id: 4, name: 'Complete', description: 'Appointment confirmed' }
-];
-
 export function OneClickBooking() {
-  const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedOption, setSelectedOption] = useState<QuickBookingOption | null>(null);
-  const [currentStep, setCurrentStep] = useState(1);
-  const [progress, setProgress] = useState(0);
+  const [preferUsualProvider, setPreferUsualProvider] = useState(true);
+  const [bookingFor, setBookingFor] = useState('');
+  const [alternatives, setAlternatives] = useState<OpenStart[]>([]);
+  const [bookedAppointment, setBookedAppointment] = useState<any>(null);
 
-  // Fetch available time slots for the next 7 days
-  const { data: slotsData, isLoading: slotsLoading } = useQuery({
-    queryKey: ['/api/time-slots/available'],
+  const { data: availability } = useQuery<QuickBookingAvailability[]>({
+    queryKey: ['/api/appointments/quick-book'],
     retry: false,
   });
+  useLiveUpdates(['timeslots']);
 
-  // Calculate available slots for each booking type
-  const getAvailableSlotsForType = (procedureType: string): number => {
-    const availableSlots = Array.isArray(slotsData) ? slotsData : [];
-    
-    if (availableSlots.length === 0) return 0;
-    
-    // For emergency, count all available slots (highest priority)
-    if (procedureType === 'Emergency Consultation') {
-      return availableSlots.length;
-    }
-    
-    // For other types, simulate availability based on slot distribution
-    const totalSlots = availableSlots.length;
-    const availabilityRatio = {
-      'Routine Cleaning': 0.4, // 40% of slots suitable for cleanings
-      'New Patient Consultation': 0.25, // 25% for new patients (longer appointments)  
-      'Follow-up': 0.6, // 60% for follow-ups (shorter, flexible)
+  const QUICK_BOOKING_OPTIONS: QuickBookingOption[] = BASE_BOOKING_OPTIONS.map(option => {
+    const open = availability?.find(a => a.intent === option.id);
+    return {
+      ...option,
+      procedure: open?.procedure || option.title,
+      durationMinutes: open?.durationMinutes,
+      availableSlots: open?.availableStarts || 0,
+      nextStart: open?.nextStart,
     };
-    
-    return Math.floor(totalSlots * (availabilityRatio[procedureType as keyof typeof availabilityRatio] || 0.3));
+  });
+
+  const onBooked = (appointment: any) => {
+    setBookedAppointment(appointment);
+    setAlternatives([]);
+    queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/appointments/quick-book'] });
+
+    toast({
+      title: "Appointment Booked!",
+      description: `Your ${selectedOption?.title.toLowerCase()} has been scheduled successfully.`,
+    });
   };
 
-  // Create booking options with real slot counts
-  const QUICK_BOOKING_OPTIONS: QuickBookingOption[] = BASE_BOOKING_OPTIONS.map(option => ({
-    ...option,
-    availableSlots: getAvailableSlotsForType(option.procedure)
-  }));
-  const [isBooking, setIsBooking] = useState(false);
-  const [bookedAppointment, setBookedAppointment] = useState<any>(null);
+  const onFailed = (error: Error) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/appointments/quick-book'] });
+
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+
+    if (error instanceof SlotTakenError && error.alternatives.length > 0) {
+      setAlternatives(error.alternatives);
+    } else {
+      setSelectedOption(null);
+      setAlternatives([]);
+    }
+
+    toast({
+      title: "Booking Failed",
+      description: error.message || "Unable to book appointment. Please try again.",
+      variant: "destructive",
+    });
+  };
 
   const quickBookMutation = useMutation({
     mutationFn: async (option: QuickBookingOption) => {
-      // Step 2: Find available slot
-      setCurrentStep(2);
-      setProgress(25);
-      await new Promise(resolve => setTimeout(resolve, 800)); // Simulate finding slot
-      
-      // Step 3: Book appointment
-      setCurrentStep(3);
-      setProgress(75);
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      // Get next available date (tomorrow or later)
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      
-      // Generate time slots for the selected procedure priority
-      const timeSlots = option.priority === 'high' 
-        ? ['9:00 AM', '10:30 AM', '2:00 PM'] 
-        : ['10:00 AM', '2:00 PM', '4:00 PM'];
-      
-      const selectedTime = timeSlots[0]; // Pick first available
-      
-      const appointmentData = {
-        doctorName: 'Dr. Smith',
-        treatmentType: option.procedure,
-        appointmentDate: tomorrow.toISOString().split('T')[0],
-        appointmentTime: selectedTime,
-        notes: `One-click booking - ${option.title}`,
-      };
-      
-      const result = await apiRequest('POST', '/api/appointments', appointmentData);
-      
-      // Step 4: Complete
-      setCurrentStep(4);
-      setProgress(100);
-      
-      return result;
-    },
-    onSuccess: (result) => {
-      setBookedAppointment(result);
-      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
-      
-      toast({
-        title: "Appointment Booked!",
-        description: `Your ${selectedOption?.title.toLowerCase()} has been scheduled successfully.`,
+      const response = await fetch('/api/appointments/quick-book', {
+        method: 'POST',
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          intent: option.id,
+          preferUsualProvider,
+          patientId: bookingFor || undefined,
+          notes: `One-click booking - ${option.title}`,
+        }),
+        credentials: "include",
       });
-    },
-    onError: (error: Error) => {
-      setCurrentStep(1);
-      setProgress(0);
-      setIsBooking(false);
-      
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
+      const body = await response.json().catch(() => ({}));
+
+      if (response.status === 409) {
+        throw new SlotTakenError(body.message || "That opening is no longer available", body.alternatives || []);
       }
-      
-      toast({
-        title: "Booking Failed",
-        description: error.message || "Unable to book appointment. Please try again.",
-        variant: "destructive",
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${body.message || response.statusText}`);
+      }
+      return body;
+    },
+    onSuccess: onBooked,
+    onError: onFailed,
+  });
+
+  // Booking one of the alternatives offered after a race goes through the
+  // normal booking route with that exact slot
+  const bookAlternativeMutation = useMutation({
+    mutationFn: async (start: OpenStart) => {
+      const response = await apiRequest('POST', '/api/appointments', {
+        timeSlotId: start.id,
+        treatmentType: selectedOption?.procedure,
+        patientId: bookingFor || undefined,
+        notes: `One-click booking - ${selectedOption?.title}`,
       });
+      return response.json();
     },
+    onSuccess: onBooked,
+    onError: onFailed,
   });
 
-  const handleQuickBook = async (option: QuickBookingOption) => {
+  const handleQuickBook = (option: QuickBookingOption) => {
     setSelectedOption(option);
-    setIsBooking(true);
-    setCurrentStep(1);
-    setProgress(10);
-    
-    // Short delay to show first step
-    await new Promise(resolve => setTimeout(resolve, 300));
-    
+    setAlternatives([]);
     quickBookMutation.mutate(option);
   };
 
   const resetBooking = () => {
     setSelectedOption(null);
-    setCurrentStep(1);
-    setProgress(0);
-    setIsBooking(false);
+    setAlternatives([]);
     setBookedAppointment(null);
   };
 
@@ -237,13 +237,8 @@ export function OneClickBooking() {
             <div className="space-y-2 text-sm text-gray-600">
               <p><strong>Treatment:</strong> {bookedAppointment.treatmentType}</p>
               <p><strong>Doctor:</strong> {bookedAppointment.doctorName}</p>
-              <p><strong>Date:</strong> {new Date(bookedAppointment.appointmentDate).toLocaleDateString('en-US', { 
-                weekday: 'long', 
-                year: 'numeric', 
-                month: 'long', 
-                day: 'numeric' 
-              })}</p>
-              <p><strong>Time:</strong> {bookedAppointment.appointmentTime}</p>
+              <p><strong>Date:</strong> {formatDate(bookedAppointment.appointmentDate)}</p>
+              <p><strong>Time:</strong> {formatTime(bookedAppointment.appointmentTime)}</p>
             </div>
           </div>
           <div className="flex gap-2">
@@ -255,24 +250,12 @@ export function OneClickBooking() {
               Book Another
             </Button>
             <Button 
-              onClick={() => {
-                // Create calendar event
-                const startDate = new Date(bookedAppointment.appointmentDate + 'T00:00:00');
-                const [time, period] = bookedAppointment.appointmentTime.split(' ');
-                const [hours, minutes] = time.split(':').map((num: string) => parseInt(num));
-                const hour24 = period === 'PM' && hours !== 12 ? hours + 12 : (period === 'AM' && hours === 12 ? 0 : hours);
-                startDate.setHours(hour24, minutes, 0, 0);
-                
-                const endDate = new Date(startDate);
-                endDate.setHours(startDate.getHours() + 1);
-                
-                const googleCalendarUrl = `https://calendar.google.com/calendar/render?action=TEMPLATE&text=${encodeURIComponent(`Dental Appointment - ${bookedAppointment.treatmentType}`)}&dates=${startDate.toISOString().replace(/[-:]/g, '').split('.')[0]}Z/${endDate.toISOString().replace(/[-:]/g, '').split('.')[0]}Z&details=${encodeURIComponent(`Doctor: ${bookedAppointment.doctorName}\nTreatment: ${bookedAppointment.treatmentType}`)}`;
-                
-                window.open(googleCalendarUrl, '_blank');
-              }}
+              asChild
               className="flex-1 button-animate"
             >
-              Add to Calendar
+              <a href={calendarFileUrl(bookedAppointment.id)} download>
+                Add to Calendar
+              </a>
             </Button>
           </div>
         </CardContent>
@@ -280,7 +263,46 @@ export function OneClickBooking() {
     );
   }
 
-  if (isBooking) {
+  if (alternatives.length > 0) {
+    return (
+      <Card className="card-elevated glass-effect">
+        <CardHeader>
+          <CardTitle className="text-lg text-gradient flex items-center gap-2">
+            <Calendar className="w-5 h-5 text-blue-500" />
+            That Time Was Just Taken
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Another patient booked it first. These {selectedOption?.title.toLowerCase()} openings are still free:
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {alternatives.map(start => (
+            <div key={start.id} className="flex items-center justify-between p-3 rounded-lg border border-gray-200">
+              <div className="text-sm">
+                <p className="font-medium text-gray-900">{formatDate(start.date)} at {formatTime(start.time)}</p>
+                <p className="text-gray-500">{start.doctorName}</p>
+              </div>
+              <Button
+                size="sm"
+                className="button-animate"
+                disabled={bookAlternativeMutation.isPending}
+                onClick={() => bookAlternativeMutation.mutate(start)}
+              >
+                {bookAlternativeMutation.isPending && bookAlternativeMutation.variables?.id === start.id
+                  ? <Loader2 className="w-3 h-3 animate-spin" />
+                  : 'Book'}
+              </Button>
+            </div>
+          ))}
+          <Button onClick={resetBooking} variant="outline" className="w-full button-animate">
+            Back
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (quickBookMutation.isPending) {
     return (
       <Card className="card-elevated glass-effect">
         <CardHeader>
@@ -289,65 +311,15 @@ export function OneClickBooking() {
             Booking Your Appointment
           </CardTitle>
         </CardHeader>
-        <CardContent className="space-y-6">
+        <CardContent>
           <div className="text-center">
             <h3 className="font-medium text-gray-900 mb-2">
               {selectedOption?.title}
             </h3>
-            <p className="text-sm text-gray-600 mb-4">
-              {selectedOption?.description}
+            <p className="text-sm text-gray-600">
+              Reserving the earliest opening for you...
             </p>
           </div>
-
-          {/* Progress Bar */}
-          <div className="space-y-2">
-            <div className="flex justify-between text-sm text-gray-600">
-              <span>Progress</span>
-              <span>{progress}%</span>
-            </div>
-            <Progress value={progress} className="h-2" />
-          </div>
-
-          {/* Steps Indicator */}
-          <div className="space-y-3">
-            {BOOKING_STEPS.map((step, index) => (
-              <div 
-                key={step.id} 
-                className={`flex items-center gap-3 p-2 rounded-lg transition-all ${
-                  step.id === currentStep 
-                    ? 'bg-blue-50 border border-blue-200' 
-                    : step.id < currentStep 
-                      ? 'bg-green-50 border border-green-200'
-                      : 'bg-gray-50 border border-gray-200'
-                }`}
-              >
-                <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium ${
-                  step.id === currentStep 
-                    ? 'bg-blue-500 text-white animate-pulse' 
-                    : step.id < currentStep
-                      ? 'bg-green-500 text-white'
-                      : 'bg-gray-300 text-gray-600'
-                }`}>
-                  {step.id < currentStep ? (
-                    <CheckCircle className="w-4 h-4" />
-                  ) : step.id === currentStep ? (
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                  ) : (
-                    step.id
-                  )}
-                </div>
-                <div>
-                  <p className={`font-medium ${
-                    step.id === currentStep ? 'text-blue-900' : 
-                    step.id < currentStep ? 'text-green-900' : 'text-gray-600'
-                  }`}>
-                    {step.name}
-                  </p>
-                  <p className="text-xs text-gray-500">{step.description}</p>
-                </div>
-              </div>
-            ))}
-          </div>
         </CardContent>
       </Card>
     );
@@ -384,13 +356,17 @@ export function OneClickBooking() {
                   </div>
                   <p className="text-sm text-gray-600 mb-2">{option.description}</p>
                   <div className="flex items-center gap-4 text-xs text-gray-500">
-                    <span className="flex items-center gap-1">
-                      <Clock className="w-3 h-3" />
-                      {option.estimatedTime}
-                    </span>
+                    {option.durationMinutes && (
+                      <span className="flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {option.durationMinutes} min
+                      </span>
+                    )}
                     <span className={`flex items-center gap-1 ${option.availableSlots === 0 ? 'text-red-500' : ''}`}>
                       <Calendar className="w-3 h-3" />
-                      {option.availableSlots === 0 ? '0 slots available' : `${option.availableSlots} slots available`}
+                      {option.nextStart
+                        ? `Next: ${formatDate(option.nextStart.date)} at ${formatTime(option.nextStart.time)}`
+                        : 'No openings in the next two weeks'}
                     </span>
                   </div>
                 </div>
@@ -416,6 +392,15 @@ export function OneClickBooking() {
             </div>
           ))}
         </div>
+
+        <BookingForSelect value={bookingFor} onChange={setBookingFor} className="mt-4" />
+
+        <div className="mt-4 flex items-center gap-2">
+          <Switch id="prefer-usual-provider" checked={preferUsualProvider} onCheckedChange={setPreferUsualProvider} />
+          <Label htmlFor="prefer-usual-provider" className="text-sm text-gray-600">
+            Book with the usual dentist when they're free
+          </Label>
+        </div>
         
         <div className="mt-4 p-3 bg-blue-50 rounded-lg border border-blue-200">
           <div className="flex items-start gap-2">
@@ -425,7 +410,7 @@ export function OneClickBooking() {
             <div className="text-sm">
               <p className="font-medium text-blue-900 mb-1">How it works:</p>
               <p className="text-blue-700">
-                Select your appointment type above for instant booking. We'll automatically find the next available slot and confirm your appointment in seconds.
+                Select your appointment type above for instant booking. We'll reserve the earliest opening suited to that visit and confirm it right away.
               </p>
             </div>
           </div>
@@ -0,0 +1,212 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileText, Image as ImageIcon, Trash2, Upload } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { apiRequest } from "@/lib/queryClient";
+import { uploadFile } from "@/lib/uploads";
+import { type FileCategory } from "@shared/schema";
+import { fileCategoryRules, formatFileSize, type FileRecord } from "@shared/files";
+
+// What can go in a patient's record, in the order they're listed
+const recordCategories: FileCategory[] = ['xray', 'patient_document'];
+
+const patientFilesKey = (patientId: string) => ['/api/patients', patientId, 'files'];
+
+function FileRow({ file, canDelete, onDelete }: { file: FileRecord; canDelete: boolean; onDelete: () => void }) {
+  const isImage = file.contentType.startsWith('image/');
+  return (
+    <div className="flex items-center gap-3 border rounded-lg p-2">
+      <a href={file.url} target="_blank" rel="noopener noreferrer" className="shrink-0">
+        {isImage ? (
+          <img src={file.url} alt={file.fileName} className="w-14 h-14 object-cover rounded bg-gray-100" loading="lazy" />
+        ) : (
+          <div className="w-14 h-14 flex items-center justify-center rounded bg-gray-100">
+            <FileText className="w-6 h-6 text-gray-500" />
+          </div>
+        )}
+      </a>
+      <div className="flex-1 min-w-0">
+        <a
+          href={file.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="block text-sm font-medium text-gray-900 hover:text-blue-600 truncate"
+          data-testid={`link-file-${file.id}`}
+        >
+          {file.fileName}
+        </a>
+        {file.description && <p className="text-xs text-gray-600 truncate">{file.description}</p>}
+        <p className="text-xs text-gray-500">
+          {formatFileSize(file.size)}
+          {file.createdAt && ` · ${new Date(file.createdAt).toLocaleDateString()}`}
+        </p>
+      </div>
+      {canDelete && (
+        <Button variant="ghost" size="sm" title="Remove file" onClick={onDelete}>
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// A patient's X-rays and documents, with uploads. Patients and guardians can
+// add documents; staff can also add X-rays.
+export function PatientDocuments({ patientId }: { patientId: string }) {
+  const { user } = useAuth();
+  const isStaff = user?.role === 'admin';
+  const uploadable = recordCategories.filter(category => isStaff || fileCategoryRules[category].patientUpload);
+  const [category, setCategory] = useState<FileCategory>(uploadable[0]);
+  const [description, setDescription] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: files = [], isLoading } = useQuery<FileRecord[]>({
+    queryKey: patientFilesKey(patientId),
+  });
+
+  const handleError = useErrorToast();
+  const onError = (error: Error) => handleError(error, "Something went wrong. Please try again.");
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => uploadFile(file, file.name, { category, patientId, description: description.trim() }),
+    onSuccess: (stored) => {
+      queryClient.invalidateQueries({ queryKey: patientFilesKey(patientId) });
+      setDescription("");
+      toast({
+        title: "File Uploaded",
+        description: `${stored.fileName} was added to the record.`,
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/files/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: patientFilesKey(patientId) });
+      toast({
+        title: "File Removed",
+        description: "The file was removed from the record.",
+      });
+    },
+    onError,
+  });
+
+  const rule = fileCategoryRules[category];
+  const accept = rule.contentTypes.join(',') + (category === 'xray' ? ',.dcm' : '');
+
+  return (
+    <div className="space-y-6">
+      <div className="border rounded-lg p-3 space-y-2 bg-gray-50">
+        <div className="grid grid-cols-1 md:grid-cols-[10rem_1fr_auto] gap-2">
+          {uploadable.length > 1 ? (
+            <Select value={category} onValueChange={(value) => setCategory(value as FileCategory)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {uploadable.map(c => (
+                  <SelectItem key={c} value={c}>{fileCategoryRules[c].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <div className="text-sm font-medium text-gray-700 self-center">{rule.label}</div>
+          )}
+          <Input
+            placeholder="Description (optional), e.g. Insurance card front"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={500}
+          />
+          <Button onClick={() => fileInputRef.current?.click()} disabled={uploadMutation.isPending}>
+            <Upload className="w-4 h-4 mr-2" />
+            {uploadMutation.isPending ? "Uploading..." : "Upload"}
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">
+          {rule.contentTypes.map(type => type.split('/')[1].toUpperCase()).join(', ')} up to {formatFileSize(rule.maxBytes)}
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={accept}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) uploadMutation.mutate(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse bg-gray-200 h-32 rounded"></div>
+      ) : files.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">No documents or X-rays yet.</p>
+      ) : (
+        recordCategories.map(c => {
+          const inCategory = files.filter(file => file.category === c);
+          if (inCategory.length === 0) return null;
+          return (
+            <section key={c} className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+                {c === 'xray' ? <ImageIcon className="w-4 h-4" /> : <FileText className="w-4 h-4" />}
+                {fileCategoryRules[c].label}s
+              </h3>
+              {inCategory.map(file => (
+                <FileRow
+                  key={file.id}
+                  file={file}
+                  canDelete={isStaff || (file.uploadedBy === user?.id && fileCategoryRules[c].patientUpload)}
+                  onDelete={() => {
+                    if (confirm(`Remove ${file.fileName}?`)) deleteMutation.mutate(file.id);
+                  }}
+                />
+              ))}
+            </section>
+          );
+        })
+      )}
+    </div>
+  );
+}
+
+interface PatientDocumentsDialogProps {
+  patientId: string;
+  title: string;
+  children: React.ReactNode;
+}
+
+export function PatientDocumentsDialog({ patientId, title, children }: PatientDocumentsDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>X-rays and documents kept with the patient's record.</DialogDescription>
+        </DialogHeader>
+        {open && <PatientDocuments patientId={patientId} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
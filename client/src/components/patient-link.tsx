@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { patientDetailPath } from "@shared/patient-search";
+
+// Names for lists that only carry patient ids, keyed by id
+export function usePatientNames(patientIds: string[], enabled = true) {
+  const ids = Array.from(new Set(patientIds)).sort().join(',');
+  const { data = {} } = useQuery<Record<string, string>>({
+    queryKey: ['/api/admin/patient-names', ids],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/patient-names?patientIds=${encodeURIComponent(ids)}`, { credentials: "include" });
+      if (!response.ok) throw new Error('Failed to fetch patient names');
+      return response.json();
+    },
+    enabled: enabled && ids.length > 0,
+  });
+  return data;
+}
+
+interface PatientLinkProps {
+  patientId: string;
+  // Shown while the name is still loading, or if there isn't one
+  name?: string | null;
+  className?: string;
+}
+
+// A patient's name that opens their admin patient page
+export function PatientLink({ patientId, name, className = "" }: PatientLinkProps) {
+  return (
+    <Link
+      href={patientDetailPath(patientId)}
+      className={`text-blue-700 hover:underline ${className}`}
+      draggable={false}
+      data-testid={`link-patient-${patientId}`}
+    >
+      {name || "View patient"}
+    </Link>
+  );
+}
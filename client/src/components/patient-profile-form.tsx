@@ -0,0 +1,282 @@
+import { useEffect, useState } from "react";
+import { useForm, type Control } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import {
+  contactMethods,
+  patientProfileSchema,
+  type PatientProfile,
+  type PatientProfileInput,
+  type ProviderWithProcedures,
+} from "@shared/schema";
+
+// GET /api/patients/:id/profile
+type PatientProfileView = Partial<PatientProfile> & {
+  userId: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+};
+
+const NO_PREFERENCE = "none";
+
+const contactMethodLabels: Record<string, string> = {
+  email: "Email",
+  sms: "Text message",
+  phone: "Phone call",
+};
+
+const textFields = [
+  "firstName", "lastName", "dateOfBirth", "mobilePhone", "homePhone",
+  "addressLine1", "addressLine2", "city", "region", "postalCode", "country",
+  "emergencyContactName", "emergencyContactPhone", "emergencyContactRelationship", "preferredLanguage",
+] as const;
+
+type TextFieldName = typeof textFields[number];
+
+function TextField({ control, name, label, type = "text", placeholder }: {
+  control: Control<PatientProfileInput>;
+  name: TextFieldName;
+  label: string;
+  type?: string;
+  placeholder?: string;
+}) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type={type}
+              placeholder={placeholder}
+              {...field}
+              value={(field.value as string | null | undefined) ?? ""}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+interface PatientProfileFormProps {
+  patientId: string;
+  onSaved?: () => void;
+}
+
+// Contact and demographic details for one patient. Used by patients for
+// themselves and their family members, and by staff.
+export function PatientProfileForm({ patientId, onSaved }: PatientProfileFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const profilePath = `/api/patients/${patientId}/profile`;
+
+  const { data: profile, isLoading } = useQuery<PatientProfileView>({
+    queryKey: [profilePath],
+  });
+
+  const { data: providers = [] } = useQuery<ProviderWithProcedures[]>({
+    queryKey: ['/api/providers'],
+  });
+
+  const form = useForm<PatientProfileInput>({
+    resolver: zodResolver(patientProfileSchema),
+    defaultValues: { preferredContactMethod: "email" },
+  });
+
+  useEffect(() => {
+    if (!profile) return;
+    const values: Record<string, unknown> = {
+      preferredContactMethod: profile.preferredContactMethod || "email",
+      preferredProviderId: profile.preferredProviderId || null,
+    };
+    textFields.forEach(name => { values[name] = profile[name] ?? ""; });
+    form.reset(values as PatientProfileInput);
+  }, [profile, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PatientProfileInput) => {
+      const response = await apiRequest('PUT', profilePath, data);
+      return response.json();
+    },
+    onSuccess: (saved: PatientProfileView) => {
+      queryClient.setQueryData([profilePath], saved);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dependents'] });
+      toast({
+        title: "Profile Saved",
+        description: "Your details have been updated.",
+      });
+      onSaved?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to save profile."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !profile) {
+    return <div className="animate-pulse bg-gray-200 h-64 rounded"></div>;
+  }
+
+  const { control } = form;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => saveMutation.mutate(data))} className="space-y-6">
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-900">Personal</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <TextField control={control} name="firstName" label="First name" />
+            <TextField control={control} name="lastName" label="Last name" />
+            <TextField control={control} name="dateOfBirth" label="Date of birth" type="date" />
+            <TextField control={control} name="preferredLanguage" label="Preferred language" placeholder="e.g. en, es" />
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-900">Contact</h3>
+          {profile.email && <p className="text-sm text-gray-600">Email: {profile.email}</p>}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <TextField control={control} name="mobilePhone" label="Mobile phone" type="tel" />
+            <TextField control={control} name="homePhone" label="Home phone" type="tel" />
+            <FormField
+              control={control}
+              name="preferredContactMethod"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Preferred contact method</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {contactMethods.map(method => (
+                        <SelectItem key={method} value={method}>{contactMethodLabels[method]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name="preferredProviderId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Preferred dentist</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === NO_PREFERENCE ? null : value)}
+                    value={(field.value as string | null | undefined) || NO_PREFERENCE}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_PREFERENCE}>No preference</SelectItem>
+                      {providers.map(provider => (
+                        <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-900">Address</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <TextField control={control} name="addressLine1" label="Address line 1" />
+            <TextField control={control} name="addressLine2" label="Address line 2" />
+            <TextField control={control} name="city" label="City" />
+            <TextField control={control} name="region" label="State / region" />
+            <TextField control={control} name="postalCode" label="Postal code" />
+            <TextField control={control} name="country" label="Country" />
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-900">Emergency contact</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <TextField control={control} name="emergencyContactName" label="Name" />
+            <TextField control={control} name="emergencyContactPhone" label="Phone" type="tel" />
+            <TextField control={control} name="emergencyContactRelationship" label="Relationship" />
+          </div>
+        </section>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Profile"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+interface PatientProfileDialogProps {
+  patientId: string;
+  title: string;
+  children: React.ReactNode;
+}
+
+export function PatientProfileDialog({ patientId, title, children }: PatientProfileDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Contact details are used for reminders and appointment changes.</DialogDescription>
+        </DialogHeader>
+        {open && <PatientProfileForm patientId={patientId} onSaved={() => setOpen(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
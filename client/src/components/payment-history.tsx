@@ -1,6 +1,9 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { 
   Table, 
   TableBody, 
@@ -10,10 +13,95 @@ import {
   TableRow 
 } from "@/components/ui/table";
 import { CreditCard, Calendar, FileText, DollarSign } from "lucide-react";
-import { type Payment } from "@shared/schema";
+import { BookingForSelect } from "@/components/booking-for-select";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { apiRequest } from "@/lib/queryClient";
+import { type PatientPayment, type PaymentWithPatient } from "@shared/schema";
+
+// Pays toward the patient's own account or a dependent's. Staff confirm the
+// payment once it arrives, so it shows as pending until then.
+function MakePayment() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const handleError = useErrorToast();
+  const queryClient = useQueryClient();
+  const [payingFor, setPayingFor] = useState("");
+  const [amount, setAmount] = useState("");
+  const [description, setDescription] = useState("");
+
+  const cents = Math.round(Number(amount) * 100);
+
+  const payMutation = useMutation({
+    mutationFn: (payment: PatientPayment) => apiRequest('POST', '/api/payments', payment),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/payments'] });
+      setAmount("");
+      setDescription("");
+      toast({
+        title: "Payment Sent",
+        description: "It will show as completed once the practice confirms it.",
+      });
+    },
+    onError: (error: Error) => handleError(error, "Failed to send payment."),
+  });
+
+  if (!user) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5 text-green-600" />
+          Make a Payment
+        </CardTitle>
+        <CardDescription>Pay toward your account or a family member's</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="flex flex-wrap items-end gap-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            payMutation.mutate({
+              patientId: payingFor || user.id,
+              amount: cents,
+              description: description.trim() || undefined,
+            });
+          }}
+        >
+          <BookingForSelect value={payingFor} onChange={setPayingFor} label="Paying For" className="w-48" />
+          <div className="w-32">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Amount ($)</label>
+            <Input
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-payment-amount"
+            />
+          </div>
+          <div className="flex-1 min-w-48">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Note (optional)</label>
+            <Input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={500}
+              data-testid="input-payment-note"
+            />
+          </div>
+          <Button type="submit" disabled={!(cents > 0) || payMutation.isPending} data-testid="button-make-payment">
+            {payMutation.isPending ? "Sending..." : "Pay"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
 
 export function PaymentHistory() {
-  const { data: payments = [], isLoading } = useQuery<Payment[]>({
+  const { data: payments = [], isLoading } = useQuery<PaymentWithPatient[]>({
     queryKey: ['/api/payments'],
   });
 
@@ -92,9 +180,12 @@ export function PaymentHistory() {
   }
 
   if (payments.length === 0) {
-    return null;
+    return <MakePayment />;
   }
 
+  // Only worth a column once a guardian's dependents have payments too
+  const showPatient = new Set(payments.map(p => p.patientId)).size > 1;
+
   // Calculate total amounts
   const totalPaid = payments
     .filter(p => p.status === 'completed')
@@ -106,6 +197,8 @@ export function PaymentHistory() {
 
   return (
     <div className="space-y-6">
+      <MakePayment />
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card>
@@ -174,6 +267,7 @@ export function PaymentHistory() {
               <TableHeader>
                 <TableRow>
                   <TableHead>Date</TableHead>
+                  {showPatient && <TableHead>Patient</TableHead>}
                   <TableHead>Procedure</TableHead>
                   <TableHead>Amount</TableHead>
                   <TableHead>Insurance</TableHead>
@@ -191,6 +285,9 @@ export function PaymentHistory() {
                         {formatDate(payment.paymentDate)}
                       </div>
                     </TableCell>
+                    {showPatient && (
+                      <TableCell className="font-medium">{payment.patientName}</TableCell>
+                    )}
                     <TableCell>
                       <div>
                         <div className="font-medium">{payment.procedureName}</div>
@@ -6,6 +6,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { BarChart3, FileText, Users, CreditCard, Download, Calendar, TrendingUp, FileDown } from "lucide-react";
+import { usePracticeTime } from "@/hooks/usePracticeTime";
+import { addDays } from "@shared/datetime";
 
 interface ReportData {
   appointments?: {
@@ -34,6 +36,7 @@ interface ReportData {
 
 export function ReportsManagement() {
   const [reportType, setReportType] = useState<string>('appointments');
+  const practiceTime = usePracticeTime();
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
   const [showResults, setShowResults] = useState(false);
@@ -488,13 +491,12 @@ Generated: ${new Date().toLocaleString()}`;
   };
 
   const getDefaultDateRange = () => {
-    const now = new Date();
-    const firstDayOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-    const lastDayOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+    const firstDayOfMonth = `${practiceTime.today().slice(0, 7)}-01`;
+    const firstDayOfNextMonth = `${addDays(firstDayOfMonth, 31).slice(0, 7)}-01`;
     
     return {
-      start: firstDayOfMonth.toISOString().split('T')[0],
-      end: lastDayOfMonth.toISOString().split('T')[0]
+      start: firstDayOfMonth,
+      end: addDays(firstDayOfNextMonth, -1)
     };
   };
 
@@ -0,0 +1,86 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+
+interface SignaturePadProps {
+  // PNG data URL of the drawing, or null while the pad is empty
+  onChange: (signature: string | null) => void;
+  className?: string;
+}
+
+// Draw-to-sign box for mouse, pen and touch
+export function SignaturePad({ onChange, className = "" }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const last = useRef<{ x: number; y: number } | null>(null);
+
+  // Match the backing store to the displayed size so strokes aren't blurry
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.scale(ratio, ratio);
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+  }, []);
+
+  const point = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const start = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = true;
+    last.current = point(event);
+  };
+
+  const move = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!drawing.current || !context || !last.current) return;
+    const next = point(event);
+    context.beginPath();
+    context.moveTo(last.current.x, last.current.y);
+    context.lineTo(next.x, next.y);
+    context.stroke();
+    last.current = next;
+  };
+
+  const end = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    last.current = null;
+    onChange(canvasRef.current?.toDataURL('image/png') ?? null);
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      <canvas
+        ref={canvasRef}
+        className="w-full h-32 border-2 border-dashed border-gray-300 rounded-lg bg-white touch-none cursor-crosshair"
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={end}
+        onPointerLeave={end}
+        data-testid="signature-pad"
+      />
+      <div className="flex justify-between items-center">
+        <span className="text-xs text-gray-500">Sign above with your finger, pen or mouse</span>
+        <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={clear}>
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
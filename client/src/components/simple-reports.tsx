@@ -7,6 +7,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Download, FileText, Eye } from "lucide-react";
 import { AppointmentsPopup } from "./appointments-popup";
+import { type ProviderWithProcedures } from "@shared/schema";
+import { formatTime } from "@shared/datetime";
 
 interface ReportData {
   appointments?: {
@@ -28,15 +30,21 @@ export function SimpleReportsManagement() {
   const [reportType, setReportType] = useState<string>('appointments');
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
+  const [providerId, setProviderId] = useState<string>('all');
   const [showResults, setShowResults] = useState<boolean>(false);
 
+  const { data: providers = [] } = useQuery<ProviderWithProcedures[]>({
+    queryKey: ['/api/admin/providers'],
+  });
+
   const { data: reportData, isLoading, refetch } = useQuery<ReportData>({
-    queryKey: ['/api/reports', reportType, startDate, endDate],
+    queryKey: ['/api/reports', reportType, startDate, endDate, providerId],
     queryFn: async () => {
       const params = new URLSearchParams({
         type: reportType,
         ...(startDate && { startDate }),
         ...(endDate && { endDate }),
+        ...(reportType === 'appointments' && providerId !== 'all' && { providerId }),
       });
       const response = await fetch(`/api/reports?${params}`);
       if (!response.ok) {
@@ -118,7 +126,7 @@ export function SimpleReportsManagement() {
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Report Configuration */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <div>
             <Label htmlFor="report-type">Report Type</Label>
             <Select value={reportType} onValueChange={setReportType}>
@@ -133,6 +141,21 @@ export function SimpleReportsManagement() {
             </Select>
           </div>
           
+          <div>
+            <Label htmlFor="report-provider">Provider</Label>
+            <Select value={providerId} onValueChange={setProviderId} disabled={reportType !== 'appointments'}>
+              <SelectTrigger id="report-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All providers</SelectItem>
+                {providers.map(provider => (
+                  <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
           <div>
             <Label htmlFor="start-date">Start Date</Label>
             <Input
@@ -236,7 +259,7 @@ export function SimpleReportsManagement() {
                         {reportData.appointments.appointments.slice(0, 10).map((apt, i) => (
                           <div key={i} className="p-3 bg-gray-50 rounded text-sm">
                             <p><strong>{apt.treatmentType}</strong> with {apt.doctorName}</p>
-                            <p>{apt.appointmentDate} at {apt.appointmentTime} - <span className="capitalize">{apt.status}</span></p>
+                            <p>{apt.appointmentDate} at {formatTime(apt.appointmentTime)} - <span className="capitalize">{apt.status}</span></p>
                           </div>
                         ))}
                       </div>
@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CalendarPlus, CheckCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { type TreatmentPlan, type TreatmentPlanItem, type TimeSlot } from "@shared/schema";
+import { treatmentPlanStatusLabels, type PlanEstimate, type PlanItemStatus } from "@shared/treatment-plan";
+import { formatDate, formatTime } from "@shared/datetime";
+
+// GET /api/patients/:id/treatment-plans
+export type TreatmentPlanItemView = TreatmentPlanItem & {
+  procedureName: string;
+  durationMinutes: number;
+  patientPortionCents: number;
+  status: PlanItemStatus;
+  appointment: { id: string; appointmentDate: string; appointmentTime: string; doctorName: string; status: string } | null;
+};
+
+export type TreatmentPlanView = Omit<TreatmentPlan, 'createdAt' | 'updatedAt' | 'acceptedAt'> & {
+  createdAt: string | null;
+  updatedAt: string | null;
+  acceptedAt: string | null;
+  phases: { id: string; position: number; name: string; items: TreatmentPlanItemView[]; estimate: PlanEstimate }[];
+  estimate: PlanEstimate;
+};
+
+// GET /api/treatment-plans/items/:itemId/openings
+type Opening = TimeSlot & { endTime: string; timeSlotIds: string[] };
+
+export const planStatusStyles: Record<string, string> = {
+  proposed: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-blue-100 text-blue-800',
+  in_progress: 'bg-purple-100 text-purple-800',
+  completed: 'bg-green-100 text-green-800',
+};
+
+export function formatCents(cents: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(cents / 100);
+}
+
+export function itemLocation(item: Pick<TreatmentPlanItem, 'tooth' | 'surfaces'>): string {
+  if (!item.tooth) return '';
+  return `Tooth ${item.tooth}${item.surfaces.length ? ` ${item.surfaces.join('')}` : ''}`;
+}
+
+interface BookPlanItemDialogProps {
+  patientId: string;
+  item: TreatmentPlanItemView;
+  children: React.ReactNode;
+}
+
+// The next openings for one accepted item, booked with a click
+function BookPlanItemDialog({ patientId, item, children }: BookPlanItemDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: openings = [], isLoading } = useQuery<Opening[]>({
+    queryKey: ['/api/treatment-plans/items', item.id, 'openings'],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const bookMutation = useMutation({
+    mutationFn: (opening: Opening) => apiRequest('POST', '/api/appointments', {
+      timeSlotId: opening.id,
+      treatmentType: item.procedureName,
+      patientId,
+      treatmentPlanItemId: item.id,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/patients', patientId, 'treatment-plans'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      setOpen(false);
+      toast({
+        title: "Appointment Booked",
+        description: `${item.procedureName} is booked.`,
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        window.location.href = "/api/login";
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/treatment-plans/items', item.id, 'openings'] });
+      toast({
+        title: "Booking Failed",
+        description: errorMessage(error, "Failed to book appointment."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Book {item.procedureName}</DialogTitle>
+          <DialogDescription>
+            {item.durationMinutes} minutes · your estimated portion {formatCents(item.patientPortionCents)}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="animate-pulse bg-gray-200 h-32 rounded"></div>
+        ) : openings.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No openings in the next four weeks. Please call the practice to book this visit.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {openings.map(opening => (
+              <button
+                key={opening.timeSlotIds.join('-')}
+                className="w-full flex justify-between items-center border rounded-lg p-3 text-sm hover:bg-blue-50 disabled:opacity-50"
+                onClick={() => bookMutation.mutate(opening)}
+                disabled={bookMutation.isPending}
+              >
+                <span className="font-medium text-gray-900">
+                  {formatDate(opening.date, { weekday: 'short', month: 'short', day: 'numeric' })} · {formatTime(opening.time)}
+                </span>
+                <span className="text-gray-600">{opening.doctorName}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface TreatmentPlanCardProps {
+  plan: TreatmentPlanView;
+  // Staff controls go here; patients get accept and book
+  actions?: React.ReactNode;
+}
+
+export function TreatmentPlanCard({ plan, actions }: TreatmentPlanCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const bookable = !actions && (plan.status === 'accepted' || plan.status === 'in_progress');
+
+  const acceptMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/treatment-plans/${plan.id}/accept`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/patients', plan.patientId, 'treatment-plans'] });
+      toast({
+        title: "Plan Accepted",
+        description: "You can now book each step of your treatment.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to accept plan."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4" data-testid={`treatment-plan-${plan.id}`}>
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <h3 className="font-semibold text-gray-900">{plan.title}</h3>
+            <Badge className={planStatusStyles[plan.status]}>
+              {treatmentPlanStatusLabels[plan.status as keyof typeof treatmentPlanStatusLabels] || plan.status}
+            </Badge>
+          </div>
+          {plan.notes && <p className="text-sm text-gray-600 mt-1 whitespace-pre-wrap">{plan.notes}</p>}
+        </div>
+        {actions}
+      </div>
+
+      {plan.phases.map(phase => (
+        <div key={phase.id} className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <h4 className="font-medium text-gray-900">Phase {phase.position}: {phase.name}</h4>
+            <span className="text-gray-600">Your portion {formatCents(phase.estimate.patientCents)}</span>
+          </div>
+          <div className="divide-y border rounded">
+            {phase.items.map(item => (
+              <div key={item.id} className="flex justify-between items-center gap-3 p-2 text-sm">
+                <div>
+                  <p className="text-gray-900">
+                    {item.procedureName}
+                    {item.tooth && <span className="text-gray-500"> · {itemLocation(item)}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Fee {formatCents(item.feeCents)} · insurance est. {item.coveragePercent}% · you pay{' '}
+                    <span className="font-medium text-gray-900">{formatCents(item.patientPortionCents)}</span>
+                  </p>
+                  {item.notes && <p className="text-xs text-gray-500">{item.notes}</p>}
+                </div>
+                <div className="shrink-0 text-right">
+                  {item.appointment && item.status !== 'planned' ? (
+                    <p className={`text-xs ${item.status === 'completed' ? 'text-green-700' : 'text-blue-700'}`}>
+                      {item.status === 'completed' ? 'Done' : 'Booked'} {formatDate(item.appointment.appointmentDate)}
+                      {item.status === 'booked' && ` at ${formatTime(item.appointment.appointmentTime)}`}
+                    </p>
+                  ) : bookable ? (
+                    <BookPlanItemDialog patientId={plan.patientId} item={item}>
+                      <Button size="sm" variant="outline" className="h-7 text-xs">
+                        <CalendarPlus className="w-3 h-3 mr-1" />
+                        Book
+                      </Button>
+                    </BookPlanItemDialog>
+                  ) : null}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex justify-between items-center border-t pt-3">
+        <div className="text-sm text-gray-600">
+          Total {formatCents(plan.estimate.feeCents)} · insurance est. {formatCents(plan.estimate.insuranceCents)}
+          <p className="text-base font-semibold text-gray-900">Your estimated portion {formatCents(plan.estimate.patientCents)}</p>
+        </div>
+        {!actions && plan.status === 'proposed' && (
+          <Button
+            onClick={() => {
+              if (confirm(`Accept "${plan.title}"? You can then book each step.`)) acceptMutation.mutate();
+            }}
+            disabled={acceptMutation.isPending}
+          >
+            <CheckCircle className="w-4 h-4 mr-2" />
+            Accept Plan
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">Insurance amounts are estimates; your final cost depends on what your insurer pays.</p>
+    </div>
+  );
+}
+
+// The patient's plans in the portal, newest first
+export function TreatmentPlanList({ patientId }: { patientId: string }) {
+  const { data: plans = [], isLoading } = useQuery<TreatmentPlanView[]>({
+    queryKey: ['/api/patients', patientId, 'treatment-plans'],
+  });
+
+  if (isLoading) {
+    return <div className="animate-pulse bg-gray-200 h-48 rounded"></div>;
+  }
+
+  if (plans.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-8">
+        No treatment plans yet. Your dentist will add one here when more than a routine visit is needed.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {plans.map(plan => <TreatmentPlanCard key={plan.id} plan={plan} />)}
+    </div>
+  );
+}
+
+interface TreatmentPlanDialogProps {
+  patientId: string;
+  title: string;
+  children: React.ReactNode;
+}
+
+export function TreatmentPlanDialog({ patientId, title, children }: TreatmentPlanDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Review and accept proposed treatment, then book each step.</DialogDescription>
+        </DialogHeader>
+        {open && <TreatmentPlanList patientId={patientId} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,370 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Hourglass, Check, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { usePracticeTime } from "@/hooks/usePracticeTime";
+import { formatDate, formatTime } from "@shared/datetime";
+import { type Procedure, type ProviderWithProcedures, type WaitlistEntry, type WaitlistOffer } from "@shared/schema";
+import { z } from "zod";
+
+type PatientOffer = WaitlistOffer & { date?: string; time?: string; doctorName?: string };
+type PatientEntry = WaitlistEntry & { offers: PatientOffer[] };
+
+const formSchema = z.object({
+  procedureId: z.string().min(1, "Choose a procedure"),
+  providerIds: z.array(z.string()),
+  earliestDate: z.string().min(1, "Required"),
+  latestDate: z.string().min(1, "Required"),
+  earliestTime: z.string(),
+  latestTime: z.string(),
+}).refine(data => data.earliestDate <= data.latestDate, {
+  message: "Must be on or after the first date",
+  path: ["latestDate"],
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+const statusLabels: Record<string, string> = {
+  waiting: "Waiting",
+  offered: "Slot offered",
+  booked: "Booked",
+  cancelled: "Left waitlist",
+  expired: "Expired",
+};
+
+export function WaitlistCard() {
+  const [showForm, setShowForm] = useState(false);
+  const { toast } = useToast();
+  const practiceTime = usePracticeTime();
+  const queryClient = useQueryClient();
+
+  const { data: entries = [] } = useQuery<PatientEntry[]>({
+    queryKey: ['/api/waitlist/mine'],
+    refetchInterval: 60 * 1000,
+  });
+
+  const { data: procedures = [] } = useQuery<Procedure[]>({
+    queryKey: ['/api/procedures'],
+  });
+
+  const { data: providers = [] } = useQuery<ProviderWithProcedures[]>({
+    queryKey: ['/api/providers'],
+  });
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      procedureId: "",
+      providerIds: [],
+      earliestDate: practiceTime.today(),
+      latestDate: "",
+      earliestTime: "",
+      latestTime: "",
+    },
+  });
+
+  const procedureId = form.watch("procedureId");
+  const eligibleProviders = providers.filter(p =>
+    !procedureId || p.procedureIds.length === 0 || p.procedureIds.includes(procedureId)
+  );
+
+  const handleError = useErrorToast();
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/waitlist/mine'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/timeslots'] });
+  };
+
+  const joinMutation = useMutation({
+    mutationFn: (data: FormData) => apiRequest('POST', '/api/waitlist', {
+      ...data,
+      earliestTime: data.earliestTime || null,
+      latestTime: data.latestTime || null,
+    }),
+    onSuccess: () => {
+      refresh();
+      setShowForm(false);
+      form.reset();
+      toast({
+        title: "Added to Waitlist",
+        description: "We'll hold a matching slot for you as soon as one opens up.",
+      });
+    },
+    onError: (error: Error) => handleError(error, "Failed to join the waitlist."),
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/waitlist/${id}`),
+    onSuccess: refresh,
+    onError: (error: Error) => handleError(error, "Failed to leave the waitlist."),
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: (offerId: string) => apiRequest('POST', `/api/waitlist/offers/${offerId}/accept`),
+    onSuccess: () => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      toast({
+        title: "Appointment Booked!",
+        description: "The offered slot is now your appointment.",
+      });
+    },
+    onError: (error: Error) => {
+      refresh();
+      handleError(error, "Failed to accept the offer.");
+    },
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: (offerId: string) => apiRequest('POST', `/api/waitlist/offers/${offerId}/decline`),
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Offer Declined",
+        description: "You're still on the waitlist for another time.",
+      });
+    },
+    onError: (error: Error) => handleError(error, "Failed to decline the offer."),
+  });
+
+  const procedureName = (id: string) => procedures.find(p => p.id === id)?.name || "Appointment";
+
+  const activeEntries = entries.filter(e => e.status === 'waiting' || e.status === 'offered');
+
+  return (
+    <Card className="card-elevated glass-effect">
+      <CardHeader>
+        <CardTitle className="text-lg text-gradient flex items-center gap-2">
+          <Hourglass className="w-5 h-5" />
+          Waitlist
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {activeEntries.length === 0 && !showForm && (
+          <p className="text-sm text-gray-600">
+            Can't find a time that suits you? Join the waitlist and we'll hold the first matching opening for you.
+          </p>
+        )}
+
+        {activeEntries.map(entry => {
+          const offer = entry.offers.find(o => o.status === 'pending');
+          return (
+            <div key={entry.id} className="border rounded-lg p-3 space-y-2">
+              <div className="flex justify-between items-start">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{procedureName(entry.procedureId)}</p>
+                  <p className="text-xs text-gray-500">
+                    {entry.earliestDate} – {entry.latestDate}
+                    {entry.earliestTime && entry.latestTime && `, ${entry.earliestTime}–${entry.latestTime}`}
+                  </p>
+                </div>
+                <Badge variant={entry.status === 'offered' ? 'default' : 'secondary'}>
+                  {statusLabels[entry.status] || entry.status}
+                </Badge>
+              </div>
+
+              {offer ? (
+                <div className="bg-blue-50 rounded-md p-2 space-y-2">
+                  <p className="text-sm text-gray-800">
+                    {offer.date && offer.time
+                      ? `${formatDate(offer.date, { weekday: 'short', month: 'short', day: 'numeric' })} at ${formatTime(offer.time)}`
+                      : 'A slot'} with {offer.doctorName}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Held for you until {new Date(offer.expiresAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: practiceTime.timeZone })}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => acceptMutation.mutate(offer.id)}
+                      disabled={acceptMutation.isPending || declineMutation.isPending}
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => declineMutation.mutate(offer.id)}
+                      disabled={acceptMutation.isPending || declineMutation.isPending}
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Decline
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-xs text-gray-500 h-7 px-2"
+                  onClick={() => leaveMutation.mutate(entry.id)}
+                  disabled={leaveMutation.isPending}
+                >
+                  Leave waitlist
+                </Button>
+              )}
+            </div>
+          );
+        })}
+
+        {showForm ? (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(data => joinMutation.mutate(data))} className="space-y-3">
+              <FormField
+                control={form.control}
+                name="procedureId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Procedure</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue("providerIds", []);
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a procedure" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {procedures.map(procedure => (
+                          <SelectItem key={procedure.id} value={procedure.id}>
+                            {procedure.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="providerIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Preferred Doctors</FormLabel>
+                    <p className="text-xs text-gray-500">Leave all unchecked for any doctor.</p>
+                    <div className="space-y-1">
+                      {eligibleProviders.map(provider => (
+                        <label key={provider.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(provider.id)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, provider.id]
+                                  : field.value.filter((id) => id !== provider.id)
+                              )
+                            }
+                          />
+                          {provider.name}
+                        </label>
+                      ))}
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-2">
+                <FormField
+                  control={form.control}
+                  name="earliestDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>From</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="latestDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Until</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="earliestTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Not before</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="latestTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Done by</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" className="flex-1" onClick={() => setShowForm(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" className="flex-1" disabled={joinMutation.isPending}>
+                  {joinMutation.isPending ? "Joining..." : "Join Waitlist"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        ) : (
+          <Button variant="outline" className="w-full button-animate" onClick={() => setShowForm(true)}>
+            Join Waitlist
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,21 @@
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { errorMessage } from "@/lib/queryClient";
+
+// The usual reaction to a failed request: back to login if the session ended,
+// otherwise a toast with the server's message or `fallback`.
+export function useErrorToast() {
+  const { toast } = useToast();
+
+  return (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      window.location.href = "/api/login";
+      return;
+    }
+    toast({
+      title: "Error",
+      description: errorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+}
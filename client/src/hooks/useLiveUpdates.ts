@@ -0,0 +1,95 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+
+export type LiveTopic = 'appointments' | 'timeslots';
+
+// Queries that go stale when the server reports a change to each topic
+const staleQueries: Record<LiveTopic, string[]> = {
+  appointments: ['/api/appointments', '/api/appointments/all', '/api/appointments/quick-book', '/api/admin/schedule', '/api/admin/waitlist'],
+  timeslots: ['/api/timeslots', '/api/time-slots/available', '/api/appointments/quick-book', '/api/admin/schedule'],
+};
+
+const MAX_RETRY_MS = 30 * 1000;
+
+// One socket per tab, shared by every component that wants updates. Topics
+// are reference-counted so the socket closes when the last one unmounts.
+const subscribers = new Map<LiveTopic, number>();
+let socket: WebSocket | null = null;
+let retryMs = 1000;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+function activeTopics(): LiveTopic[] {
+  return Array.from(subscribers.keys());
+}
+
+function invalidate(topics: LiveTopic[]) {
+  const keys = new Set(topics.flatMap(topic => staleQueries[topic] || []));
+  keys.forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+}
+
+function subscribe() {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify({ type: 'subscribe', topics: activeTopics() }));
+  }
+}
+
+function connect() {
+  retryTimer = undefined;
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+  socket = ws;
+
+  ws.onopen = () => {
+    // Anything could have changed while we were disconnected
+    if (retryMs > 1000) invalidate(activeTopics());
+    retryMs = 1000;
+    subscribe();
+  };
+  ws.onmessage = (event) => {
+    try {
+      const message = JSON.parse(event.data);
+      if (message.type === 'change') invalidate(message.topics);
+    } catch {
+      // Not ours
+    }
+  };
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    if (subscribers.size === 0) return;
+    retryTimer = setTimeout(connect, retryMs);
+    retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+  };
+}
+
+function disconnect() {
+  clearTimeout(retryTimer);
+  retryTimer = undefined;
+  const ws = socket;
+  socket = null;
+  retryMs = 1000;
+  ws?.close();
+}
+
+// Refetches the matching queries whenever the server reports a change, so
+// screens stay current without manual refreshes
+export function useLiveUpdates(topics: LiveTopic[]) {
+  const topicKey = [...topics].sort().join(',');
+
+  useEffect(() => {
+    const mine = topicKey.split(',') as LiveTopic[];
+    mine.forEach(topic => subscribers.set(topic, (subscribers.get(topic) || 0) + 1));
+    if (socket) subscribe();
+    else if (!retryTimer) connect();
+
+    return () => {
+      mine.forEach(topic => {
+        const count = (subscribers.get(topic) || 0) - 1;
+        if (count > 0) subscribers.set(topic, count);
+        else subscribers.delete(topic);
+      });
+      if (subscribers.size === 0) disconnect();
+      else subscribe();
+    };
+  }, [topicKey]);
+}
@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { dateInZone, zonedInstant } from "@shared/datetime";
+
+// Dates and times from the API are practice-local. This binds the shared
+// helpers to the practice's time zone so "today" and "has this started?" mean
+// the same thing for every visitor, wherever their browser is.
+export function usePracticeTime() {
+  const { data: settings } = useQuery<{ timeZone: string }>({
+    queryKey: ["/api/practice-settings"],
+    staleTime: Infinity,
+  });
+
+  // Until the practice's zone loads, the browser's is the best guess
+  const timeZone = settings?.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  return {
+    timeZone,
+    today: () => dateInZone(new Date(), timeZone),
+    startOf: (date: string, time: string) => zonedInstant(date, time, timeZone),
+  };
+}
@@ -0,0 +1,4 @@
+// The server-built .ics for one appointment, with its real length and time zone
+export function calendarFileUrl(appointmentId: string): string {
+  return `/api/appointments/${appointmentId}/calendar.ics`;
+}
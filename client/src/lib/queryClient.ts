@@ -7,6 +7,18 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// What to tell the user about a failed request. Errors from apiRequest read
+// "<status>: <body>", and the body is usually the API's JSON { message }.
+export function errorMessage(error: Error, fallback: string): string {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed?.message === "string" && parsed.message ? parsed.message : fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -0,0 +1,29 @@
+import type { FileCategory } from "@shared/schema";
+import { fileProblem, type FileRecord } from "@shared/files";
+
+interface UploadOptions {
+  category: FileCategory;
+  patientId?: string;
+  description?: string;
+}
+
+// Sends a file to POST /api/files. Errors read like apiRequest's
+// ("415: {...}"), and files the server would refuse fail before sending.
+// Browsers leave the type blank for some files (DICOM); the server checks those.
+export async function uploadFile(file: Blob, fileName: string, { category, patientId, description }: UploadOptions): Promise<FileRecord> {
+  const problem = file.type ? fileProblem(category, file.type, file.size) : null;
+  if (problem) throw new Error(problem);
+
+  const body = new FormData();
+  body.append("category", category);
+  if (patientId) body.append("patientId", patientId);
+  if (description) body.append("description", description);
+  body.append("file", file, fileName);
+
+  const res = await fetch("/api/files", { method: "POST", body, credentials: "include" });
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+  return await res.json();
+}
@@ -7,19 +7,43 @@ import ResourceList from "@/components/admin/resource-list";
 import ChatbotManager from "@/components/admin/chatbot-manager";
 import CalendarManager from "@/components/admin/calendar-manager";
 import { ProcedureList } from "@/components/admin/procedure-list";
+import { ScheduleTemplateList } from "@/components/admin/schedule-template-list";
+import { PracticeCalendarList } from "@/components/admin/practice-calendar-list";
+import { ScheduleBoard } from "@/components/admin/schedule-board";
+import { ProviderList } from "@/components/admin/provider-list";
+import { WaitlistPanel } from "@/components/admin/waitlist-panel";
+import { NoShowSummary } from "@/components/admin/no-show-summary";
+import { RecallList } from "@/components/admin/recall-list";
+import { PatientSearch } from "@/components/admin/patient-search";
 import { PromotionList } from "@/components/admin/promotion-list";
 import { FormUpload } from "@/components/admin/form-upload";
 import { FormsList } from "@/components/admin/forms-list";
+import { IntakeFormsList } from "@/components/admin/intake-forms-list";
+import { ConsentTemplatesList } from "@/components/admin/consent-templates";
+import { ClinicalNoteTemplatesList } from "@/components/admin/clinical-note-templates";
+import { ClinicalNoteDialog } from "@/components/admin/clinical-note";
+import { IntakeStatusBadge, useIntakeStatus } from "@/components/admin/intake-status";
 import { SimpleReportsManagement } from "@/components/simple-reports";
 import { AllAppointmentsPopup } from "@/components/all-appointments-popup";
 import { ReminderPanel } from "@/components/admin/reminder-panel";
+import { PatientProfileDialog } from "@/components/patient-profile-form";
+import { MedicalAlertBadges, useMedicalAlerts } from "@/components/medical-alerts";
+import { PatientLink, usePatientNames } from "@/components/patient-link";
+import { MedicalHistoryReview } from "@/components/admin/medical-history-review";
+import { DentalChartEditor } from "@/components/admin/dental-chart-editor";
+import { TreatmentPlanManager } from "@/components/admin/treatment-plan-editor";
+import { PatientDocumentsDialog } from "@/components/patient-documents";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { CalendarCheck, Users, DollarSign, Clock, UserPlus, FileText, Calendar, Settings, MessageSquare, Stethoscope, Percent, BarChart3, Bell } from "lucide-react";
+import { CalendarCheck, Users, DollarSign, Clock, UserPlus, FileText, Calendar, Settings, MessageSquare, CalendarClock, UserCog, Stethoscope, Percent, BarChart3, Bell, CalendarOff, HeartPulse, Smile, ClipboardList, FolderOpen, NotebookPen } from "lucide-react";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
+import { usePracticeTime } from "@/hooks/usePracticeTime";
+import { useLiveUpdates } from "@/hooks/useLiveUpdates";
+import { formatTime } from "@shared/datetime";
+import { nextSteps, requirementCheck } from "@shared/schedule-board";
 
 interface Appointment {
   id: string;
@@ -29,16 +53,22 @@ interface Appointment {
   appointmentDate: string;
   appointmentTime: string;
   status: string;
+  bookingRequirement: string | null;
 }
 
 export default function Admin() {
   const { toast } = useToast();
   const { user, isAuthenticated, isLoading } = useAuth();
+  const practiceTime = usePracticeTime();
+  useLiveUpdates(['appointments', 'timeslots']);
   const queryClient = useQueryClient();
   const [showTeamManager, setShowTeamManager] = useState(false);
   const [showResourceManager, setShowResourceManager] = useState(false);
   const [showChatbotManager, setShowChatbotManager] = useState(false);
   const [showCalendarManager, setShowCalendarManager] = useState(false);
+  const [showSchedules, setShowSchedules] = useState(false);
+  const [showPracticeCalendar, setShowPracticeCalendar] = useState(false);
+  const [showProviders, setShowProviders] = useState(false);
   const [showProcedures, setShowProcedures] = useState(false);
   const [showPromotions, setShowPromotions] = useState(false);
   const [showForms, setShowForms] = useState(false);
@@ -75,6 +105,10 @@ export default function Admin() {
     retry: false,
     enabled: !!user && (user as any).role === 'admin',
   });
+  const recentAppointments = appointments?.slice(0, 3) || [];
+  const medicalAlerts = useMedicalAlerts(recentAppointments.map(apt => apt.patientId));
+  const patientNames = usePatientNames(recentAppointments.map(apt => apt.patientId));
+  const intakeStatus = useIntakeStatus(recentAppointments.map(apt => apt.id));
 
   const initializeMutation = useMutation({
     mutationFn: async () => {
@@ -107,8 +141,8 @@ export default function Admin() {
   });
 
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      await apiRequest('PATCH', `/api/appointments/${id}/status`, { status });
+    mutationFn: async ({ id, ...change }: { id: string; status: string; requirementMet?: boolean }) => {
+      await apiRequest('PATCH', `/api/appointments/${id}/status`, change);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
@@ -168,11 +202,10 @@ export default function Admin() {
   }
 
   const todayAppointments = appointments?.filter(apt => 
-    apt.appointmentDate === new Date().toISOString().split('T')[0]
+    apt.appointmentDate === practiceTime.today()
   ).length || 0;
 
   const pendingAppointments = appointments?.filter(apt => apt.status === 'pending').length || 0;
-  const recentAppointments = appointments?.slice(0, 3) || [];
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -256,6 +289,12 @@ export default function Admin() {
           </Card>
         </div>
 
+        {/* Patient lookup */}
+        <PatientSearch />
+
+        {/* Front-desk schedule */}
+        <ScheduleBoard />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Recent Appointments */}
           <Card>
@@ -290,22 +329,95 @@ export default function Admin() {
                           <Users className="w-5 h-5 text-blue-600" />
                         </div>
                         <div>
-                          <p className="text-sm font-medium text-gray-900">{appointment.treatmentType}</p>
+                          <PatientLink patientId={appointment.patientId} name={patientNames[appointment.patientId]} className="text-sm font-medium" />
+                          <p className="text-sm text-gray-900">{appointment.treatmentType}</p>
                           <p className="text-xs text-gray-600">{appointment.doctorName}</p>
+                          <MedicalAlertBadges summary={medicalAlerts[appointment.patientId]} />
+                          <IntakeStatusBadge appointmentId={appointment.id} forms={intakeStatus[appointment.id]} />
                         </div>
                       </div>
                       <div className="text-right">
-                        <p className="text-sm text-gray-900">{appointment.appointmentTime}</p>
+                        <p className="text-sm text-gray-900">{formatTime(appointment.appointmentTime)}</p>
                         <div className="flex items-center space-x-1">
                           <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
                             appointment.status === 'confirmed' 
                               ? 'bg-green-100 text-green-800'
                               : appointment.status === 'pending'
                               ? 'bg-yellow-100 text-yellow-800'
+                              : appointment.status === 'checked_in' || appointment.status === 'in_chair'
+                              ? 'bg-blue-100 text-blue-800'
+                              : appointment.status === 'no_show'
+                              ? 'bg-red-100 text-red-800'
                               : 'bg-gray-100 text-gray-800'
                           }`}>
-                            {appointment.status}
+                            {appointment.status.replace('_', ' ')}
                           </span>
+                          <MedicalHistoryReview patientId={appointment.patientId}>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="px-2 py-1 h-7 text-xs button-animate"
+                              title="Medical History"
+                              data-testid={`button-medical-history-${appointment.id}`}
+                            >
+                              <HeartPulse className="w-3 h-3" />
+                            </Button>
+                          </MedicalHistoryReview>
+                          <DentalChartEditor patientId={appointment.patientId}>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="px-2 py-1 h-7 text-xs button-animate"
+                              title="Dental Chart"
+                              data-testid={`button-chart-${appointment.id}`}
+                            >
+                              <Smile className="w-3 h-3" />
+                            </Button>
+                          </DentalChartEditor>
+                          <TreatmentPlanManager patientId={appointment.patientId}>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="px-2 py-1 h-7 text-xs button-animate"
+                              title="Treatment Plans"
+                              data-testid={`button-treatment-plans-${appointment.id}`}
+                            >
+                              <ClipboardList className="w-3 h-3" />
+                            </Button>
+                          </TreatmentPlanManager>
+                          <ClinicalNoteDialog appointment={appointment}>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="px-2 py-1 h-7 text-xs button-animate"
+                              title="Clinical Note"
+                              data-testid={`button-clinical-note-${appointment.id}`}
+                            >
+                              <NotebookPen className="w-3 h-3" />
+                            </Button>
+                          </ClinicalNoteDialog>
+                          <PatientDocumentsDialog patientId={appointment.patientId} title="Documents & X-rays">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="px-2 py-1 h-7 text-xs button-animate"
+                              title="Documents & X-rays"
+                              data-testid={`button-documents-${appointment.id}`}
+                            >
+                              <FolderOpen className="w-3 h-3" />
+                            </Button>
+                          </PatientDocumentsDialog>
+                          <PatientProfileDialog patientId={appointment.patientId} title="Patient Profile">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="px-2 py-1 h-7 text-xs button-animate"
+                              title="Patient Profile"
+                              data-testid={`button-profile-${appointment.id}`}
+                            >
+                              <UserCog className="w-3 h-3" />
+                            </Button>
+                          </PatientProfileDialog>
                           <ReminderPanel appointment={appointment}>
                             <Button
                               size="sm"
@@ -318,18 +430,20 @@ export default function Admin() {
                               Remind
                             </Button>
                           </ReminderPanel>
-                          {appointment.status === 'pending' && (
+                          {nextSteps[appointment.status] && (
                             <Button
                               size="sm"
                               variant="ghost"
                               className="button-animate"
-                              onClick={() => updateStatusMutation.mutate({ 
-                                id: appointment.id, 
-                                status: 'confirmed' 
-                              })}
+                              onClick={() => {
+                                const { status } = nextSteps[appointment.status];
+                                const check = requirementCheck(appointment, status);
+                                if (check && !confirm(check)) return;
+                                updateStatusMutation.mutate({ id: appointment.id, status, requirementMet: check ? true : undefined });
+                              }}
                               disabled={updateStatusMutation.isPending}
                             >
-                              Confirm
+                              {nextSteps[appointment.status].label}
                             </Button>
                           )}
                         </div>
@@ -398,6 +512,66 @@ export default function Admin() {
                   <p className="text-sm font-medium text-gray-700 group-hover:text-blue-600">Manage Calendar</p>
                 </button>
 
+                <Dialog open={showProviders} onOpenChange={setShowProviders}>
+                  <DialogTrigger asChild>
+                    <button className="p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-blue-600 hover:bg-blue-50 transition-colors group">
+                      <UserCog className="h-8 w-8 text-gray-400 group-hover:text-blue-600 mb-2 mx-auto" />
+                      <p className="text-sm font-medium text-gray-700 group-hover:text-blue-600">Manage Providers</p>
+                    </button>
+                  </DialogTrigger>
+                  <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden">
+                    <DialogHeader>
+                      <DialogTitle>Provider Management</DialogTitle>
+                      <DialogDescription>
+                        Manage the clinicians patients can book and what each one performs.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="overflow-y-auto max-h-[80vh] pr-2">
+                      <ProviderList />
+                    </div>
+                  </DialogContent>
+                </Dialog>
+
+                <Dialog open={showSchedules} onOpenChange={setShowSchedules}>
+                  <DialogTrigger asChild>
+                    <button className="p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-blue-600 hover:bg-blue-50 transition-colors group">
+                      <CalendarClock className="h-8 w-8 text-gray-400 group-hover:text-blue-600 mb-2 mx-auto" />
+                      <p className="text-sm font-medium text-gray-700 group-hover:text-blue-600">Weekly Schedules</p>
+                    </button>
+                  </DialogTrigger>
+                  <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden">
+                    <DialogHeader>
+                      <DialogTitle>Weekly Schedules</DialogTitle>
+                      <DialogDescription>
+                        Set each doctor's recurring hours and generate time slots from them.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="overflow-y-auto max-h-[80vh] pr-2">
+                      <ScheduleTemplateList />
+                    </div>
+                  </DialogContent>
+                </Dialog>
+
+                <Dialog open={showPracticeCalendar} onOpenChange={setShowPracticeCalendar}>
+                  <DialogTrigger asChild>
+                    <button className="p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-blue-600 hover:bg-blue-50 transition-colors group">
+                      <CalendarOff className="h-8 w-8 text-gray-400 group-hover:text-blue-600 mb-2 mx-auto" />
+                      <p className="text-sm font-medium text-gray-700 group-hover:text-blue-600">Hours & Closures</p>
+                    </button>
+                  </DialogTrigger>
+                  <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden">
+                    <DialogHeader>
+                      <DialogTitle>Hours & Closures</DialogTitle>
+                      <DialogDescription>
+                        Set the practice's office hours and plan holidays and closures.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="overflow-y-auto max-h-[80vh] pr-2">
+                      <PracticeCalendarList />
+                    </div>
+                  </DialogContent>
+                </Dialog>
+
                 <button 
                   onClick={() => setShowChatbotManager(true)}
                   className="p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-blue-600 hover:bg-blue-50 transition-colors group"
@@ -470,14 +644,17 @@ export default function Admin() {
                   <DialogTrigger asChild>
                     <button className="p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-blue-600 hover:bg-blue-50 transition-colors group">
                       <FileText className="h-8 w-8 text-gray-400 group-hover:text-blue-600 mb-2 mx-auto" />
-                      <p className="text-sm font-medium text-gray-700 group-hover:text-blue-600">Manage PDF Forms</p>
+                      <p className="text-sm font-medium text-gray-700 group-hover:text-blue-600">Manage Forms</p>
                     </button>
                   </DialogTrigger>
                   <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden">
                     <DialogHeader>
-                      <DialogTitle>PDF Forms Management</DialogTitle>
+                      <DialogTitle>Forms Management</DialogTitle>
                     </DialogHeader>
-                    <div className="overflow-y-auto max-h-[80vh] pr-2">
+                    <div className="overflow-y-auto max-h-[80vh] pr-2 space-y-6">
+                      <IntakeFormsList />
+                      <ConsentTemplatesList />
+                      <ClinicalNoteTemplatesList />
                       <FormsList />
                     </div>
                   </DialogContent>
@@ -485,6 +662,15 @@ export default function Admin() {
               </div>
             </CardContent>
           </Card>
+
+          {/* Waitlist */}
+          <WaitlistPanel />
+
+          {/* No-Shows */}
+          <NoShowSummary />
+
+          {/* Hygiene Recalls */}
+          <RecallList />
         </div>
 
 
@@ -8,16 +8,31 @@ import { PaymentHistory } from "@/components/payment-history";
 import { FormsDownload } from "@/components/forms-download";
 import { ReportsManagement } from "@/components/reports-management";
 import { AllAppointmentsPopup } from "@/components/all-appointments-popup";
+import { CalendarFeedDialog } from "@/components/calendar-feed-dialog";
 import { OneClickBooking } from "@/components/one-click-booking";
+import { WaitlistCard } from "@/components/waitlist-card";
+import { FamilyCard } from "@/components/family-card";
+import { PatientProfileForm } from "@/components/patient-profile-form";
+import { MedicalHistoryForm } from "@/components/medical-history-form";
+import { PatientDentalChart } from "@/components/dental-chart";
+import { TreatmentPlanList } from "@/components/treatment-plans";
+import { PatientDocuments } from "@/components/patient-documents";
+import { AppointmentFormsButton } from "@/components/intake-forms";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { CalendarCheck, FileText, CreditCard, Download, Shield, CalendarPlus, ArrowLeft, BarChart3 } from "lucide-react";
+import { CalendarCheck, FileText, CreditCard, Download, Shield, CalendarPlus, ArrowLeft, BarChart3, UserCircle, Smile, ClipboardList, FolderOpen } from "lucide-react";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { usePracticeTime } from "@/hooks/usePracticeTime";
+import { useLiveUpdates } from "@/hooks/useLiveUpdates";
+import { formatDate, formatTime } from "@shared/datetime";
+import { calendarFileUrl } from "@/lib/calendarUtils";
+import { type Dependent } from "@shared/schema";
 
 interface Appointment {
   id: string;
+  patientId: string;
   doctorName: string;
   treatmentType: string;
   appointmentDate: string;
@@ -28,6 +43,8 @@ interface Appointment {
 export default function Home() {
   const { toast } = useToast();
   const { user, isAuthenticated, isLoading } = useAuth();
+  const practiceTime = usePracticeTime();
+  useLiveUpdates(['appointments']);
   const queryClient = useQueryClient();
   const [activeView, setActiveView] = useState<string>('dashboard');
 
@@ -52,6 +69,11 @@ export default function Home() {
     enabled: !!user,
   });
 
+  const { data: dependents = [] } = useQuery<Dependent[]>({
+    queryKey: ["/api/dependents"],
+    enabled: !!user,
+  });
+
   const promoteToAdminMutation = useMutation({
     mutationFn: async () => {
       const response = await fetch('/api/auth/promote-admin', {
@@ -101,91 +123,29 @@ export default function Home() {
     return null;
   }
 
-  // Function to create calendar reminder
-  const createCalendarReminder = (appointment: Appointment) => {
-    const [time, period] = appointment.appointmentTime.split(' ');
-    const [hours, minutes] = time.split(':').map((num: string) => parseInt(num));
-    const hour24 = period === 'PM' && hours !== 12 ? hours + 12 : (period === 'AM' && hours === 12 ? 0 : hours);
-    
-    const startDate = new Date(appointment.appointmentDate + 'T00:00:00');
-    startDate.setHours(hour24, minutes, 0, 0);
-    
-    const endDate = new Date(startDate);
-    endDate.setHours(startDate.getHours() + 1); // Assume 1 hour appointment
-    
-    // Format dates for calendar URL (YYYYMMDDTHHMMSS)
-    const formatDate = (date: Date) => {
-      return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-    };
-    
-    const startDateTime = formatDate(startDate);
-    const endDateTime = formatDate(endDate);
-    
-    // Create calendar URL
-    const title = encodeURIComponent(`Dental Appointment - ${appointment.treatmentType}`);
-    const details = encodeURIComponent(`Appointment with ${appointment.doctorName} for ${appointment.treatmentType}`);
-    const location = encodeURIComponent('SmileCare Dental Clinic');
-    
-    // Google Calendar URL
-    const googleUrl = `https://calendar.google.com/calendar/render?action=TEMPLATE&text=${title}&dates=${startDateTime}/${endDateTime}&details=${details}&location=${location}`;
-    
-    // Outlook/ICS format for other calendar apps
-    const icsContent = `BEGIN:VCALENDAR
-VERSION:2.0
-PRODID:-//SmileCare Dental//Appointment Reminder//EN
-BEGIN:VEVENT
-UID:${appointment.id}@smilecare.dental
-DTSTART:${startDateTime}
-DTEND:${endDateTime}
-SUMMARY:${decodeURIComponent(title)}
-DESCRIPTION:${decodeURIComponent(details)}
-LOCATION:${decodeURIComponent(location)}
-END:VEVENT
-END:VCALENDAR`;
-    
-    // Try to detect if user prefers Google Calendar or download ICS
-    if (navigator.userAgent.includes('Chrome') || navigator.userAgent.includes('Edge')) {
-      window.open(googleUrl, '_blank');
-    } else {
-      // Create and download ICS file
-      const blob = new Blob([icsContent], { type: 'text/calendar;charset=utf-8' });
-      const link = document.createElement('a');
-      link.href = window.URL.createObjectURL(blob);
-      link.download = `dental-appointment-${appointment.appointmentDate}.ics`;
-      link.click();
-    }
-  };
-
   const upcomingAppointments = appointments?.filter(apt => {
     // Include confirmed, pending, and other non-cancelled statuses
     const validStatuses = ['confirmed', 'pending', 'scheduled'];
     const isValidStatus = validStatuses.includes(apt.status.toLowerCase());
     
     // Only include future appointments, not past ones
-    const [time, period] = apt.appointmentTime.split(' ');
-    const [hours, minutes] = time.split(':').map((num: string) => parseInt(num));
-    const hour24 = period === 'PM' && hours !== 12 ? hours + 12 : (period === 'AM' && hours === 12 ? 0 : hours);
-    
-    const appointmentDateTime = new Date(apt.appointmentDate + 'T00:00:00');
-    appointmentDateTime.setHours(hour24, minutes, 0, 0);
-    
-    const now = new Date();
-    const isFuture = appointmentDateTime > now;
+    const isFuture = practiceTime.startOf(apt.appointmentDate, apt.appointmentTime) > new Date();
     
     return isValidStatus && isFuture;
   }).sort((a, b) => {
     // Sort by date and time, earliest first
-    const parseDateTime = (appointment: any) => {
-      const [time, period] = appointment.appointmentTime.split(' ');
-      const [hours, minutes] = time.split(':').map((num: string) => parseInt(num));
-      const hour24 = period === 'PM' && hours !== 12 ? hours + 12 : (period === 'AM' && hours === 12 ? 0 : hours);
-      const date = new Date(appointment.appointmentDate + 'T00:00:00');
-      date.setHours(hour24, minutes, 0, 0);
-      return date;
-    };
-    
-    return parseDateTime(a).getTime() - parseDateTime(b).getTime();
-  }).slice(0, 5) || []; // Show up to 5 upcoming appointments
+    return a.appointmentDate.localeCompare(b.appointmentDate) || a.appointmentTime.localeCompare(b.appointmentTime);
+  }) || [];
+
+  // Guardians see their family's appointments too, one group per person with
+  // up to 5 upcoming appointments each
+  const people = [
+    { id: user?.id, name: 'You' },
+    ...dependents.map(dependent => ({ id: dependent.id, name: `${dependent.firstName} ${dependent.lastName}` })),
+  ];
+  const appointmentGroups = people
+    .map(person => ({ ...person, appointments: upcomingAppointments.filter(apt => apt.patientId === person.id).slice(0, 5) }))
+    .filter(group => group.appointments.length > 0);
 
   // Dashboard content
   const dashboardContent = () => (
@@ -230,6 +190,21 @@ END:VCALENDAR`;
                     >
                       <CalendarCheck className={`w-4 h-4 ${appointmentsRefetching ? 'animate-spin' : ''}`} />
                     </Button>
+                    <CalendarFeedDialog
+                      feedPath="/api/calendar/feed"
+                      title="Subscribe to Your Appointments"
+                      description="Add this link to Google Calendar, Apple Calendar or Outlook and your appointments stay up to date there, including changes and cancellations."
+                    >
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-gray-500 hover:text-gray-700 hover:bg-gray-50"
+                        title="Subscribe in your calendar app"
+                        data-testid="button-calendar-feed"
+                      >
+                        <CalendarPlus className="w-4 h-4" />
+                      </Button>
+                    </CalendarFeedDialog>
                     <AllAppointmentsPopup>
                       <Button
                         variant="ghost"
@@ -247,62 +222,62 @@ END:VCALENDAR`;
                     <div className="animate-pulse bg-gray-200 h-16 rounded"></div>
                     <div className="animate-pulse bg-gray-200 h-16 rounded"></div>
                   </div>
-                ) : upcomingAppointments.length > 0 ? (
-                  <div className="space-y-3">
-                    {upcomingAppointments.map((appointment) => {
-                      // Check if appointment time has passed
-                      const [time, period] = appointment.appointmentTime.split(' ');
-                      const [hours, minutes] = time.split(':').map((num: string) => parseInt(num));
-                      const hour24 = period === 'PM' && hours !== 12 ? hours + 12 : (period === 'AM' && hours === 12 ? 0 : hours);
-                      
-                      const appointmentDateTime = new Date(appointment.appointmentDate + 'T00:00:00');
-                      appointmentDateTime.setHours(hour24, minutes, 0, 0);
-                      
-                      const now = new Date();
-                      const isPast = appointmentDateTime < now;
-                      
-                      return (
-                        <div key={appointment.id} className={`p-4 rounded-xl border-l-4 card-elevated transition-all hover:scale-[1.02] ${isPast ? 'bg-gradient-to-r from-red-50 to-red-25 border-red-500' : 'bg-gradient-to-r from-blue-50 to-cyan-25 border-blue-500'}`}>
-                          <div className="flex justify-between items-start">
-                            <div className="flex-1">
-                              <div className="flex items-center gap-2">
-                                <p className="font-medium text-gray-900">{appointment.treatmentType}</p>
-                                {isPast && (
-                                  <span className="px-2 py-1 text-xs font-medium text-red-700 bg-red-100 rounded-full">
-                                    MISSED
-                                  </span>
-                                )}
-                              </div>
-                              <p className="text-sm text-gray-600">{appointment.doctorName}</p>
-                            </div>
-                            <div className="flex items-start gap-3">
-                              <div className="text-right">
-                                <p className="text-sm font-medium text-gray-900">
-                                  {new Date(appointment.appointmentDate).toLocaleDateString('en-US', { 
-                                    weekday: 'long',
-                                    month: 'long', 
-                                    day: 'numeric' 
-                                  })}
-                                </p>
-                                <p className={`text-sm ${isPast ? 'text-red-600' : 'text-gray-600'}`}>{appointment.appointmentTime}</p>
+                ) : appointmentGroups.length > 0 ? (
+                  <div className="space-y-5">
+                    {appointmentGroups.map(group => (
+                      <div key={group.id} className="space-y-3">
+                        {dependents.length > 0 && (
+                          <h4 className="text-sm font-semibold text-gray-700">{group.name}</h4>
+                        )}
+                        {group.appointments.map((appointment) => {
+                          // Check if appointment time has passed
+                          const isPast = practiceTime.startOf(appointment.appointmentDate, appointment.appointmentTime) < new Date();
+                    
+                          return (
+                            <div key={appointment.id} className={`p-4 rounded-xl border-l-4 card-elevated transition-all hover:scale-[1.02] ${isPast ? 'bg-gradient-to-r from-red-50 to-red-25 border-red-500' : 'bg-gradient-to-r from-blue-50 to-cyan-25 border-blue-500'}`}>
+                              <div className="flex justify-between items-start">
+                                <div className="flex-1">
+                                  <div className="flex items-center gap-2">
+                                    <p className="font-medium text-gray-900">{appointment.treatmentType}</p>
+                                    {isPast && (
+                                      <span className="px-2 py-1 text-xs font-medium text-red-700 bg-red-100 rounded-full">
+                                        MISSED
+                                      </span>
+                                    )}
+                                  </div>
+                                  <p className="text-sm text-gray-600">{appointment.doctorName}</p>
+                                </div>
+                                <div className="flex items-start gap-3">
+                                  <div className="text-right">
+                                    <p className="text-sm font-medium text-gray-900">
+                                      {formatDate(appointment.appointmentDate, { weekday: 'long', month: 'long', day: 'numeric' })}
+                                    </p>
+                                    <p className={`text-sm ${isPast ? 'text-red-600' : 'text-gray-600'}`}>{formatTime(appointment.appointmentTime)}</p>
+                                  </div>
+                                  {!isPast && (
+                                    <AppointmentFormsButton appointmentId={appointment.id} treatmentType={appointment.treatmentType} />
+                                  )}
+                                  {!isPast && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      className="flex items-center gap-1 px-2 py-1 h-8 text-xs"
+                                      title="Add to Calendar"
+                                      asChild
+                                    >
+                                      <a href={calendarFileUrl(appointment.id)} download>
+                                        <CalendarPlus className="w-3 h-3" />
+                                        Remind
+                                      </a>
+                                    </Button>
+                                  )}
+                                </div>
                               </div>
-                              {!isPast && (
-                                <Button
-                                  variant="outline"
-                                  size="sm"
-                                  onClick={() => createCalendarReminder(appointment)}
-                                  className="flex items-center gap-1 px-2 py-1 h-8 text-xs"
-                                  title="Add to Calendar"
-                                >
-                                  <CalendarPlus className="w-3 h-3" />
-                                  Remind
-                                </Button>
-                              )}
                             </div>
-                          </div>
-                        </div>
-                      );
-                    })}
+                          );
+                        })}
+                      </div>
+                    ))}
                   </div>
                 ) : null}
               </div>
@@ -318,6 +293,12 @@ END:VCALENDAR`;
             {/* One-Click Booking */}
             <OneClickBooking />
 
+            {/* Waitlist */}
+            <WaitlistCard />
+
+            {/* Family */}
+            <FamilyCard />
+
             {/* Quick Actions */}
             <Card className="card-elevated glass-effect">
               <CardHeader>
@@ -325,12 +306,33 @@ END:VCALENDAR`;
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
+                  <button 
+                    onClick={() => setActiveView('profile')}
+                    className="w-full text-left px-4 py-3 text-sm text-gray-700 hover:bg-gradient-to-r hover:from-blue-50 hover:to-cyan-50 rounded-lg flex items-center transition-all duration-200 hover:transform hover:translate-x-1"
+                  >
+                    <UserCircle className="w-4 h-4 mr-3 text-blue-500" />
+                    My Profile
+                  </button>
                   <button 
                     onClick={() => setActiveView('medical-records')}
                     className="w-full text-left px-4 py-3 text-sm text-gray-700 hover:bg-gradient-to-r hover:from-blue-50 hover:to-cyan-50 rounded-lg flex items-center transition-all duration-200 hover:transform hover:translate-x-1"
                   >
                     <FileText className="w-4 h-4 mr-3 text-blue-500" />
-                    View Medical Records
+                    Medical History
+                  </button>
+                  <button 
+                    onClick={() => setActiveView('treatment-plans')}
+                    className="w-full text-left px-4 py-3 text-sm text-gray-700 hover:bg-gradient-to-r hover:from-blue-50 hover:to-cyan-50 rounded-lg flex items-center transition-all duration-200 hover:transform hover:translate-x-1"
+                  >
+                    <ClipboardList className="w-4 h-4 mr-3 text-blue-500" />
+                    Treatment Plans
+                  </button>
+                  <button 
+                    onClick={() => setActiveView('documents')}
+                    className="w-full text-left px-4 py-3 text-sm text-gray-700 hover:bg-gradient-to-r hover:from-blue-50 hover:to-cyan-50 rounded-lg flex items-center transition-all duration-200 hover:transform hover:translate-x-1"
+                  >
+                    <FolderOpen className="w-4 h-4 mr-3 text-blue-500" />
+                    Documents & X-rays
                   </button>
                   <button 
                     onClick={() => setActiveView('payment-history')}
@@ -344,7 +346,7 @@ END:VCALENDAR`;
                     className="w-full text-left px-4 py-3 text-sm text-gray-700 hover:bg-gradient-to-r hover:from-purple-50 hover:to-pink-50 rounded-lg flex items-center transition-all duration-200 hover:transform hover:translate-x-1"
                   >
                     <Download className="w-4 h-4 mr-3 text-purple-500" />
-                    Download Forms
+                    Forms
                   </button>
 
                 </div>
@@ -385,6 +387,34 @@ END:VCALENDAR`;
             </div>
           </div>
         );
+      case 'profile':
+        return (
+          <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+            <Navigation />
+            <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+              <div className="px-4 py-6 sm:px-0">
+                <div className="mb-6">
+                  <Button
+                    onClick={() => setActiveView('dashboard')}
+                    variant="ghost"
+                    className="mb-4"
+                  >
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Back to Dashboard
+                  </Button>
+                  <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+                    My Profile
+                  </h1>
+                </div>
+                <Card>
+                  <CardContent className="pt-6">
+                    {user && <PatientProfileForm patientId={user.id} />}
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+          </div>
+        );
       case 'download-forms':
         return (
           <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -401,9 +431,36 @@ END:VCALENDAR`;
                     Back to Dashboard
                   </Button>
                   <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
-                    Download Forms
+                    Forms
                   </h1>
                 </div>
+                <Card className="mb-6">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <FileText className="h-5 w-5 text-blue-600" />
+                      Before Your Visit
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {upcomingAppointments.length === 0 ? (
+                      <p className="text-sm text-gray-500">No upcoming appointments.</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {upcomingAppointments.map(appointment => (
+                          <div key={appointment.id} className="flex justify-between items-center border rounded-lg p-3">
+                            <div>
+                              <p className="text-sm font-medium text-gray-900">{appointment.treatmentType}</p>
+                              <p className="text-xs text-gray-500">
+                                {formatDate(appointment.appointmentDate, { weekday: 'long', month: 'long', day: 'numeric' })} · {formatTime(appointment.appointmentTime)}
+                              </p>
+                            </div>
+                            <AppointmentFormsButton appointmentId={appointment.id} treatmentType={appointment.treatmentType} />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
                 <FormsDownload />
               </div>
             </div>
@@ -432,19 +489,74 @@ END:VCALENDAR`;
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <FileText className="h-5 w-5 text-blue-600" />
-                      Medical Records
+                      Medical History
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {user && <MedicalHistoryForm patientId={user.id} />}
+                  </CardContent>
+                </Card>
+                <Card className="mt-6">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Smile className="h-5 w-5 text-blue-600" />
+                      Dental Chart
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <div className="text-center py-12">
-                      <FileText className="h-12 w-12 text-gray-300 mx-auto mb-4" />
-                      <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
-                        Medical Records Coming Soon
-                      </h3>
-                      <p className="text-gray-500 dark:text-gray-400">
-                        Access to your complete medical records will be available soon.
-                      </p>
-                    </div>
+                    {user && <PatientDentalChart patientId={user.id} />}
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+          </div>
+        );
+      case 'treatment-plans':
+        return (
+          <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+            <Navigation />
+            <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+              <div className="px-4 py-6 sm:px-0">
+                <div className="mb-6">
+                  <Button
+                    onClick={() => setActiveView('dashboard')}
+                    variant="ghost"
+                    className="mb-4"
+                  >
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Back to Dashboard
+                  </Button>
+                  <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+                    Treatment Plans
+                  </h1>
+                </div>
+                {user && <TreatmentPlanList patientId={user.id} />}
+              </div>
+            </div>
+          </div>
+        );
+      case 'documents':
+        return (
+          <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+            <Navigation />
+            <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+              <div className="px-4 py-6 sm:px-0">
+                <div className="mb-6">
+                  <Button
+                    onClick={() => setActiveView('dashboard')}
+                    variant="ghost"
+                    className="mb-4"
+                  >
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Back to Dashboard
+                  </Button>
+                  <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+                    Documents & X-rays
+                  </h1>
+                </div>
+                <Card>
+                  <CardContent className="pt-6">
+                    {user && <PatientDocuments patientId={user.id} />}
                   </CardContent>
                 </Card>
               </div>
@@ -0,0 +1,569 @@
+import { useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery } from "@tanstack/react-query";
+import { useRoute, Link } from "wouter";
+import Navigation from "@/components/navigation";
+import { PatientLink } from "@/components/patient-link";
+import { PatientProfileDialog } from "@/components/patient-profile-form";
+import { MedicalAlertBadges, useMedicalAlerts } from "@/components/medical-alerts";
+import { MedicalHistoryReview } from "@/components/admin/medical-history-review";
+import { DentalChartEditor } from "@/components/admin/dental-chart-editor";
+import { TreatmentPlanManager } from "@/components/admin/treatment-plan-editor";
+import { PatientDocumentsDialog } from "@/components/patient-documents";
+import { IntakeStatusBadge, useIntakeStatus } from "@/components/admin/intake-status";
+import { ClinicalNoteDialog, SignedClinicalNote, type ClinicalNoteView } from "@/components/admin/clinical-note";
+import { consentPdfUrl } from "@/components/consent-forms";
+import { relationshipLabels } from "@/components/family-card";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, ClipboardList, FileText, FolderOpen, HeartPulse, NotebookPen, Smile, Trophy, UserCog } from "lucide-react";
+import { usePracticeTime } from "@/hooks/usePracticeTime";
+import { formatDate, formatTime } from "@shared/datetime";
+import { recallStatus, recallStatusLabels } from "@shared/recall";
+import {
+  type Achievement,
+  type Appointment,
+  type PatientAchievement,
+  type PatientPoints,
+  type PatientProfile,
+  type PatientRecall,
+  type Payment,
+  type PointsHistory,
+  type SignedConsentRecord,
+} from "@shared/schema";
+
+type Dated<T, K extends keyof T> = Omit<T, K> & { [P in K]: string | null };
+
+interface RelatedPatient {
+  id: string;
+  name: string;
+  relationship?: string;
+}
+
+// GET /api/admin/patients/:id/overview
+interface PatientOverview {
+  patient: {
+    id: string;
+    name: string;
+    email: string | null;
+    createdAt: string | null;
+    noShowCount: number;
+    noShowFlaggedAt: string | null;
+  };
+  profile: Partial<PatientProfile> & { firstName: string | null; lastName: string | null; email: string | null };
+  contact?: {
+    email: string | null;
+    phone: string | null;
+    preferredMethod: string;
+    language: string | null;
+    viaGuardian?: string;
+  };
+  guardians: RelatedPatient[];
+  dependents: RelatedPatient[];
+  appointments: Appointment[];
+  payments: Dated<Payment, 'paymentDate' | 'createdAt' | 'updatedAt'>[];
+  points: PatientPoints;
+  pointsHistory: Dated<PointsHistory, 'createdAt'>[];
+  achievements: (Dated<PatientAchievement, 'earnedAt'> & Pick<Achievement, 'name' | 'description' | 'icon'>)[];
+  intakeForms: { id: string; title: string; appointmentId: string | null; submittedAt: string | null }[];
+  consents: Dated<Omit<SignedConsentRecord, 'body'>, 'signedAt'>[];
+  recalls: (Dated<PatientRecall, 'lastNoticeAt' | 'createdAt' | 'updatedAt'> & { recallTypeName: string })[];
+  clinicalNotes: ClinicalNoteView[];
+}
+
+const contactMethodLabels: Record<string, string> = {
+  email: "Email",
+  sms: "Text message",
+  phone: "Phone call",
+};
+
+const statusStyles: Record<string, string> = {
+  confirmed: 'bg-green-100 text-green-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  checked_in: 'bg-blue-100 text-blue-800',
+  in_chair: 'bg-blue-100 text-blue-800',
+  no_show: 'bg-red-100 text-red-800',
+};
+
+const recallStyles: Record<string, string> = {
+  overdue: 'bg-red-100 text-red-800',
+  due_soon: 'bg-yellow-100 text-yellow-800',
+  later: 'bg-gray-100 text-gray-800',
+};
+
+const shortDate = (date: string) => formatDate(date, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatCurrency = (cents: number | null) => new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+}).format((cents || 0) / 100);
+
+function Detail({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-xs font-medium uppercase tracking-wide text-gray-500">{label}</dt>
+      <dd className="text-sm text-gray-900">{children || <span className="text-gray-400">—</span>}</dd>
+    </div>
+  );
+}
+
+export default function PatientDetail() {
+  const { toast } = useToast();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const practiceTime = usePracticeTime();
+  const [, params] = useRoute("/admin/patients/:id");
+  const patientId = params?.id || "";
+  const isStaff = (user as any)?.role === 'admin';
+
+  // Redirect to home if not authenticated or not admin
+  useEffect(() => {
+    if (!isLoading && isAuthenticated && !isStaff) {
+      toast({
+        title: "Access Denied",
+        description: "Admin privileges required. Redirecting to home...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/";
+      }, 500);
+    }
+  }, [isAuthenticated, isLoading, isStaff, toast]);
+
+  const { data: overview, isLoading: overviewLoading } = useQuery<PatientOverview>({
+    queryKey: ['/api/admin/patients', patientId, 'overview'],
+    retry: false,
+    enabled: isStaff && !!patientId,
+  });
+
+  const medicalAlerts = useMedicalAlerts(patientId ? [patientId] : [], isStaff);
+  const intakeStatus = useIntakeStatus((overview?.appointments || []).map(appointment => appointment.id), isStaff);
+
+  if (isLoading || !isStaff || overviewLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navigation />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-gray-200 rounded w-1/3"></div>
+            <div className="h-48 bg-gray-200 rounded"></div>
+            <div className="h-48 bg-gray-200 rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!overview) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navigation />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Card>
+            <CardContent className="text-center py-12">
+              <h2 className="text-2xl font-semibold text-gray-900 mb-2">Patient Not Found</h2>
+              <p className="text-gray-600 mb-4">There's no patient with that record.</p>
+              <Link href="/admin">
+                <Button>
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to Admin
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const { patient, profile, contact } = overview;
+  const today = practiceTime.today();
+  const appointmentById = new Map(overview.appointments.map(appointment => [appointment.id, appointment]));
+  const appointmentLabel = (appointmentId: string | null) => {
+    const appointment = appointmentId ? appointmentById.get(appointmentId) : undefined;
+    return appointment ? `${appointment.treatmentType}, ${shortDate(appointment.appointmentDate)}` : "";
+  };
+  const address = [profile.addressLine1, profile.addressLine2, profile.city, profile.region, profile.postalCode, profile.country]
+    .filter(Boolean).join(', ');
+  const totalPaid = overview.payments
+    .filter(payment => payment.status === 'completed')
+    .reduce((sum, payment) => sum + payment.amount, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        <div className="flex flex-wrap justify-between items-start gap-4">
+          <div>
+            <Link href="/admin" className="inline-flex items-center text-sm text-blue-600 hover:underline mb-2">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Admin Dashboard
+            </Link>
+            <h2 className="text-3xl font-bold text-gray-900" data-testid="text-patient-name">{patient.name}</h2>
+            <div className="flex flex-wrap items-center gap-2 mt-1 text-sm text-gray-600">
+              {profile.dateOfBirth && <span>Born {shortDate(profile.dateOfBirth)}</span>}
+              {patient.createdAt && <span>· Patient since {new Date(patient.createdAt).toLocaleDateString()}</span>}
+              {patient.noShowCount > 0 && (
+                <Badge variant={patient.noShowFlaggedAt ? "destructive" : "outline"}>
+                  {patient.noShowCount} no-shows{patient.noShowFlaggedAt && ", flagged"}
+                </Badge>
+              )}
+            </div>
+            <MedicalAlertBadges summary={medicalAlerts[patient.id]} className="mt-2" />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <PatientProfileDialog patientId={patient.id} title="Patient Profile">
+              <Button variant="outline" size="sm" className="button-animate">
+                <UserCog className="w-4 h-4 mr-2" />
+                Profile
+              </Button>
+            </PatientProfileDialog>
+            <MedicalHistoryReview patientId={patient.id}>
+              <Button variant="outline" size="sm" className="button-animate">
+                <HeartPulse className="w-4 h-4 mr-2" />
+                Medical History
+              </Button>
+            </MedicalHistoryReview>
+            <DentalChartEditor patientId={patient.id}>
+              <Button variant="outline" size="sm" className="button-animate">
+                <Smile className="w-4 h-4 mr-2" />
+                Dental Chart
+              </Button>
+            </DentalChartEditor>
+            <TreatmentPlanManager patientId={patient.id}>
+              <Button variant="outline" size="sm" className="button-animate">
+                <ClipboardList className="w-4 h-4 mr-2" />
+                Treatment Plans
+              </Button>
+            </TreatmentPlanManager>
+            <PatientDocumentsDialog patientId={patient.id} title="Documents & X-rays">
+              <Button variant="outline" size="sm" className="button-animate">
+                <FolderOpen className="w-4 h-4 mr-2" />
+                Documents & X-rays
+              </Button>
+            </PatientDocumentsDialog>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Profile & contact */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Profile & Contact</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <Detail label="Email">{patient.email}</Detail>
+                <Detail label="Mobile phone">{profile.mobilePhone}</Detail>
+                <Detail label="Home phone">{profile.homePhone}</Detail>
+                <Detail label="Address">{address}</Detail>
+                <Detail label="Prefers">
+                  {contact && `${contactMethodLabels[contact.preferredMethod] || contact.preferredMethod}${contact.language ? `, ${contact.language}` : ''}`}
+                  {contact?.viaGuardian && ` (reached through ${contact.viaGuardian})`}
+                </Detail>
+                <Detail label="Emergency contact">
+                  {profile.emergencyContactName && [
+                    profile.emergencyContactName,
+                    profile.emergencyContactRelationship,
+                    profile.emergencyContactPhone,
+                  ].filter(Boolean).join(' · ')}
+                </Detail>
+              </dl>
+            </CardContent>
+          </Card>
+
+          {/* Family */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Family</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              {overview.guardians.length === 0 && overview.dependents.length === 0 ? (
+                <p className="text-gray-500">No linked family members</p>
+              ) : (
+                <>
+                  {overview.guardians.map(guardian => (
+                    <div key={guardian.id} className="flex justify-between">
+                      <PatientLink patientId={guardian.id} name={guardian.name} />
+                      <span className="text-gray-500">Guardian</span>
+                    </div>
+                  ))}
+                  {overview.dependents.map(dependent => (
+                    <div key={dependent.id} className="flex justify-between">
+                      <PatientLink patientId={dependent.id} name={dependent.name} />
+                      <span className="text-gray-500">{relationshipLabels[dependent.relationship || 'other']}</span>
+                    </div>
+                  ))}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Appointments */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Appointments</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {overview.appointments.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No appointments yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Treatment</TableHead>
+                    <TableHead>Provider</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Forms & Note</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {overview.appointments.map(appointment => (
+                    <TableRow key={appointment.id}>
+                      <TableCell className="text-sm">
+                        {shortDate(appointment.appointmentDate)} {formatTime(appointment.appointmentTime)}
+                      </TableCell>
+                      <TableCell className="text-sm">{appointment.treatmentType}</TableCell>
+                      <TableCell className="text-sm">{appointment.doctorName}</TableCell>
+                      <TableCell>
+                        <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${statusStyles[appointment.status] || 'bg-gray-100 text-gray-800'}`}>
+                          {appointment.status.replace('_', ' ')}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end items-center gap-2">
+                          <IntakeStatusBadge appointmentId={appointment.id} forms={intakeStatus[appointment.id]} />
+                          <ClinicalNoteDialog appointment={appointment}>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="px-2 py-1 h-7 text-xs button-animate"
+                              title="Clinical Note"
+                              data-testid={`button-clinical-note-${appointment.id}`}
+                            >
+                              <NotebookPen className="w-3 h-3" />
+                            </Button>
+                          </ClinicalNoteDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Payments */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Payments</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {overview.payments.length === 0 ? (
+                <p className="text-gray-500 text-center py-4">No payments recorded</p>
+              ) : (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-600">{formatCurrency(totalPaid)} paid in total</p>
+                  {overview.payments.map(payment => (
+                    <div key={payment.id} className="flex justify-between items-center p-2 bg-gray-50 rounded text-sm">
+                      <div>
+                        <p className="font-medium">{payment.procedureName}</p>
+                        <p className="text-xs text-gray-500">
+                          {payment.paymentDate && new Date(payment.paymentDate).toLocaleDateString()} · {payment.paymentMethod.replace('_', ' ')}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-medium">{formatCurrency(payment.amount)}</p>
+                        {payment.status !== 'completed' && <Badge variant="outline">{payment.status}</Badge>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Points & achievements */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="h-5 w-5 text-yellow-600" />
+                Points & Achievements
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <p className="text-2xl font-semibold text-gray-900">{overview.points.points}</p>
+                  <p className="text-xs text-gray-600">Points</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-semibold text-gray-900">{overview.points.level}</p>
+                  <p className="text-xs text-gray-600">Level</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-semibold text-gray-900">{overview.points.totalPointsEarned}</p>
+                  <p className="text-xs text-gray-600">Earned all time</p>
+                </div>
+              </div>
+              {overview.achievements.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {overview.achievements.map(achievement => (
+                    <Badge key={achievement.id} variant="outline" title={achievement.description}>
+                      {achievement.icon} {achievement.name}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {overview.pointsHistory.length > 0 && (
+                <div className="space-y-1">
+                  <h4 className="text-sm font-medium text-gray-700">Recent Activity</h4>
+                  {overview.pointsHistory.map(entry => (
+                    <div key={entry.id} className="flex justify-between text-sm">
+                      <span>{entry.description}</span>
+                      <span className={entry.points < 0 ? 'text-red-600' : 'text-green-700'}>
+                        {entry.points > 0 ? '+' : ''}{entry.points}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Forms & consents */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Forms & Consents</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {overview.intakeForms.length === 0 && overview.consents.length === 0 ? (
+                <p className="text-gray-500 text-center py-4">No forms submitted or consents signed</p>
+              ) : (
+                <>
+                  {overview.intakeForms.map(form => (
+                    <div key={form.id} className="flex justify-between p-2 bg-gray-50 rounded">
+                      <div>
+                        <p className="font-medium">{form.title}</p>
+                        <p className="text-xs text-gray-500">{appointmentLabel(form.appointmentId)}</p>
+                      </div>
+                      <span className="text-xs text-gray-500">
+                        {form.submittedAt ? `Submitted ${new Date(form.submittedAt).toLocaleDateString()}` : "Not submitted"}
+                      </span>
+                    </div>
+                  ))}
+                  {overview.consents.map(consent => (
+                    <div key={consent.id} className="flex justify-between p-2 bg-gray-50 rounded">
+                      <div>
+                        <p className="font-medium">{consent.title}</p>
+                        <p className="text-xs text-gray-500">{appointmentLabel(consent.appointmentId)}</p>
+                      </div>
+                      <div className="text-right text-xs text-gray-500">
+                        <p>Signed by {consent.signerName}{consent.signedAt && ` on ${new Date(consent.signedAt).toLocaleDateString()}`}</p>
+                        <a
+                          href={consentPdfUrl(consent.id)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+                          data-testid={`link-consent-pdf-${consent.id}`}
+                        >
+                          <FileText className="w-3 h-3" />
+                          PDF
+                        </a>
+                      </div>
+                    </div>
+                  ))}
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Recalls */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Recalls</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {overview.recalls.length === 0 ? (
+                <p className="text-gray-500 text-center py-4">No recalls on file</p>
+              ) : (
+                overview.recalls.map(recall => {
+                  const status = recallStatus(recall.dueDate, today);
+                  return (
+                    <div key={recall.id} className="flex justify-between items-center p-2 bg-gray-50 rounded">
+                      <div>
+                        <p className="font-medium">{recall.recallTypeName}</p>
+                        <p className="text-xs text-gray-500">Last visit {shortDate(recall.lastVisitDate)}</p>
+                      </div>
+                      <div className="text-right">
+                        <p>Due {shortDate(recall.dueDate)}</p>
+                        <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${recallStyles[status]}`}>
+                          {recallStatusLabels[status]}
+                        </span>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Clinical notes */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <NotebookPen className="h-5 w-5" />
+              Clinical Notes
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {overview.clinicalNotes.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No clinical notes yet</p>
+            ) : (
+              overview.clinicalNotes.map(note => {
+                const appointment = appointmentById.get(note.appointmentId);
+                return (
+                  <div key={note.id} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex justify-between items-center">
+                      <h3 className="font-semibold text-gray-900">
+                        {appointmentLabel(note.appointmentId) || note.templateName}
+                      </h3>
+                      {!note.signedAt && (
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">Draft</Badge>
+                          {appointment && (
+                            <ClinicalNoteDialog appointment={appointment}>
+                              <Button size="sm" variant="outline" className="px-2 py-1 h-7 text-xs button-animate">
+                                Continue
+                              </Button>
+                            </ClinicalNoteDialog>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    {note.signedAt && <SignedClinicalNote note={note} />}
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
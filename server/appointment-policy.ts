@@ -0,0 +1,44 @@
+import { practiceInstant } from "./practice-time";
+import type { Appointment } from "@shared/schema";
+
+// Limits on what patients may change themselves. Staff aren't bound by these.
+export interface ChangePolicy {
+  cutoffHours: number;
+  maxReschedules: number;
+}
+
+export const changePolicy: ChangePolicy = {
+  cutoffHours: parseInt(process.env.PATIENT_CHANGE_CUTOFF_HOURS || '24', 10),
+  maxReschedules: parseInt(process.env.PATIENT_MAX_RESCHEDULES || '2', 10),
+};
+
+const CHANGEABLE_STATUSES = ['pending', 'confirmed'];
+
+// When an appointment starts, in the practice's time zone
+export function appointmentStart(appointment: Pick<Appointment, 'appointmentDate' | 'appointmentTime'>): Date {
+  return practiceInstant(appointment.appointmentDate, appointment.appointmentTime);
+}
+
+// Why a patient can't make this change, or undefined if they can
+export function patientChangeBlocked(
+  appointment: Appointment,
+  action: 'reschedule' | 'cancel',
+  reschedules: number,
+  now: Date = new Date(),
+  policy: ChangePolicy = changePolicy,
+): string | undefined {
+  if (!CHANGEABLE_STATUSES.includes(appointment.status)) {
+    return `A ${appointment.status} appointment can't be changed`;
+  }
+
+  const hoursLeft = (appointmentStart(appointment).getTime() - now.getTime()) / (60 * 60 * 1000);
+  if (hoursLeft < policy.cutoffHours) {
+    return `Appointments can't be changed online within ${policy.cutoffHours} hours of the start. Please call the clinic.`;
+  }
+
+  if (action === 'reschedule' && reschedules >= policy.maxReschedules) {
+    return `This appointment has already been rescheduled ${reschedules} times. Please call the clinic.`;
+  }
+
+  return undefined;
+}
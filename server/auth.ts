@@ -308,4 +308,12 @@ export const isAuthenticated = (req: any, res: any, next: any) => {
     return next();
   }
   res.status(401).json({ message: "Authentication required" });
+};
+
+// Middleware to check if the signed-in user is an admin
+export const isAdmin = (req: any, res: any, next: any) => {
+  if (req.isAuthenticated() && req.user?.role === 'admin') {
+    return next();
+  }
+  res.status(403).json({ message: "Admin access required" });
 };
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { fromMinutes, toMinutes } from "@shared/datetime";
+import { hasCapacity, type Appointment, type Procedure, type ProviderWithProcedures, type TimeSlot } from "@shared/schema";
+
+// A start slot that can hold a whole procedure, together with every slot the
+// booking would have to reserve to cover it.
+export type BookableStart = TimeSlot & {
+  endTime: string;
+  timeSlotIds: string[];
+};
+
+export function slotDuration(slot: TimeSlot): number {
+  return slot.duration || 60;
+}
+
+// How long a booked visit runs. Appointments only record the procedure's name.
+export function appointmentDuration(appointment: Pick<Appointment, 'treatmentType'>, procedures: Procedure[]): number {
+  const procedure = procedures.find(p => p.name.toLowerCase() === appointment.treatmentType.toLowerCase());
+  return procedure?.duration || 60;
+}
+
+// Providers with no procedures listed haven't been restricted and can take any
+export function canPerform(provider: ProviderWithProcedures, procedureId?: string): boolean {
+  if (!procedureId || provider.procedureIds.length === 0) return true;
+  return provider.procedureIds.includes(procedureId);
+}
+
+// Walks forward from `start` through back-to-back free slots for the same
+// provider until `durationMinutes` is covered. Returns undefined if the run is
+// interrupted by a gap, a full slot or the end of the day.
+export function findSlotRun(slots: TimeSlot[], start: TimeSlot, durationMinutes: number): TimeSlot[] | undefined {
+  if (!hasCapacity(start)) return undefined;
+
+  const byStart = new Map<number, TimeSlot>();
+  for (const slot of slots) {
+    if (slot.providerId === start.providerId && slot.date === start.date && hasCapacity(slot)) {
+      byStart.set(toMinutes(slot.time), slot);
+    }
+  }
+
+  const run = [start];
+  let end = toMinutes(start.time) + slotDuration(start);
+  const target = toMinutes(start.time) + durationMinutes;
+
+  while (end < target) {
+    const next = byStart.get(end);
+    if (!next) return undefined;
+    run.push(next);
+    end += slotDuration(next);
+  }
+
+  return run;
+}
+
+// Every slot on the day where a procedure of `durationMinutes` could start.
+export function findBookableStarts(slots: TimeSlot[], durationMinutes: number): BookableStart[] {
+  const starts: BookableStart[] = [];
+
+  for (const slot of slots) {
+    const run = findSlotRun(slots, slot, durationMinutes);
+    if (!run) continue;
+
+    const last = run[run.length - 1];
+    starts.push({
+      ...slot,
+      endTime: fromMinutes(toMinutes(last.time) + slotDuration(last)),
+      timeSlotIds: run.map(s => s.id),
+    });
+  }
+
+  return starts.sort((a, b) => toMinutes(a.time) - toMinutes(b.time));
+}
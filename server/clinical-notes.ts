@@ -0,0 +1,103 @@
+import { storage } from "./storage";
+import { BLANK_SOAP_TEMPLATE, blankSections } from "@shared/clinical-notes";
+import type {
+  Appointment,
+  ClinicalNote,
+  ClinicalNoteAddendum,
+  ClinicalNoteSections,
+  ClinicalNoteTemplate,
+  Procedure,
+  Provider,
+} from "@shared/schema";
+
+// A template the note can start from; id is null for the built-in SOAP note
+export type ClinicalNoteTemplateOption = ClinicalNoteSections & {
+  id: string | null;
+  name: string;
+};
+
+export type ClinicalNoteView = ClinicalNote & {
+  addenda: ClinicalNoteAddendum[];
+};
+
+export interface AppointmentClinicalNote {
+  note: ClinicalNoteView | null;
+  templates: ClinicalNoteTemplateOption[];
+}
+
+export function noteTemplateAppliesTo(template: ClinicalNoteTemplate, appointment: Appointment, procedures: Procedure[]): boolean {
+  if (!template.isActive) return false;
+  if (template.procedureIds.length === 0) return true;
+  const treatment = appointment.treatmentType.toLowerCase();
+  return procedures.some(p => template.procedureIds.includes(p.id) && p.name.toLowerCase() === treatment);
+}
+
+// Procedure-specific templates first, then general ones, then a blank SOAP note
+export async function noteTemplateOptions(appointment: Appointment): Promise<ClinicalNoteTemplateOption[]> {
+  const [templates, procedures] = await Promise.all([
+    storage.getClinicalNoteTemplates(),
+    storage.getProcedures(),
+  ]);
+  const applicable = templates
+    .filter(template => noteTemplateAppliesTo(template, appointment, procedures))
+    .sort((a, b) => Number(a.procedureIds.length === 0) - Number(b.procedureIds.length === 0));
+
+  return [
+    ...applicable.map(template => ({
+      id: template.id,
+      name: template.name,
+      subjective: template.subjective,
+      objective: template.objective,
+      assessment: template.assessment,
+      plan: template.plan,
+    })),
+    { id: null, name: BLANK_SOAP_TEMPLATE, ...blankSections() },
+  ];
+}
+
+export async function clinicalNoteView(note: ClinicalNote): Promise<ClinicalNoteView> {
+  return { ...note, addenda: await storage.getClinicalNoteAddenda([note.id]) };
+}
+
+export async function appointmentClinicalNote(appointment: Appointment): Promise<AppointmentClinicalNote> {
+  const note = await storage.getClinicalNoteForAppointment(appointment.id);
+  return {
+    note: note ? await clinicalNoteView(note) : null,
+    templates: note ? [] : await noteTemplateOptions(appointment),
+  };
+}
+
+// A draft prefilled from the template. Undefined when the appointment
+// already has a note.
+export async function startClinicalNote(
+  appointment: Appointment,
+  template: ClinicalNoteTemplateOption,
+  authorId: string,
+): Promise<ClinicalNote | undefined> {
+  return await storage.createClinicalNote({
+    appointmentId: appointment.id,
+    patientId: appointment.patientId,
+    templateId: template.id,
+    templateName: template.name,
+    subjective: template.subjective,
+    objective: template.objective,
+    assessment: template.assessment,
+    plan: template.plan,
+    authorId,
+  });
+}
+
+// Who a staff member signs as: the provider linked to their login. Undefined
+// if they have none, or if `providerId` names someone else.
+export async function signingProvider(userId: string, providerId?: string): Promise<Provider | undefined> {
+  const provider = await storage.getProviderForUser(userId);
+  if (!provider || (providerId && providerId !== provider.id)) return undefined;
+  return provider;
+}
+
+// Every note for a patient with its addenda, newest first
+export async function patientClinicalNotes(patientId: string): Promise<ClinicalNoteView[]> {
+  const notes = await storage.getClinicalNotesByPatient(patientId);
+  const addenda = await storage.getClinicalNoteAddenda(notes.map(note => note.id));
+  return notes.map(note => ({ ...note, addenda: addenda.filter(addendum => addendum.noteId === note.id) }));
+}
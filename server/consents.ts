@@ -0,0 +1,162 @@
+import { createHash } from "crypto";
+import { jsPDF } from "jspdf";
+import { storage } from "./storage";
+import { formatDate, formatTime } from "@shared/datetime";
+import type { Appointment, ConsentTemplate, Procedure, SignConsentInput, SignedConsent, SignedConsentRecord, User } from "@shared/schema";
+
+const PRACTICE_NAME = process.env.PRACTICE_NAME || 'SmileCare Dental Clinic';
+
+export interface AppointmentConsent {
+  template: Pick<ConsentTemplate, 'id' | 'title' | 'body' | 'version'>;
+  signed: SignedConsentRecord | null;
+}
+
+export function consentAppliesTo(template: ConsentTemplate, appointment: Appointment, procedures: Procedure[]): boolean {
+  if (!template.isActive) return false;
+  if (template.procedureIds.length === 0) return true;
+  const treatment = appointment.treatmentType.toLowerCase();
+  return procedures.some(p => template.procedureIds.includes(p.id) && p.name.toLowerCase() === treatment);
+}
+
+// Consents the appointment needs, plus any signed for it under templates that
+// have since been retired or changed
+export function consentsFor(
+  appointment: Appointment,
+  templates: ConsentTemplate[],
+  procedures: Procedure[],
+  signed: SignedConsentRecord[],
+): AppointmentConsent[] {
+  const forAppointment = signed.filter(consent => consent.appointmentId === appointment.id);
+  const needed: AppointmentConsent[] = templates
+    .filter(template => consentAppliesTo(template, appointment, procedures))
+    .map(template => ({
+      template: { id: template.id, title: template.title, body: template.body, version: template.version },
+      signed: forAppointment.find(consent => consent.templateId === template.id) || null,
+    }));
+  const extra = forAppointment
+    .filter(consent => !needed.some(item => item.signed?.id === consent.id))
+    .map(consent => ({
+      template: { id: consent.templateId || consent.id, title: consent.title, body: consent.body, version: consent.templateVersion },
+      signed: consent,
+    }));
+  return [...needed, ...extra];
+}
+
+export async function appointmentConsents(appointment: Appointment): Promise<AppointmentConsent[]> {
+  const [templates, procedures, signed] = await Promise.all([
+    storage.getConsentTemplates(),
+    storage.getProcedures(),
+    storage.getSignedConsents([appointment.id]),
+  ]);
+  return consentsFor(appointment, templates, procedures, signed);
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+interface SigningContext {
+  template: ConsentTemplate;
+  appointment: Appointment;
+  patient: User;
+  signer: User;
+  input: SignConsentInput;
+  signerIp: string | null;
+  userAgent: string | null;
+  signedAt: Date;
+}
+
+// Hash of exactly what was agreed to and by whom, in a fixed field order
+export function consentDocumentHash(context: Omit<SigningContext, 'userAgent'>): string {
+  const { template, appointment, patient, signer, input, signerIp, signedAt } = context;
+  return sha256(JSON.stringify([
+    template.id,
+    template.version,
+    template.title,
+    template.body,
+    appointment.id,
+    patient.id,
+    signer.id,
+    input.signerName,
+    sha256(input.signature),
+    signerIp,
+    signedAt.toISOString(),
+  ]));
+}
+
+function renderConsentPdf(context: SigningContext, documentHash: string): Buffer {
+  const { template, appointment, patient, input, signerIp, signedAt } = context;
+  const doc = new jsPDF({ unit: 'mm', format: 'letter' });
+  const margin = 20;
+  const width = doc.internal.pageSize.getWidth() - margin * 2;
+  const pageHeight = doc.internal.pageSize.getHeight();
+  let y = margin;
+
+  const ensureRoom = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+  const write = (text: string, size: number, style: 'normal' | 'bold' = 'normal') => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    const lines: string[] = doc.splitTextToSize(text, width);
+    const lineHeight = size * 0.45;
+    for (const line of lines) {
+      ensureRoom(lineHeight);
+      doc.text(line, margin, y);
+      y += lineHeight;
+    }
+    y += 2;
+  };
+
+  write(PRACTICE_NAME, 10);
+  write(template.title, 16, 'bold');
+  write(`Patient: ${patient.firstName || ''} ${patient.lastName || ''}`.trim(), 10);
+  write(`Appointment: ${appointment.treatmentType} with ${appointment.doctorName}, ${formatDate(appointment.appointmentDate)} at ${formatTime(appointment.appointmentTime)}`, 10);
+  y += 4;
+  write(template.body, 11);
+  y += 6;
+
+  ensureRoom(45);
+  write("Signature", 10, 'bold');
+  doc.addImage(input.signature, 'PNG', margin, y, 70, 25);
+  y += 28;
+  write(`Signed by ${input.signerName}${context.signer.id !== patient.id ? ' on behalf of the patient' : ''}`, 10);
+  write(`Signed at ${signedAt.toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC')} from IP ${signerIp || 'unknown'}`, 9);
+  write(`Consent version ${template.version} · Document SHA-256 ${documentHash}`, 8);
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+// Flattens the signing into a PDF and records it. Undefined when the consent
+// was already signed for this appointment.
+export async function signConsent(context: Omit<SigningContext, 'signedAt'>): Promise<SignedConsent | undefined> {
+  const signing = { ...context, signedAt: new Date() };
+  const documentHash = consentDocumentHash(signing);
+  const pdf = renderConsentPdf(signing, documentHash);
+
+  return await storage.createSignedConsent({
+    templateId: signing.template.id,
+    templateVersion: signing.template.version,
+    appointmentId: signing.appointment.id,
+    patientId: signing.patient.id,
+    signerId: signing.signer.id,
+    signerName: signing.input.signerName,
+    title: signing.template.title,
+    body: signing.template.body,
+    signerIp: signing.signerIp,
+    userAgent: signing.userAgent,
+    documentHash,
+    pdfHash: sha256(pdf),
+    pdfData: pdf.toString('base64'),
+    signedAt: signing.signedAt,
+  });
+}
+
+// The stored PDF, or null if its bytes no longer match the recorded hash
+export function verifiedConsentPdf(consent: SignedConsent): Buffer | null {
+  const pdf = Buffer.from(consent.pdfData, 'base64');
+  return sha256(pdf) === consent.pdfHash ? pdf : null;
+}
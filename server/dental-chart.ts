@@ -0,0 +1,29 @@
+import { storage } from "./storage";
+import type { Appointment, ToothCondition } from "@shared/schema";
+
+// A completed visit whose procedure changes the chart but hasn't been charted yet
+export interface PendingChartProcedure {
+  appointment: Appointment;
+  condition: ToothCondition;
+}
+
+// Completed appointments for procedures with a chart condition (fillings,
+// crowns, extractions...) that no chart entry points back to yet. Staff pick
+// the teeth; the procedure decides what gets recorded.
+export async function pendingChartProcedures(patientId: string): Promise<PendingChartProcedure[]> {
+  const [appointments, procedures, entries] = await Promise.all([
+    storage.getAppointmentsByPatient(patientId),
+    storage.getProcedures(),
+    storage.getChartEntries(patientId),
+  ]);
+  const charted = new Set(entries.map(entry => entry.appointmentId).filter(Boolean));
+
+  return appointments
+    .filter(appointment => appointment.status === 'completed' && !charted.has(appointment.id))
+    .flatMap(appointment => {
+      const procedure = procedures.find(p => p.name.toLowerCase() === appointment.treatmentType.toLowerCase());
+      return procedure?.chartCondition
+        ? [{ appointment, condition: procedure.chartCondition as ToothCondition }]
+        : [];
+    });
+}
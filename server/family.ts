@@ -0,0 +1,24 @@
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+
+// Guardians act for their dependents: booking, viewing and paying for their
+// appointments. Staff can act for anyone.
+
+// The logged-in patient followed by everyone they look after
+export async function familyPatientIds(userId: string): Promise<string[]> {
+  const dependents = await storage.getDependents(userId);
+  return [userId, ...dependents.map(d => d.id)];
+}
+
+export async function canActFor(user: User, patientId: string): Promise<boolean> {
+  if (user.id === patientId || user.role === 'admin') return true;
+  return await storage.isGuardianOf(user.id, patientId);
+}
+
+// Whom a booking is for: the logged-in patient unless they name someone they
+// can act for. Undefined when that patient doesn't exist or isn't theirs.
+export async function bookingPatient(user: User, patientId?: string): Promise<User | undefined> {
+  if (!patientId || patientId === user.id) return user;
+  if (!(await canActFor(user, patientId))) return undefined;
+  return await storage.getUser(patientId);
+}
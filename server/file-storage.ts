@@ -0,0 +1,145 @@
+import { createHash, createHmac } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+// Where uploaded bytes live. Keys are generated by us ("xray/<uuid>.png") and
+// objects are written once; replacing a file means storing a new key.
+export interface FileStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Undefined when nothing is stored under the key
+  get(key: string): Promise<Buffer | undefined>;
+  remove(key: string): Promise<void>;
+}
+
+// Files under a directory on this machine; the default, fine for one server
+export class LocalFileStore implements FileStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private pathFor(key: string): string {
+    const resolved = path.resolve(this.root, key);
+    if (!resolved.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.pathFor(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data, { flag: 'wx' });
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+}
+
+interface S3Config {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const sha256Hex = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+// Any S3-compatible bucket: AWS S3, MinIO, Cloudflare R2, or Google Cloud
+// Storage through its XML API with HMAC keys. Requests are signed with
+// Signature V4 and use path-style URLs.
+export class S3FileStore implements FileStore {
+  constructor(private config: S3Config) {}
+
+  private async send(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const { endpoint, bucket, region, accessKeyId, secretAccessKey } = this.config;
+    const url = new URL(`${endpoint.replace(/\/$/, '')}/${bucket}/${key.split('/').map(encodeURIComponent).join('/')}`);
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const day = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (contentType) headers['content-type'] = contentType;
+    const signedHeaders = Object.keys(headers).sort();
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      signedHeaders.map(name => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+    const scope = `${day}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, day), region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host, ...sent } = headers;
+    return await fetch(url, {
+      method,
+      headers: {
+        ...sent,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      body,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.send('PUT', key, data, contentType);
+    if (!response.ok) throw new Error(`Object store PUT ${key} failed: ${response.status} ${await response.text()}`);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    const response = await this.send('GET', key);
+    if (response.status === 404) return undefined;
+    if (!response.ok) throw new Error(`Object store GET ${key} failed: ${response.status} ${await response.text()}`);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async remove(key: string): Promise<void> {
+    const response = await this.send('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Object store DELETE ${key} failed: ${response.status} ${await response.text()}`);
+    }
+  }
+}
+
+// FILE_STORAGE=s3 with the S3_* settings uses a bucket; anything else keeps
+// files on local disk under FILE_STORAGE_DIR
+function createFileStore(): FileStore {
+  if (process.env.FILE_STORAGE === 's3') {
+    const config = {
+      endpoint: process.env.S3_ENDPOINT || 'https://s3.amazonaws.com',
+      bucket: process.env.S3_BUCKET || '',
+      region: process.env.S3_REGION || 'us-east-1',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+    };
+    if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+      throw new Error("FILE_STORAGE=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+    }
+    return new S3FileStore(config);
+  }
+  return new LocalFileStore(process.env.FILE_STORAGE_DIR || 'uploads');
+}
+
+export const fileStore: FileStore = createFileStore();
@@ -0,0 +1,123 @@
+import { createHash, randomUUID } from "crypto";
+import { storage } from "./storage";
+import { fileStore } from "./file-storage";
+import { canActFor } from "./family";
+import { fileCategoryRules, fileUrl } from "@shared/files";
+import type { FileCategory, StoredFile, User } from "@shared/schema";
+
+const extensions: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/dicom': 'dcm',
+};
+
+// What the bytes actually are, from their signature; browsers' declared types
+// are only a hint. Null for anything we don't accept at all.
+export function sniffContentType(data: Buffer): string | null {
+  if (data.subarray(0, 5).toString('latin1') === '%PDF-') return 'application/pdf';
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP') return 'image/webp';
+  if (data.subarray(128, 132).toString('latin1') === 'DICM') return 'application/dicom';
+  return null;
+}
+
+// Keep only the base name, without control characters, at a sane length
+export function cleanFileName(name: string, contentType: string): string {
+  const base = name.split(/[\\/]/).pop()?.replace(/[\u0000-\u001f\u007f"]/g, '').trim().slice(0, 200);
+  return base || `upload.${extensions[contentType] || 'bin'}`;
+}
+
+// Who may upload what: staff anything; patients and guardians only their own
+// (or their dependents') documents. A reason when not allowed, else null.
+export async function uploadDenied(user: User, category: FileCategory, patientId: string | null): Promise<string | null> {
+  const rule = fileCategoryRules[category];
+  if (user.role === 'admin') return null;
+  if (!rule.patientUpload) return "Only staff can upload these files";
+  return patientId && await canActFor(user, patientId) ? null : "You can't add files to this patient's record";
+}
+
+// Public files are for everyone; patient files for that patient, their
+// guardians and staff; anything else for staff only
+export async function canReadFile(user: User | undefined, file: StoredFile): Promise<boolean> {
+  if (fileCategoryRules[file.category as FileCategory]?.isPublic) return true;
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+  return !!file.patientId && await canActFor(user, file.patientId);
+}
+
+interface NewFile {
+  category: FileCategory;
+  fileName: string;
+  contentType: string; // Already sniffed and checked against the category
+  data: Buffer;
+  patientId: string | null;
+  description?: string | null;
+  uploadedBy: string | null;
+}
+
+// Writes the bytes first so a record never points at a missing object
+export async function storeFile(file: NewFile): Promise<StoredFile> {
+  const storageKey = `${file.category}/${randomUUID()}.${extensions[file.contentType] || 'bin'}`;
+  await fileStore.put(storageKey, file.data, file.contentType);
+  try {
+    return await storage.createStoredFile({
+      category: file.category,
+      storageKey,
+      fileName: cleanFileName(file.fileName, file.contentType),
+      contentType: file.contentType,
+      size: file.data.length,
+      sha256: createHash('sha256').update(file.data).digest('hex'),
+      patientId: file.patientId,
+      description: file.description || null,
+      uploadedBy: file.uploadedBy,
+    });
+  } catch (error) {
+    await fileStore.remove(storageKey).catch(() => undefined);
+    throw error;
+  }
+}
+
+export async function readFile(file: StoredFile): Promise<Buffer | undefined> {
+  return await fileStore.get(file.storageKey);
+}
+
+export async function deleteFile(file: StoredFile): Promise<void> {
+  await storage.deleteStoredFile(file.id);
+  await fileStore.remove(file.storageKey);
+}
+
+// Team photos used to be saved in the database as data URLs; new ones go to
+// the file store
+export function isInlineImage(imageUrl: unknown): boolean {
+  return typeof imageUrl === 'string' && /^\s*data:/i.test(imageUrl);
+}
+
+// Moves team photos saved as base64 data URLs into the file store and points
+// the team member at the stored copy. Returns how many were moved.
+export async function migrateInlineTeamImages(): Promise<number> {
+  const members = await storage.getTeamMembersWithInlineImages();
+  let moved = 0;
+  for (const member of members) {
+    const match = /^data:[^;,]*;base64,(.*)$/.exec(member.imageUrl || '');
+    const data = match ? Buffer.from(match[1], 'base64') : undefined;
+    const contentType = data ? sniffContentType(data) : null;
+    if (!data || !contentType || !fileCategoryRules.team_photo.contentTypes.includes(contentType)) {
+      console.error(`Team member ${member.id} has an unreadable inline photo; leaving it in place`);
+      continue;
+    }
+    const stored = await storeFile({
+      category: 'team_photo',
+      fileName: `${member.name}.${extensions[contentType]}`,
+      contentType,
+      data,
+      patientId: null,
+      uploadedBy: null,
+    });
+    await storage.updateTeamMember(member.id, { imageUrl: fileUrl(stored.id) });
+    moved++;
+  }
+  return moved;
+}
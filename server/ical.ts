@@ -0,0 +1,182 @@
+import { randomBytes } from "crypto";
+import { storage, type CalendarFeedOwner } from "./storage";
+import { appointmentStart } from "./appointment-policy";
+import { appointmentDuration } from "./availability";
+import { practiceDate, practiceTimeZone } from "./practice-time";
+import { addDays } from "@shared/datetime";
+import type { Appointment, Procedure, User } from "@shared/schema";
+
+// RFC 5545 output for appointments: one-off downloads and the subscription
+// feeds calendar apps poll.
+
+const PRACTICE_NAME = process.env.PRACTICE_NAME || 'SmileCare Dental Clinic';
+const PRACTICE_ADDRESS = process.env.PRACTICE_ADDRESS || PRACTICE_NAME;
+const UID_DOMAIN = process.env.CALENDAR_UID_DOMAIN || 'smilecare.dental';
+
+// How far back feeds reach, so old history doesn't grow them forever
+const FEED_HISTORY_DAYS = 90;
+
+// Escapes a TEXT value (RFC 5545 3.3.11)
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Splits a content line into 75-octet pieces, continuation lines starting with
+// a space (RFC 5545 3.1). Never breaks inside a multi-byte character.
+export function foldLine(line: string): string {
+  const pieces: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = pieces.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      pieces.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  pieces.push(current);
+  return pieces.join('\r\n ');
+}
+
+// 2025-01-15T14:30:00.000Z -> 20250115T143000Z
+function utcStamp(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function eventStatus(appointment: Appointment): string {
+  if (appointment.status === 'cancelled') return 'CANCELLED';
+  if (appointment.status === 'pending') return 'TENTATIVE';
+  return 'CONFIRMED';
+}
+
+// Calendar apps match updates to events by UID, so it must never change
+function eventUid(appointment: Appointment): string {
+  return `appointment-${appointment.id}@${UID_DOMAIN}`;
+}
+
+// Provider feeds leave the practice for whatever calendar service the provider
+// uses, so patients are named by first name and last initial only
+function shortName(patient: User | undefined): string {
+  if (!patient) return 'Patient';
+  const initial = patient.lastName ? ` ${patient.lastName[0]}.` : '';
+  return patient.firstName ? `${patient.firstName}${initial}` : 'Patient';
+}
+
+interface EventOptions {
+  durationMinutes: number;
+  summary: string;
+  description: string;
+}
+
+function appointmentEvent(appointment: Appointment, options: EventOptions): string[] {
+  const start = appointmentStart(appointment);
+  const end = new Date(start.getTime() + options.durationMinutes * 60 * 1000);
+  const modified = appointment.updatedAt || appointment.createdAt || new Date();
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${eventUid(appointment)}`,
+    `SEQUENCE:${appointment.calendarSequence}`,
+    `DTSTAMP:${utcStamp(modified)}`,
+    `LAST-MODIFIED:${utcStamp(modified)}`,
+    `DTSTART:${utcStamp(start)}`,
+    `DTEND:${utcStamp(end)}`,
+    `SUMMARY:${escapeText(options.summary)}`,
+    `DESCRIPTION:${escapeText(options.description)}`,
+    `LOCATION:${escapeText(PRACTICE_ADDRESS)}`,
+    `STATUS:${eventStatus(appointment)}`,
+    'END:VEVENT',
+  ];
+}
+
+function buildCalendar(name: string, events: string[][]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${PRACTICE_NAME}//Appointments//EN`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${practiceTimeZone}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flat(),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// `forName` labels appointments a guardian keeps for someone else
+function patientEvent(appointment: Appointment, procedures: Procedure[], forName?: string): string[] {
+  return appointmentEvent(appointment, {
+    durationMinutes: appointmentDuration(appointment, procedures),
+    summary: forName
+      ? `Dental appointment for ${forName}: ${appointment.treatmentType}`
+      : `Dental appointment: ${appointment.treatmentType}`,
+    description: `${appointment.treatmentType} with ${appointment.doctorName} at ${PRACTICE_NAME}`,
+  });
+}
+
+// A single appointment, for "Add to calendar". Cancelled appointments still
+// come out, marked cancelled, so re-importing removes them.
+export async function appointmentCalendar(appointment: Appointment): Promise<string> {
+  const procedures = await storage.getProcedures();
+  return buildCalendar(PRACTICE_NAME, [patientEvent(appointment, procedures)]);
+}
+
+// Includes the appointments of everyone the patient is a guardian for
+export async function patientCalendar(patientId: string): Promise<string> {
+  const since = addDays(practiceDate(), -FEED_HISTORY_DAYS);
+  const dependents = await storage.getDependents(patientId);
+  const [appointments, procedures] = await Promise.all([
+    storage.getAppointmentsByPatients([patientId, ...dependents.map(d => d.id)]),
+    storage.getProcedures(),
+  ]);
+  const events = appointments
+    .filter(appointment => appointment.appointmentDate >= since)
+    .map(appointment => {
+      const dependent = dependents.find(d => d.id === appointment.patientId);
+      return patientEvent(appointment, procedures, dependent?.firstName || undefined);
+    });
+  return buildCalendar(`${PRACTICE_NAME} appointments`, events);
+}
+
+export async function providerCalendar(providerId: string): Promise<string | undefined> {
+  const provider = await storage.getProvider(providerId);
+  if (!provider) return undefined;
+
+  const since = addDays(practiceDate(), -FEED_HISTORY_DAYS);
+  const [appointments, procedures] = await Promise.all([
+    storage.getAppointmentsByProvider(providerId, since),
+    storage.getProcedures(),
+  ]);
+  const patientIds = Array.from(new Set(appointments.map(a => a.patientId)));
+  const patients = await Promise.all(patientIds.map(id => storage.getUser(id)));
+
+  const events = appointments.map(appointment => appointmentEvent(appointment, {
+    durationMinutes: appointmentDuration(appointment, procedures),
+    summary: `${appointment.treatmentType}: ${shortName(patients[patientIds.indexOf(appointment.patientId)])}`,
+    description: `${appointment.treatmentType} at ${PRACTICE_NAME}`,
+  }));
+  return buildCalendar(`${provider.name} – ${PRACTICE_NAME}`, events);
+}
+
+// The owner's feed token, issuing one on first use
+export async function calendarFeedToken(owner: CalendarFeedOwner): Promise<string> {
+  const existing = await storage.getCalendarFeed(owner);
+  if (existing) return existing.token;
+  return rotateCalendarFeedToken(owner);
+}
+
+// Issues a new token; anyone still polling the old URL gets a 404
+export async function rotateCalendarFeedToken(owner: CalendarFeedOwner): Promise<string> {
+  const feed = await storage.replaceCalendarFeed(owner, randomBytes(24).toString('hex'));
+  return feed.token;
+}
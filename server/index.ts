@@ -1,6 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startScheduleGenerator } from "./schedule";
+import { startWaitlistSweeper } from "./waitlist";
+import { startNoShowJob } from "./no-show";
+import { storage } from "./storage";
+import { migrateInlineTeamImages } from "./files";
+import { migrateBookingIntents } from "./quick-booking";
 
 const app = express();
 app.use(express.json({ limit: '50mb' }));
@@ -50,6 +56,30 @@ function checkRequiredEnvVars() {
   }
 }
 
+// One-off data fixes for rows written by older versions. Each runs on its
+// own, so one failing doesn't skip the rest.
+async function migrate(name: string, run: () => Promise<number>, done: (count: number) => string) {
+  try {
+    const count = await run();
+    if (count > 0) log(done(count));
+  } catch (error) {
+    log(`${name} failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function runStartupMigrations() {
+  await migrate("Provider migration", () => storage.migrateDoctorNamesToProviders(),
+    created => `Created ${created} providers from existing doctor names`);
+  await migrate("No-show status migration", () => storage.migrateLegacyStatuses(),
+    migrated => `Marked ${migrated} missed appointments as no-shows`);
+  await migrate("Slot block migration", () => storage.migrateStaffBlocks(),
+    blocked => `Marked ${blocked} closed time slots as blocked by staff`);
+  await migrate("Quick booking migration", migrateBookingIntents,
+    tagged => `Linked ${tagged} procedures to their one-click booking buttons`);
+  await migrate("Team photo migration", migrateInlineTeamImages,
+    moved => `Moved ${moved} inline team photos to file storage`);
+}
+
 // Enhanced startup with proper error handling
 async function startServer() {
   try {
@@ -93,6 +123,12 @@ async function startServer() {
         } else {
           log(`Server successfully started on port ${port}`);
           log(`Health check available at http://0.0.0.0:${port}/health`);
+          // The background jobs read rows the startup migrations rewrite
+          runStartupMigrations().finally(() => {
+            startScheduleGenerator();
+            startWaitlistSweeper();
+            startNoShowJob();
+          });
           resolve();
         }
       });
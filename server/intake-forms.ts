@@ -0,0 +1,82 @@
+import { storage } from "./storage";
+import { consentsFor } from "./consents";
+import type { Appointment, IntakeForm, IntakeFormResponse, Procedure } from "@shared/schema";
+
+export interface AppointmentIntakeForm {
+  form: IntakeForm;
+  // The answers that count for this appointment, if there are any yet
+  response: IntakeFormResponse | null;
+}
+
+// GET /api/admin/intake-status, per appointment: intake forms, then consents
+export interface IntakeFormSummary {
+  kind: 'form' | 'consent';
+  formId: string;
+  title: string;
+  completed: boolean;
+  submittedAt: string | null;
+}
+
+export function formAppliesTo(form: IntakeForm, appointment: Appointment, procedures: Procedure[]): boolean {
+  if (!form.isActive) return false;
+  if (form.procedureIds.length === 0) return true;
+  const treatment = appointment.treatmentType.toLowerCase();
+  return procedures.some(p => form.procedureIds.includes(p.id) && p.name.toLowerCase() === treatment);
+}
+
+// 'once' forms count whenever the patient filled them in; the rest need
+// answers given for this appointment. Responses come newest first.
+export function responseFor(form: IntakeForm, appointment: Appointment, responses: IntakeFormResponse[]): IntakeFormResponse | null {
+  return responses.find(response =>
+    response.formId === form.id &&
+    response.patientId === appointment.patientId &&
+    (form.frequency === 'once' || response.appointmentId === appointment.id)
+  ) || null;
+}
+
+function formsFor(appointment: Appointment, forms: IntakeForm[], procedures: Procedure[], responses: IntakeFormResponse[]): AppointmentIntakeForm[] {
+  return forms
+    .filter(form => formAppliesTo(form, appointment, procedures))
+    .map(form => ({ form, response: responseFor(form, appointment, responses) }));
+}
+
+export async function appointmentIntakeForms(appointment: Appointment): Promise<AppointmentIntakeForm[]> {
+  const [forms, procedures, responses] = await Promise.all([
+    storage.getIntakeForms(),
+    storage.getProcedures(),
+    storage.getIntakeResponses([appointment.patientId]),
+  ]);
+  return formsFor(appointment, forms, procedures, responses);
+}
+
+// Completion keyed by appointment id; unknown appointments are left out
+export async function intakeStatusSummaries(appointmentIds: string[]): Promise<Record<string, IntakeFormSummary[]>> {
+  const appointments = await storage.getAppointmentsByIds(Array.from(new Set(appointmentIds)));
+  const [forms, procedures, responses, templates, signed] = await Promise.all([
+    storage.getIntakeForms(),
+    storage.getProcedures(),
+    storage.getIntakeResponses(Array.from(new Set(appointments.map(a => a.patientId)))),
+    storage.getConsentTemplates(),
+    storage.getSignedConsents(appointments.map(a => a.id)),
+  ]);
+
+  return Object.fromEntries(appointments.map(appointment => [
+    appointment.id,
+    [
+      ...formsFor(appointment, forms, procedures, responses).map(({ form, response }): IntakeFormSummary => ({
+        kind: 'form',
+        formId: form.id,
+        title: form.title,
+        completed: !!response,
+        submittedAt: response?.submittedAt ? response.submittedAt.toISOString() : null,
+      })),
+      ...consentsFor(appointment, templates, procedures, signed).map(({ template, signed }): IntakeFormSummary => ({
+        kind: 'consent',
+        formId: template.id,
+        title: template.title,
+        completed: !!signed,
+        submittedAt: signed ? signed.signedAt.toISOString() : null,
+      })),
+    ],
+  ]));
+}
@@ -0,0 +1,88 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+
+// Tells open screens that appointments or time slots changed so they refetch
+// instead of booking from stale data. Messages only name what changed and on
+// which dates, never any appointment details, so the socket needs no login.
+
+export type LiveTopic = 'appointments' | 'timeslots';
+
+const LIVE_TOPICS: LiveTopic[] = ['appointments', 'timeslots'];
+const LIVE_UPDATES_PATH = '/ws';
+
+// Changes within this window go out as one message, so bulk edits don't
+// trigger a refetch per row
+const FLUSH_DELAY_MS = 200;
+
+// Proxies drop idle sockets; pinging keeps them open and finds dead clients
+const HEARTBEAT_MS = 30 * 1000;
+
+const subscriptions = new Map<WebSocket, Set<LiveTopic>>();
+let pending: { topics: Set<LiveTopic>; dates: Set<string> } | undefined;
+
+export function attachLiveUpdates(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Vite's HMR socket shares this server in development, so only our path is
+  // taken over
+  server.on('upgrade', (req, socket, head) => {
+    if (new URL(req.url || '/', 'http://localhost').pathname !== LIVE_UPDATES_PATH) return;
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+  });
+
+  const alive = new WeakSet<WebSocket>();
+
+  wss.on('connection', (ws) => {
+    subscriptions.set(ws, new Set());
+    alive.add(ws);
+
+    ws.on('pong', () => alive.add(ws));
+    ws.on('message', (data) => {
+      try {
+        const message = JSON.parse(data.toString());
+        if (message.type === 'subscribe' && Array.isArray(message.topics)) {
+          subscriptions.set(ws, new Set(LIVE_TOPICS.filter(topic => message.topics.includes(topic))));
+        }
+      } catch {
+        // Ignore anything that isn't a subscription
+      }
+    });
+    ws.on('close', () => subscriptions.delete(ws));
+    ws.on('error', (error) => console.error("Live update socket error:", error));
+  });
+
+  setInterval(() => {
+    for (const ws of Array.from(subscriptions.keys())) {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        subscriptions.delete(ws);
+        continue;
+      }
+      alive.delete(ws);
+      ws.ping();
+    }
+  }, HEARTBEAT_MS).unref();
+}
+
+// Called after anything that changes appointments or slots, with the dates
+// touched. Safe to call when nobody is connected.
+export function publishChange(topics: LiveTopic[], ...dates: string[]) {
+  if (!pending) {
+    pending = { topics: new Set(), dates: new Set() };
+    setTimeout(flush, FLUSH_DELAY_MS).unref();
+  }
+  topics.forEach(topic => pending!.topics.add(topic));
+  dates.forEach(date => pending!.dates.add(date));
+}
+
+function flush() {
+  if (!pending) return;
+  const { topics, dates } = pending;
+  pending = undefined;
+
+  for (const [ws, subscribed] of Array.from(subscriptions)) {
+    const relevant = Array.from(topics).filter(topic => subscribed.has(topic));
+    if (relevant.length === 0 || ws.readyState !== WebSocket.OPEN) continue;
+    ws.send(JSON.stringify({ type: 'change', topics: relevant, dates: Array.from(dates).sort() }));
+  }
+}
@@ -0,0 +1,30 @@
+import { storage } from "./storage";
+import { diffMedicalHistories, medicalAlerts, type MedicalAlertSummary, type MedicalHistoryChange } from "@shared/medical-history";
+import type { MedicalHistory } from "@shared/schema";
+
+export type MedicalHistoryVersion = MedicalHistory & { changes: MedicalHistoryChange[] };
+
+// Every version newest first, each with what it changed since the one before
+export async function medicalHistoryTimeline(patientId: string): Promise<MedicalHistoryVersion[]> {
+  const versions = await storage.getMedicalHistories(patientId);
+  return versions.map((version, i) => ({
+    ...version,
+    changes: diffMedicalHistories(versions[i + 1], version),
+  }));
+}
+
+export function alertSummary(history: MedicalHistory): MedicalAlertSummary {
+  return {
+    version: history.version,
+    submittedAt: history.createdAt ? history.createdAt.toISOString() : null,
+    needsReview: !history.reviewedAt,
+    alerts: medicalAlerts(history),
+  };
+}
+
+// Alerts keyed by patient id. Patients who never filled in the questionnaire
+// are left out.
+export async function medicalAlertSummaries(patientIds: string[]): Promise<Record<string, MedicalAlertSummary>> {
+  const latest = await storage.getLatestMedicalHistories(Array.from(new Set(patientIds)));
+  return Object.fromEntries(latest.map(history => [history.patientId, alertSummary(history)]));
+}
@@ -0,0 +1,23 @@
+-- Rewrites "9:30 AM" style times written before times were stored as 24-hour
+-- "HH:MM". Runs ahead of db:push so the clock time format checks find no
+-- legacy rows. Safe to run again, and on a database without these tables yet.
+DO $$
+BEGIN
+  IF to_regclass('time_slots') IS NOT NULL THEN
+    UPDATE time_slots SET time = to_char(time::time, 'HH24:MI')
+      WHERE time !~ '^([01][0-9]|2[0-3]):[0-5][0-9]$';
+  END IF;
+
+  IF to_regclass('appointments') IS NOT NULL THEN
+    UPDATE appointments SET appointment_time = to_char(appointment_time::time, 'HH24:MI')
+      WHERE appointment_time !~ '^([01][0-9]|2[0-3]):[0-5][0-9]$';
+  END IF;
+
+  IF to_regclass('appointment_changes') IS NOT NULL THEN
+    UPDATE appointment_changes SET previous_time = to_char(previous_time::time, 'HH24:MI')
+      WHERE previous_time !~ '^([01][0-9]|2[0-3]):[0-5][0-9]$';
+    UPDATE appointment_changes SET new_time = to_char(new_time::time, 'HH24:MI')
+      WHERE new_time !~ '^([01][0-9]|2[0-3]):[0-5][0-9]$';
+  END IF;
+END
+$$;
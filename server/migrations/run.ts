@@ -0,0 +1,21 @@
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { pool } from "../db";
+
+// Data fixes that have to land before `drizzle-kit push` adds constraints the
+// old rows would break. Runs as the predb:push script; each file is written to
+// be safe to run again.
+async function runDataMigrations() {
+  const files = (await readdir(import.meta.dirname)).filter(file => file.endsWith(".sql")).sort();
+  for (const file of files) {
+    await pool.query(await readFile(path.join(import.meta.dirname, file), "utf8"));
+    console.log(`Applied ${file}`);
+  }
+}
+
+runDataMigrations()
+  .catch(error => {
+    console.error(`Data migration failed: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
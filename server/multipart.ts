@@ -0,0 +1,56 @@
+// A small multipart/form-data reader for bodies already buffered by
+// express.raw, enough for file uploads from browser FormData.
+
+export interface MultipartFile {
+  fieldName: string;
+  fileName: string;
+  contentType: string; // As declared by the browser; don't trust it
+  data: Buffer;
+}
+
+export interface MultipartBody {
+  fields: Record<string, string>;
+  files: MultipartFile[];
+}
+
+// Null when the body isn't well-formed multipart/form-data
+export function parseMultipart(body: Buffer, contentType: string): MultipartBody | null {
+  const boundaryMatch = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  if (!boundaryMatch) return null;
+  const delimiter = Buffer.from(`--${boundaryMatch[1] || boundaryMatch[2]}`);
+  const result: MultipartBody = { fields: {}, files: [] };
+
+  let position = body.indexOf(delimiter);
+  if (position < 0) return null;
+  for (;;) {
+    position += delimiter.length;
+    // "--" after a delimiter closes the body
+    if (body.subarray(position, position + 2).toString('latin1') === '--') return result;
+    position += 2; // CRLF after the delimiter
+
+    const next = body.indexOf(delimiter, position);
+    if (next < 0) return null;
+    const part = body.subarray(position, next - 2); // Drop the CRLF before the next delimiter
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd < 0) return null;
+
+    const headers = part.subarray(0, headerEnd).toString('utf8');
+    const data = part.subarray(headerEnd + 4);
+    const disposition = /content-disposition:\s*form-data;([^\r\n]*)/i.exec(headers)?.[1] ?? '';
+    const name = /\bname="([^"]*)"/i.exec(disposition)?.[1];
+    if (name === undefined) return null;
+    const fileName = /\bfilename="([^"]*)"/i.exec(disposition)?.[1];
+
+    if (fileName !== undefined) {
+      result.files.push({
+        fieldName: name,
+        fileName,
+        contentType: /content-type:\s*([^\r\n;]+)/i.exec(headers)?.[1].trim().toLowerCase() || 'application/octet-stream',
+        data: Buffer.from(data),
+      });
+    } else {
+      result.fields[name] = data.toString('utf8');
+    }
+    position = next;
+  }
+}
@@ -0,0 +1,101 @@
+import { storage } from "./storage";
+import { appointmentStart } from "./appointment-policy";
+import { addDays } from "@shared/datetime";
+import { practiceDate } from "./practice-time";
+import { displayName } from "./patient-profile";
+import { publishChange } from "./live-updates";
+import type { Appointment } from "@shared/schema";
+
+export interface NoShowPolicy {
+  graceMinutes: number;
+  flagThreshold: number; // 0 turns flagging off
+  flaggedRequirement: 'deposit' | 'confirmation';
+}
+
+export const noShowPolicy: NoShowPolicy = {
+  graceMinutes: parseInt(process.env.NO_SHOW_GRACE_MINUTES || '30', 10),
+  flagThreshold: parseInt(process.env.NO_SHOW_FLAG_THRESHOLD || '3', 10),
+  flaggedRequirement: process.env.NO_SHOW_FLAGGED_REQUIREMENT === 'deposit' ? 'deposit' : 'confirmation',
+};
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// Marks appointments whose start passed more than the grace period ago
+// without a check-in
+export async function detectNoShows(now: Date = new Date()): Promise<Appointment[]> {
+  const graceMs = noShowPolicy.graceMinutes * 60 * 1000;
+  const candidates = await storage.getUnattendedAppointments(practiceDate(now));
+  const overdue = candidates.filter(a => appointmentStart(a).getTime() + graceMs < now.getTime());
+  if (overdue.length === 0) return [];
+
+  const marked = await storage.markNoShows(
+    overdue.map(a => a.id),
+    `Not checked in within ${noShowPolicy.graceMinutes} minutes of the start`,
+    noShowPolicy.flagThreshold,
+  );
+  if (marked.length > 0) publishChange(['appointments'], ...marked.map(a => a.appointmentDate));
+  return marked;
+}
+
+export async function getNoShowSummary(days: number = 30) {
+  const since = addDays(practiceDate(), -(days - 1));
+  const noShows = await storage.getNoShowAppointments(since);
+  const flagged = await storage.getFlaggedPatients();
+  const users = await storage.getAllUsers();
+  const usersById = new Map(users.map(u => [u.id, u]));
+
+  const patientName = (id: string) => {
+    const patient = usersById.get(id);
+    if (!patient) return 'Unknown patient';
+    return displayName(patient);
+  };
+
+  return {
+    policy: noShowPolicy,
+    days,
+    total: noShows.length,
+    recent: noShows.slice(0, 10).map(a => ({ ...a, patientName: patientName(a.patientId) })),
+    flaggedPatients: flagged.map(p => ({
+      id: p.id,
+      name: patientName(p.id),
+      noShowCount: p.noShowCount,
+      flaggedAt: p.noShowFlaggedAt,
+    })),
+  };
+}
+
+// What a flagged patient has to do before a new booking is confirmed. Stored
+// on the appointment, which stays pending until it's met.
+export function bookingRequirement(patient?: { noShowFlaggedAt: Date | null }): NoShowPolicy['flaggedRequirement'] | null {
+  return patient?.noShowFlaggedAt ? noShowPolicy.flaggedRequirement : null;
+}
+
+// Why staff can't confirm a booking yet. They pass requirementMet once they
+// have taken the deposit or spoken to the patient; a completed payment
+// against the appointment covers a deposit on its own.
+export async function unmetBookingRequirement(appointment: Appointment, requirementMet: boolean): Promise<string | undefined> {
+  if (!appointment.bookingRequirement || requirementMet) return undefined;
+  if (appointment.bookingRequirement === 'deposit') {
+    const payments = await storage.getPaymentsByPatientId(appointment.patientId);
+    if (payments.some(p => p.appointmentId === appointment.id && p.status === 'completed')) return undefined;
+    return "This patient owes a deposit before the booking can be confirmed";
+  }
+  return "Confirm this booking with the patient before marking it confirmed";
+}
+
+export function startNoShowJob() {
+  const run = async () => {
+    try {
+      const marked = await detectNoShows();
+      if (marked.length > 0) {
+        console.log(`No-show job marked ${marked.length} appointments`);
+      }
+    } catch (error) {
+      console.error("Error detecting no-shows:", error);
+    }
+  };
+
+  run();
+  setInterval(run, CHECK_INTERVAL_MS).unref();
+}
+
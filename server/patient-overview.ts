@@ -0,0 +1,114 @@
+import { storage } from "./storage";
+import { displayName, loadPatientProfile, patientContact, type PatientContact, type PatientProfileView } from "./patient-profile";
+import { patientClinicalNotes, type ClinicalNoteView } from "./clinical-notes";
+import type {
+  Achievement,
+  Appointment,
+  PatientAchievement,
+  PatientPoints,
+  PatientRecall,
+  Payment,
+  PointsHistory,
+  SignedConsentRecord,
+} from "@shared/schema";
+
+// How much points history the overview shows
+const RECENT_POINTS = 10;
+
+interface RelatedPatient {
+  id: string;
+  name: string;
+  relationship?: string;
+}
+
+export interface PatientOverview {
+  patient: {
+    id: string;
+    name: string;
+    email: string | null;
+    createdAt: Date | null;
+    noShowCount: number;
+    noShowFlaggedAt: Date | null;
+  };
+  profile: PatientProfileView;
+  contact: PatientContact | undefined;
+  guardians: RelatedPatient[];
+  dependents: RelatedPatient[];
+  appointments: Appointment[];
+  payments: Payment[];
+  points: PatientPoints;
+  pointsHistory: PointsHistory[];
+  achievements: (PatientAchievement & Pick<Achievement, 'name' | 'description' | 'icon'>)[];
+  intakeForms: { id: string; title: string; appointmentId: string | null; submittedAt: Date | null }[];
+  consents: Omit<SignedConsentRecord, 'body'>[];
+  recalls: (PatientRecall & { recallTypeName: string })[];
+  clinicalNotes: ClinicalNoteView[];
+}
+
+// Everything staff know about one patient, for the admin patient page.
+// Undefined when there's no such patient.
+export async function loadPatientOverview(patientId: string): Promise<PatientOverview | undefined> {
+  const user = await storage.getUser(patientId);
+  const profile = user ? await loadPatientProfile(patientId) : undefined;
+  if (!user || !profile) return undefined;
+
+  const [
+    contact, guardians, dependents, appointments, payments, points, pointsHistory,
+    earned, achievements, responses, forms, recalls, recallTypes, clinicalNotes,
+  ] = await Promise.all([
+    patientContact(patientId),
+    storage.getGuardians(patientId),
+    storage.getDependents(patientId),
+    storage.getAppointmentsByPatient(patientId),
+    storage.getPaymentsByPatientId(patientId),
+    storage.getOrCreatePatientPoints(patientId),
+    storage.getPointsHistory(patientId),
+    storage.getPatientAchievements(patientId),
+    storage.getAchievements(),
+    storage.getIntakeResponses([patientId]),
+    storage.getIntakeForms(true),
+    storage.getPatientRecalls({ patientId }),
+    storage.getRecallTypes(true),
+    patientClinicalNotes(patientId),
+  ]);
+  const consents = await storage.getSignedConsents(appointments.map(appointment => appointment.id));
+
+  return {
+    patient: {
+      id: user.id,
+      name: displayName(user),
+      email: user.email,
+      createdAt: user.createdAt,
+      noShowCount: user.noShowCount,
+      noShowFlaggedAt: user.noShowFlaggedAt,
+    },
+    profile,
+    contact,
+    guardians: guardians.map(guardian => ({ id: guardian.id, name: displayName(guardian) })),
+    dependents: dependents.map(dependent => ({ id: dependent.id, name: displayName(dependent), relationship: dependent.relationship })),
+    appointments,
+    payments,
+    points,
+    pointsHistory: pointsHistory.slice(0, RECENT_POINTS),
+    achievements: earned.flatMap(item => {
+      const achievement = achievements.find(a => a.id === item.achievementId);
+      return achievement
+        ? [{ ...item, name: achievement.name, description: achievement.description, icon: achievement.icon }]
+        : [];
+    }),
+    intakeForms: responses
+      .map(response => ({
+        id: response.id,
+        title: forms.find(form => form.id === response.formId)?.title || 'Intake form',
+        appointmentId: response.appointmentId,
+        submittedAt: response.submittedAt,
+      }))
+      .sort((a, b) => (b.submittedAt?.getTime() ?? 0) - (a.submittedAt?.getTime() ?? 0)),
+    consents: consents.map(({ body, ...consent }) => consent),
+    recalls: recalls.flatMap(recall => {
+      const recallType = recallTypes.find(t => t.id === recall.recallTypeId);
+      return recallType?.isActive ? [{ ...recall, recallTypeName: recallType.name }] : [];
+    }),
+    clinicalNotes,
+  };
+}
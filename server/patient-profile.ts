@@ -0,0 +1,67 @@
+import { storage } from "./storage";
+import type { ContactMethod, PatientProfile, User } from "@shared/schema";
+
+export type PatientProfileView = Partial<PatientProfile> & {
+  userId: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+};
+
+// Where to reach a patient, with dependents falling back to their guardian's
+// email and phone since they usually have neither
+export interface PatientContact {
+  name: string;
+  email: string | null;
+  phone: string | null;
+  preferredMethod: ContactMethod;
+  language: string | null;
+  viaGuardian?: string;
+}
+
+export function displayName(user: User): string {
+  return `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || 'Unnamed patient';
+}
+
+// The profile as the edit form sees it. Patients who never filled it in get
+// their name and email with everything else blank.
+export async function loadPatientProfile(patientId: string): Promise<PatientProfileView | undefined> {
+  const user = await storage.getUser(patientId);
+  if (!user) return undefined;
+
+  const profile = await storage.getPatientProfile(patientId);
+  return {
+    ...profile,
+    userId: user.id,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    email: user.email,
+  };
+}
+
+export async function patientContact(patientId: string): Promise<PatientContact | undefined> {
+  const user = await storage.getUser(patientId);
+  if (!user) return undefined;
+
+  const profile = await storage.getPatientProfile(patientId);
+  const contact: PatientContact = {
+    name: displayName(user),
+    email: user.email,
+    phone: profile?.mobilePhone || profile?.homePhone || null,
+    preferredMethod: (profile?.preferredContactMethod as ContactMethod) || 'email',
+    language: profile?.preferredLanguage || null,
+  };
+  if (contact.email || contact.phone) return contact;
+
+  const [guardian] = await storage.getGuardians(patientId);
+  if (!guardian) return contact;
+
+  const guardianProfile = await storage.getPatientProfile(guardian.id);
+  return {
+    ...contact,
+    email: guardian.email,
+    phone: guardianProfile?.mobilePhone || guardianProfile?.homePhone || null,
+    preferredMethod: (guardianProfile?.preferredContactMethod as ContactMethod) || contact.preferredMethod,
+    viaGuardian: displayName(guardian),
+  };
+}
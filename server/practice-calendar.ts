@@ -0,0 +1,141 @@
+import { storage } from "./storage";
+import { addDays, formatTime, toMinutes, weekdayOf } from "@shared/datetime";
+import { practiceDate } from "./practice-time";
+import { appointmentDuration } from "./availability";
+import { publishChange } from "./live-updates";
+import { patientContact } from "./patient-profile";
+import type { Appointment, PracticeClosure, PracticeHours } from "@shared/schema";
+
+// How far past a closure displaced patients are waitlisted for a new time
+const REBOOK_WINDOW_DAYS = 14;
+
+// Opening hours and closures for a date range, loaded once so availability
+// checks don't query per slot
+export interface PracticeCalendar {
+  hours: PracticeHours[];
+  closures: PracticeClosure[];
+}
+
+export async function loadPracticeCalendar(startDate: string, endDate: string): Promise<PracticeCalendar> {
+  const hours = await storage.getPracticeHours();
+  const closures = await storage.getClosuresInRange(startDate, endDate);
+  return { hours, closures };
+}
+
+// Whether a closure shuts any part of [startMinutes, endMinutes) on the date
+export function closureCovers(closure: PracticeClosure, date: string, startMinutes: number, endMinutes: number): boolean {
+  if (date < closure.startDate || date > closure.endDate) return false;
+  if (!closure.startTime || !closure.endTime) return true;
+  return startMinutes < toMinutes(closure.endTime) && endMinutes > toMinutes(closure.startTime);
+}
+
+// Why the practice is closed for the whole of a visit, or undefined if it's open
+export function closedReason(
+  calendar: PracticeCalendar,
+  date: string,
+  startMinutes: number,
+  endMinutes: number,
+): string | undefined {
+  const closure = calendar.closures.find(c => closureCovers(c, date, startMinutes, endMinutes));
+  if (closure) return closure.reason;
+
+  // No hours configured means the practice hasn't restricted its week
+  if (calendar.hours.length === 0) return undefined;
+
+  const day = calendar.hours.find(h => h.dayOfWeek === weekdayOf(date));
+  if (!day) return 'Outside office hours';
+  if (startMinutes < toMinutes(day.openTime) || endMinutes > toMinutes(day.closeTime)) {
+    return 'Outside office hours';
+  }
+  return undefined;
+}
+
+export function isOpen(calendar: PracticeCalendar, date: string, startMinutes: number, endMinutes: number): boolean {
+  return !closedReason(calendar, date, startMinutes, endMinutes);
+}
+
+// Drops slots, planned or stored, that fall while the practice is closed
+export function openSlots<T extends { date: string; time: string; duration?: number | null }>(
+  calendar: PracticeCalendar,
+  slots: T[],
+): T[] {
+  return slots.filter(slot => {
+    const start = toMinutes(slot.time);
+    return isOpen(calendar, slot.date, start, start + (slot.duration || 60));
+  });
+}
+
+// Booked appointments a closure lands on. `durationOf` gives each visit's length
+// in minutes so partial-day closures catch visits that run into them.
+export function affectedAppointments(
+  closure: PracticeClosure,
+  appointments: Appointment[],
+  durationOf: (appointment: Appointment) => number,
+): Appointment[] {
+  return appointments.filter(appointment => {
+    const start = toMinutes(appointment.appointmentTime);
+    return closureCovers(closure, appointment.appointmentDate, start, start + durationOf(appointment));
+  });
+}
+
+// Affected appointments with the patient's contact details, for the front desk
+export async function getAffectedPatients(closure: PracticeClosure) {
+  const booked = await storage.getActiveAppointmentsInRange(closure.startDate, closure.endDate);
+  const procedures = await storage.getProcedures();
+  const durationOf = (appointment: Appointment) => appointmentDuration(appointment, procedures);
+
+  const affected = affectedAppointments(closure, booked, durationOf);
+  const contacts = await Promise.all(affected.map(a => patientContact(a.patientId)));
+
+  return affected.map((appointment, i) => {
+    const contact = contacts[i];
+    return {
+      ...appointment,
+      patientName: contact?.name || 'Unknown patient',
+      patientEmail: contact?.email || null,
+      patientPhone: contact?.phone || null,
+      preferredContactMethod: contact?.preferredMethod || 'email',
+    };
+  });
+}
+
+// Cancels everything a closure lands on and puts each patient on the waitlist
+// for the same procedure in the two weeks after the practice reopens. Returns
+// the waitlist window so the caller can start offering times.
+export async function rebookAffected(closure: PracticeClosure, changedBy: string) {
+  const affected = await getAffectedPatients(closure);
+  const procedures = await storage.getProcedures();
+
+  const reopen = addDays(closure.endDate, 1);
+  const today = practiceDate();
+  const earliestDate = reopen > today ? reopen : today;
+  const latestDate = addDays(earliestDate, REBOOK_WINDOW_DAYS - 1);
+
+  let cancelled = 0;
+  let waitlisted = 0;
+
+  for (const appointment of affected) {
+    const updated = await storage.updateAppointmentStatus(appointment.id, 'cancelled', {
+      changedBy,
+      reason: `Practice closed: ${closure.reason}`,
+    });
+    if (!updated) continue;
+    cancelled++;
+
+    const procedure = procedures.find(p => p.name.toLowerCase() === appointment.treatmentType.toLowerCase());
+    if (!procedure) continue;
+
+    await storage.createWaitlistEntry({
+      patientId: appointment.patientId,
+      procedureId: procedure.id,
+      providerIds: [],
+      earliestDate,
+      latestDate,
+      notes: `Moved from ${appointment.appointmentDate} ${formatTime(appointment.appointmentTime)} (practice closed)`,
+    });
+    waitlisted++;
+  }
+
+  if (cancelled > 0) publishChange(['appointments', 'timeslots'], ...affected.map(a => a.appointmentDate));
+  return { cancelled, waitlisted, earliestDate, latestDate };
+}
@@ -0,0 +1,27 @@
+import { dateInZone, minutesInZone, toMinutes, zonedInstant } from "@shared/datetime";
+
+// IANA time zone the practice keeps its calendar in, e.g. "America/New_York".
+// Defaults to the server's own zone.
+export const practiceTimeZone = process.env.PRACTICE_TIME_ZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// The practice-local calendar date of an instant
+export function practiceDate(instant: Date = new Date()): string {
+  return dateInZone(instant, practiceTimeZone);
+}
+
+// Minutes past practice-local midnight
+export function practiceMinutes(instant: Date = new Date()): number {
+  return minutesInZone(instant, practiceTimeZone);
+}
+
+// When a practice-local date and time actually happen
+export function practiceInstant(date: string, time: string): Date {
+  return zonedInstant(date, time, practiceTimeZone);
+}
+
+// Whether a practice-local start time is already behind us
+export function hasStarted(start: { date: string; time: string }, now: Date = new Date()): boolean {
+  const today = practiceDate(now);
+  if (start.date !== today) return start.date < today;
+  return toMinutes(start.time) <= practiceMinutes(now);
+}
@@ -0,0 +1,136 @@
+import { storage } from "./storage";
+import { addDays, toMinutes } from "@shared/datetime";
+import { canPerform, findBookableStarts, type BookableStart } from "./availability";
+import { hasStarted, practiceDate } from "./practice-time";
+import { loadPracticeCalendar, openSlots } from "./practice-calendar";
+import { bookingIntents, type BookingIntent, type Procedure } from "@shared/schema";
+
+// What a patient means by each one-click button: the kind of slot the schedule
+// sets aside for it, and what it's booked as until staff pick a procedure for it
+const intentDefaults: Record<BookingIntent, { slotType: string; procedure: string; duration: number }> = {
+  emergency: { slotType: 'emergency', procedure: 'Emergency Consultation', duration: 30 },
+  checkup: { slotType: 'cleaning', procedure: 'Routine Cleaning', duration: 60 },
+  consultation: { slotType: 'consultation', procedure: 'New Patient Consultation', duration: 90 },
+  followup: { slotType: 'followup', procedure: 'Follow-up', duration: 30 },
+};
+
+// How far ahead one-click booking looks for an opening
+export const QUICK_BOOKING_DAYS = 14;
+
+export interface QuickBookingOption {
+  intent: BookingIntent;
+  procedure: string;
+  durationMinutes: number;
+  availableStarts: number;
+  nextStart?: BookableStart;
+}
+
+function intentProcedure(intent: BookingIntent, procedures: Procedure[]): { name: string; duration: number; procedure?: Procedure } {
+  const defaults = intentDefaults[intent];
+  const procedure = procedures.find(p => p.isActive !== false && p.bookingIntent === intent);
+  return { name: procedure?.name || defaults.procedure, duration: procedure?.duration || defaults.duration, procedure };
+}
+
+// Slots typed for the intent or left general can take it; slots reserved for
+// another kind of visit can't
+function acceptsIntent(slotType: string | null, intent: BookingIntent): boolean {
+  return !slotType || slotType === 'general' || slotType === intentDefaults[intent].slotType;
+}
+
+// Every place a procedure could start in the next `days` days, earliest
+// first, among the slots `accepts` allows. Starts with `preferProviderId`
+// come first when there are any.
+export async function findOpenStarts(
+  { procedure, duration, days, accepts }: {
+    procedure?: Procedure;
+    duration: number;
+    days: number;
+    accepts: (slotType: string | null) => boolean;
+  },
+  preferProviderId?: string,
+  now: Date = new Date(),
+): Promise<BookableStart[]> {
+  const from = practiceDate(now);
+  const until = addDays(from, days);
+
+  const [providers, calendar, slots] = await Promise.all([
+    storage.getProviders(),
+    loadPracticeCalendar(from, until),
+    storage.getTimeSlotsInRange(from, until),
+  ]);
+
+  const eligible = new Set(providers.filter(p => canPerform(p, procedure?.id)).map(p => p.id));
+  const candidates = openSlots(calendar, slots).filter(slot =>
+    slot.providerId && eligible.has(slot.providerId) && accepts(slot.slotType)
+  );
+
+  const starts = findBookableStarts(candidates, duration)
+    .filter(start => !hasStarted(start, now))
+    .sort((a, b) => a.date.localeCompare(b.date) || toMinutes(a.time) - toMinutes(b.time));
+
+  if (!preferProviderId) return starts;
+
+  const preferred = starts.filter(start => start.providerId === preferProviderId);
+  const others = starts.filter(start => start.providerId !== preferProviderId);
+  return [...preferred, ...others];
+}
+
+// Every place the intent could be booked in the look-ahead window
+export async function findQuickBookingStarts(
+  intent: BookingIntent,
+  preferProviderId?: string,
+  now: Date = new Date(),
+): Promise<{ treatmentType: string; durationMinutes: number; starts: BookableStart[] }> {
+  const { name, duration, procedure } = intentProcedure(intent, await storage.getProcedures());
+  const starts = await findOpenStarts({
+    procedure,
+    duration,
+    days: QUICK_BOOKING_DAYS,
+    accepts: slotType => acceptsIntent(slotType, intent),
+  }, preferProviderId, now);
+  return { treatmentType: name, durationMinutes: duration, starts };
+}
+
+// The provider named in the patient's profile, otherwise whoever they saw
+// last, so a follow-up lands with the same provider
+export async function usualProviderId(patientId: string): Promise<string | undefined> {
+  const profile = await storage.getPatientProfile(patientId);
+  if (profile?.preferredProviderId) return profile.preferredProviderId;
+
+  const history = await storage.getAppointmentsByPatient(patientId);
+  const today = practiceDate();
+  return history
+    .filter(a => a.providerId && a.status !== 'cancelled' && a.appointmentDate <= today)
+    .sort((a, b) => b.appointmentDate.localeCompare(a.appointmentDate) || toMinutes(b.appointmentTime) - toMinutes(a.appointmentTime))[0]
+    ?.providerId || undefined;
+}
+
+// What each one-click button would book right now
+export async function quickBookingOptions(): Promise<QuickBookingOption[]> {
+  return await Promise.all(bookingIntents.map(async intent => {
+    const { treatmentType, durationMinutes, starts } = await findQuickBookingStarts(intent);
+    return {
+      intent,
+      procedure: treatmentType,
+      durationMinutes,
+      availableStarts: starts.length,
+      nextStart: starts[0],
+    };
+  }));
+}
+
+// Buttons used to find their procedure by name. Tag the procedures that still
+// carry those names so renaming one no longer takes its button with it.
+export async function migrateBookingIntents(): Promise<number> {
+  const procedures = await storage.getProcedures();
+  let tagged = 0;
+  for (const intent of bookingIntents) {
+    if (procedures.some(p => p.bookingIntent === intent)) continue;
+    const named = procedures.find(p => !p.bookingIntent && p.name.toLowerCase() === intentDefaults[intent].procedure.toLowerCase());
+    if (!named) continue;
+    await storage.updateProcedure(named.id, { bookingIntent: intent });
+    named.bookingIntent = intent;
+    tagged++;
+  }
+  return tagged;
+}
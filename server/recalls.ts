@@ -0,0 +1,195 @@
+import { storage } from "./storage";
+import { practiceDate } from "./practice-time";
+import { patientContact, type PatientContact } from "./patient-profile";
+import { findOpenStarts, usualProviderId } from "./quick-booking";
+import type { BookableStart } from "./availability";
+import { addDays } from "@shared/datetime";
+import { daysUntilDue, recallDueDate, recallStatus, type RecallStatus } from "@shared/recall";
+import type { Appointment, PatientRecall, Procedure, RecallListQuery, RecallType } from "@shared/schema";
+
+// How far ahead to look for openings when booking a recall visit
+export const RECALL_BOOKING_DAYS = 28;
+
+// Booked and still to come, so the recall is already taken care of
+const UPCOMING_STATUSES = ['pending', 'confirmed', 'checked_in', 'in_chair'];
+
+export type RecallView = PatientRecall & {
+  recallTypeName: string;
+  intervalMonths: number;
+  patientName: string;
+  contact: Pick<PatientContact, 'email' | 'phone' | 'preferredMethod' | 'viaGuardian'>;
+  status: RecallStatus;
+  daysUntilDue: number;
+  scheduled: Pick<Appointment, 'id' | 'appointmentDate' | 'appointmentTime' | 'treatmentType' | 'doctorName'> | null;
+};
+
+function procedureNames(recallType: RecallType, procedures: Procedure[]): string[] {
+  return procedures
+    .filter(procedure => recallType.procedureIds.includes(procedure.id))
+    .map(procedure => procedure.name.toLowerCase());
+}
+
+// The procedure a recall visit books: the first one listed that still exists
+export function recallProcedure(recallType: RecallType, procedures: Procedure[]): Procedure | undefined {
+  for (const id of recallType.procedureIds) {
+    const procedure = procedures.find(p => p.id === id);
+    if (procedure) return procedure;
+  }
+  return undefined;
+}
+
+// Called when an appointment is completed: each active recall type it counts
+// for starts over from the visit's date
+export async function recordRecallVisit(appointment: Appointment): Promise<void> {
+  if (appointment.status !== 'completed') return;
+
+  const [recallTypes, procedures] = await Promise.all([
+    storage.getRecallTypes(),
+    storage.getProcedures(),
+  ]);
+  const treatment = appointment.treatmentType.toLowerCase();
+  const matching = recallTypes.filter(recallType => procedureNames(recallType, procedures).includes(treatment));
+
+  await Promise.all(matching.map(recallType => storage.recordRecallVisit({
+    patientId: appointment.patientId,
+    recallTypeId: recallType.id,
+    lastVisitDate: appointment.appointmentDate,
+    lastAppointmentId: appointment.id,
+    dueDate: recallDueDate(appointment.appointmentDate, recallType.intervalMonths),
+  })));
+}
+
+// Picks up patients whose matching visits were completed before the recall
+// type existed, or before one of its procedures was added to it
+export async function backfillRecallType(recallType: RecallType): Promise<number> {
+  if (!recallType.isActive) return 0;
+
+  const names = procedureNames(recallType, await storage.getProcedures());
+  const completed = await storage.getCompletedAppointmentsByTreatment(names);
+
+  // Oldest first, so the last one kept per patient is their latest visit
+  const latest = new Map<string, Appointment>();
+  for (const appointment of completed) {
+    latest.set(appointment.patientId, appointment);
+  }
+
+  let recorded = 0;
+  for (const appointment of Array.from(latest.values())) {
+    const saved = await storage.recordRecallVisit({
+      patientId: appointment.patientId,
+      recallTypeId: recallType.id,
+      lastVisitDate: appointment.appointmentDate,
+      lastAppointmentId: appointment.id,
+      dueDate: recallDueDate(appointment.appointmentDate, recallType.intervalMonths),
+    });
+    if (saved) recorded++;
+  }
+  return recorded;
+}
+
+// Overdue or coming up, soonest first. Patients who already have a matching
+// visit booked are marked as scheduled rather than dropped, unless the
+// filters ask for unscheduled only.
+export async function loadRecallList(query: RecallListQuery, now: Date = new Date()): Promise<RecallView[]> {
+  const today = practiceDate(now);
+  const [recalls, recallTypes, procedures] = await Promise.all([
+    storage.getPatientRecalls({
+      dueFrom: query.status === 'upcoming' ? today : undefined,
+      dueTo: query.status === 'overdue' ? addDays(today, -1) : addDays(today, query.withinDays),
+      recallTypeId: query.recallTypeId,
+    }),
+    storage.getRecallTypes(),
+    storage.getProcedures(),
+  ]);
+
+  const tracked = recalls.filter(recall => recallTypes.some(t => t.id === recall.recallTypeId));
+  const patientIds = Array.from(new Set(tracked.map(recall => recall.patientId)));
+  const [contacts, appointments] = await Promise.all([
+    Promise.all(patientIds.map(patientContact)),
+    storage.getAppointmentsByPatients(patientIds),
+  ]);
+  const upcoming = appointments
+    .filter(a => a.appointmentDate >= today && UPCOMING_STATUSES.includes(a.status))
+    .sort((a, b) => a.appointmentDate.localeCompare(b.appointmentDate));
+
+  const views = tracked.map((recall): RecallView => {
+    const recallType = recallTypes.find(t => t.id === recall.recallTypeId)!;
+    const contact = contacts[patientIds.indexOf(recall.patientId)];
+    const names = procedureNames(recallType, procedures);
+    const scheduled = upcoming.find(a =>
+      a.patientId === recall.patientId && names.includes(a.treatmentType.toLowerCase())
+    );
+    return {
+      ...recall,
+      recallTypeName: recallType.name,
+      intervalMonths: recallType.intervalMonths,
+      patientName: contact?.name || 'Unknown patient',
+      contact: {
+        email: contact?.email || null,
+        phone: contact?.phone || null,
+        preferredMethod: contact?.preferredMethod || 'email',
+        viaGuardian: contact?.viaGuardian,
+      },
+      status: recallStatus(recall.dueDate, today),
+      daysUntilDue: daysUntilDue(recall.dueDate, today),
+      scheduled: scheduled ? {
+        id: scheduled.id,
+        appointmentDate: scheduled.appointmentDate,
+        appointmentTime: scheduled.appointmentTime,
+        treatmentType: scheduled.treatmentType,
+        doctorName: scheduled.doctorName,
+      } : null,
+    };
+  });
+
+  return query.unscheduled ? views.filter(view => !view.scheduled) : views;
+}
+
+export interface RecallNotice {
+  method: 'email' | 'sms';
+  recipient: string;
+  message: string;
+}
+
+// Reminds the patient (or their guardian) they're due, by the method they
+// prefer when we have it. Undefined when there's no way to reach them.
+export async function sendRecallNotice(recall: PatientRecall): Promise<RecallNotice | undefined> {
+  const [contact, recallType] = await Promise.all([
+    patientContact(recall.patientId),
+    storage.getRecallType(recall.recallTypeId),
+  ]);
+  if (!contact || !recallType) return undefined;
+
+  const useSms = contact.preferredMethod === 'sms' && !!contact.phone || !contact.email;
+  const recipient = useSms ? contact.phone : contact.email;
+  if (!recipient) return undefined;
+
+  const overdue = recall.dueDate < practiceDate();
+  const message = `Hi ${contact.name}, ${overdue ? "you're overdue" : "it's nearly time"} for your ` +
+    `${recallType.name.toLowerCase()} visit (due ${recall.dueDate}). Book online or call us to schedule.`;
+
+  // Logged for now, like appointment reminders; swap in the email or SMS
+  // service here
+  console.log(`Sending recall ${useSms ? 'SMS' : 'email'}:`, {
+    recallId: recall.id,
+    recipient,
+    message,
+  });
+
+  await storage.recordRecallNotice(recall.id);
+  return { method: useSms ? 'sms' : 'email', recipient, message };
+}
+
+export async function recallOpenings(recall: PatientRecall, now: Date = new Date()): Promise<{ treatmentType: string; starts: BookableStart[] } | undefined> {
+  const recallType = await storage.getRecallType(recall.recallTypeId);
+  const procedure = recallType ? recallProcedure(recallType, await storage.getProcedures()) : undefined;
+  if (!procedure) return undefined;
+
+  const starts = await findOpenStarts({
+    procedure,
+    duration: procedure.duration,
+    days: RECALL_BOOKING_DAYS,
+    accepts: slotType => !slotType || slotType === 'general' || slotType === 'cleaning',
+  }, await usualProviderId(recall.patientId), now);
+  return { treatmentType: procedure.name, starts };
+}
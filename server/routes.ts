@@ -1,7 +1,78 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./auth";
+import { setupAuth, isAuthenticated, isAdmin } from "./auth";
+import { canPerform, findBookableStarts, findSlotRun } from "./availability";
+import { generateTimeSlots, replanDay, replanRange, horizonEnd } from "./schedule";
+import { notifyCapacityFreed, offerOpenSlots } from "./waitlist";
+import { changePolicy, patientChangeBlocked } from "./appointment-policy";
+import { bookingRequirement, getNoShowSummary, unmetBookingRequirement } from "./no-show";
+import { practiceDate, practiceTimeZone } from "./practice-time";
+import { closedReason, getAffectedPatients, loadPracticeCalendar, openSlots, rebookAffected } from "./practice-calendar";
+import { loadScheduleBoard, MAX_BOARD_DAYS } from "./schedule-board";
+import { bookingPatient, canActFor, familyPatientIds } from "./family";
+import { displayName, loadPatientProfile, patientContact } from "./patient-profile";
+import { loadPatientOverview } from "./patient-overview";
+import { medicalAlertSummaries, medicalHistoryTimeline } from "./medical-history";
+import { pendingChartProcedures } from "./dental-chart";
+import {
+  linkPlanItem,
+  loadTreatmentPlan,
+  loadTreatmentPlans,
+  planItemBookingProblem,
+  planItemOpenings,
+  priceTreatmentPlan,
+  refreshPlansForAppointment,
+} from "./treatment-plans";
+import { appointmentIntakeForms, formAppliesTo, intakeStatusSummaries } from "./intake-forms";
+import { appointmentConsents, consentAppliesTo, signConsent, verifiedConsentPdf } from "./consents";
+import { canReadFile, deleteFile, isInlineImage, readFile, sniffContentType, storeFile, uploadDenied } from "./files";
+import { parseMultipart } from "./multipart";
+import { appointmentClinicalNote, clinicalNoteView, noteTemplateOptions, signingProvider, startClinicalNote } from "./clinical-notes";
+import { backfillRecallType, loadRecallList, recallOpenings, recordRecallVisit, sendRecallNotice } from "./recalls";
+import { findQuickBookingStarts, QUICK_BOOKING_DAYS, quickBookingOptions, usualProviderId } from "./quick-booking";
+import { attachLiveUpdates, publishChange } from "./live-updates";
+import { appointmentCalendar, calendarFeedToken, patientCalendar, providerCalendar, rotateCalendarFeedToken } from "./ical";
+import {
+  appointmentStatuses,
+  canTransition,
+  insertProviderSchema,
+  insertScheduleTemplateSchema,
+  insertScheduleExceptionSchema,
+  insertPracticeHoursSchema,
+  insertPracticeClosureSchema,
+  insertWaitlistEntrySchema,
+  insertDependentSchema,
+  patientProfileSchema,
+  medicalHistorySchema,
+  insertToothChartEntrySchema,
+  treatmentPlanSchema,
+  treatmentPlanStatuses,
+  insertIntakeFormSchema,
+  insertConsentTemplateSchema,
+  signConsentSchema,
+  patientPaymentSchema,
+  fileUploadSchema,
+  insertRecallTypeSchema,
+  recallListQuerySchema,
+  recallDueDateSchema,
+  insertClinicalNoteTemplateSchema,
+  startClinicalNoteSchema,
+  clinicalNoteSectionsSchema,
+  signClinicalNoteSchema,
+  clinicalNoteAddendumSchema,
+  hasCapacity,
+  bookingIntents,
+  type FileCategory,
+  type IntakeAnswers,
+} from "@shared/schema";
+import { fileCategoryRules, fileProblem, fileRecord, MAX_UPLOAD_BYTES } from "@shared/files";
+import { checkIntakeAnswers } from "@shared/intake-form";
+import { isBlankNote } from "@shared/clinical-notes";
+import { parsePatientQuery, PATIENT_SEARCH_LIMIT } from "@shared/patient-search";
+import { addDays, normalizeTime, toMinutes } from "@shared/datetime";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Health check endpoint for deployment monitoring - must be first
@@ -53,593 +124,2060 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Appointment cleanup endpoint
-  app.post("/api/appointments/cleanup", isAuthenticated, async (req, res) => {
+  // Family routes. Dependents are patients the logged-in user books for.
+  app.get("/api/dependents", isAuthenticated, async (req: any, res) => {
     try {
-      const { appointmentIds } = req.body;
+      res.json(await storage.getDependents(req.user.id));
+    } catch (error) {
+      console.error("Error fetching dependents:", error);
+      res.status(500).json({ message: "Failed to fetch dependents" });
+    }
+  });
+
+  app.post("/api/dependents", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = insertDependentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const dependent = await storage.createDependent(req.user.id, parsed.data);
+      res.status(201).json(dependent);
+    } catch (error) {
+      console.error("Error creating dependent:", error);
+      res.status(500).json({ message: "Failed to add family member" });
+    }
+  });
+
+  app.patch("/api/dependents/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = insertDependentSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const dependent = await storage.updateDependent(req.user.id, req.params.id, parsed.data);
+      if (!dependent) {
+        return res.status(404).json({ message: "Family member not found" });
+      }
+      res.json(dependent);
+    } catch (error) {
+      console.error("Error updating dependent:", error);
+      res.status(500).json({ message: "Failed to update family member" });
+    }
+  });
+
+  app.delete("/api/dependents/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const removed = await storage.removeDependent(req.user.id, req.params.id);
+      if (!removed) {
+        return res.status(404).json({ message: "Family member not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing dependent:", error);
+      res.status(500).json({ message: "Failed to remove family member" });
+    }
+  });
+
+  // Patient profiles. Editable by the patient, their guardians and staff.
+  app.get("/api/patients/:id/profile", isAuthenticated, async (req: any, res) => {
+    try {
+      const profile = await canActFor(req.user, req.params.id) ? await loadPatientProfile(req.params.id) : undefined;
+      if (!profile) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(profile);
+    } catch (error) {
+      console.error("Error fetching patient profile:", error);
+      res.status(500).json({ message: "Failed to fetch patient profile" });
+    }
+  });
+
+  app.put("/api/patients/:id/profile", isAuthenticated, async (req: any, res) => {
+    try {
+      const patient = await canActFor(req.user, req.params.id) ? await storage.getUser(req.params.id) : undefined;
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      const parsed = patientProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      if (parsed.data.preferredProviderId && !(await storage.getProvider(parsed.data.preferredProviderId))) {
+        return res.status(400).json({ message: "Preferred provider not found" });
+      }
+
+      await storage.savePatientProfile(patient.id, parsed.data, req.user.id);
+      res.json(await loadPatientProfile(patient.id));
+    } catch (error) {
+      console.error("Error saving patient profile:", error);
+      res.status(500).json({ message: "Failed to save patient profile" });
+    }
+  });
+
+  // Staff patient search by name, email, phone or date of birth
+  app.get("/api/admin/patients", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const query = parsePatientQuery(String(req.query.q || ''));
+      res.json(query ? await storage.searchPatients(query, PATIENT_SEARCH_LIMIT) : []);
+    } catch (error) {
+      console.error("Error searching patients:", error);
+      res.status(500).json({ message: "Failed to search patients" });
+    }
+  });
+
+  // Names for lists that only have patient ids, keyed by id
+  app.get("/api/admin/patient-names", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const patientIds = String(req.query.patientIds || '').split(',').filter(Boolean);
+      const patients = await storage.getUsersByIds(patientIds);
+      res.json(Object.fromEntries(patients.map(patient => [patient.id, displayName(patient)])));
+    } catch (error) {
+      console.error("Error fetching patient names:", error);
+      res.status(500).json({ message: "Failed to fetch patient names" });
+    }
+  });
+
+  app.get("/api/admin/patients/:id/overview", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const overview = await loadPatientOverview(req.params.id);
+      if (!overview) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(overview);
+    } catch (error) {
+      console.error("Error fetching patient overview:", error);
+      res.status(500).json({ message: "Failed to fetch patient overview" });
+    }
+  });
+
+  // Where reminders for a patient go by default
+  app.get("/api/admin/patients/:id/contact", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const contact = await patientContact(req.params.id);
+      if (!contact) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(contact);
+    } catch (error) {
+      console.error("Error fetching patient contact:", error);
+      res.status(500).json({ message: "Failed to fetch patient contact" });
+    }
+  });
+
+  // Medical history questionnaire. Patients (or their guardians) submit a new
+  // version each time; staff review the latest.
+  app.get("/api/patients/:id/medical-history", isAuthenticated, async (req: any, res) => {
+    try {
+      const patient = await canActFor(req.user, req.params.id) ? await storage.getUser(req.params.id) : undefined;
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(await medicalHistoryTimeline(patient.id));
+    } catch (error) {
+      console.error("Error fetching medical history:", error);
+      res.status(500).json({ message: "Failed to fetch medical history" });
+    }
+  });
+
+  app.post("/api/patients/:id/medical-history", isAuthenticated, async (req: any, res) => {
+    try {
+      const patient = await canActFor(req.user, req.params.id) ? await storage.getUser(req.params.id) : undefined;
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      const parsed = medicalHistorySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      await storage.createMedicalHistory(patient.id, parsed.data, req.user.id);
+      const [latest] = await medicalHistoryTimeline(patient.id);
+      res.status(201).json(latest);
+    } catch (error) {
+      console.error("Error saving medical history:", error);
+      res.status(500).json({ message: "Failed to save medical history" });
+    }
+  });
+
+  app.post("/api/admin/medical-history/:id/review", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const reviewed = await storage.reviewMedicalHistory(req.params.id, req.user.id);
+      if (!reviewed) {
+        return res.status(404).json({ message: "Medical history not found" });
+      }
+      res.json(reviewed);
+    } catch (error) {
+      console.error("Error reviewing medical history:", error);
+      res.status(500).json({ message: "Failed to review medical history" });
+    }
+  });
+
+  // Allergies and alerts for the patients on screen: ?patientIds=a,b,c
+  app.get("/api/admin/medical-alerts", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const patientIds = String(req.query.patientIds || '').split(',').filter(Boolean);
+      res.json(await medicalAlertSummaries(patientIds));
+    } catch (error) {
+      console.error("Error fetching medical alerts:", error);
+      res.status(500).json({ message: "Failed to fetch medical alerts" });
+    }
+  });
+
+  // Dental chart. Patients can look; only staff record findings and treatment.
+  app.get("/api/patients/:id/chart", isAuthenticated, async (req: any, res) => {
+    try {
+      const patient = await canActFor(req.user, req.params.id) ? await storage.getUser(req.params.id) : undefined;
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(await storage.getChartEntries(patient.id));
+    } catch (error) {
+      console.error("Error fetching dental chart:", error);
+      res.status(500).json({ message: "Failed to fetch dental chart" });
+    }
+  });
+
+  app.get("/api/admin/patients/:id/chart/pending", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      res.json(await pendingChartProcedures(req.params.id));
+    } catch (error) {
+      console.error("Error fetching procedures to chart:", error);
+      res.status(500).json({ message: "Failed to fetch procedures to chart" });
+    }
+  });
+
+  app.post("/api/admin/patients/:id/chart", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const patient = await storage.getUser(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      const parsed = insertToothChartEntrySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      if (parsed.data.appointmentId) {
+        const appointment = await storage.getAppointment(parsed.data.appointmentId);
+        if (!appointment || appointment.patientId !== patient.id) {
+          return res.status(400).json({ message: "That appointment isn't this patient's" });
+        }
+      }
+
+      const entry = await storage.addChartEntry(patient.id, parsed.data, req.user.id);
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Error recording chart entry:", error);
+      res.status(500).json({ message: "Failed to record chart entry" });
+    }
+  });
+
+  // For mistakes and conditions that went away without a charted treatment
+  app.post("/api/admin/chart-entries/:id/resolve", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const entry = await storage.resolveChartEntry(req.params.id, req.user.id);
+      if (!entry) {
+        return res.status(404).json({ message: "Chart entry not found or already resolved" });
+      }
+      res.json(entry);
+    } catch (error) {
+      console.error("Error resolving chart entry:", error);
+      res.status(500).json({ message: "Failed to resolve chart entry" });
+    }
+  });
+
+  // Treatment plans. Staff write and manage them; patients review and accept.
+  app.get("/api/patients/:id/treatment-plans", isAuthenticated, async (req: any, res) => {
+    try {
+      const patient = await canActFor(req.user, req.params.id) ? await storage.getUser(req.params.id) : undefined;
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(await loadTreatmentPlans(patient.id));
+    } catch (error) {
+      console.error("Error fetching treatment plans:", error);
+      res.status(500).json({ message: "Failed to fetch treatment plans" });
+    }
+  });
+
+  app.post("/api/admin/patients/:id/treatment-plans", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const patient = await storage.getUser(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      const parsed = treatmentPlanSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const priced = await priceTreatmentPlan(parsed.data);
+      if (!priced) {
+        return res.status(400).json({ message: "Procedure not found" });
+      }
+
+      const plan = await storage.createTreatmentPlan(patient.id, priced, req.user.id);
+      res.status(201).json(await loadTreatmentPlan(plan.id));
+    } catch (error) {
+      console.error("Error creating treatment plan:", error);
+      res.status(500).json({ message: "Failed to create treatment plan" });
+    }
+  });
+
+  app.put("/api/admin/treatment-plans/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getTreatmentPlan(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Treatment plan not found" });
+      }
+
+      const parsed = treatmentPlanSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const priced = await priceTreatmentPlan(parsed.data);
+      if (!priced) {
+        return res.status(400).json({ message: "Procedure not found" });
+      }
+
+      // The patient agreed to what they saw, so accepted plans stay as they are
+      const plan = await storage.replaceTreatmentPlan(existing.id, priced);
+      if (!plan) {
+        return res.status(409).json({ message: "Only proposed plans can be edited; set it back to proposed first" });
+      }
+      res.json(await loadTreatmentPlan(plan.id));
+    } catch (error) {
+      console.error("Error updating treatment plan:", error);
+      res.status(500).json({ message: "Failed to update treatment plan" });
+    }
+  });
+
+  app.patch("/api/admin/treatment-plans/:id/status", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const parsed = z.object({ status: z.enum(treatmentPlanStatuses) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const existing = await storage.getTreatmentPlan(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Treatment plan not found" });
+      }
+      const { status } = parsed.data;
+      const accepting = existing.status === 'proposed' && status !== 'proposed';
+      await storage.updateTreatmentPlanStatus(existing.id, status, accepting ? req.user.id : undefined);
+      res.json(await loadTreatmentPlan(existing.id));
+    } catch (error) {
+      console.error("Error updating treatment plan status:", error);
+      res.status(500).json({ message: "Failed to update treatment plan status" });
+    }
+  });
+
+  app.delete("/api/admin/treatment-plans/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      if (!(await storage.deleteTreatmentPlan(req.params.id))) {
+        return res.status(404).json({ message: "Treatment plan not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting treatment plan:", error);
+      res.status(500).json({ message: "Failed to delete treatment plan" });
+    }
+  });
+
+  app.post("/api/treatment-plans/:id/accept", isAuthenticated, async (req: any, res) => {
+    try {
+      const existing = await storage.getTreatmentPlan(req.params.id);
+      if (!existing || !(await canActFor(req.user, existing.patientId))) {
+        return res.status(404).json({ message: "Treatment plan not found" });
+      }
+      if (existing.status !== 'proposed') {
+        return res.status(409).json({ message: "This plan has already been accepted" });
+      }
+
+      await storage.updateTreatmentPlanStatus(existing.id, 'accepted', req.user.id);
+      res.json(await loadTreatmentPlan(existing.id));
+    } catch (error) {
+      console.error("Error accepting treatment plan:", error);
+      res.status(500).json({ message: "Failed to accept treatment plan" });
+    }
+  });
+
+  // Openings for one item of an accepted plan; book one through POST /api/appointments
+  app.get("/api/treatment-plans/items/:itemId/openings", isAuthenticated, async (req: any, res) => {
+    try {
+      const item = await storage.getTreatmentPlanItem(req.params.itemId);
+      const plan = item ? await storage.getTreatmentPlan(item.planId) : undefined;
+      if (!item || !plan || !(await canActFor(req.user, plan.patientId))) {
+        return res.status(404).json({ message: "Treatment plan item not found" });
+      }
+      const openings = await planItemOpenings(plan.patientId, item);
+      res.json(openings.slice(0, 8));
+    } catch (error) {
+      console.error("Error fetching treatment plan openings:", error);
+      res.status(500).json({ message: "Failed to fetch openings" });
+    }
+  });
+
+  // Appointment routes
+  app.post("/api/appointments", isAuthenticated, async (req: any, res) => {
+    try {
+      const { timeSlotId, treatmentType, notes } = req.body;
+
+      if (!timeSlotId || !treatmentType) {
+        return res.status(400).json({ message: "Missing required fields: timeSlotId and treatmentType are required" });
+      }
+
+      // Guardians can book for a dependent
+      const patient = await bookingPatient(req.user, req.body.patientId);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      // Booking one step of an accepted treatment plan
+      const planItemId: string | undefined = req.body.treatmentPlanItemId || undefined;
+      if (planItemId) {
+        const problem = await planItemBookingProblem(patient.id, planItemId, String(treatmentType));
+        if (problem) {
+          return res.status(409).json({ message: problem });
+        }
+      }
+
+      const slot = await storage.getTimeSlot(timeSlotId);
+      if (!slot) {
+        return res.status(404).json({ message: "Time slot not found" });
+      }
+
+      const procedures = await storage.getProcedures();
+      const selectedProcedure = procedures.find(p => p.name.toLowerCase() === String(treatmentType).toLowerCase());
+      const provider = slot.providerId ? await storage.getProvider(slot.providerId) : undefined;
+      if (!provider || !provider.isActive) {
+        return res.status(409).json({ message: "This provider is not taking bookings" });
+      }
+      if (!canPerform(provider, selectedProcedure?.id)) {
+        return res.status(409).json({ message: `${provider.name} does not perform ${treatmentType}` });
+      }
+
+      // Reserve enough back-to-back slots to cover the whole procedure
+      const daySlots = await storage.getTimeSlots(slot.date);
+      const run = findSlotRun(daySlots, slot, selectedProcedure?.duration || 0);
+
+      if (!run) {
+        return res.status(409).json({ message: "Not enough free time from this slot for the selected procedure" });
+      }
+
+      const calendar = await loadPracticeCalendar(slot.date, slot.date);
+      const start = toMinutes(slot.time);
+      const closed = closedReason(calendar, slot.date, start, start + (selectedProcedure?.duration || slot.duration || 60));
+      if (closed) {
+        return res.status(409).json({ message: `The practice is closed at this time (${closed})` });
+      }
+
+      const appointment = await storage.bookAppointment({
+        patientId: patient.id,
+        providerId: provider.id,
+        doctorName: provider.name,
+        treatmentType,
+        appointmentDate: slot.date,
+        appointmentTime: slot.time,
+        status: 'pending',
+        notes,
+        bookingRequirement: bookingRequirement(patient),
+      }, run.map(s => s.id));
+
+      if (!appointment) {
+        return res.status(409).json({ message: "This time slot is fully booked" });
+      }
+      if (planItemId) {
+        await linkPlanItem(planItemId, appointment.id);
+      }
+      publishChange(['appointments', 'timeslots'], appointment.appointmentDate);
+      
+      // Award points for booking appointment
+      await storage.awardPoints(patient.id, 10, 'appointment_booked', 'Booked a new appointment');
+      
+      res.status(201).json(appointment);
+    } catch (error) {
+      console.error("Error creating appointment:", error);
+      res.status(500).json({ message: "Failed to create appointment" });
+    }
+  });
+
+  app.get("/api/appointments/quick-book", isAuthenticated, async (_req, res) => {
+    try {
+      res.json(await quickBookingOptions());
+    } catch (error) {
+      console.error("Error fetching quick booking options:", error);
+      res.status(500).json({ message: "Failed to fetch quick booking options" });
+    }
+  });
+
+  // Books the earliest opening that fits what the patient asked for. If
+  // another patient takes it first, the next openings come back instead.
+  app.post("/api/appointments/quick-book", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = z.object({
+        intent: z.enum(bookingIntents),
+        preferUsualProvider: z.boolean().optional(),
+        notes: z.string().optional(),
+        patientId: z.string().optional(),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const { intent, preferUsualProvider, notes } = parsed.data;
+
+      const patient = await bookingPatient(req.user, parsed.data.patientId);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      const preferProviderId = preferUsualProvider ? await usualProviderId(patient.id) : undefined;
+      const { treatmentType, starts } = await findQuickBookingStarts(intent, preferProviderId);
+      const start = starts[0];
+      if (!start) {
+        return res.status(409).json({
+          message: `No openings for ${treatmentType} in the next ${QUICK_BOOKING_DAYS} days`,
+          alternatives: [],
+        });
+      }
+
+      const provider = await storage.getProvider(start.providerId!);
+      const appointment = await storage.bookAppointment({
+        patientId: patient.id,
+        providerId: start.providerId,
+        doctorName: provider?.name || start.doctorName,
+        treatmentType,
+        appointmentDate: start.date,
+        appointmentTime: start.time,
+        status: 'pending',
+        notes,
+        bookingRequirement: bookingRequirement(patient),
+      }, start.timeSlotIds);
+
+      if (!appointment) {
+        const { starts: remaining } = await findQuickBookingStarts(intent, preferProviderId);
+        return res.status(409).json({
+          message: "That opening was just taken by another patient",
+          alternatives: remaining.filter(s => s.id !== start.id).slice(0, 3),
+        });
+      }
+      publishChange(['appointments', 'timeslots'], appointment.appointmentDate);
+
+      await storage.awardPoints(patient.id, 10, 'appointment_booked', 'Booked a new appointment');
+
+      res.status(201).json(appointment);
+    } catch (error) {
+      console.error("Error quick booking appointment:", error);
+      res.status(500).json({ message: "Failed to book appointment" });
+    }
+  });
+
+  app.get("/api/appointments", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = req.user;
+      
+      let appointments;
+      if (user.role === 'admin') {
+        appointments = await storage.getAllAppointments();
+      } else {
+        appointments = await storage.getAppointmentsByPatients(await familyPatientIds(userId));
+      }
+      
+      res.json(appointments);
+    } catch (error) {
+      console.error("Error fetching appointments:", error);
+      res.status(500).json({ message: "Failed to fetch appointments" });
+    }
+  });
+
+  // Staff only; patients go through the cancel and reschedule routes below
+  app.patch("/api/appointments/:id/status", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { status, reason } = req.body;
+
+      if (!appointmentStatuses.includes(status)) {
+        return res.status(400).json({ message: `Status must be one of: ${appointmentStatuses.join(", ")}` });
+      }
+
+      const existing = await storage.getAppointment(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      // Final states stay final: a cancelled appointment has already released
+      // its slot, which may have been rebooked since
+      if (!canTransition(existing.status, status)) {
+        return res.status(409).json({ message: `A ${existing.status} appointment can't be moved to ${status}` });
+      }
+      if (status === 'confirmed') {
+        const unmet = await unmetBookingRequirement(existing, req.body.requirementMet === true);
+        if (unmet) {
+          return res.status(409).json({ message: unmet, bookingRequirement: existing.bookingRequirement });
+        }
+      }
+      
+      const appointment = await storage.updateAppointmentStatus(id, status, { changedBy: req.user.id, reason });
+      
+      // Someone else changed it between the check and the update
+      if (!appointment) {
+        return res.status(409).json({ message: "The appointment status has changed; please refresh and try again" });
+      }
+      publishChange(status === 'cancelled' ? ['appointments', 'timeslots'] : ['appointments'], appointment.appointmentDate);
+      
+      // Only reached on a real transition, and completed is final, so this
+      // can't be awarded twice
+      if (status === 'completed') {
+        await storage.awardPoints(appointment.patientId, 25, 'appointment_completed', 'Completed appointment');
+      }
+      
+      if (status === 'cancelled') {
+        notifyCapacityFreed(appointment.appointmentDate);
+      }
+      await refreshPlansForAppointment(appointment.id);
+      await recordRecallVisit(appointment);
+      
+      res.json(appointment);
+    } catch (error) {
+      console.error("Error updating appointment status:", error);
+      res.status(500).json({ message: "Failed to update appointment status" });
+    }
+  });
+
+  app.get("/api/appointment-policy", (req, res) => {
+    res.json(changePolicy);
+  });
+
+  // Clients need the practice's zone to turn dates and times into instants
+  app.get("/api/practice-settings", (req, res) => {
+    res.json({ timeZone: practiceTimeZone });
+  });
+
+  app.get("/api/appointments/:id/changes", isAuthenticated, async (req: any, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || !(await canActFor(req.user, appointment.patientId))) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      
+      const changes = await storage.getAppointmentChanges(appointment.id);
+      res.json(changes);
+    } catch (error) {
+      console.error("Error fetching appointment changes:", error);
+      res.status(500).json({ message: "Failed to fetch appointment changes" });
+    }
+  });
+
+  app.get("/api/appointments/:id/status-history", isAuthenticated, async (req: any, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || !(await canActFor(req.user, appointment.patientId))) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      
+      const history = await storage.getAppointmentStatusHistory(appointment.id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching appointment status history:", error);
+      res.status(500).json({ message: "Failed to fetch appointment status history" });
+    }
+  });
+
+  app.get("/api/appointments/:id/calendar.ics", isAuthenticated, async (req: any, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || !(await canActFor(req.user, appointment.patientId))) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      const calendar = await appointmentCalendar(appointment);
+      res.type('text/calendar; charset=utf-8');
+      res.attachment(`appointment-${appointment.appointmentDate}.ics`);
+      res.send(calendar);
+    } catch (error) {
+      console.error("Error exporting appointment:", error);
+      res.status(500).json({ message: "Failed to export appointment" });
+    }
+  });
+
+  // Subscription feeds. The token in the URL is the only credential, since
+  // calendar apps can't log in.
+  const feedUrl = (req: any, token: string) => `${req.protocol}://${req.get('host')}/api/calendar/${token}.ics`;
+
+  app.get("/api/calendar/feed", isAuthenticated, async (req: any, res) => {
+    try {
+      const token = await calendarFeedToken({ patientId: req.user.id });
+      res.json({ url: feedUrl(req, token) });
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
+    }
+  });
+
+  app.post("/api/calendar/feed/rotate", isAuthenticated, async (req: any, res) => {
+    try {
+      const token = await rotateCalendarFeedToken({ patientId: req.user.id });
+      res.json({ url: feedUrl(req, token) });
+    } catch (error) {
+      console.error("Error rotating calendar feed:", error);
+      res.status(500).json({ message: "Failed to rotate calendar feed" });
+    }
+  });
+
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByToken(req.params.token);
+      const calendar = feed?.patientId
+        ? await patientCalendar(feed.patientId)
+        : feed?.providerId
+          ? await providerCalendar(feed.providerId)
+          : undefined;
+      if (!calendar) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+
+      res.set('Cache-Control', 'private, max-age=300');
+      res.type('text/calendar; charset=utf-8');
+      res.send(calendar);
+    } catch (error) {
+      console.error("Error fetching calendar:", error);
+      res.status(500).json({ message: "Failed to fetch calendar" });
+    }
+  });
+
+  app.post("/api/appointments/:id/cancel", isAuthenticated, async (req: any, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      // Staff cancel through the status route
+      if (!appointment || (appointment.patientId !== req.user.id && !(await storage.isGuardianOf(req.user.id, appointment.patientId)))) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      
+      const blocked = patientChangeBlocked(appointment, 'cancel', 0);
+      if (blocked) {
+        return res.status(409).json({ message: blocked });
+      }
+      
+      const cancelled = await storage.updateAppointmentStatus(appointment.id, 'cancelled', {
+        changedBy: req.user.id,
+        reason: req.body?.reason,
+      });
+      if (!cancelled) {
+        return res.status(409).json({ message: "The appointment status has changed; please refresh and try again" });
+      }
+      
+      publishChange(['appointments', 'timeslots'], appointment.appointmentDate);
+      notifyCapacityFreed(appointment.appointmentDate);
+      await refreshPlansForAppointment(appointment.id);
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Error cancelling appointment:", error);
+      res.status(500).json({ message: "Failed to cancel appointment" });
+    }
+  });
+
+  app.post("/api/appointments/:id/reschedule", isAuthenticated, async (req: any, res) => {
+    try {
+      // Staff can move anyone's appointment (the schedule board drags them)
+      // and aren't held to the patient notice period or reschedule limit
+      const isStaff = req.user.role === 'admin';
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || !(await canActFor(req.user, appointment.patientId))) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      
+      const { timeSlotId, reason } = req.body;
+      const slot = timeSlotId ? await storage.getTimeSlot(timeSlotId) : undefined;
+      if (!slot) {
+        return res.status(404).json({ message: "Time slot not found" });
+      }
+      
+      if (isStaff) {
+        if (!['pending', 'confirmed'].includes(appointment.status)) {
+          return res.status(409).json({ message: `A ${appointment.status} appointment can't be rescheduled` });
+        }
+      } else {
+        const reschedules = await storage.countPatientReschedules(appointment);
+        const blocked = patientChangeBlocked(appointment, 'reschedule', reschedules);
+        if (blocked) {
+          return res.status(409).json({ message: blocked });
+        }
+        
+        // The new time needs the same notice as the old one
+        if (patientChangeBlocked({ ...appointment, appointmentDate: slot.date, appointmentTime: slot.time }, 'reschedule', 0)) {
+          return res.status(409).json({ message: `Please pick a time at least ${changePolicy.cutoffHours} hours from now` });
+        }
+      }
+      
+      const procedures = await storage.getProcedures();
+      const procedure = procedures.find(p => p.name.toLowerCase() === appointment.treatmentType.toLowerCase());
+      const provider = slot.providerId ? await storage.getProvider(slot.providerId) : undefined;
+      if (!provider || !provider.isActive) {
+        return res.status(409).json({ message: "This provider is not taking bookings" });
+      }
+      if (!canPerform(provider, procedure?.id)) {
+        return res.status(409).json({ message: `${provider.name} does not perform ${appointment.treatmentType}` });
+      }
+      
+      // Seats this appointment already holds count as free, so it can shift
+      // within its own time
+      const held = new Set(await storage.getAppointmentTimeSlotIds(appointment.id));
+      const daySlots = (await storage.getTimeSlots(slot.date)).map(s =>
+        held.has(s.id) ? { ...s, currentBookings: Math.max((s.currentBookings || 0) - 1, 0) } : s
+      );
+      const start = daySlots.find(s => s.id === slot.id)!;
+      const run = findSlotRun(daySlots, start, procedure?.duration || 0);
+      if (!run) {
+        return res.status(409).json({ message: "Not enough free time from this slot for the selected procedure" });
+      }
+      
+      const calendar = await loadPracticeCalendar(slot.date, slot.date);
+      const closed = closedReason(calendar, slot.date, toMinutes(slot.time), toMinutes(slot.time) + (procedure?.duration || slot.duration || 60));
+      if (closed) {
+        return res.status(409).json({ message: `The practice is closed at this time (${closed})` });
+      }
+      
+      const updated = await storage.rescheduleAppointment(appointment.id, run.map(s => s.id), {
+        changedBy: req.user.id,
+        reason,
+      });
+      if (!updated) {
+        const latest = await storage.getAppointment(appointment.id);
+        return res.status(409).json({
+          message: latest && !['pending', 'confirmed'].includes(latest.status)
+            ? `A ${latest.status} appointment can't be rescheduled`
+            : "This time slot is fully booked",
+        });
+      }
+      
+      publishChange(['appointments', 'timeslots'], appointment.appointmentDate, updated.appointmentDate);
+      notifyCapacityFreed(appointment.appointmentDate);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error rescheduling appointment:", error);
+      res.status(500).json({ message: "Failed to reschedule appointment" });
+    }
+  });
+
+  // Gamification routes
+  app.get("/api/gamification/points", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.claims.sub;
+      const points = await storage.getOrCreatePatientPoints(userId);
+      res.json(points);
+    } catch (error) {
+      console.error("Error fetching points:", error);
+      res.status(500).json({ message: "Failed to fetch points" });
+    }
+  });
+
+  app.get("/api/gamification/history", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.claims.sub;
+      const history = await storage.getPointsHistory(userId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching points history:", error);
+      res.status(500).json({ message: "Failed to fetch points history" });
+    }
+  });
+
+  app.get("/api/gamification/achievements", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.claims.sub;
+      const achievements = await storage.getPatientAchievements(userId);
+      res.json(achievements);
+    } catch (error) {
+      console.error("Error fetching achievements:", error);
+      res.status(500).json({ message: "Failed to fetch achievements" });
+    }
+  });
+
+  app.get("/api/gamification/challenges", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.claims.sub;
+      const challenges = await storage.getPatientChallenges(userId);
+      res.json(challenges);
+    } catch (error) {
+      console.error("Error fetching challenges:", error);
+      res.status(500).json({ message: "Failed to fetch challenges" });
+    }
+  });
+
+  // Admin routes for gamification
+  app.post("/api/admin/achievements", isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      if (user.claims.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      
+      const achievement = await storage.createAchievement(req.body);
+      res.status(201).json(achievement);
+    } catch (error) {
+      console.error("Error creating achievement:", error);
+      res.status(500).json({ message: "Failed to create achievement" });
+    }
+  });
+
+  app.post("/api/admin/challenges", isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      if (user.claims.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      
+      const challenge = await storage.createChallenge(req.body);
+      res.status(201).json(challenge);
+    } catch (error) {
+      console.error("Error creating challenge:", error);
+      res.status(500).json({ message: "Failed to create challenge" });
+    }
+  });
+
+  // Team routes
+  app.get("/api/team", async (req, res) => {
+    try {
+      const teamMembers = await storage.getTeamMembers();
+      res.json(teamMembers);
+    } catch (error) {
+      console.error("Error fetching team members:", error);
+      res.status(500).json({ message: "Failed to fetch team members" });
+    }
+  });
+
+  app.post("/api/team", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      // Validate required fields
+      if (!req.body.name || !req.body.position || !req.body.bio) {
+        return res.status(400).json({ 
+          message: "Missing required fields: name, position, and bio are required" 
+        });
+      }
+      if (isInlineImage(req.body.imageUrl)) {
+        return res.status(400).json({ message: "Upload team photos as files rather than inline data URLs" });
+      }
+      
+      console.log('About to create team member with:', req.body);
+      const teamMember = await storage.createTeamMember(req.body);
+      console.log('Created team member:', teamMember);
+      res.status(201).json(teamMember);
+    } catch (error) {
+      console.error("Error creating team member:", error);
+      console.error("Full error details:", JSON.stringify(error, null, 2));
+      
+      // More detailed error messages
+      if (error instanceof Error) {
+        if (error.message.includes('duplicate')) {
+          return res.status(400).json({ message: "A team member with this information already exists" });
+        }
+        if (error.message.includes('constraint')) {
+          return res.status(400).json({ message: "Invalid data format or missing required fields" });
+        }
+      }
+      
+      res.status(500).json({ 
+        message: "Failed to create team member",
+        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
+  });
+
+  app.put("/api/team/:id", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      console.log('Updating team member:', id, 'with data:', req.body);
+      
+      // Validate required fields
+      if (!req.body.name || !req.body.position || !req.body.bio) {
+        return res.status(400).json({ 
+          message: "Missing required fields: name, position, and bio are required" 
+        });
+      }
+      // A photo the startup migration couldn't move may be saved back as it
+      // was, but not replaced with another inline one
+      if (isInlineImage(req.body.imageUrl)) {
+        const current = (await storage.getTeamMembers()).find(member => member.id === id);
+        if (req.body.imageUrl !== current?.imageUrl) {
+          return res.status(400).json({ message: "Upload team photos as files rather than inline data URLs" });
+        }
+      }
+      
+      const teamMember = await storage.updateTeamMember(id, req.body);
+      
+      if (!teamMember) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      res.json(teamMember);
+    } catch (error) {
+      console.error("Error updating team member:", error);
+      res.status(500).json({ 
+        message: "Failed to update team member",
+        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
+  });
+
+  app.delete("/api/team/:id", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteTeamMember(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting team member:", error);
+      res.status(500).json({ 
+        message: "Failed to delete team member",
+        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
+  });
+
+  // Provider routes
+  app.get("/api/providers", async (req, res) => {
+    try {
+      const { procedureId } = req.query;
+      const providers = await storage.getProviders();
+      res.json(providers.filter(p => canPerform(p, procedureId as string | undefined)));
+    } catch (error) {
+      console.error("Error fetching providers:", error);
+      res.status(500).json({ message: "Failed to fetch providers" });
+    }
+  });
+
+  app.get("/api/admin/providers", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const providers = await storage.getProviders(true);
+      res.json(providers);
+    } catch (error) {
+      console.error("Error fetching providers:", error);
+      res.status(500).json({ message: "Failed to fetch providers" });
+    }
+  });
+
+  // Staff logins a provider can be linked to for signing clinical notes
+  app.get("/api/admin/staff", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users
+        .filter(user => user.role === 'admin')
+        .map(user => ({ id: user.id, name: displayName(user), email: user.email })));
+    } catch (error) {
+      console.error("Error fetching staff:", error);
+      res.status(500).json({ message: "Failed to fetch staff" });
+    }
+  });
+
+  app.post("/api/providers", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const parsed = insertProviderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      const provider = await storage.createProvider(parsed.data);
+      res.status(201).json(provider);
+    } catch (error) {
+      console.error("Error creating provider:", error);
+      res.status(500).json({ message: "Failed to create provider" });
+    }
+  });
+
+  app.put("/api/providers/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const parsed = insertProviderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      const { id } = req.params;
+      const provider = await storage.updateProvider(id, parsed.data);
+      if (!provider) {
+        return res.status(404).json({ message: "Provider not found" });
+      }
+
+      res.json(provider);
+    } catch (error) {
+      console.error("Error updating provider:", error);
+      res.status(500).json({ message: "Failed to update provider" });
+    }
+  });
+
+  app.get("/api/admin/providers/:id/calendar-feed", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const provider = await storage.getProvider(req.params.id);
+      if (!provider) {
+        return res.status(404).json({ message: "Provider not found" });
+      }
+
+      const token = await calendarFeedToken({ providerId: provider.id });
+      res.json({ url: feedUrl(req, token) });
+    } catch (error) {
+      console.error("Error fetching provider calendar feed:", error);
+      res.status(500).json({ message: "Failed to fetch provider calendar feed" });
+    }
+  });
+
+  app.post("/api/admin/providers/:id/calendar-feed/rotate", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const provider = await storage.getProvider(req.params.id);
+      if (!provider) {
+        return res.status(404).json({ message: "Provider not found" });
+      }
+
+      const token = await rotateCalendarFeedToken({ providerId: provider.id });
+      res.json({ url: feedUrl(req, token) });
+    } catch (error) {
+      console.error("Error rotating provider calendar feed:", error);
+      res.status(500).json({ message: "Failed to rotate provider calendar feed" });
+    }
+  });
+
+  app.delete("/api/providers/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteProvider(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting provider:", error);
+      res.status(500).json({ message: "Failed to delete provider" });
+    }
+  });
+
+  // Resource routes
+  app.get("/api/resources", async (req, res) => {
+    try {
+      const resources = await storage.getResources();
+      res.json(resources);
+    } catch (error) {
+      console.error("Error fetching resources:", error);
+      res.status(500).json({ message: "Failed to fetch resources" });
+    }
+  });
+
+  app.post("/api/resources", isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const userId = user.claims.sub;
+      
+      // Check user role from database (consistent with team member route)
+      const dbUser = await storage.getUser(userId);
+      if (!dbUser) {
+        return res.status(403).json({ message: "User not found" });
+      }
+      if (dbUser.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      
+      console.log('About to create resource with:', req.body);
+      const resource = await storage.createResource(req.body);
+      console.log('Created resource:', resource);
+      res.status(201).json(resource);
+    } catch (error) {
+      console.error("Error creating resource:", error);
+      console.error("Full error details:", JSON.stringify(error, null, 2));
+      res.status(500).json({ 
+        message: "Failed to create resource",
+        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
+  });
+
+  app.put("/api/resources/:id", isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const userId = user.claims.sub;
+      
+      // Check user role from database
+      const dbUser = await storage.getUser(userId);
+      if (!dbUser || dbUser.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      
+      const { id } = req.params;
+      const resource = await storage.updateResource(id, req.body);
+      
+      if (!resource) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      
+      res.json(resource);
+    } catch (error) {
+      console.error("Error updating resource:", error);
+      res.status(500).json({ 
+        message: "Failed to update resource",
+        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
+  });
+
+  app.delete("/api/resources/:id", isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const userId = user.claims.sub;
+      
+      // Check user role from database
+      const dbUser = await storage.getUser(userId);
+      if (!dbUser || dbUser.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      
+      const { id } = req.params;
+      await storage.deleteResource(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting resource:", error);
+      res.status(500).json({ 
+        message: "Failed to delete resource",
+        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
+  });
+
+  // Chatbot routes
+  app.get("/api/chatbot", async (req, res) => {
+    try {
+      const { keywords } = req.query;
+      if (keywords) {
+        const keywordArray = (keywords as string).split(',').map(k => k.trim().toLowerCase());
+        const response = await storage.findChatbotResponse(keywordArray);
+        res.json(response || { message: "Sorry, I don't have information about that. Please contact our office for assistance." });
+      } else {
+        const responses = await storage.getChatbotResponses();
+        res.json(responses);
+      }
+    } catch (error) {
+      console.error("Error fetching chatbot response:", error);
+      res.status(500).json({ message: "Failed to fetch chatbot response" });
+    }
+  });
+
+  // Procedure routes
+  app.get("/api/procedures", async (req, res) => {
+    try {
+      const procedures = await storage.getProcedures();
+      res.json(procedures);
+    } catch (error) {
+      console.error("Error fetching procedures:", error);
+      res.status(500).json({ message: "Failed to fetch procedures" });
+    }
+  });
+
+  app.post("/api/procedures", isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      if (user.claims.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      
+      const procedure = await storage.createProcedure(req.body);
+      res.status(201).json(procedure);
+    } catch (error) {
+      console.error("Error creating procedure:", error);
+      res.status(500).json({ message: "Failed to create procedure" });
+    }
+  });
+
+  app.put("/api/procedures/:id", isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      if (user.claims.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      
+      const { id } = req.params;
+      const procedure = await storage.updateProcedure(id, req.body);
+      
+      if (!procedure) {
+        return res.status(404).json({ message: "Procedure not found" });
+      }
       
-      if (!appointmentIds || !Array.isArray(appointmentIds)) {
-        return res.status(400).json({ message: "Invalid appointment IDs" });
+      res.json(procedure);
+    } catch (error) {
+      console.error("Error updating procedure:", error);
+      res.status(500).json({ message: "Failed to update procedure" });
+    }
+  });
+
+  app.delete("/api/procedures/:id", isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      if (user.claims.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
       }
+      
+      const { id } = req.params;
+      await storage.deleteProcedure(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting procedure:", error);
+      res.status(500).json({ message: "Failed to delete procedure" });
+    }
+  });
+
+  // Promotion routes
+  app.get("/api/promotions", async (req, res) => {
+    try {
+      const promotions = await storage.getPromotions();
+      res.json(promotions);
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      res.status(500).json({ message: "Failed to fetch promotions" });
+    }
+  });
 
-      // Update appointments status to 'missed' or delete them
-      const result = await storage.cleanupMissedAppointments(appointmentIds);
+  app.post("/api/promotions", isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      if (user.claims.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
       
-      res.json({ 
-        message: "Appointments cleaned up successfully",
-        count: result.count 
-      });
+      const promotion = await storage.createPromotion(req.body);
+      res.status(201).json(promotion);
     } catch (error) {
-      console.error("Error cleaning up appointments:", error);
-      res.status(500).json({ message: "Failed to clean up appointments" });
+      console.error("Error creating promotion:", error);
+      res.status(500).json({ message: "Failed to create promotion" });
     }
   });
 
-  // Appointment routes
-  app.post("/api/appointments", isAuthenticated, async (req, res) => {
+  app.put("/api/promotions/:id", isAuthenticated, async (req, res) => {
     try {
-      const userId = (req as any).user.claims.sub;
-      const appointmentData = {
-        ...req.body,
-        patientId: userId,
-        status: 'pending'
-      };
+      const user = (req as any).user;
+      if (user.claims.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
       
-      const appointment = await storage.createAppointment(appointmentData);
+      const { id } = req.params;
+      const promotion = await storage.updatePromotion(id, req.body);
       
-      // Award points for booking appointment
-      await storage.awardPoints(userId, 10, 'appointment_booked', 'Booked a new appointment');
+      if (!promotion) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
       
-      res.status(201).json(appointment);
+      res.json(promotion);
     } catch (error) {
-      console.error("Error creating appointment:", error);
-      res.status(500).json({ message: "Failed to create appointment" });
+      console.error("Error updating promotion:", error);
+      res.status(500).json({ message: "Failed to update promotion" });
     }
   });
 
-  app.get("/api/appointments", isAuthenticated, async (req, res) => {
+  app.delete("/api/promotions/:id", isAuthenticated, async (req, res) => {
     try {
-      const userId = (req as any).user.claims.sub;
       const user = (req as any).user;
-      
-      let appointments;
-      if (user.claims.role === 'admin') {
-        appointments = await storage.getAllAppointments();
-      } else {
-        appointments = await storage.getAppointmentsByPatient(userId);
+      if (user.claims.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
       }
       
-      res.json(appointments);
+      const { id } = req.params;
+      await storage.deletePromotion(id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching appointments:", error);
-      res.status(500).json({ message: "Failed to fetch appointments" });
+      console.error("Error deleting promotion:", error);
+      res.status(500).json({ message: "Failed to delete promotion" });
+    }
+  });
+
+  // Form routes
+  app.get("/api/forms", async (req, res) => {
+    try {
+      const forms = await storage.getForms();
+      res.json(forms);
+    } catch (error) {
+      console.error("Error fetching forms:", error);
+      res.status(500).json({ message: "Failed to fetch forms" });
+    }
+  });
+
+  app.post("/api/forms", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const form = await storage.createForm(req.body);
+      res.status(201).json(form);
+    } catch (error) {
+      console.error("Error creating form:", error);
+      res.status(500).json({ message: "Failed to create form" });
     }
   });
 
-  app.patch("/api/appointments/:id/status", isAuthenticated, async (req, res) => {
+  app.put("/api/forms/:id", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { status } = req.body;
-      
-      const appointment = await storage.updateAppointmentStatus(id, status);
-      
-      if (!appointment) {
-        return res.status(404).json({ message: "Appointment not found" });
-      }
+      const form = await storage.updateForm(id, req.body);
       
-      // Award points for completing appointment
-      if (status === 'completed') {
-        await storage.awardPoints(appointment.patientId, 25, 'appointment_completed', 'Completed appointment');
+      if (!form) {
+        return res.status(404).json({ message: "Form not found" });
       }
       
-      res.json(appointment);
+      res.json(form);
     } catch (error) {
-      console.error("Error updating appointment status:", error);
-      res.status(500).json({ message: "Failed to update appointment status" });
+      console.error("Error updating form:", error);
+      res.status(500).json({ message: "Failed to update form" });
     }
   });
 
-  // Gamification routes
-  app.get("/api/gamification/points", isAuthenticated, async (req, res) => {
+  app.delete("/api/forms/:id", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
-      const userId = (req as any).user.claims.sub;
-      const points = await storage.getOrCreatePatientPoints(userId);
-      res.json(points);
+      const { id } = req.params;
+      await storage.deleteForm(id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching points:", error);
-      res.status(500).json({ message: "Failed to fetch points" });
+      console.error("Error deleting form:", error);
+      res.status(500).json({ message: "Failed to delete form" });
     }
   });
 
-  app.get("/api/gamification/history", isAuthenticated, async (req, res) => {
+  // Intake forms. Staff build them; patients fill in the ones that apply to
+  // an appointment before the visit.
+  app.get("/api/admin/intake-forms", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const userId = (req as any).user.claims.sub;
-      const history = await storage.getPointsHistory(userId);
-      res.json(history);
+      res.json(await storage.getIntakeForms(true));
     } catch (error) {
-      console.error("Error fetching points history:", error);
-      res.status(500).json({ message: "Failed to fetch points history" });
+      console.error("Error fetching intake forms:", error);
+      res.status(500).json({ message: "Failed to fetch intake forms" });
     }
   });
 
-  app.get("/api/gamification/achievements", isAuthenticated, async (req, res) => {
+  app.post("/api/admin/intake-forms", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const userId = (req as any).user.claims.sub;
-      const achievements = await storage.getPatientAchievements(userId);
-      res.json(achievements);
+      const parsed = insertIntakeFormSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      res.status(201).json(await storage.createIntakeForm(parsed.data));
     } catch (error) {
-      console.error("Error fetching achievements:", error);
-      res.status(500).json({ message: "Failed to fetch achievements" });
+      console.error("Error creating intake form:", error);
+      res.status(500).json({ message: "Failed to create intake form" });
     }
   });
 
-  app.get("/api/gamification/challenges", isAuthenticated, async (req, res) => {
+  app.put("/api/admin/intake-forms/:id", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const userId = (req as any).user.claims.sub;
-      const challenges = await storage.getPatientChallenges(userId);
-      res.json(challenges);
+      const parsed = insertIntakeFormSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const form = await storage.updateIntakeForm(req.params.id, parsed.data);
+      if (!form) {
+        return res.status(404).json({ message: "Intake form not found" });
+      }
+      res.json(form);
     } catch (error) {
-      console.error("Error fetching challenges:", error);
-      res.status(500).json({ message: "Failed to fetch challenges" });
+      console.error("Error updating intake form:", error);
+      res.status(500).json({ message: "Failed to update intake form" });
     }
   });
 
-  // Admin routes for gamification
-  app.post("/api/admin/achievements", isAuthenticated, async (req, res) => {
+  app.delete("/api/admin/intake-forms/:id", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const user = (req as any).user;
-      if (user.claims.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      await storage.deleteIntakeForm(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting intake form:", error);
+      res.status(500).json({ message: "Failed to delete intake form" });
+    }
+  });
+
+  app.get("/api/admin/intake-status", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const appointmentIds = String(req.query.appointmentIds || '').split(',').filter(Boolean);
+      res.json(await intakeStatusSummaries(appointmentIds));
+    } catch (error) {
+      console.error("Error fetching intake form status:", error);
+      res.status(500).json({ message: "Failed to fetch intake form status" });
+    }
+  });
+
+  app.get("/api/appointments/:id/intake-forms", isAuthenticated, async (req: any, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || !await canActFor(req.user, appointment.patientId)) {
+        return res.status(404).json({ message: "Appointment not found" });
       }
-      
-      const achievement = await storage.createAchievement(req.body);
-      res.status(201).json(achievement);
+      res.json(await appointmentIntakeForms(appointment));
     } catch (error) {
-      console.error("Error creating achievement:", error);
-      res.status(500).json({ message: "Failed to create achievement" });
+      console.error("Error fetching intake forms:", error);
+      res.status(500).json({ message: "Failed to fetch intake forms" });
     }
   });
 
-  app.post("/api/admin/challenges", isAuthenticated, async (req, res) => {
+  app.post("/api/appointments/:id/intake-forms/:formId", isAuthenticated, async (req: any, res) => {
     try {
-      const user = (req as any).user;
-      if (user.claims.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || !await canActFor(req.user, appointment.patientId)) {
+        return res.status(404).json({ message: "Appointment not found" });
       }
-      
-      const challenge = await storage.createChallenge(req.body);
-      res.status(201).json(challenge);
+      if (appointment.status === 'cancelled') {
+        return res.status(409).json({ message: "This appointment was cancelled" });
+      }
+      const [form, procedures] = await Promise.all([storage.getIntakeForm(req.params.formId), storage.getProcedures()]);
+      if (!form || !formAppliesTo(form, appointment, procedures)) {
+        return res.status(404).json({ message: "Intake form not found" });
+      }
+
+      const submitted = z.object({ answers: z.record(z.any()) }).safeParse(req.body);
+      if (!submitted.success) {
+        return res.status(400).json({ message: fromZodError(submitted.error).toString() });
+      }
+      const { answers, errors } = checkIntakeAnswers(form.sections, submitted.data.answers as IntakeAnswers);
+      if (Object.keys(errors).length > 0) {
+        return res.status(400).json({ message: "Some answers are missing or invalid", errors });
+      }
+
+      const response = await storage.createIntakeResponse(form, appointment.patientId, appointment.id, answers, req.user.id);
+      res.status(201).json(response);
     } catch (error) {
-      console.error("Error creating challenge:", error);
-      res.status(500).json({ message: "Failed to create challenge" });
+      console.error("Error saving intake form:", error);
+      res.status(500).json({ message: "Failed to save intake form" });
     }
   });
 
-  // Team routes
-  app.get("/api/team", async (req, res) => {
+  // Informed consent. Staff write the templates; the patient or a guardian
+  // signs in the portal, which stores a flattened, hashed PDF for good.
+  app.get("/api/admin/consent-templates", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const teamMembers = await storage.getTeamMembers();
-      res.json(teamMembers);
+      res.json(await storage.getConsentTemplates(true));
     } catch (error) {
-      console.error("Error fetching team members:", error);
-      res.status(500).json({ message: "Failed to fetch team members" });
+      console.error("Error fetching consent templates:", error);
+      res.status(500).json({ message: "Failed to fetch consent templates" });
     }
   });
 
-  app.post("/api/team", isAuthenticated, async (req, res) => {
+  app.post("/api/admin/consent-templates", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const user = (req as any).user;
-      console.log('Session user:', user);
-      const userId = user.claims.sub;
-      
-      // Check user role from database 
-      const dbUser = await storage.getUser(userId);
-      if (!dbUser) {
-        return res.status(403).json({ message: "User not found" });
+      const parsed = insertConsentTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
       }
-      if (dbUser.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      res.status(201).json(await storage.createConsentTemplate(parsed.data));
+    } catch (error) {
+      console.error("Error creating consent template:", error);
+      res.status(500).json({ message: "Failed to create consent template" });
+    }
+  });
+
+  app.put("/api/admin/consent-templates/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const parsed = insertConsentTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
       }
-      
-      // Validate required fields
-      if (!req.body.name || !req.body.position || !req.body.bio) {
-        return res.status(400).json({ 
-          message: "Missing required fields: name, position, and bio are required" 
-        });
+      const template = await storage.updateConsentTemplate(req.params.id, parsed.data);
+      if (!template) {
+        return res.status(404).json({ message: "Consent template not found" });
       }
-      
-      console.log('About to create team member with:', req.body);
-      const teamMember = await storage.createTeamMember(req.body);
-      console.log('Created team member:', teamMember);
-      res.status(201).json(teamMember);
+      res.json(template);
     } catch (error) {
-      console.error("Error creating team member:", error);
-      console.error("Full error details:", JSON.stringify(error, null, 2));
-      
-      // More detailed error messages
-      if (error instanceof Error) {
-        if (error.message.includes('duplicate')) {
-          return res.status(400).json({ message: "A team member with this information already exists" });
-        }
-        if (error.message.includes('constraint')) {
-          return res.status(400).json({ message: "Invalid data format or missing required fields" });
-        }
+      console.error("Error updating consent template:", error);
+      res.status(500).json({ message: "Failed to update consent template" });
+    }
+  });
+
+  app.delete("/api/admin/consent-templates/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      await storage.deleteConsentTemplate(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting consent template:", error);
+      res.status(500).json({ message: "Failed to delete consent template" });
+    }
+  });
+
+  app.get("/api/appointments/:id/consents", isAuthenticated, async (req: any, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || !await canActFor(req.user, appointment.patientId)) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      res.json(await appointmentConsents(appointment));
+    } catch (error) {
+      console.error("Error fetching consents:", error);
+      res.status(500).json({ message: "Failed to fetch consents" });
+    }
+  });
+
+  // Only the patient or their guardian signs, not staff on their behalf
+  app.post("/api/appointments/:id/consents/:templateId", isAuthenticated, async (req: any, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      const patient = appointment ? await storage.getUser(appointment.patientId) : undefined;
+      if (!appointment || !patient || !await canActFor(req.user, appointment.patientId)) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      if (req.user.id !== patient.id && !await storage.isGuardianOf(req.user.id, patient.id)) {
+        return res.status(403).json({ message: "Only the patient or their guardian can sign consent" });
+      }
+      if (appointment.status === 'cancelled') {
+        return res.status(409).json({ message: "This appointment was cancelled" });
+      }
+      const [template, procedures] = await Promise.all([storage.getConsentTemplate(req.params.templateId), storage.getProcedures()]);
+      if (!template || !consentAppliesTo(template, appointment, procedures)) {
+        return res.status(404).json({ message: "Consent template not found" });
+      }
+
+      const parsed = signConsentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      if (parsed.data.templateVersion !== template.version) {
+        return res.status(409).json({ message: "This consent was just updated. Please read it again before signing." });
       }
-      
-      res.status(500).json({ 
-        message: "Failed to create team member",
-        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+
+      const signed = await signConsent({
+        template,
+        appointment,
+        patient,
+        signer: req.user,
+        input: parsed.data,
+        signerIp: req.ip || null,
+        userAgent: req.get('user-agent') || null,
       });
+      if (!signed) {
+        return res.status(409).json({ message: "This consent is already signed" });
+      }
+
+      const { pdfData, ...record } = signed;
+      res.status(201).json(record);
+    } catch (error) {
+      console.error("Error signing consent:", error);
+      res.status(500).json({ message: "Failed to sign consent" });
     }
   });
 
-  app.put("/api/team/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/consents/:id/pdf", isAuthenticated, async (req: any, res) => {
     try {
-      const user = (req as any).user;
-      const userId = user.claims.sub;
-      
-      // Check user role from database (not from claims which might be stale)
-      const dbUser = await storage.getUser(userId);
-      if (!dbUser || dbUser.role !== 'admin') {
-        console.log('Access denied - user role:', dbUser?.role || 'no user found');
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
-      const { id } = req.params;
-      console.log('Updating team member:', id, 'with data:', req.body);
-      
-      // Validate required fields
-      if (!req.body.name || !req.body.position || !req.body.bio) {
-        return res.status(400).json({ 
-          message: "Missing required fields: name, position, and bio are required" 
-        });
+      const consent = await storage.getSignedConsent(req.params.id);
+      if (!consent || !await canActFor(req.user, consent.patientId)) {
+        return res.status(404).json({ message: "Consent not found" });
       }
-      
-      const teamMember = await storage.updateTeamMember(id, req.body);
-      
-      if (!teamMember) {
-        return res.status(404).json({ message: "Team member not found" });
+      const pdf = verifiedConsentPdf(consent);
+      if (!pdf) {
+        console.error(`Signed consent ${consent.id} failed its integrity check`);
+        return res.status(500).json({ message: "This document failed its integrity check" });
       }
-      
-      res.json(teamMember);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="consent-${consent.id}.pdf"`);
+      res.send(pdf);
     } catch (error) {
-      console.error("Error updating team member:", error);
-      res.status(500).json({ 
-        message: "Failed to update team member",
-        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
-      });
+      console.error("Error fetching consent PDF:", error);
+      res.status(500).json({ message: "Failed to fetch consent PDF" });
     }
   });
 
-  app.delete("/api/team/:id", isAuthenticated, async (req, res) => {
+  // File uploads, sent as multipart/form-data with the file in "file". The
+  // bytes go to the file store; the category decides who may read them.
+  app.post("/api/files", isAuthenticated, express.raw({ type: 'multipart/form-data', limit: MAX_UPLOAD_BYTES + 64 * 1024 }), async (req: any, res) => {
     try {
-      const user = (req as any).user;
-      const userId = user.claims.sub;
-      
-      // Check user role from database
-      const dbUser = await storage.getUser(userId);
-      if (!dbUser || dbUser.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const body = Buffer.isBuffer(req.body) ? parseMultipart(req.body, req.get('content-type') || '') : null;
+      const upload = body?.files.find(file => file.fieldName === 'file');
+      if (!body || !upload) {
+        return res.status(400).json({ message: 'Send the file as multipart/form-data in a field named "file"' });
       }
-      
-      const { id } = req.params;
-      await storage.deleteTeamMember(id);
-      res.status(204).send();
-    } catch (error) {
-      console.error("Error deleting team member:", error);
-      res.status(500).json({ 
-        message: "Failed to delete team member",
-        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      const parsed = fileUploadSchema.safeParse(body.fields);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const { category, description } = parsed.data;
+      const rule = fileCategoryRules[category];
+      // Patients adding to their own record needn't name themselves
+      const patientId = parsed.data.patientId || (rule.forPatient && req.user.role !== 'admin' ? req.user.id : null);
+      if (rule.forPatient !== !!patientId) {
+        return res.status(400).json({ message: rule.forPatient ? "Choose the patient this file belongs to" : `${rule.label} files don't belong to a patient` });
+      }
+      if (patientId && !await storage.getUser(patientId)) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      const denied = await uploadDenied(req.user, category, patientId);
+      if (denied) {
+        return res.status(403).json({ message: denied });
+      }
+
+      const contentType = sniffContentType(upload.data);
+      const problem = contentType ? fileProblem(category, contentType, upload.data.length) : "This type of file isn't supported";
+      if (!contentType || problem) {
+        return res.status(contentType && rule.contentTypes.includes(contentType) ? 413 : 415).json({ message: problem });
+      }
+
+      const stored = await storeFile({
+        category,
+        fileName: upload.fileName,
+        contentType,
+        data: upload.data,
+        patientId,
+        description,
+        uploadedBy: req.user.id,
       });
+      res.status(201).json(fileRecord(stored));
+    } catch (error) {
+      console.error("Error uploading file:", error);
+      res.status(500).json({ message: "Failed to upload file" });
     }
   });
 
-  // Resource routes
-  app.get("/api/resources", async (req, res) => {
+  // Public files need no sign-in; anything else looks missing to those who
+  // can't see it
+  app.get("/api/files/:id", async (req: any, res) => {
     try {
-      const resources = await storage.getResources();
-      res.json(resources);
+      const file = await storage.getStoredFile(req.params.id);
+      const user = req.isAuthenticated() ? req.user : undefined;
+      if (!file || !await canReadFile(user, file)) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      const data = await readFile(file);
+      if (!data) {
+        console.error(`Stored file ${file.id} is missing from the file store`);
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const disposition = req.query.download ? 'attachment' : 'inline';
+      const asciiName = file.fileName.replace(/[^\x20-\x7e]/g, '_');
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(file.fileName)}`);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      // Stored objects never change, so public ones can be cached for good
+      res.setHeader('Cache-Control', fileCategoryRules[file.category as FileCategory]?.isPublic
+        ? 'public, max-age=31536000, immutable'
+        : 'private, no-store');
+      res.send(data);
     } catch (error) {
-      console.error("Error fetching resources:", error);
-      res.status(500).json({ message: "Failed to fetch resources" });
+      console.error("Error fetching file:", error);
+      res.status(500).json({ message: "Failed to fetch file" });
     }
   });
 
-  app.post("/api/resources", isAuthenticated, async (req, res) => {
+  app.get("/api/patients/:id/files", isAuthenticated, async (req: any, res) => {
     try {
-      const user = (req as any).user;
-      const userId = user.claims.sub;
-      
-      // Check user role from database (consistent with team member route)
-      const dbUser = await storage.getUser(userId);
-      if (!dbUser) {
-        return res.status(403).json({ message: "User not found" });
-      }
-      if (dbUser.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const patient = await canActFor(req.user, req.params.id) ? await storage.getUser(req.params.id) : undefined;
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
       }
-      
-      console.log('About to create resource with:', req.body);
-      const resource = await storage.createResource(req.body);
-      console.log('Created resource:', resource);
-      res.status(201).json(resource);
+      res.json((await storage.getPatientFiles(patient.id)).map(fileRecord));
     } catch (error) {
-      console.error("Error creating resource:", error);
-      console.error("Full error details:", JSON.stringify(error, null, 2));
-      res.status(500).json({ 
-        message: "Failed to create resource",
-        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
-      });
+      console.error("Error fetching patient files:", error);
+      res.status(500).json({ message: "Failed to fetch patient files" });
     }
   });
 
-  app.put("/api/resources/:id", isAuthenticated, async (req, res) => {
+  // Staff can remove any file; patients only documents they uploaded themselves
+  app.delete("/api/files/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const user = (req as any).user;
-      const userId = user.claims.sub;
-      
-      // Check user role from database
-      const dbUser = await storage.getUser(userId);
-      if (!dbUser || dbUser.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const file = await storage.getStoredFile(req.params.id);
+      if (!file || !await canReadFile(req.user, file)) {
+        return res.status(404).json({ message: "File not found" });
       }
-      
-      const { id } = req.params;
-      const resource = await storage.updateResource(id, req.body);
-      
-      if (!resource) {
-        return res.status(404).json({ message: "Resource not found" });
+      const ownUpload = file.uploadedBy === req.user.id && fileCategoryRules[file.category as FileCategory]?.patientUpload;
+      if (req.user.role !== 'admin' && !ownUpload) {
+        return res.status(403).json({ message: "Only staff can remove this file" });
       }
-      
-      res.json(resource);
+      await deleteFile(file);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error updating resource:", error);
-      res.status(500).json({ 
-        message: "Failed to update resource",
-        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
-      });
+      console.error("Error deleting file:", error);
+      res.status(500).json({ message: "Failed to delete file" });
     }
   });
 
-  app.delete("/api/resources/:id", isAuthenticated, async (req, res) => {
+  // Hygiene recalls. Completing a matching procedure sets when the patient is
+  // next due; staff work the list of who's overdue or coming up.
+  app.get("/api/admin/recall-types", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const user = (req as any).user;
-      const userId = user.claims.sub;
-      
-      // Check user role from database
-      const dbUser = await storage.getUser(userId);
-      if (!dbUser || dbUser.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      res.json(await storage.getRecallTypes(true));
+    } catch (error) {
+      console.error("Error fetching recall types:", error);
+      res.status(500).json({ message: "Failed to fetch recall types" });
+    }
+  });
+
+  app.post("/api/admin/recall-types", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const parsed = insertRecallTypeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
       }
-      
-      const { id } = req.params;
-      await storage.deleteResource(id);
-      res.status(204).send();
+      const recallType = await storage.createRecallType(parsed.data);
+      await backfillRecallType(recallType);
+      res.status(201).json(recallType);
     } catch (error) {
-      console.error("Error deleting resource:", error);
-      res.status(500).json({ 
-        message: "Failed to delete resource",
-        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
-      });
+      console.error("Error creating recall type:", error);
+      res.status(500).json({ message: "Failed to create recall type" });
     }
   });
 
-  // Chatbot routes
-  app.get("/api/chatbot", async (req, res) => {
+  app.put("/api/admin/recall-types/:id", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const { keywords } = req.query;
-      if (keywords) {
-        const keywordArray = (keywords as string).split(',').map(k => k.trim().toLowerCase());
-        const response = await storage.findChatbotResponse(keywordArray);
-        res.json(response || { message: "Sorry, I don't have information about that. Please contact our office for assistance." });
-      } else {
-        const responses = await storage.getChatbotResponses();
-        res.json(responses);
+      const parsed = insertRecallTypeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const recallType = await storage.updateRecallType(req.params.id, parsed.data);
+      if (!recallType) {
+        return res.status(404).json({ message: "Recall type not found" });
       }
+      await backfillRecallType(recallType);
+      res.json(recallType);
     } catch (error) {
-      console.error("Error fetching chatbot response:", error);
-      res.status(500).json({ message: "Failed to fetch chatbot response" });
+      console.error("Error updating recall type:", error);
+      res.status(500).json({ message: "Failed to update recall type" });
     }
   });
 
-  // Procedure routes
-  app.get("/api/procedures", async (req, res) => {
+  app.delete("/api/admin/recall-types/:id", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const procedures = await storage.getProcedures();
-      res.json(procedures);
+      await storage.deleteRecallType(req.params.id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching procedures:", error);
-      res.status(500).json({ message: "Failed to fetch procedures" });
+      console.error("Error deleting recall type:", error);
+      res.status(500).json({ message: "Failed to delete recall type" });
     }
   });
 
-  app.post("/api/procedures", isAuthenticated, async (req, res) => {
+  app.get("/api/admin/recalls", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const user = (req as any).user;
-      if (user.claims.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const parsed = recallListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
       }
-      
-      const procedure = await storage.createProcedure(req.body);
-      res.status(201).json(procedure);
+      res.json(await loadRecallList(parsed.data));
     } catch (error) {
-      console.error("Error creating procedure:", error);
-      res.status(500).json({ message: "Failed to create procedure" });
+      console.error("Error fetching recalls:", error);
+      res.status(500).json({ message: "Failed to fetch recalls" });
     }
   });
 
-  app.put("/api/procedures/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/admin/recalls/:id", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const user = (req as any).user;
-      if (user.claims.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const parsed = recallDueDateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
       }
-      
-      const { id } = req.params;
-      const procedure = await storage.updateProcedure(id, req.body);
-      
-      if (!procedure) {
-        return res.status(404).json({ message: "Procedure not found" });
+      const recall = await storage.setRecallDueDate(req.params.id, parsed.data.dueDate);
+      if (!recall) {
+        return res.status(404).json({ message: "Recall not found" });
       }
-      
-      res.json(procedure);
+      res.json(recall);
     } catch (error) {
-      console.error("Error updating procedure:", error);
-      res.status(500).json({ message: "Failed to update procedure" });
+      console.error("Error updating recall:", error);
+      res.status(500).json({ message: "Failed to update recall" });
     }
   });
 
-  app.delete("/api/procedures/:id", isAuthenticated, async (req, res) => {
+  app.post("/api/admin/recalls/:id/notice", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const user = (req as any).user;
-      if (user.claims.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const recall = await storage.getPatientRecall(req.params.id);
+      if (!recall) {
+        return res.status(404).json({ message: "Recall not found" });
       }
-      
-      const { id } = req.params;
-      await storage.deleteProcedure(id);
-      res.status(204).send();
+      const notice = await sendRecallNotice(recall);
+      if (!notice) {
+        return res.status(409).json({ message: "This patient has no email or phone number on file" });
+      }
+      res.json(notice);
     } catch (error) {
-      console.error("Error deleting procedure:", error);
-      res.status(500).json({ message: "Failed to delete procedure" });
+      console.error("Error sending recall notice:", error);
+      res.status(500).json({ message: "Failed to send recall notice" });
     }
   });
 
-  // Promotion routes
-  app.get("/api/promotions", async (req, res) => {
+  app.get("/api/admin/recalls/:id/openings", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const promotions = await storage.getPromotions();
-      res.json(promotions);
+      const recall = await storage.getPatientRecall(req.params.id);
+      if (!recall) {
+        return res.status(404).json({ message: "Recall not found" });
+      }
+      const openings = await recallOpenings(recall);
+      if (!openings) {
+        return res.status(409).json({ message: "This recall type has no procedure to book" });
+      }
+      res.json({ ...openings, starts: openings.starts.slice(0, 8) });
     } catch (error) {
-      console.error("Error fetching promotions:", error);
-      res.status(500).json({ message: "Failed to fetch promotions" });
+      console.error("Error fetching recall openings:", error);
+      res.status(500).json({ message: "Failed to fetch openings" });
     }
   });
 
-  app.post("/api/promotions", isAuthenticated, async (req, res) => {
+  // Clinical notes. Staff only, and kept out of every patient-facing
+  // response: a draft per appointment that locks when a provider signs it,
+  // with corrections added as addenda.
+  app.get("/api/admin/clinical-note-templates", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const user = (req as any).user;
-      if (user.claims.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      res.json(await storage.getClinicalNoteTemplates(true));
+    } catch (error) {
+      console.error("Error fetching clinical note templates:", error);
+      res.status(500).json({ message: "Failed to fetch clinical note templates" });
+    }
+  });
+
+  app.post("/api/admin/clinical-note-templates", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const parsed = insertClinicalNoteTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
       }
-      
-      const promotion = await storage.createPromotion(req.body);
-      res.status(201).json(promotion);
+      res.status(201).json(await storage.createClinicalNoteTemplate(parsed.data));
     } catch (error) {
-      console.error("Error creating promotion:", error);
-      res.status(500).json({ message: "Failed to create promotion" });
+      console.error("Error creating clinical note template:", error);
+      res.status(500).json({ message: "Failed to create clinical note template" });
     }
   });
 
-  app.put("/api/promotions/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/admin/clinical-note-templates/:id", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const user = (req as any).user;
-      if (user.claims.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const parsed = insertClinicalNoteTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
       }
-      
-      const { id } = req.params;
-      const promotion = await storage.updatePromotion(id, req.body);
-      
-      if (!promotion) {
-        return res.status(404).json({ message: "Promotion not found" });
+      const template = await storage.updateClinicalNoteTemplate(req.params.id, parsed.data);
+      if (!template) {
+        return res.status(404).json({ message: "Clinical note template not found" });
       }
-      
-      res.json(promotion);
+      res.json(template);
     } catch (error) {
-      console.error("Error updating promotion:", error);
-      res.status(500).json({ message: "Failed to update promotion" });
+      console.error("Error updating clinical note template:", error);
+      res.status(500).json({ message: "Failed to update clinical note template" });
     }
   });
 
-  app.delete("/api/promotions/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/admin/clinical-note-templates/:id", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const user = (req as any).user;
-      if (user.claims.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
-      const { id } = req.params;
-      await storage.deletePromotion(id);
+      await storage.deleteClinicalNoteTemplate(req.params.id);
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting promotion:", error);
-      res.status(500).json({ message: "Failed to delete promotion" });
+      console.error("Error deleting clinical note template:", error);
+      res.status(500).json({ message: "Failed to delete clinical note template" });
     }
   });
 
-  // Form routes
-  app.get("/api/forms", async (req, res) => {
+  app.get("/api/admin/appointments/:id/clinical-note", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const forms = await storage.getForms();
-      res.json(forms);
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      res.json(await appointmentClinicalNote(appointment));
     } catch (error) {
-      console.error("Error fetching forms:", error);
-      res.status(500).json({ message: "Failed to fetch forms" });
+      console.error("Error fetching clinical note:", error);
+      res.status(500).json({ message: "Failed to fetch clinical note" });
+    }
+  });
+
+  app.post("/api/admin/appointments/:id/clinical-note", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      const parsed = startClinicalNoteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const template = (await noteTemplateOptions(appointment)).find(option => option.id === (parsed.data.templateId ?? null));
+      if (!template) {
+        return res.status(404).json({ message: "Clinical note template not found" });
+      }
+      const note = await startClinicalNote(appointment, template, req.user.id);
+      if (!note) {
+        return res.status(409).json({ message: "This appointment already has a clinical note" });
+      }
+      res.status(201).json(await clinicalNoteView(note));
+    } catch (error) {
+      console.error("Error starting clinical note:", error);
+      res.status(500).json({ message: "Failed to start clinical note" });
     }
   });
 
-  app.post("/api/forms", isAuthenticated, async (req, res) => {
+  app.put("/api/admin/clinical-notes/:id", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const user = (req as any).user;
-      if (user.claims.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const parsed = clinicalNoteSectionsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
       }
-      
-      const form = await storage.createForm(req.body);
-      res.status(201).json(form);
+      const note = await storage.updateClinicalNoteDraft(req.params.id, parsed.data);
+      if (!note) {
+        const existing = await storage.getClinicalNote(req.params.id);
+        return existing
+          ? res.status(409).json({ message: "This note is signed and locked. Add an addendum instead." })
+          : res.status(404).json({ message: "Clinical note not found" });
+      }
+      res.json(await clinicalNoteView(note));
     } catch (error) {
-      console.error("Error creating form:", error);
-      res.status(500).json({ message: "Failed to create form" });
+      console.error("Error updating clinical note:", error);
+      res.status(500).json({ message: "Failed to update clinical note" });
     }
   });
 
-  app.put("/api/forms/:id", isAuthenticated, async (req, res) => {
+  app.post("/api/admin/clinical-notes/:id/sign", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
-      const user = (req as any).user;
-      if (user.claims.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const parsed = signClinicalNoteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
       }
-      
-      const { id } = req.params;
-      const form = await storage.updateForm(id, req.body);
-      
-      if (!form) {
-        return res.status(404).json({ message: "Form not found" });
+      const existing = await storage.getClinicalNote(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Clinical note not found" });
       }
-      
-      res.json(form);
+      if (isBlankNote(existing)) {
+        return res.status(400).json({ message: "Write the note before signing it" });
+      }
+      const provider = await signingProvider(req.user.id, parsed.data.providerId);
+      if (!provider) {
+        return res.status(403).json({ message: "Notes can only be signed as the provider linked to your login" });
+      }
+      const note = await storage.signClinicalNote(existing.id, {
+        signedBy: req.user.id,
+        signingProviderId: provider.id,
+        signingProviderName: provider.name,
+      });
+      if (!note) {
+        return res.status(409).json({ message: "This note is already signed" });
+      }
+      res.json(await clinicalNoteView(note));
     } catch (error) {
-      console.error("Error updating form:", error);
-      res.status(500).json({ message: "Failed to update form" });
+      console.error("Error signing clinical note:", error);
+      res.status(500).json({ message: "Failed to sign clinical note" });
     }
   });
 
-  app.delete("/api/forms/:id", isAuthenticated, async (req, res) => {
+  app.post("/api/admin/clinical-notes/:id/addenda", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
-      const user = (req as any).user;
-      if (user.claims.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const parsed = clinicalNoteAddendumSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
       }
-      
-      const { id } = req.params;
-      await storage.deleteForm(id);
-      res.status(204).send();
+      const note = await storage.getClinicalNote(req.params.id);
+      if (!note) {
+        return res.status(404).json({ message: "Clinical note not found" });
+      }
+      if (!note.signedAt) {
+        return res.status(409).json({ message: "This note is still a draft. Edit it directly." });
+      }
+      await storage.createClinicalNoteAddendum({
+        noteId: note.id,
+        body: parsed.data.body,
+        authorId: req.user.id,
+        authorName: displayName(req.user),
+      });
+      res.status(201).json(await clinicalNoteView(note));
     } catch (error) {
-      console.error("Error deleting form:", error);
-      res.status(500).json({ message: "Failed to delete form" });
+      console.error("Error adding clinical note addendum:", error);
+      res.status(500).json({ message: "Failed to add addendum" });
     }
   });
 
   // Reminder routes
-  app.post("/api/reminders/email", isAuthenticated, async (req, res) => {
+  // Without an explicit recipient, reminders go to the patient's profile contact
+  app.post("/api/reminders/email", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const user = (req as any).user;
-      if (user.claims.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
-      const { appointmentId, email, message, appointmentDetails } = req.body;
+      const { appointmentId, message, appointmentDetails } = req.body;
+      const appointment = appointmentId ? await storage.getAppointment(appointmentId) : undefined;
+      const contact = appointment ? await patientContact(appointment.patientId) : undefined;
+      const email = req.body.email || contact?.email;
       
       if (!appointmentId || !email || !message) {
         return res.status(400).json({ message: "Missing required fields" });
@@ -676,14 +2214,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/reminders/sms", isAuthenticated, async (req, res) => {
+  app.post("/api/reminders/sms", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const user = (req as any).user;
-      if (user.claims.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
-      const { appointmentId, phone, message, appointmentDetails } = req.body;
+      const { appointmentId, message, appointmentDetails } = req.body;
+      const appointment = appointmentId ? await storage.getAppointment(appointmentId) : undefined;
+      const contact = appointment ? await patientContact(appointment.patientId) : undefined;
+      const phone = req.body.phone || contact?.phone;
       
       if (!appointmentId || !phone || !message) {
         return res.status(400).json({ message: "Missing required fields" });
@@ -721,32 +2257,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Payment routes
-  app.get("/api/payments", isAuthenticated, async (req, res) => {
+  app.get("/api/payments", isAuthenticated, async (req: any, res) => {
     try {
-      const user = (req as any).user;
-      const userId = user.claims.sub;
+      const user = req.user;
       
-      // If admin, return all payments, otherwise just the patient's payments
-      const payments = user.claims.role === 'admin' 
+      // If admin, return all payments, otherwise the patient's and their dependents'
+      const payments = user.role === 'admin' 
         ? await storage.getPayments()
-        : await storage.getPaymentsByPatientId(userId);
+        : await storage.getPaymentsByPatientIds(await familyPatientIds(user.id));
       
-      res.json(payments);
+      // Guardians see several people's payments, so each row says whose it is
+      const patients = await storage.getUsersByIds(Array.from(new Set(payments.map(p => p.patientId))));
+      const names = new Map(patients.map(patient => [patient.id, displayName(patient)]));
+      res.json(payments.map(payment => ({ ...payment, patientName: names.get(payment.patientId) || 'Unknown patient' })));
     } catch (error) {
       console.error("Error fetching payments:", error);
       res.status(500).json({ message: "Failed to fetch payments" });
     }
   });
 
-  app.post("/api/payments", isAuthenticated, async (req, res) => {
+  // Staff record payments of any kind. Patients pay toward their own account
+  // or a dependent's; those stay pending until staff see the money arrive.
+  app.post("/api/payments", isAuthenticated, async (req: any, res) => {
     try {
-      const user = (req as any).user;
-      if (user.claims.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      if (req.user.role === 'admin') {
+        const payment = await storage.createPayment(req.body);
+        return res.status(201).json(payment);
       }
-      
-      const payment = await storage.createPayment(req.body);
-      res.status(201).json(payment);
+
+      const parsed = patientPaymentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const { patientId, appointmentId, amount, description } = parsed.data;
+      const patient = await canActFor(req.user, patientId) ? await storage.getUser(patientId) : undefined;
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      const appointment = appointmentId ? await storage.getAppointment(appointmentId) : undefined;
+      if (appointmentId && appointment?.patientId !== patient.id) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      const payment = await storage.createPayment({
+        patientId: patient.id,
+        appointmentId: appointment?.id ?? null,
+        amount,
+        paymentMethod: 'credit_card',
+        procedureName: appointment?.treatmentType || 'Account payment',
+        description: description || null,
+        status: 'pending',
+        insuranceCovered: 0,
+        patientResponsibility: amount,
+      });
+      res.status(201).json({ ...payment, patientName: displayName(patient) });
     } catch (error) {
       console.error("Error creating payment:", error);
       res.status(500).json({ message: "Failed to create payment" });
@@ -759,27 +2323,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { date } = req.params;
       const { procedure } = req.query;
       
-      const timeSlots = await storage.getTimeSlots(date);
+      const calendar = await loadPracticeCalendar(date, date);
+      const timeSlots = openSlots(calendar, await storage.getTimeSlots(date));
       
-      // Filter by procedure if specified
+      // With a procedure, only offer start times where the whole procedure fits
+      // and only with providers who perform it
       let filteredSlots = timeSlots;
       if (procedure) {
-        // Get procedure details to determine duration
         const procedures = await storage.getProcedures();
-        const selectedProcedure = procedures.find(p => p.name === procedure);
-        const duration = selectedProcedure?.duration || 60; // Default 60 minutes
+        const selectedProcedure = procedures.find(p => p.name.toLowerCase() === String(procedure).toLowerCase());
+        const providers = await storage.getProviders();
+        const eligible = new Set(providers.filter(p => canPerform(p, selectedProcedure?.id)).map(p => p.id));
         
-        // Filter slots based on procedure duration and availability
-        filteredSlots = timeSlots.filter(slot => {
-          if (!slot.isAvailable) return false;
-          
-          // Check if there are enough consecutive slots for the procedure
-          const slotTime = new Date(`${date}T${convertTo24Hour(slot.time)}`);
-          const endTime = new Date(slotTime.getTime() + duration * 60000);
-          
-          // For now, just return available slots - can be enhanced with more complex logic
-          return true;
-        });
+        filteredSlots = findBookableStarts(
+          timeSlots.filter(slot => slot.providerId && eligible.has(slot.providerId)),
+          selectedProcedure?.duration || 0
+        );
       }
       
       res.json(filteredSlots);
@@ -792,19 +2351,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get available time slots for next 7 days (for one-click booking)
   app.get("/api/time-slots/available", async (req, res) => {
     try {
-      const availableSlots = [];
-      const today = new Date();
+      // The next 7 practice-local days, starting tomorrow
+      const today = practiceDate();
+      const startDate = addDays(today, 1);
+      const endDate = addDays(today, 7);
       
-      // Get slots for next 7 days
-      for (let i = 1; i <= 7; i++) {
-        const checkDate = new Date(today);
-        checkDate.setDate(today.getDate() + i);
-        const dateStr = checkDate.toISOString().split('T')[0];
-        
-        const slots = await storage.getTimeSlots(dateStr);
-        const available = slots.filter(slot => slot.isAvailable);
-        availableSlots.push(...available);
-      }
+      const calendar = await loadPracticeCalendar(startDate, endDate);
+      const slots = await storage.getTimeSlotsInRange(startDate, endDate);
+      const availableSlots = openSlots(calendar, slots.filter(hasCapacity));
       
       res.json(availableSlots);
     } catch (error) {
@@ -813,24 +2367,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/timeslots", isAuthenticated, async (req, res) => {
+  app.post("/api/timeslots", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const user = (req as any).user;
-      const userId = user.claims.sub;
-      
-      // Check user role from database instead of claims
-      const dbUser = await storage.getUser(userId);
-      console.log("Creating time slot - DB user role:", dbUser?.role);
-      console.log("Request body:", JSON.stringify(req.body, null, 2));
-      
-      if (dbUser?.role !== 'admin') {
-        console.log("Access denied - user is not admin in database");
-        return res.status(403).json({ message: "Admin access required" });
+      const provider = await storage.getProvider(req.body.providerId);
+      if (!provider) {
+        return res.status(400).json({ message: "A valid providerId is required" });
       }
       
-      console.log("Creating time slot with data:", req.body);
-      const timeSlot = await storage.createTimeSlot(req.body);
-      console.log("Time slot created successfully:", timeSlot);
+      const timeSlot = await storage.createTimeSlot({
+        ...req.body,
+        time: normalizeTime(req.body.time),
+        doctorName: provider.name,
+      });
+      publishChange(['timeslots'], timeSlot.date);
+      notifyCapacityFreed(timeSlot.date);
       res.status(201).json(timeSlot);
     } catch (error) {
       console.error("Error creating timeslot:", error);
@@ -841,22 +2391,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/timeslots/bulk", isAuthenticated, async (req, res) => {
+  app.post("/api/timeslots/bulk", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const user = (req as any).user;
-      if (user.claims.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const { timeSlots: slotsData } = req.body;
+      const providers = await storage.getProviders();
+      const providersById = new Map(providers.map(p => [p.id, p]));
+      if (slotsData.some((slotData: any) => !providersById.has(slotData.providerId))) {
+        return res.status(400).json({ message: "Every time slot needs a valid providerId" });
       }
       
-      const { timeSlots: slotsData } = req.body;
       const timeSlots = [];
       
       for (const slotData of slotsData) {
         const timeSlot = await storage.createTimeSlot({
           date: slotData.date,
-          time: slotData.time,
-          doctorName: slotData.doctorName,
-          isAvailable: slotData.isAvailable || true,
+          time: normalizeTime(slotData.time),
+          providerId: slotData.providerId,
+          doctorName: providersById.get(slotData.providerId)!.name,
           slotType: slotData.slotType || 'general',
           duration: slotData.duration || 30,
           maxBookings: slotData.maxBookings || 1,
@@ -865,6 +2416,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         timeSlots.push(timeSlot);
       }
       
+      publishChange(['timeslots'], ...timeSlots.map(slot => slot.date));
+      notifyCapacityFreed(...timeSlots.map(slot => slot.date));
       res.status(201).json(timeSlots);
     } catch (error) {
       console.error("Error creating bulk timeslots:", error);
@@ -872,22 +2425,407 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Helper function to convert time to 24-hour format
-  const convertTo24Hour = (time12h: string) => {
-    const [time, modifier] = time12h.split(' ');
-    let [hours, minutes] = time.split(':');
-    let hoursNum = parseInt(hours, 10);
-    
-    if (hoursNum === 12) {
-      hoursNum = 0;
+  // Schedule template routes
+  app.get("/api/schedule-templates", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const templates = await storage.getScheduleTemplates();
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching schedule templates:", error);
+      res.status(500).json({ message: "Failed to fetch schedule templates" });
+    }
+  });
+
+  app.post("/api/schedule-templates", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const parsed = insertScheduleTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const template = await storage.createScheduleTemplate(parsed.data);
+      res.status(201).json(template);
+    } catch (error) {
+      console.error("Error creating schedule template:", error);
+      res.status(500).json({ message: "Failed to create schedule template" });
+    }
+  });
+
+  app.put("/api/schedule-templates/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const parsed = insertScheduleTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const { id } = req.params;
+      const template = await storage.updateScheduleTemplate(id, parsed.data);
+      
+      if (!template) {
+        return res.status(404).json({ message: "Schedule template not found" });
+      }
+      
+      res.json(template);
+    } catch (error) {
+      console.error("Error updating schedule template:", error);
+      res.status(500).json({ message: "Failed to update schedule template" });
+    }
+  });
+
+  app.delete("/api/schedule-templates/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteScheduleTemplate(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting schedule template:", error);
+      res.status(500).json({ message: "Failed to delete schedule template" });
+    }
+  });
+
+  // Fill the horizon now instead of waiting for the daily run
+  app.post("/api/schedule-templates/generate", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.body?.days, 10) || 28, 1), 180);
+      const result = await generateTimeSlots(days);
+      res.json(result);
+    } catch (error) {
+      console.error("Error generating time slots:", error);
+      res.status(500).json({ message: "Failed to generate time slots" });
+    }
+  });
+
+  app.get("/api/schedule-exceptions", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const exceptions = await storage.getScheduleExceptions(practiceDate());
+      res.json(exceptions);
+    } catch (error) {
+      console.error("Error fetching schedule exceptions:", error);
+      res.status(500).json({ message: "Failed to fetch schedule exceptions" });
+    }
+  });
+
+  app.post("/api/schedule-exceptions", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const parsed = insertScheduleExceptionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const exception = await storage.createScheduleException(parsed.data);
+      const slotsCreated = await replanDay(exception.providerId, exception.date, exception);
+      if (slotsCreated > 0) notifyCapacityFreed(exception.date);
+      res.status(201).json({ ...exception, slotsCreated });
+    } catch (error) {
+      console.error("Error creating schedule exception:", error);
+      res.status(500).json({ message: "Failed to create schedule exception" });
+    }
+  });
+
+  app.delete("/api/schedule-exceptions/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const exception = await storage.deleteScheduleException(id);
+      
+      if (!exception) {
+        return res.status(404).json({ message: "Schedule exception not found" });
+      }
+      
+      // Put the day back on its regular template
+      const slotsCreated = await replanDay(exception.providerId, exception.date);
+      if (slotsCreated > 0) notifyCapacityFreed(exception.date);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting schedule exception:", error);
+      res.status(500).json({ message: "Failed to delete schedule exception" });
+    }
+  });
+
+  // Practice hours and closures
+  app.get("/api/practice-hours", async (req, res) => {
+    try {
+      const hours = await storage.getPracticeHours();
+      res.json(hours);
+    } catch (error) {
+      console.error("Error fetching practice hours:", error);
+      res.status(500).json({ message: "Failed to fetch practice hours" });
+    }
+  });
+
+  // Replaces the whole week; open slots on days that are now closed are removed
+  app.put("/api/practice-hours", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const parsed = z.array(insertPracticeHoursSchema).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      if (new Set(parsed.data.map(h => h.dayOfWeek)).size !== parsed.data.length) {
+        return res.status(400).json({ message: "Each weekday can only be listed once" });
+      }
+      
+      const hours = await storage.setPracticeHours(parsed.data);
+      const today = practiceDate();
+      const slotsCreated = await replanRange(today, horizonEnd());
+      if (slotsCreated > 0) notifyCapacityFreed(today, horizonEnd());
+      res.json(hours);
+    } catch (error) {
+      console.error("Error saving practice hours:", error);
+      res.status(500).json({ message: "Failed to save practice hours" });
+    }
+  });
+
+  app.get("/api/closures", async (req, res) => {
+    try {
+      const closures = await storage.getClosures(practiceDate());
+      res.json(closures);
+    } catch (error) {
+      console.error("Error fetching closures:", error);
+      res.status(500).json({ message: "Failed to fetch closures" });
+    }
+  });
+
+  // Responds with the appointments the closure lands on so staff can contact
+  // or rebook those patients
+  app.post("/api/closures", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const parsed = insertPracticeClosureSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const closure = await storage.createClosure({ ...parsed.data, createdBy: req.user.id });
+      await replanRange(closure.startDate, closure.endDate);
+      const affected = await getAffectedPatients(closure);
+      res.status(201).json({ ...closure, affected });
+    } catch (error) {
+      console.error("Error creating closure:", error);
+      res.status(500).json({ message: "Failed to create closure" });
+    }
+  });
+
+  app.delete("/api/closures/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const closure = await storage.deleteClosure(req.params.id);
+      if (!closure) {
+        return res.status(404).json({ message: "Closure not found" });
+      }
+      
+      const slotsCreated = await replanRange(closure.startDate, closure.endDate);
+      if (slotsCreated > 0) notifyCapacityFreed(closure.startDate, closure.endDate);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting closure:", error);
+      res.status(500).json({ message: "Failed to delete closure" });
+    }
+  });
+
+  app.get("/api/closures/:id/affected", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const closure = await storage.getClosure(req.params.id);
+      if (!closure) {
+        return res.status(404).json({ message: "Closure not found" });
+      }
+      
+      const affected = await getAffectedPatients(closure);
+      res.json(affected);
+    } catch (error) {
+      console.error("Error fetching affected appointments:", error);
+      res.status(500).json({ message: "Failed to fetch affected appointments" });
+    }
+  });
+
+  // Bulk rescheduling: cancels the affected appointments and waitlists each
+  // patient so they're offered the first suitable time after reopening
+  app.post("/api/closures/:id/rebook", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const closure = await storage.getClosure(req.params.id);
+      if (!closure) {
+        return res.status(404).json({ message: "Closure not found" });
+      }
+      
+      const result = await rebookAffected(closure, req.user.id);
+      if (result.waitlisted > 0) notifyCapacityFreed(result.earliestDate, result.latestDate);
+      res.json(result);
+    } catch (error) {
+      console.error("Error rebooking affected appointments:", error);
+      res.status(500).json({ message: "Failed to rebook affected appointments" });
+    }
+  });
+
+  // Waitlist routes
+  app.post("/api/waitlist", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const parsed = insertWaitlistEntrySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const procedures = await storage.getProcedures();
+      if (!procedures.some(p => p.id === parsed.data.procedureId)) {
+        return res.status(400).json({ message: "Unknown procedure" });
+      }
+      
+      const entry = await storage.createWaitlistEntry({ ...parsed.data, patientId: userId });
+      
+      // Something may already be free in the range the patient asked for
+      await offerOpenSlots(entry.earliestDate, entry.latestDate);
+      res.status(201).json(await storage.getWaitlistEntry(entry.id));
+    } catch (error) {
+      console.error("Error joining waitlist:", error);
+      res.status(500).json({ message: "Failed to join waitlist" });
+    }
+  });
+
+  app.get("/api/waitlist/mine", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const entries = await storage.getWaitlistEntries({ patientId: userId });
+      
+      // Open offers carry the slot they hold so the patient can decide on it
+      res.json(await Promise.all(entries.map(async entry => ({
+        ...entry,
+        offers: await Promise.all(entry.offers.map(async offer => {
+          if (offer.status !== 'pending') return offer;
+          const slot = await storage.getTimeSlot(offer.timeSlotIds[0]);
+          return { ...offer, date: slot?.date, time: slot?.time, doctorName: slot?.doctorName };
+        })),
+      }))));
+    } catch (error) {
+      console.error("Error fetching waitlist entries:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist entries" });
+    }
+  });
+
+  app.delete("/api/waitlist/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const entry = await storage.getWaitlistEntry(req.params.id);
+      if (!entry || entry.patientId !== userId) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+      
+      const wasOffered = entry.status === 'offered';
+      await storage.cancelWaitlistEntry(entry.id);
+      if (wasOffered) notifyCapacityFreed(entry.earliestDate, entry.latestDate);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error leaving waitlist:", error);
+      res.status(500).json({ message: "Failed to leave waitlist" });
+    }
+  });
+
+  app.post("/api/waitlist/offers/:id/accept", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const offer = await storage.getWaitlistOffer(req.params.id);
+      const entry = offer ? await storage.getWaitlistEntry(offer.waitlistEntryId) : undefined;
+      if (!offer || !entry || entry.patientId !== userId) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      
+      // Waitlist entries are only ever the patient's own
+      const appointment = await storage.acceptWaitlistOffer(offer.id, bookingRequirement(req.user));
+      if (!appointment) {
+        return res.status(409).json({ message: "This offer has expired or was already answered" });
+      }
+      publishChange(['appointments', 'timeslots'], appointment.appointmentDate);
+      
+      await storage.awardPoints(userId, 10, 'appointment_booked', 'Booked a new appointment');
+      res.status(201).json(appointment);
+    } catch (error) {
+      console.error("Error accepting waitlist offer:", error);
+      res.status(500).json({ message: "Failed to accept offer" });
+    }
+  });
+
+  app.post("/api/waitlist/offers/:id/decline", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const offer = await storage.getWaitlistOffer(req.params.id);
+      const entry = offer ? await storage.getWaitlistEntry(offer.waitlistEntryId) : undefined;
+      if (!offer || !entry || entry.patientId !== userId) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      
+      const declined = await storage.closeWaitlistOffer(offer.id, 'declined');
+      if (!declined) {
+        return res.status(409).json({ message: "This offer has expired or was already answered" });
+      }
+      
+      // The released slot goes to the next patient in line
+      publishChange(['timeslots']);
+      notifyCapacityFreed(entry.earliestDate, entry.latestDate);
+      res.json(declined);
+    } catch (error) {
+      console.error("Error declining waitlist offer:", error);
+      res.status(500).json({ message: "Failed to decline offer" });
+    }
+  });
+
+  app.get("/api/admin/waitlist", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const entries = await storage.getWaitlistEntries({ statuses: ['waiting', 'offered'] });
+      const users = await storage.getAllUsers();
+      const usersById = new Map(users.map(u => [u.id, u]));
+      
+      res.json(entries.map(entry => {
+        const patient = usersById.get(entry.patientId);
+        return {
+          ...entry,
+          patientName: patient ? displayName(patient) : 'Unknown patient',
+        };
+      }));
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist" });
+    }
+  });
+
+  // Front-desk schedule board
+  app.get("/api/admin/schedule/:startDate/:endDate", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { startDate, endDate } = req.params;
+      const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+      if (!isDate(startDate) || !isDate(endDate) || endDate < startDate) {
+        return res.status(400).json({ message: "Give a start and end date as YYYY-MM-DD, end on or after start" });
+      }
+      if (endDate > addDays(startDate, MAX_BOARD_DAYS - 1)) {
+        return res.status(400).json({ message: `The board shows at most ${MAX_BOARD_DAYS} days` });
+      }
+
+      const board = await loadScheduleBoard(startDate, endDate);
+      res.json(board);
+    } catch (error) {
+      console.error("Error fetching schedule board:", error);
+      res.status(500).json({ message: "Failed to fetch schedule board" });
+    }
+  });
+
+  // No-show routes
+  app.get("/api/admin/no-shows/summary", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(String(req.query.days), 10) || 30, 1), 365);
+      const summary = await getNoShowSummary(days);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching no-show summary:", error);
+      res.status(500).json({ message: "Failed to fetch no-show summary" });
     }
-    
-    if (modifier === 'PM') {
-      hoursNum = hoursNum + 12;
+  });
+
+  app.delete("/api/admin/patients/:id/no-show-flag", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const patient = await storage.clearNoShowFlag(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error clearing no-show flag:", error);
+      res.status(500).json({ message: "Failed to clear no-show flag" });
     }
-    
-    return `${String(hoursNum).padStart(2, '0')}:${minutes}:00`;
-  };
+  });
 
   // Reports routes
   app.get("/api/reports", isAuthenticated, async (req, res) => {
@@ -897,14 +2835,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Admin access required" });
       }
       
-      const { type, startDate, endDate } = req.query;
+      const { type, startDate, endDate, providerId } = req.query;
       
       let reportData = {};
       
       switch (type) {
         case 'appointments':
           const appointments = await storage.getAllAppointments();
+          const providers = await storage.getProviders(true);
+          const providerNames = new Map(providers.map(p => [p.id, p.name]));
           const filteredAppointments = appointments.filter((apt: any) => {
+            if (providerId && apt.providerId !== providerId) return false;
             if (startDate && endDate) {
               const aptDate = new Date(apt.appointmentDate);
               return aptDate >= new Date(startDate as string) && aptDate <= new Date(endDate as string);
@@ -922,7 +2863,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
               return acc;
             }, {}),
             appointmentsByDoctor: filteredAppointments.reduce((acc: any, apt: any) => {
-              acc[apt.doctorName] = (acc[apt.doctorName] || 0) + 1;
+              const name = providerNames.get(apt.providerId) || apt.doctorName;
+              acc[name] = (acc[name] || 0) + 1;
               return acc;
             }, {}),
             appointments: filteredAppointments
@@ -1077,5 +3019,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  attachLiveUpdates(httpServer);
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { storage } from "./storage";
+import { appointmentDuration } from "./availability";
+import { medicalAlertSummaries } from "./medical-history";
+import { displayName } from "./patient-profile";
+import { fromMinutes, toMinutes } from "@shared/datetime";
+import type { BoardAppointment } from "@shared/schedule-board";
+import type { PracticeHours, ProviderWithProcedures, TimeSlot } from "@shared/schema";
+
+// The front desk's view of a day or week: who is working, what is open and
+// what is booked, with every appointment's real length
+export interface ScheduleBoard {
+  startDate: string;
+  endDate: string;
+  providers: ProviderWithProcedures[];
+  slots: TimeSlot[];
+  appointments: BoardAppointment[];
+  hours: PracticeHours[];
+}
+
+export const MAX_BOARD_DAYS = 7;
+
+export async function loadScheduleBoard(startDate: string, endDate: string): Promise<ScheduleBoard> {
+  const [allProviders, slots, booked, procedures, hours] = await Promise.all([
+    storage.getProviders(true),
+    storage.getTimeSlotsInRange(startDate, endDate),
+    storage.getAppointmentsInRange(startDate, endDate),
+    storage.getProcedures(),
+    storage.getPracticeHours(),
+  ]);
+
+  // Cancelled appointments have given their time back, so they'd only clutter the grid
+  const active = booked.filter(appointment => appointment.status !== 'cancelled');
+
+  // Inactive providers still get a column while they have slots or patients in range
+  const working = new Set([...slots.map(s => s.providerId), ...active.map(a => a.providerId)]);
+  const providers = allProviders.filter(provider => provider.isActive || working.has(provider.id));
+
+  const patientIds = Array.from(new Set(active.map(a => a.patientId)));
+  const [patients, alerts] = await Promise.all([
+    Promise.all(patientIds.map(id => storage.getUser(id))),
+    medicalAlertSummaries(patientIds),
+  ]);
+
+  const appointments = active.map(appointment => {
+    const patient = patients[patientIds.indexOf(appointment.patientId)];
+    const durationMinutes = appointmentDuration(appointment, procedures);
+    return {
+      ...appointment,
+      patientName: patient ? displayName(patient) : 'Unknown patient',
+      durationMinutes,
+      endTime: fromMinutes(toMinutes(appointment.appointmentTime) + durationMinutes),
+      medicalAlerts: alerts[appointment.patientId] || null,
+    };
+  });
+
+  return { startDate, endDate, providers, slots, appointments, hours };
+}
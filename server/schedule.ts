@@ -0,0 +1,204 @@
+import { storage } from "./storage";
+import { addDays, fromMinutes, toMinutes, weekdayOf } from "@shared/datetime";
+import { loadPracticeCalendar, openSlots } from "./practice-calendar";
+import { practiceDate } from "./practice-time";
+import { publishChange } from "./live-updates";
+import type { InsertTimeSlot, Provider, ScheduleException, ScheduleTemplate } from "@shared/schema";
+
+const DEFAULT_HORIZON_DAYS = parseInt(process.env.SCHEDULE_HORIZON_DAYS || '28', 10);
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+interface DayWindow {
+  startTime: string;
+  endTime: string;
+  slotDuration: number;
+  breakStart?: string | null;
+  breakEnd?: string | null;
+  slotType: string;
+  maxBookings: number;
+}
+
+export interface GenerateResult {
+  created: number;
+  skippedDates: string[];
+}
+
+// Last date the generator keeps filled
+export function horizonEnd(from: Date = new Date()): string {
+  return addDays(practiceDate(from), DEFAULT_HORIZON_DAYS - 1);
+}
+
+// Cuts a window into back-to-back slots, leaving out anything that overlaps the break
+export function buildDaySlots(provider: Provider, date: string, window: DayWindow): InsertTimeSlot[] {
+  const slots: InsertTimeSlot[] = [];
+  const end = toMinutes(window.endTime);
+  const breakStart = window.breakStart ? toMinutes(window.breakStart) : undefined;
+  const breakEnd = window.breakEnd ? toMinutes(window.breakEnd) : undefined;
+
+  for (let start = toMinutes(window.startTime); start + window.slotDuration <= end; start += window.slotDuration) {
+    const slotEnd = start + window.slotDuration;
+    if (breakStart !== undefined && breakEnd !== undefined && start < breakEnd && slotEnd > breakStart) {
+      continue;
+    }
+
+    slots.push({
+      date,
+      time: fromMinutes(start),
+      providerId: provider.id,
+      doctorName: provider.name,
+      slotType: window.slotType,
+      duration: window.slotDuration,
+      maxBookings: window.maxBookings,
+      notes: '',
+    });
+  }
+
+  return slots;
+}
+
+function templateAppliesOn(template: ScheduleTemplate, date: string, weekday: number): boolean {
+  if (!template.daysOfWeek.includes(weekday)) return false;
+  if (template.effectiveFrom && date < template.effectiveFrom) return false;
+  if (template.effectiveUntil && date > template.effectiveUntil) return false;
+  return true;
+}
+
+// The slots a provider should have on one date, after applying any exception
+export function planDay(
+  provider: Provider,
+  date: string,
+  templates: ScheduleTemplate[],
+  exception?: ScheduleException,
+): InsertTimeSlot[] {
+  if (exception?.type === 'closed') return [];
+
+  const weekday = weekdayOf(date);
+  const providerTemplates = templates.filter(t => t.providerId === provider.id);
+  const todays = providerTemplates.filter(t => templateAppliesOn(t, date, weekday));
+
+  if (exception?.type === 'hours' && exception.startTime && exception.endTime) {
+    const base = todays[0] || providerTemplates[0];
+    return buildDaySlots(provider, date, {
+      startTime: exception.startTime,
+      endTime: exception.endTime,
+      slotDuration: base?.slotDuration || 30,
+      slotType: exception.slotType || base?.slotTypesByDay?.[String(weekday)] || base?.slotType || 'general',
+      maxBookings: base?.maxBookings || 1,
+    });
+  }
+
+  return todays.flatMap(template =>
+    buildDaySlots(provider, date, {
+      startTime: template.startTime,
+      endTime: template.endTime,
+      slotDuration: template.slotDuration,
+      breakStart: template.breakStart,
+      breakEnd: template.breakEnd,
+      slotType: template.slotTypesByDay?.[String(weekday)] || template.slotType || 'general',
+      maxBookings: template.maxBookings || 1,
+    })
+  );
+}
+
+// Materializes templates into time slots for the next `days` days. Any date a
+// provider already has slots on is left alone, so running this again is a no-op.
+// Nothing is created outside office hours or during a closure.
+export async function generateTimeSlots(days: number = DEFAULT_HORIZON_DAYS, from: Date = new Date()): Promise<GenerateResult> {
+  const startDate = practiceDate(from);
+  const endDate = addDays(startDate, days - 1);
+
+  const templates = await storage.getScheduleTemplates();
+  const exceptions = await storage.getScheduleExceptions(startDate, endDate);
+  const existing = await storage.getTimeSlotsInRange(startDate, endDate);
+  const providers = await storage.getProviders();
+  const calendar = await loadPracticeCalendar(startDate, endDate);
+
+  const scheduledDays = new Set(existing.map(slot => `${slot.providerId}|${slot.date}`));
+  const scheduledProviders = providers.filter(p =>
+    templates.some(t => t.providerId === p.id) || exceptions.some(e => e.providerId === p.id)
+  );
+
+  const result: GenerateResult = { created: 0, skippedDates: [] };
+  const toCreate: InsertTimeSlot[] = [];
+
+  for (let i = 0; i < days; i++) {
+    const date = addDays(startDate, i);
+
+    for (const provider of scheduledProviders) {
+      if (scheduledDays.has(`${provider.id}|${date}`)) {
+        result.skippedDates.push(`${date} (${provider.name})`);
+        continue;
+      }
+
+      const exception = exceptions.find(e => e.providerId === provider.id && e.date === date);
+      toCreate.push(...openSlots(calendar, planDay(provider, date, templates, exception)));
+    }
+  }
+
+  if (toCreate.length > 0) {
+    const created = await storage.createTimeSlots(toCreate);
+    result.created = created.length;
+    publishChange(['timeslots'], ...created.map(slot => slot.date));
+  }
+
+  return result;
+}
+
+// Re-plans one provider's day after an exception is added or removed. Booked
+// slots are kept; open ones are replaced by what the day now calls for.
+export async function replanDay(providerId: string, date: string, exception?: ScheduleException): Promise<number> {
+  const provider = await storage.getProvider(providerId);
+  if (!provider) return 0;
+
+  await storage.deleteUnbookedTimeSlots(providerId, date);
+  publishChange(['timeslots'], date);
+
+  const templates = await storage.getScheduleTemplates();
+  const calendar = await loadPracticeCalendar(date, date);
+  const remaining = (await storage.getTimeSlots(date)).filter(slot => slot.providerId === providerId);
+  const taken = new Set(remaining.map(slot => toMinutes(slot.time)));
+
+  const planned = openSlots(calendar, planDay(provider, date, templates, exception))
+    .filter(slot => !taken.has(toMinutes(slot.time)));
+
+  if (planned.length === 0) return 0;
+  const created = await storage.createTimeSlots(planned);
+  return created.length;
+}
+
+// Re-plans every scheduled provider's days in a range, e.g. after the practice's
+// hours or closures change
+export async function replanRange(startDate: string, endDate: string): Promise<number> {
+  const templates = await storage.getScheduleTemplates();
+  const exceptions = await storage.getScheduleExceptions(startDate, endDate);
+  const providers = await storage.getProviders();
+  const scheduledProviders = providers.filter(p =>
+    templates.some(t => t.providerId === p.id) || exceptions.some(e => e.providerId === p.id)
+  );
+
+  let created = 0;
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    for (const provider of scheduledProviders) {
+      const exception = exceptions.find(e => e.providerId === provider.id && e.date === date);
+      created += await replanDay(provider.id, date, exception);
+    }
+  }
+  return created;
+}
+
+// Keeps the rolling horizon filled: once at startup, then daily
+export function startScheduleGenerator() {
+  const run = async () => {
+    try {
+      const result = await generateTimeSlots();
+      if (result.created > 0) {
+        console.log(`Schedule generator created ${result.created} time slots`);
+      }
+    } catch (error) {
+      console.error("Error generating scheduled time slots:", error);
+    }
+  };
+
+  run();
+  setInterval(run, ONE_DAY_MS).unref();
+}
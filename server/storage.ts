@@ -2,12 +2,42 @@ import {
   users,
   appointments,
   teamMembers,
+  providers,
+  providerProcedures,
   resources,
   chatbotResponses,
   timeSlots,
+  appointmentTimeSlots,
+  appointmentChanges,
+  appointmentStatusHistory,
+  calendarFeeds,
+  guardianships,
+  patientProfiles,
+  medicalHistories,
+  toothChartEntries,
+  treatmentPlans,
+  treatmentPlanPhases,
+  treatmentPlanItems,
+  canTransition,
+  scheduleTemplates,
+  scheduleExceptions,
+  practiceHours,
+  practiceClosures,
+  waitlistEntries,
+  waitlistOffers,
   procedures,
   promotions,
   forms,
+  intakeForms,
+  intakeFormResponses,
+  consentTemplates,
+  signedConsents,
+  storedFiles,
+  recallTypes,
+  patientRecalls,
+  clinicalNoteTemplates,
+  clinicalNotes,
+  clinicalNoteAddenda,
   payments,
   patientPoints,
   achievements,
@@ -16,17 +46,65 @@ import {
   challenges,
   patientChallenges,
   type User,
+  type Dependent,
+  type PatientProfile,
+  type PatientProfileInput,
+  type MedicalHistory,
+  type MedicalHistoryInput,
+  type ToothChartEntry,
+  type InsertToothChartEntry,
+  type TreatmentPlan,
+  type TreatmentPlanPhase,
+  type TreatmentPlanItem,
+  type TreatmentPlanInput,
+  type TreatmentPlanStatus,
+  type IntakeForm,
+  type IntakeFormInput,
+  type IntakeFormResponse,
+  type IntakeAnswers,
+  type ConsentTemplate,
+  type ConsentTemplateInput,
+  type SignedConsent,
+  type SignedConsentRecord,
+  type StoredFile,
+  type RecallType,
+  type RecallTypeInput,
+  type PatientRecall,
+  type ClinicalNoteTemplate,
+  type ClinicalNoteTemplateInput,
+  type ClinicalNote,
+  type ClinicalNoteSections,
+  type ClinicalNoteAddendum,
+  type InsertDependent,
   type UpsertUser,
   type InsertAppointment,
   type Appointment,
+  type AppointmentChange,
+  type AppointmentStatusChange,
+  type CalendarFeed,
   type InsertTeamMember,
   type TeamMember,
+  type InsertProvider,
+  type Provider,
+  type ProviderWithProcedures,
   type InsertResource,
   type Resource,
   type InsertChatbotResponse,
   type ChatbotResponse,
   type InsertTimeSlot,
   type TimeSlot,
+  type InsertScheduleTemplate,
+  type ScheduleTemplate,
+  type InsertScheduleException,
+  type ScheduleException,
+  type InsertPracticeHours,
+  type PracticeHours,
+  type InsertPracticeClosure,
+  type PracticeClosure,
+  type InsertWaitlistEntry,
+  type WaitlistEntry,
+  type WaitlistOffer,
+  type WaitlistEntryWithOffers,
   type InsertProcedure,
   type Procedure,
   type InsertPromotion,
@@ -49,7 +127,12 @@ import {
   type InsertPatientChallenge,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, gte, desc, asc, sql, inArray } from "drizzle-orm";
+import { practiceDate } from "./practice-time";
+import { supersedes, uncoveredSurfaces } from "@shared/dental-chart";
+import type { PatientQuery, PatientSearchResult } from "@shared/patient-search";
+import { eq, ne, and, or, gte, lt, lte, desc, asc, sql, inArray, isNull, isNotNull, like, TransactionRollbackError, getTableColumns, type AnyColumn } from "drizzle-orm";
+
+export type CalendarFeedOwner = { patientId: string } | { providerId: string };
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
@@ -61,12 +144,67 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserByProviderId(provider: string, providerId: string): Promise<User | undefined>;
   
+  // Patient profile operations
+  getPatientProfile(userId: string): Promise<PatientProfile | undefined>;
+  savePatientProfile(userId: string, profile: PatientProfileInput, updatedBy: string): Promise<PatientProfile>;
+  
+  // Medical history operations
+  getMedicalHistories(patientId: string): Promise<MedicalHistory[]>;
+  getMedicalHistory(id: string): Promise<MedicalHistory | undefined>;
+  getLatestMedicalHistories(patientIds: string[]): Promise<MedicalHistory[]>;
+  createMedicalHistory(patientId: string, history: MedicalHistoryInput, submittedBy: string): Promise<MedicalHistory>;
+  reviewMedicalHistory(id: string, reviewedBy: string): Promise<MedicalHistory | undefined>;
+  
+  // Dental chart operations
+  getChartEntries(patientId: string): Promise<ToothChartEntry[]>;
+  addChartEntry(patientId: string, entry: InsertToothChartEntry, recordedBy: string): Promise<ToothChartEntry>;
+  resolveChartEntry(id: string, resolvedBy: string): Promise<ToothChartEntry | undefined>;
+  
+  // Treatment plan operations
+  getTreatmentPlans(patientId: string): Promise<TreatmentPlan[]>;
+  getTreatmentPlan(id: string): Promise<TreatmentPlan | undefined>;
+  getTreatmentPlanPhases(planIds: string[]): Promise<TreatmentPlanPhase[]>;
+  getTreatmentPlanItems(phaseIds: string[]): Promise<TreatmentPlanItem[]>;
+  getTreatmentPlanItem(id: string): Promise<(TreatmentPlanItem & { planId: string }) | undefined>;
+  getTreatmentPlanIdsForAppointment(appointmentId: string): Promise<string[]>;
+  createTreatmentPlan(patientId: string, plan: TreatmentPlanInput, createdBy: string): Promise<TreatmentPlan>;
+  replaceTreatmentPlan(id: string, plan: TreatmentPlanInput): Promise<TreatmentPlan | undefined>;
+  updateTreatmentPlanStatus(id: string, status: TreatmentPlanStatus, acceptedBy?: string): Promise<TreatmentPlan | undefined>;
+  deleteTreatmentPlan(id: string): Promise<boolean>;
+  linkTreatmentPlanItem(itemId: string, appointmentId: string): Promise<TreatmentPlanItem | undefined>;
+  
+  // Family operations
+  getDependents(guardianId: string): Promise<Dependent[]>;
+  getGuardians(dependentId: string): Promise<User[]>;
+  isGuardianOf(guardianId: string, dependentId: string): Promise<boolean>;
+  createDependent(guardianId: string, dependent: InsertDependent): Promise<Dependent>;
+  updateDependent(guardianId: string, dependentId: string, dependent: Partial<InsertDependent>): Promise<Dependent | undefined>;
+  removeDependent(guardianId: string, dependentId: string): Promise<boolean>;
+  
   // Appointment operations
   createAppointment(appointment: InsertAppointment): Promise<Appointment>;
+  bookAppointment(appointment: InsertAppointment, timeSlotIds: string[]): Promise<Appointment | undefined>;
+  getAppointment(id: string): Promise<Appointment | undefined>;
   getAppointmentsByPatient(patientId: string): Promise<Appointment[]>;
+  getAppointmentsByPatients(patientIds: string[]): Promise<Appointment[]>;
+  getAppointmentsByIds(ids: string[]): Promise<Appointment[]>;
   getAllAppointments(): Promise<Appointment[]>;
-  updateAppointmentStatus(id: string, status: string): Promise<Appointment | undefined>;
-  cleanupMissedAppointments(appointmentIds: string[]): Promise<{ count: number }>;
+  updateAppointmentStatus(id: string, status: string, change?: { changedBy?: string; reason?: string }): Promise<Appointment | undefined>;
+  rescheduleAppointment(id: string, timeSlotIds: string[], change: { changedBy: string; reason?: string }): Promise<Appointment | undefined>;
+  getAppointmentTimeSlotIds(appointmentId: string): Promise<string[]>;
+  getAppointmentChanges(appointmentId: string): Promise<AppointmentChange[]>;
+  countPatientReschedules(appointment: Appointment): Promise<number>;
+  getAppointmentStatusHistory(appointmentId: string): Promise<AppointmentStatusChange[]>;
+  getUnattendedAppointments(onOrBefore: string): Promise<Appointment[]>;
+  markNoShows(appointmentIds: string[], reason: string, flagThreshold: number): Promise<Appointment[]>;
+  getNoShowAppointments(since: string): Promise<Appointment[]>;
+  getFlaggedPatients(): Promise<User[]>;
+  clearNoShowFlag(userId: string): Promise<User | undefined>;
+  migrateLegacyStatuses(): Promise<number>;
+  migrateStaffBlocks(): Promise<number>;
+  getActiveAppointmentsInRange(startDate: string, endDate: string): Promise<Appointment[]>;
+  getAppointmentsByProvider(providerId: string, fromDate: string): Promise<Appointment[]>;
+  getAppointmentsInRange(startDate: string, endDate: string): Promise<Appointment[]>;
   
   // Team member operations
   createTeamMember(member: InsertTeamMember): Promise<TeamMember>;
@@ -74,6 +212,15 @@ export interface IStorage {
   updateTeamMember(id: string, member: Partial<InsertTeamMember>): Promise<TeamMember | undefined>;
   deleteTeamMember(id: string): Promise<void>;
   
+  // Provider operations
+  getProviders(includeInactive?: boolean): Promise<ProviderWithProcedures[]>;
+  getProvider(id: string): Promise<ProviderWithProcedures | undefined>;
+  getProviderForUser(userId: string): Promise<Provider | undefined>;
+  createProvider(provider: InsertProvider): Promise<ProviderWithProcedures>;
+  updateProvider(id: string, provider: Partial<InsertProvider>): Promise<ProviderWithProcedures | undefined>;
+  deleteProvider(id: string): Promise<void>;
+  migrateDoctorNamesToProviders(): Promise<number>;
+  
   // Resource operations
   createResource(resource: InsertResource): Promise<Resource>;
   getResources(): Promise<Resource[]>;
@@ -82,6 +229,8 @@ export interface IStorage {
   
   // Additional user operations
   getAllUsers(): Promise<User[]>;
+  getUsersByIds(ids: string[]): Promise<User[]>;
+  searchPatients(query: PatientQuery, limit: number): Promise<PatientSearchResult[]>;
   
   // Chatbot operations
   getChatbotResponses(): Promise<ChatbotResponse[]>;
@@ -92,10 +241,48 @@ export interface IStorage {
   
   // Time slot operations
   getTimeSlots(date: string): Promise<TimeSlot[]>;
+  getTimeSlot(id: string): Promise<TimeSlot | undefined>;
   createTimeSlot(slot: InsertTimeSlot): Promise<TimeSlot>;
   updateTimeSlot(id: string, updates: Partial<InsertTimeSlot>): Promise<TimeSlot | undefined>;
   deleteTimeSlot(id: string): Promise<void>;
   createTimeSlots(slots: InsertTimeSlot[]): Promise<TimeSlot[]>;
+  getTimeSlotsInRange(startDate: string, endDate: string): Promise<TimeSlot[]>;
+  deleteUnbookedTimeSlots(providerId: string, date: string): Promise<number>;
+  
+  // Schedule template operations
+  getScheduleTemplates(): Promise<ScheduleTemplate[]>;
+  createScheduleTemplate(template: InsertScheduleTemplate): Promise<ScheduleTemplate>;
+  updateScheduleTemplate(id: string, template: Partial<InsertScheduleTemplate>): Promise<ScheduleTemplate | undefined>;
+  deleteScheduleTemplate(id: string): Promise<void>;
+  getScheduleExceptions(startDate: string, endDate?: string): Promise<ScheduleException[]>;
+  createScheduleException(exception: InsertScheduleException): Promise<ScheduleException>;
+  deleteScheduleException(id: string): Promise<ScheduleException | undefined>;
+
+  // Practice calendar operations
+  getPracticeHours(): Promise<PracticeHours[]>;
+  setPracticeHours(hours: InsertPracticeHours[]): Promise<PracticeHours[]>;
+  getClosures(fromDate?: string): Promise<PracticeClosure[]>;
+  getClosure(id: string): Promise<PracticeClosure | undefined>;
+  getClosuresInRange(startDate: string, endDate: string): Promise<PracticeClosure[]>;
+  createClosure(closure: InsertPracticeClosure & { createdBy?: string }): Promise<PracticeClosure>;
+  deleteClosure(id: string): Promise<PracticeClosure | undefined>;
+
+  // Calendar feed operations
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  getCalendarFeed(owner: CalendarFeedOwner): Promise<CalendarFeed | undefined>;
+  replaceCalendarFeed(owner: CalendarFeedOwner, token: string): Promise<CalendarFeed>;
+  
+  // Waitlist operations
+  createWaitlistEntry(entry: InsertWaitlistEntry & { patientId: string }): Promise<WaitlistEntry>;
+  getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined>;
+  getWaitlistEntries(filter?: { patientId?: string; statuses?: string[] }): Promise<WaitlistEntryWithOffers[]>;
+  cancelWaitlistEntry(id: string): Promise<WaitlistEntry | undefined>;
+  expireStaleWaitlistEntries(today: string): Promise<number>;
+  getWaitlistOffer(id: string): Promise<WaitlistOffer | undefined>;
+  getExpiredWaitlistOffers(now: Date): Promise<WaitlistOffer[]>;
+  createWaitlistOffer(waitlistEntryId: string, timeSlotIds: string[], expiresAt: Date): Promise<WaitlistOffer | undefined>;
+  closeWaitlistOffer(id: string, status: 'declined' | 'expired'): Promise<WaitlistOffer | undefined>;
+  acceptWaitlistOffer(id: string, bookingRequirement?: string | null): Promise<Appointment | undefined>;
   
   // Procedure operations
   getProcedures(): Promise<Procedure[]>;
@@ -117,8 +304,63 @@ export interface IStorage {
   updateForm(id: string, form: Partial<InsertForm>): Promise<Form | undefined>;
   deleteForm(id: string): Promise<void>;
 
+  // Intake form operations
+  getIntakeForms(includeInactive?: boolean): Promise<IntakeForm[]>;
+  getIntakeForm(id: string): Promise<IntakeForm | undefined>;
+  createIntakeForm(form: IntakeFormInput): Promise<IntakeForm>;
+  updateIntakeForm(id: string, form: IntakeFormInput): Promise<IntakeForm | undefined>;
+  deleteIntakeForm(id: string): Promise<void>;
+  getIntakeResponses(patientIds: string[]): Promise<IntakeFormResponse[]>;
+  createIntakeResponse(form: IntakeForm, patientId: string, appointmentId: string | null, answers: IntakeAnswers, submittedBy: string): Promise<IntakeFormResponse>;
+
+  // Consent operations. Signed consents can only be added, never changed.
+  getConsentTemplates(includeInactive?: boolean): Promise<ConsentTemplate[]>;
+  getConsentTemplate(id: string): Promise<ConsentTemplate | undefined>;
+  createConsentTemplate(template: ConsentTemplateInput): Promise<ConsentTemplate>;
+  updateConsentTemplate(id: string, template: ConsentTemplateInput): Promise<ConsentTemplate | undefined>;
+  deleteConsentTemplate(id: string): Promise<void>;
+  getSignedConsents(appointmentIds: string[]): Promise<SignedConsentRecord[]>;
+  getSignedConsent(id: string): Promise<SignedConsent | undefined>;
+  createSignedConsent(consent: typeof signedConsents.$inferInsert): Promise<SignedConsent | undefined>;
+
+  // Stored file operations. The bytes are in the file store; these are the records.
+  getStoredFile(id: string): Promise<StoredFile | undefined>;
+  getPatientFiles(patientId: string): Promise<StoredFile[]>;
+  createStoredFile(file: typeof storedFiles.$inferInsert): Promise<StoredFile>;
+  deleteStoredFile(id: string): Promise<void>;
+  getTeamMembersWithInlineImages(): Promise<TeamMember[]>;
+
+  // Recall operations
+  getRecallTypes(includeInactive?: boolean): Promise<RecallType[]>;
+  getRecallType(id: string): Promise<RecallType | undefined>;
+  createRecallType(recallType: RecallTypeInput): Promise<RecallType>;
+  updateRecallType(id: string, recallType: RecallTypeInput): Promise<RecallType | undefined>;
+  deleteRecallType(id: string): Promise<void>;
+  getPatientRecall(id: string): Promise<PatientRecall | undefined>;
+  getPatientRecalls(filters: { dueFrom?: string; dueTo?: string; recallTypeId?: string; patientId?: string }): Promise<PatientRecall[]>;
+  recordRecallVisit(recall: { patientId: string; recallTypeId: string; lastVisitDate: string; lastAppointmentId: string | null; dueDate: string }): Promise<PatientRecall | undefined>;
+  setRecallDueDate(id: string, dueDate: string): Promise<PatientRecall | undefined>;
+  recordRecallNotice(id: string): Promise<PatientRecall | undefined>;
+  getCompletedAppointmentsByTreatment(treatmentTypes: string[]): Promise<Appointment[]>;
+
+  // Clinical note operations. Signed notes are never updated; corrections are addenda.
+  getClinicalNoteTemplates(includeInactive?: boolean): Promise<ClinicalNoteTemplate[]>;
+  getClinicalNoteTemplate(id: string): Promise<ClinicalNoteTemplate | undefined>;
+  createClinicalNoteTemplate(template: ClinicalNoteTemplateInput): Promise<ClinicalNoteTemplate>;
+  updateClinicalNoteTemplate(id: string, template: ClinicalNoteTemplateInput): Promise<ClinicalNoteTemplate | undefined>;
+  deleteClinicalNoteTemplate(id: string): Promise<void>;
+  getClinicalNote(id: string): Promise<ClinicalNote | undefined>;
+  getClinicalNoteForAppointment(appointmentId: string): Promise<ClinicalNote | undefined>;
+  getClinicalNotesByPatient(patientId: string): Promise<ClinicalNote[]>;
+  createClinicalNote(note: typeof clinicalNotes.$inferInsert): Promise<ClinicalNote | undefined>;
+  updateClinicalNoteDraft(id: string, sections: ClinicalNoteSections): Promise<ClinicalNote | undefined>;
+  signClinicalNote(id: string, signOff: { signedBy: string; signingProviderId: string; signingProviderName: string }): Promise<ClinicalNote | undefined>;
+  getClinicalNoteAddenda(noteIds: string[]): Promise<ClinicalNoteAddendum[]>;
+  createClinicalNoteAddendum(addendum: typeof clinicalNoteAddenda.$inferInsert): Promise<ClinicalNoteAddendum>;
+
   // Payment operations
   getPaymentsByPatientId(patientId: string): Promise<Payment[]>;
+  getPaymentsByPatientIds(patientIds: string[]): Promise<Payment[]>;
   createPayment(paymentData: InsertPayment): Promise<Payment>;
   getPayments(): Promise<Payment[]>;
   
@@ -136,6 +378,108 @@ export interface IStorage {
   createAchievement(achievement: InsertAchievement): Promise<Achievement>;
 }
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Phases and their items, numbered in the order given
+async function insertTreatmentPlanPhases(tx: Transaction, planId: string, phases: TreatmentPlanInput['phases']): Promise<void> {
+  for (let i = 0; i < phases.length; i++) {
+    const [phase] = await tx
+      .insert(treatmentPlanPhases)
+      .values({ planId, position: i + 1, name: phases[i].name })
+      .returning();
+    await tx.insert(treatmentPlanItems).values(phases[i].items.map((item, j) => ({
+      ...item,
+      phaseId: phase.id,
+      position: j + 1,
+      feeCents: item.feeCents ?? 0,
+    })));
+  }
+}
+
+// Takes one seat in each slot, rolling the transaction back if any is full or
+// blocked, and closes slots the booking fills. Slots are locked in a stable
+// order so overlapping runs can't deadlock.
+async function reserveSlots(tx: Transaction, timeSlotIds: string[]): Promise<TimeSlot[]> {
+  const reserved: TimeSlot[] = [];
+  for (const slotId of [...timeSlotIds].sort()) {
+    const [slot] = await tx
+      .update(timeSlots)
+      .set({
+        currentBookings: sql`coalesce(${timeSlots.currentBookings}, 0) + 1`,
+        isAvailable: sql`coalesce(${timeSlots.currentBookings}, 0) + 1 < coalesce(${timeSlots.maxBookings}, 1)`,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(timeSlots.id, slotId),
+          eq(timeSlots.blockedByStaff, false),
+          sql`coalesce(${timeSlots.currentBookings}, 0) < coalesce(${timeSlots.maxBookings}, 1)`
+        )
+      )
+      .returning();
+
+    if (!slot) tx.rollback();
+    reserved.push(slot);
+  }
+  return reserved;
+}
+
+// Gives back one seat in each slot, reopening it unless staff blocked it
+async function releaseSlots(tx: Transaction, timeSlotIds: string[]): Promise<void> {
+  if (timeSlotIds.length === 0) return;
+  await tx
+    .update(timeSlots)
+    .set({
+      currentBookings: sql`greatest(coalesce(${timeSlots.currentBookings}, 0) - 1, 0)`,
+      isAvailable: sql`not ${timeSlots.blockedByStaff}`,
+      updatedAt: new Date(),
+    })
+    .where(inArray(timeSlots.id, timeSlotIds));
+}
+
+// The slots an appointment holds. Bookings made before multi-slot runs only
+// have their starting slot.
+async function heldSlotIds(tx: Transaction | typeof db, appointment: Appointment): Promise<string[]> {
+  const reservations = await tx
+    .select({ timeSlotId: appointmentTimeSlots.timeSlotId })
+    .from(appointmentTimeSlots)
+    .where(eq(appointmentTimeSlots.appointmentId, appointment.id));
+  if (reservations.length > 0) return reservations.map(r => r.timeSlotId);
+  return appointment.timeSlotId ? [appointment.timeSlotId] : [];
+}
+
+// Inserts an appointment for seats already taken in `slots`
+async function insertBookedAppointment(
+  tx: Transaction,
+  appointment: InsertAppointment,
+  slots: TimeSlot[],
+  timeSlotIds: string[],
+): Promise<Appointment> {
+  const first = slots.find(slot => slot.id === timeSlotIds[0])!;
+  const [newAppointment] = await tx
+    .insert(appointments)
+    .values({
+      ...appointment,
+      timeSlotId: first.id,
+      providerId: first.providerId,
+      doctorName: first.doctorName,
+      appointmentDate: first.date,
+      appointmentTime: first.time,
+    })
+    .returning();
+
+  await tx
+    .insert(appointmentTimeSlots)
+    .values(timeSlotIds.map(timeSlotId => ({ appointmentId: newAppointment.id, timeSlotId })));
+  await tx.insert(appointmentStatusHistory).values({
+    appointmentId: newAppointment.id,
+    toStatus: newAppointment.status,
+    changedBy: newAppointment.patientId,
+  });
+
+  return newAppointment;
+}
+
 export class DatabaseStorage implements IStorage {
   // User operations
   async getUser(id: string): Promise<User | undefined> {
@@ -204,275 +548,1461 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users);
   }
 
-  // Appointment operations
-  async createAppointment(appointment: InsertAppointment): Promise<Appointment> {
-    const [newAppointment] = await db
-      .insert(appointments)
-      .values(appointment)
-      .returning();
-    return newAppointment;
+  async getUsersByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(users).where(inArray(users.id, ids));
   }
 
-  async getAppointmentsByPatient(patientId: string): Promise<Appointment[]> {
+  // Each kind of query uses the matching expression index on users or
+  // patient_profiles, so these must stay in step with the schema
+  async searchPatients(query: PatientQuery, limit: number): Promise<PatientSearchResult[]> {
+    const startsWith = (text: string) => `${text.replace(/[\\%_]/g, '\\$&')}%`;
+    const lower = (column: AnyColumn) => sql`lower(${column})`;
+    const digits = (column: AnyColumn) => sql`regexp_replace(${column}, '[^0-9]', '', 'g')`;
+
+    let match;
+    switch (query.kind) {
+      case 'dob':
+        match = eq(patientProfiles.dateOfBirth, query.date);
+        break;
+      case 'email':
+        match = like(lower(users.email), startsWith(query.prefix));
+        break;
+      case 'phone':
+        match = or(
+          like(digits(patientProfiles.mobilePhone), startsWith(query.digits)),
+          like(digits(patientProfiles.homePhone), startsWith(query.digits)),
+        );
+        break;
+      case 'name':
+        // Every word has to start a first or last name; a single word can
+        // also start an email
+        match = and(...query.tokens.map(token => or(
+          like(lower(users.firstName), startsWith(token)),
+          like(lower(users.lastName), startsWith(token)),
+          query.tokens.length === 1 ? like(lower(users.email), startsWith(token)) : undefined,
+        )));
+        break;
+    }
+
     return await db
-      .select()
-      .from(appointments)
-      .where(eq(appointments.patientId, patientId))
-      .orderBy(desc(appointments.appointmentDate));
+      .select({
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        dateOfBirth: patientProfiles.dateOfBirth,
+        mobilePhone: patientProfiles.mobilePhone,
+        homePhone: patientProfiles.homePhone,
+      })
+      .from(users)
+      .leftJoin(patientProfiles, eq(patientProfiles.userId, users.id))
+      .where(and(eq(users.role, 'patient'), match))
+      .orderBy(asc(users.lastName), asc(users.firstName))
+      .limit(limit);
   }
 
-  async getAllAppointments(): Promise<Appointment[]> {
+  // Patient profile operations
+  async getPatientProfile(userId: string): Promise<PatientProfile | undefined> {
+    const [profile] = await db.select().from(patientProfiles).where(eq(patientProfiles.userId, userId));
+    return profile;
+  }
+
+  // Names live on the user record, so they're saved alongside the profile
+  async savePatientProfile(userId: string, { firstName, lastName, ...profile }: PatientProfileInput, updatedBy: string): Promise<PatientProfile> {
+    return await db.transaction(async (tx) => {
+      if (firstName !== undefined || lastName !== undefined) {
+        await tx.update(users).set({ firstName, lastName, updatedAt: new Date() }).where(eq(users.id, userId));
+      }
+
+      const values = { ...profile, updatedBy, updatedAt: new Date() };
+      const [saved] = await tx
+        .insert(patientProfiles)
+        .values({ ...values, userId })
+        .onConflictDoUpdate({ target: patientProfiles.userId, set: values })
+        .returning();
+      return saved;
+    });
+  }
+
+  // Medical history operations
+  // Newest version first
+  async getMedicalHistories(patientId: string): Promise<MedicalHistory[]> {
     return await db
       .select()
-      .from(appointments)
-      .orderBy(desc(appointments.appointmentDate));
+      .from(medicalHistories)
+      .where(eq(medicalHistories.patientId, patientId))
+      .orderBy(desc(medicalHistories.version));
   }
 
-  async updateAppointmentStatus(id: string, status: string): Promise<Appointment | undefined> {
-    const [updated] = await db
-      .update(appointments)
-      .set({ status, updatedAt: new Date() })
-      .where(eq(appointments.id, id))
-      .returning();
-    return updated;
+  async getMedicalHistory(id: string): Promise<MedicalHistory | undefined> {
+    const [history] = await db.select().from(medicalHistories).where(eq(medicalHistories.id, id));
+    return history;
   }
 
-  // Cleanup missed appointments
-  async cleanupMissedAppointments(appointmentIds: string[]): Promise<{ count: number }> {
-    const result = await db
-      .update(appointments)
-      .set({ status: 'missed' })
-      .where(inArray(appointments.id, appointmentIds))
-      .returning({ id: appointments.id });
-    
-    return { count: result.length };
+  // The current version for each patient that has one
+  async getLatestMedicalHistories(patientIds: string[]): Promise<MedicalHistory[]> {
+    if (patientIds.length === 0) return [];
+    return await db
+      .selectDistinctOn([medicalHistories.patientId])
+      .from(medicalHistories)
+      .where(inArray(medicalHistories.patientId, patientIds))
+      .orderBy(medicalHistories.patientId, desc(medicalHistories.version));
   }
 
-  // Team member operations
-  async createTeamMember(member: InsertTeamMember): Promise<TeamMember> {
-    const [newMember] = await db
-      .insert(teamMembers)
-      .values(member)
+  async createMedicalHistory(patientId: string, history: MedicalHistoryInput, submittedBy: string): Promise<MedicalHistory> {
+    return await db.transaction(async (tx) => {
+      // Lock the patient so two submissions can't both claim the next version
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, patientId)).for('update');
+      const [latest] = await tx
+        .select({ version: medicalHistories.version })
+        .from(medicalHistories)
+        .where(eq(medicalHistories.patientId, patientId))
+        .orderBy(desc(medicalHistories.version))
+        .limit(1);
+
+      const [created] = await tx
+        .insert(medicalHistories)
+        .values({ ...history, patientId, version: (latest?.version || 0) + 1, submittedBy })
+        .returning();
+      return created;
+    });
+  }
+
+  async reviewMedicalHistory(id: string, reviewedBy: string): Promise<MedicalHistory | undefined> {
+    const [reviewed] = await db
+      .update(medicalHistories)
+      .set({ reviewedBy, reviewedAt: new Date() })
+      .where(eq(medicalHistories.id, id))
       .returning();
-    return newMember;
+    return reviewed;
   }
 
-  async getTeamMembers(): Promise<TeamMember[]> {
+  // Dental chart operations
+  // Open and resolved entries, oldest first
+  async getChartEntries(patientId: string): Promise<ToothChartEntry[]> {
     return await db
       .select()
-      .from(teamMembers)
-      .where(eq(teamMembers.isActive, true))
-      .orderBy(asc(teamMembers.displayOrder));
+      .from(toothChartEntries)
+      .where(eq(toothChartEntries.patientId, patientId))
+      .orderBy(asc(toothChartEntries.recordedAt));
   }
 
-  async updateTeamMember(id: string, member: Partial<InsertTeamMember>): Promise<TeamMember | undefined> {
-    const [updated] = await db
-      .update(teamMembers)
-      .set({ ...member, updatedAt: new Date() })
-      .where(eq(teamMembers.id, id))
-      .returning();
-    return updated;
-  }
+  // Records the entry and resolves the open ones on that tooth it replaces
+  async addChartEntry(patientId: string, entry: InsertToothChartEntry, recordedBy: string): Promise<ToothChartEntry> {
+    return await db.transaction(async (tx) => {
+      const open = await tx
+        .select()
+        .from(toothChartEntries)
+        .where(and(
+          eq(toothChartEntries.patientId, patientId),
+          eq(toothChartEntries.tooth, entry.tooth),
+          isNull(toothChartEntries.resolvedAt),
+        ))
+        .for('update');
+
+      const now = new Date();
+      const replaced = open.filter(existing => supersedes(entry, existing));
+      if (replaced.length > 0) {
+        await tx
+          .update(toothChartEntries)
+          .set({ resolvedAt: now, resolvedBy: recordedBy })
+          .where(inArray(toothChartEntries.id, replaced.map(existing => existing.id)));
+
+        // Carry forward the surfaces the new entry didn't cover
+        const remainders = replaced
+          .map(({ id, recordedAt, resolvedAt, resolvedBy, ...existing }) => ({
+            ...existing,
+            surfaces: uncoveredSurfaces(entry, existing),
+            recordedBy,
+            recordedAt: now,
+          }))
+          .filter(remainder => remainder.surfaces.length > 0);
+        if (remainders.length > 0) {
+          await tx.insert(toothChartEntries).values(remainders);
+        }
+      }
 
-  async deleteTeamMember(id: string): Promise<void> {
-    await db
-      .update(teamMembers)
-      .set({ isActive: false, updatedAt: new Date() })
-      .where(eq(teamMembers.id, id));
+      const [created] = await tx
+        .insert(toothChartEntries)
+        .values({ ...entry, patientId, recordedBy, recordedAt: now })
+        .returning();
+      return created;
+    });
   }
 
-  // Resource operations
-  async createResource(resource: InsertResource): Promise<Resource> {
-    const [newResource] = await db
-      .insert(resources)
-      .values(resource)
+  async resolveChartEntry(id: string, resolvedBy: string): Promise<ToothChartEntry | undefined> {
+    const [resolved] = await db
+      .update(toothChartEntries)
+      .set({ resolvedAt: new Date(), resolvedBy })
+      .where(and(eq(toothChartEntries.id, id), isNull(toothChartEntries.resolvedAt)))
       .returning();
-    return newResource;
+    return resolved;
   }
 
-  async getResources(): Promise<Resource[]> {
+  // Treatment plan operations
+  // Newest first
+  async getTreatmentPlans(patientId: string): Promise<TreatmentPlan[]> {
     return await db
       .select()
-      .from(resources)
-      .where(eq(resources.isActive, true))
-      .orderBy(asc(resources.displayOrder));
+      .from(treatmentPlans)
+      .where(eq(treatmentPlans.patientId, patientId))
+      .orderBy(desc(treatmentPlans.createdAt));
   }
 
-  async updateResource(id: string, resource: Partial<InsertResource>): Promise<Resource | undefined> {
-    const [updated] = await db
-      .update(resources)
-      .set({ ...resource, updatedAt: new Date() })
-      .where(eq(resources.id, id))
-      .returning();
-    return updated;
+  async getTreatmentPlan(id: string): Promise<TreatmentPlan | undefined> {
+    const [plan] = await db.select().from(treatmentPlans).where(eq(treatmentPlans.id, id));
+    return plan;
   }
 
-  async deleteResource(id: string): Promise<void> {
-    await db
-      .update(resources)
-      .set({ isActive: false, updatedAt: new Date() })
-      .where(eq(resources.id, id));
+  async getTreatmentPlanPhases(planIds: string[]): Promise<TreatmentPlanPhase[]> {
+    if (planIds.length === 0) return [];
+    return await db
+      .select()
+      .from(treatmentPlanPhases)
+      .where(inArray(treatmentPlanPhases.planId, planIds))
+      .orderBy(asc(treatmentPlanPhases.position));
   }
 
-  // Chatbot operations
-  async getChatbotResponses(): Promise<ChatbotResponse[]> {
+  async getTreatmentPlanItems(phaseIds: string[]): Promise<TreatmentPlanItem[]> {
+    if (phaseIds.length === 0) return [];
     return await db
       .select()
-      .from(chatbotResponses)
-      .where(eq(chatbotResponses.isActive, true));
+      .from(treatmentPlanItems)
+      .where(inArray(treatmentPlanItems.phaseId, phaseIds))
+      .orderBy(asc(treatmentPlanItems.position));
   }
 
-  async findChatbotResponse(keywords: string[]): Promise<ChatbotResponse | undefined> {
-    const responses = await this.getChatbotResponses();
-    
-    // Simple keyword matching - find response with most matching keywords
-    let bestMatch: ChatbotResponse | undefined;
-    let bestScore = 0;
-    
-    for (const response of responses) {
-      let score = 0;
-      const responseKeywords = response.keywords || [];
-      
-      for (const keyword of keywords) {
-        if (responseKeywords.some(k => k.toLowerCase().includes(keyword.toLowerCase()))) {
-          score++;
-        }
-        if (response.question.toLowerCase().includes(keyword.toLowerCase())) {
-          score++;
-        }
-      }
-      
-      if (score > bestScore) {
-        bestScore = score;
-        bestMatch = response;
-      }
-    }
-    
-    return bestMatch;
+  async getTreatmentPlanItem(id: string): Promise<(TreatmentPlanItem & { planId: string }) | undefined> {
+    const [row] = await db
+      .select({ item: treatmentPlanItems, planId: treatmentPlanPhases.planId })
+      .from(treatmentPlanItems)
+      .innerJoin(treatmentPlanPhases, eq(treatmentPlanItems.phaseId, treatmentPlanPhases.id))
+      .where(eq(treatmentPlanItems.id, id));
+    return row ? { ...row.item, planId: row.planId } : undefined;
   }
 
-  async createChatbotResponse(responseData: InsertChatbotResponse): Promise<ChatbotResponse> {
-    const [response] = await db
-      .insert(chatbotResponses)
-      .values(responseData)
-      .returning();
-    return response;
+  async getTreatmentPlanIdsForAppointment(appointmentId: string): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ planId: treatmentPlanPhases.planId })
+      .from(treatmentPlanItems)
+      .innerJoin(treatmentPlanPhases, eq(treatmentPlanItems.phaseId, treatmentPlanPhases.id))
+      .where(eq(treatmentPlanItems.appointmentId, appointmentId));
+    return rows.map(row => row.planId);
   }
 
-  async updateChatbotResponse(id: string, responseData: Partial<InsertChatbotResponse>): Promise<ChatbotResponse | undefined> {
+  async createTreatmentPlan(patientId: string, { phases, ...plan }: TreatmentPlanInput, createdBy: string): Promise<TreatmentPlan> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(treatmentPlans)
+        .values({ ...plan, patientId, createdBy })
+        .returning();
+      await insertTreatmentPlanPhases(tx, created.id, phases);
+      return created;
+    });
+  }
+
+  // Rewrites a plan that hasn't been accepted yet; undefined once it has
+  async replaceTreatmentPlan(id: string, { phases, ...plan }: TreatmentPlanInput): Promise<TreatmentPlan | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(treatmentPlans)
+        .set({ ...plan, updatedAt: new Date() })
+        .where(and(eq(treatmentPlans.id, id), eq(treatmentPlans.status, 'proposed')))
+        .returning();
+      if (!updated) return undefined;
+
+      await tx.delete(treatmentPlanPhases).where(eq(treatmentPlanPhases.planId, id));
+      await insertTreatmentPlanPhases(tx, id, phases);
+      return updated;
+    });
+  }
+
+  async updateTreatmentPlanStatus(id: string, status: TreatmentPlanStatus, acceptedBy?: string): Promise<TreatmentPlan | undefined> {
     const [updated] = await db
-      .update(chatbotResponses)
-      .set({ ...responseData, updatedAt: new Date() })
-      .where(eq(chatbotResponses.id, id))
+      .update(treatmentPlans)
+      .set({
+        status,
+        ...(acceptedBy ? { acceptedBy, acceptedAt: new Date() } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(treatmentPlans.id, id))
       .returning();
     return updated;
   }
 
-  async deleteChatbotResponse(id: string): Promise<void> {
-    await db
-      .update(chatbotResponses)
-      .set({ isActive: false, updatedAt: new Date() })
-      .where(eq(chatbotResponses.id, id));
+  async deleteTreatmentPlan(id: string): Promise<boolean> {
+    const deleted = await db.delete(treatmentPlans).where(eq(treatmentPlans.id, id)).returning();
+    return deleted.length > 0;
   }
 
-  // Time slot operations
-  async getTimeSlots(date: string): Promise<TimeSlot[]> {
-    return await db
-      .select()
-      .from(timeSlots)
-      .where(eq(timeSlots.date, date))
-      .orderBy(asc(timeSlots.time));
+  async linkTreatmentPlanItem(itemId: string, appointmentId: string): Promise<TreatmentPlanItem | undefined> {
+    const [linked] = await db
+      .update(treatmentPlanItems)
+      .set({ appointmentId })
+      .where(eq(treatmentPlanItems.id, itemId))
+      .returning();
+    return linked;
   }
 
-  async createTimeSlot(slotData: InsertTimeSlot): Promise<TimeSlot> {
-    const [slot] = await db
-      .insert(timeSlots)
-      .values(slotData)
-      .returning();
-    return slot;
+  // Family operations
+  async getDependents(guardianId: string): Promise<Dependent[]> {
+    const rows = await db
+      .select({ user: users, relationship: guardianships.relationship })
+      .from(guardianships)
+      .innerJoin(users, eq(guardianships.dependentId, users.id))
+      .where(eq(guardianships.guardianId, guardianId))
+      .orderBy(asc(users.firstName));
+    return rows.map(row => ({ ...row.user, relationship: row.relationship }));
   }
 
-  async updateTimeSlot(id: string, updates: Partial<InsertTimeSlot>): Promise<TimeSlot | undefined> {
-    const [updated] = await db
-      .update(timeSlots)
-      .set(updates)
-      .where(eq(timeSlots.id, id))
-      .returning();
-    return updated;
+  async getGuardians(dependentId: string): Promise<User[]> {
+    const rows = await db
+      .select({ user: users })
+      .from(guardianships)
+      .innerJoin(users, eq(guardianships.guardianId, users.id))
+      .where(eq(guardianships.dependentId, dependentId));
+    return rows.map(row => row.user);
   }
 
-  async deleteTimeSlot(id: string): Promise<void> {
-    await db
-      .delete(timeSlots)
-      .where(eq(timeSlots.id, id));
+  async isGuardianOf(guardianId: string, dependentId: string): Promise<boolean> {
+    const [link] = await db
+      .select({ id: guardianships.id })
+      .from(guardianships)
+      .where(and(eq(guardianships.guardianId, guardianId), eq(guardianships.dependentId, dependentId)));
+    return !!link;
   }
 
-  async createTimeSlots(slots: InsertTimeSlot[]): Promise<TimeSlot[]> {
-    return await db
-      .insert(timeSlots)
-      .values(slots)
-      .returning();
+  // The dependent gets a patient record with no email or password, so nobody
+  // can log in as them
+  async createDependent(guardianId: string, { relationship, ...profile }: InsertDependent): Promise<Dependent> {
+    return await db.transaction(async (tx) => {
+      const [dependent] = await tx
+        .insert(users)
+        .values({ ...profile, role: 'patient' })
+        .returning();
+      await tx.insert(guardianships).values({ guardianId, dependentId: dependent.id, relationship });
+      return { ...dependent, relationship };
+    });
   }
 
-  // Procedure operations
-  async getProcedures(): Promise<Procedure[]> {
-    return await db
-      .select()
-      .from(procedures)
-      .where(eq(procedures.isActive, true))
-      .orderBy(asc(procedures.displayOrder), asc(procedures.name));
+  async updateDependent(guardianId: string, dependentId: string, { relationship, ...profile }: Partial<InsertDependent>): Promise<Dependent | undefined> {
+    return await db.transaction(async (tx) => {
+      const linkFilter = and(eq(guardianships.guardianId, guardianId), eq(guardianships.dependentId, dependentId));
+      const [link] = relationship
+        ? await tx.update(guardianships).set({ relationship }).where(linkFilter).returning()
+        : await tx.select().from(guardianships).where(linkFilter);
+      if (!link) return undefined;
+
+      const [dependent] = Object.keys(profile).length > 0
+        ? await tx.update(users).set({ ...profile, updatedAt: new Date() }).where(eq(users.id, dependentId)).returning()
+        : await tx.select().from(users).where(eq(users.id, dependentId));
+      return { ...dependent, relationship: link.relationship };
+    });
   }
 
-  async createProcedure(procedureData: InsertProcedure): Promise<Procedure> {
-    const [procedure] = await db
-      .insert(procedures)
-      .values(procedureData)
+  // Only unlinks; the patient record and its history stay with the practice
+  async removeDependent(guardianId: string, dependentId: string): Promise<boolean> {
+    const removed = await db
+      .delete(guardianships)
+      .where(and(eq(guardianships.guardianId, guardianId), eq(guardianships.dependentId, dependentId)))
       .returning();
-    return procedure;
+    return removed.length > 0;
   }
 
-  async updateProcedure(id: string, procedureData: Partial<InsertProcedure>): Promise<Procedure | undefined> {
-    const [updated] = await db
-      .update(procedures)
-      .set({ ...procedureData, updatedAt: new Date() })
-      .where(eq(procedures.id, id))
-      .returning();
-    return updated;
+  // Appointment operations
+  async createAppointment(appointment: InsertAppointment): Promise<Appointment> {
+    return await db.transaction(async (tx) => {
+      const [newAppointment] = await tx
+        .insert(appointments)
+        .values(appointment)
+        .returning();
+      await tx.insert(appointmentStatusHistory).values({
+        appointmentId: newAppointment.id,
+        toStatus: newAppointment.status,
+        changedBy: newAppointment.patientId,
+      });
+      return newAppointment;
+    });
   }
 
-  async deleteProcedure(id: string): Promise<void> {
-    await db
-      .update(procedures)
-      .set({ isActive: false, updatedAt: new Date() })
-      .where(eq(procedures.id, id));
+  // Books an appointment into every slot of its run. Capacity on all slots is
+  // claimed in the same transaction as the insert; if any slot is full nothing
+  // is reserved and undefined is returned.
+  async bookAppointment(appointment: InsertAppointment, timeSlotIds: string[]): Promise<Appointment | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const reserved = await reserveSlots(tx, timeSlotIds);
+        return await insertBookedAppointment(tx, appointment, reserved, timeSlotIds);
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
   }
 
-  // Promotion operations
-  async getPromotions(): Promise<Promotion[]> {
+  async getAppointment(id: string): Promise<Appointment | undefined> {
+    const [appointment] = await db.select().from(appointments).where(eq(appointments.id, id));
+    return appointment;
+  }
+
+  async getAppointmentsByPatient(patientId: string): Promise<Appointment[]> {
     return await db
       .select()
-      .from(promotions)
-      .where(eq(promotions.isActive, true))
-      .orderBy(asc(promotions.displayOrder), desc(promotions.validUntil));
+      .from(appointments)
+      .where(eq(appointments.patientId, patientId))
+      .orderBy(desc(appointments.appointmentDate));
   }
 
-  async getActivePromotions(): Promise<Promotion[]> {
-    const currentDate = new Date().toISOString().split('T')[0];
+  async getAppointmentsByPatients(patientIds: string[]): Promise<Appointment[]> {
+    if (patientIds.length === 0) return [];
     return await db
       .select()
-      .from(promotions)
-      .where(
-        and(
-          eq(promotions.isActive, true),
-          gte(promotions.validUntil, currentDate)
-        )
-      )
-      .orderBy(asc(promotions.displayOrder));
+      .from(appointments)
+      .where(inArray(appointments.patientId, patientIds))
+      .orderBy(desc(appointments.appointmentDate));
   }
 
-  async createPromotion(promotionData: InsertPromotion): Promise<Promotion> {
-    const [promotion] = await db
-      .insert(promotions)
+  async getAppointmentsByIds(ids: string[]): Promise<Appointment[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(appointments).where(inArray(appointments.id, ids));
+  }
+
+  async getAllAppointments(): Promise<Appointment[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .orderBy(desc(appointments.appointmentDate));
+  }
+
+  // Moves an appointment along its lifecycle. Returns undefined if it doesn't
+  // exist or the move isn't allowed from its current status.
+  async updateAppointmentStatus(id: string, status: string, change: { changedBy?: string; reason?: string } = {}): Promise<Appointment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(appointments)
+        .where(eq(appointments.id, id))
+        .for('update');
+
+      if (!current || !canTransition(current.status, status)) return undefined;
+
+      const [updated] = await tx
+        .update(appointments)
+        .set({
+          status,
+          // Confirming is how staff record that a flagged patient's requirement was met
+          ...(status === 'confirmed' ? { bookingRequirement: null } : {}),
+          calendarSequence: sql`${appointments.calendarSequence} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(appointments.id, id))
+        .returning();
+
+      await tx.insert(appointmentStatusHistory).values({
+        appointmentId: id,
+        fromStatus: current.status,
+        toStatus: status,
+        changedBy: change.changedBy,
+        reason: change.reason,
+      });
+
+      if (status === 'cancelled') {
+        await releaseSlots(tx, await heldSlotIds(tx, current));
+        await tx.insert(appointmentChanges).values({
+          appointmentId: id,
+          changedBy: change.changedBy,
+          action: 'cancelled',
+          previousDate: current.appointmentDate,
+          previousTime: current.appointmentTime,
+          reason: change.reason,
+        });
+      }
+
+      return updated;
+    });
+  }
+
+  // Moves an appointment onto a new run of slots. The old seats are given back
+  // and the new ones taken in one transaction, so a failed move leaves the
+  // original booking untouched. Returns undefined if a new slot is full, or if
+  // the appointment was cancelled or moved on before the lock was taken.
+  async rescheduleAppointment(id: string, timeSlotIds: string[], change: { changedBy: string; reason?: string }): Promise<Appointment | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select()
+          .from(appointments)
+          .where(eq(appointments.id, id))
+          .for('update');
+        if (!current || !['pending', 'confirmed'].includes(current.status)) return undefined;
+
+        await releaseSlots(tx, await heldSlotIds(tx, current));
+        await tx.delete(appointmentTimeSlots).where(eq(appointmentTimeSlots.appointmentId, id));
+
+        const reserved = await reserveSlots(tx, timeSlotIds);
+        const first = reserved.find(slot => slot.id === timeSlotIds[0])!;
+
+        const [updated] = await tx
+          .update(appointments)
+          .set({
+            timeSlotId: first.id,
+            providerId: first.providerId,
+            doctorName: first.doctorName,
+            appointmentDate: first.date,
+            appointmentTime: first.time,
+            calendarSequence: sql`${appointments.calendarSequence} + 1`,
+            updatedAt: new Date(),
+          })
+          .where(eq(appointments.id, id))
+          .returning();
+
+        await tx
+          .insert(appointmentTimeSlots)
+          .values(timeSlotIds.map(timeSlotId => ({ appointmentId: id, timeSlotId })));
+        await tx.insert(appointmentChanges).values({
+          appointmentId: id,
+          changedBy: change.changedBy,
+          action: 'rescheduled',
+          previousDate: current.appointmentDate,
+          previousTime: current.appointmentTime,
+          newDate: first.date,
+          newTime: first.time,
+          reason: change.reason,
+        });
+
+        return updated;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+
+  async getAppointmentTimeSlotIds(appointmentId: string): Promise<string[]> {
+    const appointment = await this.getAppointment(appointmentId);
+    return appointment ? await heldSlotIds(db, appointment) : [];
+  }
+
+  async getAppointmentChanges(appointmentId: string): Promise<AppointmentChange[]> {
+    return await db
+      .select()
+      .from(appointmentChanges)
+      .where(eq(appointmentChanges.appointmentId, appointmentId))
+      .orderBy(asc(appointmentChanges.createdAt));
+  }
+
+  // Reschedules the patient or one of their guardians made. Staff moving the
+  // appointment doesn't use up the patient's own limit.
+  async countPatientReschedules(appointment: Appointment): Promise<number> {
+    const guardians = db
+      .select({ id: guardianships.guardianId })
+      .from(guardianships)
+      .where(eq(guardianships.dependentId, appointment.patientId));
+    const moves = await db
+      .select({ id: appointmentChanges.id })
+      .from(appointmentChanges)
+      .where(and(
+        eq(appointmentChanges.appointmentId, appointment.id),
+        eq(appointmentChanges.action, 'rescheduled'),
+        or(eq(appointmentChanges.changedBy, appointment.patientId), inArray(appointmentChanges.changedBy, guardians)),
+      ));
+    return moves.length;
+  }
+
+  async getAppointmentStatusHistory(appointmentId: string): Promise<AppointmentStatusChange[]> {
+    return await db
+      .select()
+      .from(appointmentStatusHistory)
+      .where(eq(appointmentStatusHistory.appointmentId, appointmentId))
+      .orderBy(asc(appointmentStatusHistory.createdAt));
+  }
+
+  // Appointments on or before a date that nobody has checked in for yet
+  async getUnattendedAppointments(onOrBefore: string): Promise<Appointment[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .where(and(
+        inArray(appointments.status, ['pending', 'confirmed']),
+        lte(appointments.appointmentDate, onOrBefore)
+      ));
+  }
+
+  // Marks appointments as no-shows and bumps each patient's counter. Patients
+  // reaching `flagThreshold` no-shows are flagged; 0 turns flagging off. Only
+  // appointments still waiting to be seen are changed.
+  async markNoShows(appointmentIds: string[], reason: string, flagThreshold: number): Promise<Appointment[]> {
+    if (appointmentIds.length === 0) return [];
+
+    return await db.transaction(async (tx) => {
+      const missed = await tx
+        .select()
+        .from(appointments)
+        .where(and(inArray(appointments.id, appointmentIds), inArray(appointments.status, ['pending', 'confirmed'])))
+        .for('update');
+      if (missed.length === 0) return [];
+
+      const marked = await tx
+        .update(appointments)
+        .set({ status: 'no_show', calendarSequence: sql`${appointments.calendarSequence} + 1`, updatedAt: new Date() })
+        .where(inArray(appointments.id, missed.map(a => a.id)))
+        .returning();
+      await tx.insert(appointmentStatusHistory).values(missed.map(appointment => ({
+        appointmentId: appointment.id,
+        fromStatus: appointment.status,
+        toStatus: 'no_show',
+        reason,
+      })));
+
+      const perPatient = new Map<string, number>();
+      for (const appointment of missed) {
+        perPatient.set(appointment.patientId, (perPatient.get(appointment.patientId) || 0) + 1);
+      }
+      for (const [patientId, count] of Array.from(perPatient)) {
+        await tx
+          .update(users)
+          .set({
+            noShowCount: sql`${users.noShowCount} + ${count}`,
+            noShowFlaggedAt: flagThreshold > 0
+              ? sql`coalesce(${users.noShowFlaggedAt}, case when ${users.noShowCount} + ${count} >= ${flagThreshold} then now() end)`
+              : sql`${users.noShowFlaggedAt}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(users.id, patientId));
+      }
+
+      return marked;
+    });
+  }
+
+  async getNoShowAppointments(since: string): Promise<Appointment[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .where(and(eq(appointments.status, 'no_show'), gte(appointments.appointmentDate, since)))
+      .orderBy(desc(appointments.appointmentDate));
+  }
+
+  async getFlaggedPatients(): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(isNotNull(users.noShowFlaggedAt))
+      .orderBy(desc(users.noShowCount));
+  }
+
+  // Lifts the booking flag; the no-show count is kept as history
+  async clearNoShowFlag(userId: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ noShowFlaggedAt: null, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  // Appointments cleaned up before no_show existed were set to 'missed'
+  async migrateLegacyStatuses(): Promise<number> {
+    const migrated = await db
+      .update(appointments)
+      .set({ status: 'no_show', updatedAt: new Date() })
+      .where(eq(appointments.status, 'missed'))
+      .returning({ id: appointments.id });
+    return migrated.length;
+  }
+
+  // Staff used to block a slot by clearing isAvailable. One that's closed with
+  // seats left can only have been blocked.
+  async migrateStaffBlocks(): Promise<number> {
+    const blocked = await db
+      .update(timeSlots)
+      .set({ blockedByStaff: true, updatedAt: new Date() })
+      .where(and(
+        eq(timeSlots.isAvailable, false),
+        eq(timeSlots.blockedByStaff, false),
+        sql`coalesce(${timeSlots.currentBookings}, 0) < coalesce(${timeSlots.maxBookings}, 1)`,
+      ))
+      .returning({ id: timeSlots.id });
+    return blocked.length;
+  }
+
+  // Appointments in the range that still hold their time
+  async getActiveAppointmentsInRange(startDate: string, endDate: string): Promise<Appointment[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .where(and(
+        gte(appointments.appointmentDate, startDate),
+        lte(appointments.appointmentDate, endDate),
+        inArray(appointments.status, ['pending', 'confirmed', 'checked_in', 'in_chair']),
+      ))
+      .orderBy(asc(appointments.appointmentDate), asc(appointments.appointmentTime));
+  }
+
+  // Every appointment in the range whatever its status
+  async getAppointmentsInRange(startDate: string, endDate: string): Promise<Appointment[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .where(and(gte(appointments.appointmentDate, startDate), lte(appointments.appointmentDate, endDate)))
+      .orderBy(asc(appointments.appointmentDate), asc(appointments.appointmentTime));
+  }
+
+  // Every appointment with the provider from a date on, cancelled ones included
+  async getAppointmentsByProvider(providerId: string, fromDate: string): Promise<Appointment[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .where(and(eq(appointments.providerId, providerId), gte(appointments.appointmentDate, fromDate)))
+      .orderBy(asc(appointments.appointmentDate), asc(appointments.appointmentTime));
+  }
+
+  // Team member operations
+  async createTeamMember(member: InsertTeamMember): Promise<TeamMember> {
+    const [newMember] = await db
+      .insert(teamMembers)
+      .values(member)
+      .returning();
+    return newMember;
+  }
+
+  async getTeamMembers(): Promise<TeamMember[]> {
+    return await db
+      .select()
+      .from(teamMembers)
+      .where(eq(teamMembers.isActive, true))
+      .orderBy(asc(teamMembers.displayOrder));
+  }
+
+  async updateTeamMember(id: string, member: Partial<InsertTeamMember>): Promise<TeamMember | undefined> {
+    const [updated] = await db
+      .update(teamMembers)
+      .set({ ...member, updatedAt: new Date() })
+      .where(eq(teamMembers.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteTeamMember(id: string): Promise<void> {
+    await db
+      .update(teamMembers)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(teamMembers.id, id));
+  }
+
+  // Provider operations
+  private async withProcedureIds(rows: Provider[]): Promise<ProviderWithProcedures[]> {
+    if (rows.length === 0) return [];
+    const links = await db
+      .select()
+      .from(providerProcedures)
+      .where(inArray(providerProcedures.providerId, rows.map(p => p.id)));
+    return rows.map(provider => ({
+      ...provider,
+      procedureIds: links.filter(link => link.providerId === provider.id).map(link => link.procedureId),
+    }));
+  }
+
+  async getProviders(includeInactive = false): Promise<ProviderWithProcedures[]> {
+    const rows = await db
+      .select()
+      .from(providers)
+      .where(includeInactive ? undefined : eq(providers.isActive, true))
+      .orderBy(asc(providers.name));
+    return this.withProcedureIds(rows);
+  }
+
+  async getProvider(id: string): Promise<ProviderWithProcedures | undefined> {
+    const [provider] = await db.select().from(providers).where(eq(providers.id, id));
+    if (!provider) return undefined;
+    const [withProcedures] = await this.withProcedureIds([provider]);
+    return withProcedures;
+  }
+
+  async getProviderForUser(userId: string): Promise<Provider | undefined> {
+    const [provider] = await db.select().from(providers).where(eq(providers.userId, userId));
+    return provider;
+  }
+
+  async createProvider({ procedureIds = [], ...providerData }: InsertProvider): Promise<ProviderWithProcedures> {
+    const provider = await db.transaction(async (tx) => {
+      const [newProvider] = await tx
+        .insert(providers)
+        .values(providerData)
+        .returning();
+      if (procedureIds.length > 0) {
+        await tx
+          .insert(providerProcedures)
+          .values(procedureIds.map(procedureId => ({ providerId: newProvider.id, procedureId })));
+      }
+      return newProvider;
+    });
+    return { ...provider, procedureIds };
+  }
+
+  // Renaming a provider also renames them on their slots and appointments
+  async updateProvider(id: string, { procedureIds, ...providerData }: Partial<InsertProvider>): Promise<ProviderWithProcedures | undefined> {
+    const updated = await db.transaction(async (tx) => {
+      const [provider] = await tx
+        .update(providers)
+        .set({ ...providerData, updatedAt: new Date() })
+        .where(eq(providers.id, id))
+        .returning();
+      if (!provider) return undefined;
+
+      if (procedureIds) {
+        await tx.delete(providerProcedures).where(eq(providerProcedures.providerId, id));
+        if (procedureIds.length > 0) {
+          await tx
+            .insert(providerProcedures)
+            .values(procedureIds.map(procedureId => ({ providerId: id, procedureId })));
+        }
+      }
+
+      if (providerData.name) {
+        await tx.update(timeSlots).set({ doctorName: provider.name }).where(eq(timeSlots.providerId, id));
+        await tx.update(appointments).set({ doctorName: provider.name }).where(eq(appointments.providerId, id));
+      }
+      return provider;
+    });
+    return updated ? this.getProvider(id) : undefined;
+  }
+
+  async deleteProvider(id: string): Promise<void> {
+    await db
+      .update(providers)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(providers.id, id));
+  }
+
+  // One-off backfill for rows created before providers existed: every distinct
+  // doctor name becomes a provider (linked to the team member of the same name
+  // when there is one) and the old rows are pointed at it. Safe to re-run.
+  async migrateDoctorNamesToProviders(): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const slotNames = await tx
+        .selectDistinct({ name: timeSlots.doctorName })
+        .from(timeSlots)
+        .where(isNull(timeSlots.providerId));
+      const appointmentNames = await tx
+        .selectDistinct({ name: appointments.doctorName })
+        .from(appointments)
+        .where(isNull(appointments.providerId));
+      const names = Array.from(new Set([...slotNames, ...appointmentNames].map(row => row.name)));
+      if (names.length === 0) return 0;
+
+      const existing = await tx.select().from(providers);
+      const members = await tx.select().from(teamMembers);
+      const byName = new Map(existing.map(p => [p.name.toLowerCase(), p.id]));
+      let created = 0;
+
+      for (const name of names) {
+        let providerId = byName.get(name.toLowerCase());
+        if (!providerId) {
+          const member = members.find(m => m.name.toLowerCase() === name.toLowerCase());
+          const [provider] = await tx
+            .insert(providers)
+            .values({ name, teamMemberId: member?.id })
+            .returning();
+          providerId = provider.id;
+          byName.set(name.toLowerCase(), providerId);
+          created++;
+        }
+
+        await tx
+          .update(timeSlots)
+          .set({ providerId })
+          .where(and(eq(timeSlots.doctorName, name), isNull(timeSlots.providerId)));
+        await tx
+          .update(appointments)
+          .set({ providerId })
+          .where(and(eq(appointments.doctorName, name), isNull(appointments.providerId)));
+      }
+
+      return created;
+    });
+  }
+
+  // Resource operations
+  async createResource(resource: InsertResource): Promise<Resource> {
+    const [newResource] = await db
+      .insert(resources)
+      .values(resource)
+      .returning();
+    return newResource;
+  }
+
+  async getResources(): Promise<Resource[]> {
+    return await db
+      .select()
+      .from(resources)
+      .where(eq(resources.isActive, true))
+      .orderBy(asc(resources.displayOrder));
+  }
+
+  async updateResource(id: string, resource: Partial<InsertResource>): Promise<Resource | undefined> {
+    const [updated] = await db
+      .update(resources)
+      .set({ ...resource, updatedAt: new Date() })
+      .where(eq(resources.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteResource(id: string): Promise<void> {
+    await db
+      .update(resources)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(resources.id, id));
+  }
+
+  // Chatbot operations
+  async getChatbotResponses(): Promise<ChatbotResponse[]> {
+    return await db
+      .select()
+      .from(chatbotResponses)
+      .where(eq(chatbotResponses.isActive, true));
+  }
+
+  async findChatbotResponse(keywords: string[]): Promise<ChatbotResponse | undefined> {
+    const responses = await this.getChatbotResponses();
+    
+    // Simple keyword matching - find response with most matching keywords
+    let bestMatch: ChatbotResponse | undefined;
+    let bestScore = 0;
+    
+    for (const response of responses) {
+      let score = 0;
+      const responseKeywords = response.keywords || [];
+      
+      for (const keyword of keywords) {
+        if (responseKeywords.some(k => k.toLowerCase().includes(keyword.toLowerCase()))) {
+          score++;
+        }
+        if (response.question.toLowerCase().includes(keyword.toLowerCase())) {
+          score++;
+        }
+      }
+      
+      if (score > bestScore) {
+        bestScore = score;
+        bestMatch = response;
+      }
+    }
+    
+    return bestMatch;
+  }
+
+  async createChatbotResponse(responseData: InsertChatbotResponse): Promise<ChatbotResponse> {
+    const [response] = await db
+      .insert(chatbotResponses)
+      .values(responseData)
+      .returning();
+    return response;
+  }
+
+  async updateChatbotResponse(id: string, responseData: Partial<InsertChatbotResponse>): Promise<ChatbotResponse | undefined> {
+    const [updated] = await db
+      .update(chatbotResponses)
+      .set({ ...responseData, updatedAt: new Date() })
+      .where(eq(chatbotResponses.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteChatbotResponse(id: string): Promise<void> {
+    await db
+      .update(chatbotResponses)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(chatbotResponses.id, id));
+  }
+
+  // Time slot operations
+  async getTimeSlots(date: string): Promise<TimeSlot[]> {
+    return await db
+      .select()
+      .from(timeSlots)
+      .where(eq(timeSlots.date, date))
+      .orderBy(asc(timeSlots.time));
+  }
+
+  async getTimeSlot(id: string): Promise<TimeSlot | undefined> {
+    const [slot] = await db.select().from(timeSlots).where(eq(timeSlots.id, id));
+    return slot;
+  }
+
+  async createTimeSlot(slotData: InsertTimeSlot): Promise<TimeSlot> {
+    const [slot] = await db
+      .insert(timeSlots)
+      .values({ ...slotData, isAvailable: !slotData.blockedByStaff })
+      .returning();
+    return slot;
+  }
+
+  // isAvailable follows the staff block and the seats left, whichever changed
+  async updateTimeSlot(id: string, updates: Partial<InsertTimeSlot>): Promise<TimeSlot | undefined> {
+    const blocked = updates.blockedByStaff ?? timeSlots.blockedByStaff;
+    const maxBookings = updates.maxBookings ?? timeSlots.maxBookings;
+    const [updated] = await db
+      .update(timeSlots)
+      .set({
+        ...updates,
+        isAvailable: sql`not ${blocked} and coalesce(${timeSlots.currentBookings}, 0) < coalesce(${maxBookings}, 1)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(timeSlots.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteTimeSlot(id: string): Promise<void> {
+    await db
+      .delete(timeSlots)
+      .where(eq(timeSlots.id, id));
+  }
+
+  async createTimeSlots(slots: InsertTimeSlot[]): Promise<TimeSlot[]> {
+    return await db
+      .insert(timeSlots)
+      .values(slots.map(slot => ({ ...slot, isAvailable: !slot.blockedByStaff })))
+      .returning();
+  }
+
+  async getTimeSlotsInRange(startDate: string, endDate: string): Promise<TimeSlot[]> {
+    return await db
+      .select()
+      .from(timeSlots)
+      .where(and(gte(timeSlots.date, startDate), lte(timeSlots.date, endDate)))
+      .orderBy(asc(timeSlots.date), asc(timeSlots.time));
+  }
+
+  // Clears a provider's day except slots somebody has already booked
+  async deleteUnbookedTimeSlots(providerId: string, date: string): Promise<number> {
+    const deleted = await db
+      .delete(timeSlots)
+      .where(
+        and(
+          eq(timeSlots.providerId, providerId),
+          eq(timeSlots.date, date),
+          sql`coalesce(${timeSlots.currentBookings}, 0) = 0`
+        )
+      )
+      .returning({ id: timeSlots.id });
+    return deleted.length;
+  }
+
+  // Schedule template operations
+  async getScheduleTemplates(): Promise<ScheduleTemplate[]> {
+    return await db
+      .select()
+      .from(scheduleTemplates)
+      .where(eq(scheduleTemplates.isActive, true))
+      .orderBy(asc(scheduleTemplates.providerId), asc(scheduleTemplates.startTime));
+  }
+
+  async createScheduleTemplate(templateData: InsertScheduleTemplate): Promise<ScheduleTemplate> {
+    const [template] = await db
+      .insert(scheduleTemplates)
+      .values(templateData)
+      .returning();
+    return template;
+  }
+
+  async updateScheduleTemplate(id: string, templateData: Partial<InsertScheduleTemplate>): Promise<ScheduleTemplate | undefined> {
+    const [updated] = await db
+      .update(scheduleTemplates)
+      .set({ ...templateData, updatedAt: new Date() })
+      .where(eq(scheduleTemplates.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteScheduleTemplate(id: string): Promise<void> {
+    await db
+      .update(scheduleTemplates)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(scheduleTemplates.id, id));
+  }
+
+  async getScheduleExceptions(startDate: string, endDate?: string): Promise<ScheduleException[]> {
+    const conditions = [gte(scheduleExceptions.date, startDate)];
+    if (endDate) {
+      conditions.push(lte(scheduleExceptions.date, endDate));
+    }
+    return await db
+      .select()
+      .from(scheduleExceptions)
+      .where(and(...conditions))
+      .orderBy(asc(scheduleExceptions.date), asc(scheduleExceptions.providerId));
+  }
+
+  async createScheduleException(exceptionData: InsertScheduleException): Promise<ScheduleException> {
+    const [exception] = await db
+      .insert(scheduleExceptions)
+      .values(exceptionData)
+      .returning();
+    return exception;
+  }
+
+  async deleteScheduleException(id: string): Promise<ScheduleException | undefined> {
+    const [deleted] = await db
+      .delete(scheduleExceptions)
+      .where(eq(scheduleExceptions.id, id))
+      .returning();
+    return deleted;
+  }
+
+  // Practice calendar operations
+  async getPracticeHours(): Promise<PracticeHours[]> {
+    return await db.select().from(practiceHours).orderBy(asc(practiceHours.dayOfWeek));
+  }
+
+  // Replaces the whole week; weekdays left out are closed
+  async setPracticeHours(hours: InsertPracticeHours[]): Promise<PracticeHours[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(practiceHours);
+      if (hours.length === 0) return [];
+      const saved = await tx.insert(practiceHours).values(hours).returning();
+      return saved.sort((a, b) => a.dayOfWeek - b.dayOfWeek);
+    });
+  }
+
+  async getClosures(fromDate?: string): Promise<PracticeClosure[]> {
+    return await db
+      .select()
+      .from(practiceClosures)
+      .where(fromDate ? gte(practiceClosures.endDate, fromDate) : undefined)
+      .orderBy(asc(practiceClosures.startDate));
+  }
+
+  async getClosure(id: string): Promise<PracticeClosure | undefined> {
+    const [closure] = await db.select().from(practiceClosures).where(eq(practiceClosures.id, id));
+    return closure;
+  }
+
+  // Closures overlapping the range
+  async getClosuresInRange(startDate: string, endDate: string): Promise<PracticeClosure[]> {
+    return await db
+      .select()
+      .from(practiceClosures)
+      .where(and(
+        lte(practiceClosures.startDate, endDate),
+        gte(practiceClosures.endDate, startDate),
+      ))
+      .orderBy(asc(practiceClosures.startDate));
+  }
+
+  async createClosure(closureData: InsertPracticeClosure & { createdBy?: string }): Promise<PracticeClosure> {
+    const [closure] = await db
+      .insert(practiceClosures)
+      .values(closureData)
+      .returning();
+    return closure;
+  }
+
+  async deleteClosure(id: string): Promise<PracticeClosure | undefined> {
+    const [deleted] = await db
+      .delete(practiceClosures)
+      .where(eq(practiceClosures.id, id))
+      .returning();
+    return deleted;
+  }
+
+  // Calendar feed operations
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed;
+  }
+
+  async getCalendarFeed(owner: CalendarFeedOwner): Promise<CalendarFeed | undefined> {
+    const [feed] = await db
+      .select()
+      .from(calendarFeeds)
+      .where('patientId' in owner ? eq(calendarFeeds.patientId, owner.patientId) : eq(calendarFeeds.providerId, owner.providerId));
+    return feed;
+  }
+
+  // Drops the owner's current feed, if any, and issues a new one
+  async replaceCalendarFeed(owner: CalendarFeedOwner, token: string): Promise<CalendarFeed> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(calendarFeeds)
+        .where('patientId' in owner ? eq(calendarFeeds.patientId, owner.patientId) : eq(calendarFeeds.providerId, owner.providerId));
+      const [feed] = await tx
+        .insert(calendarFeeds)
+        .values({ token, ...owner })
+        .returning();
+      return feed;
+    });
+  }
+
+  // Waitlist operations
+  async createWaitlistEntry(entryData: InsertWaitlistEntry & { patientId: string }): Promise<WaitlistEntry> {
+    const [entry] = await db
+      .insert(waitlistEntries)
+      .values(entryData)
+      .returning();
+    return entry;
+  }
+
+  async getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.select().from(waitlistEntries).where(eq(waitlistEntries.id, id));
+    return entry;
+  }
+
+  // Oldest sign-up first, which is also the order offers are made in
+  async getWaitlistEntries(filter: { patientId?: string; statuses?: string[] } = {}): Promise<WaitlistEntryWithOffers[]> {
+    const conditions = [];
+    if (filter.patientId) conditions.push(eq(waitlistEntries.patientId, filter.patientId));
+    if (filter.statuses) conditions.push(inArray(waitlistEntries.status, filter.statuses));
+
+    const entries = await db
+      .select()
+      .from(waitlistEntries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(waitlistEntries.createdAt));
+    if (entries.length === 0) return [];
+
+    const offers = await db
+      .select()
+      .from(waitlistOffers)
+      .where(inArray(waitlistOffers.waitlistEntryId, entries.map(e => e.id)))
+      .orderBy(desc(waitlistOffers.createdAt));
+    return entries.map(entry => ({
+      ...entry,
+      offers: offers.filter(offer => offer.waitlistEntryId === entry.id),
+    }));
+  }
+
+  // Leaving the waitlist withdraws any open offer and gives its hold back
+  async cancelWaitlistEntry(id: string): Promise<WaitlistEntry | undefined> {
+    return await db.transaction(async (tx) => {
+      const [entry] = await tx
+        .update(waitlistEntries)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(eq(waitlistEntries.id, id))
+        .returning();
+      if (!entry) return undefined;
+
+      const withdrawn = await tx
+        .update(waitlistOffers)
+        .set({ status: 'withdrawn', respondedAt: new Date() })
+        .where(and(eq(waitlistOffers.waitlistEntryId, id), eq(waitlistOffers.status, 'pending')))
+        .returning();
+      for (const offer of withdrawn) {
+        await releaseSlots(tx, offer.timeSlotIds);
+      }
+      return entry;
+    });
+  }
+
+  async expireStaleWaitlistEntries(today: string): Promise<number> {
+    const expired = await db
+      .update(waitlistEntries)
+      .set({ status: 'expired', updatedAt: new Date() })
+      .where(and(eq(waitlistEntries.status, 'waiting'), lt(waitlistEntries.latestDate, today)))
+      .returning({ id: waitlistEntries.id });
+    return expired.length;
+  }
+
+  async getWaitlistOffer(id: string): Promise<WaitlistOffer | undefined> {
+    const [offer] = await db.select().from(waitlistOffers).where(eq(waitlistOffers.id, id));
+    return offer;
+  }
+
+  async getExpiredWaitlistOffers(now: Date): Promise<WaitlistOffer[]> {
+    return await db
+      .select()
+      .from(waitlistOffers)
+      .where(and(eq(waitlistOffers.status, 'pending'), lt(waitlistOffers.expiresAt, now)));
+  }
+
+  // Holds the run for the patient the same way a booking would. Returns
+  // undefined if the entry is no longer waiting or a slot filled up meanwhile.
+  async createWaitlistOffer(waitlistEntryId: string, timeSlotIds: string[], expiresAt: Date): Promise<WaitlistOffer | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [entry] = await tx
+          .select()
+          .from(waitlistEntries)
+          .where(eq(waitlistEntries.id, waitlistEntryId))
+          .for('update');
+        if (!entry || entry.status !== 'waiting') return undefined;
+
+        await reserveSlots(tx, timeSlotIds);
+
+        const [offer] = await tx
+          .insert(waitlistOffers)
+          .values({ waitlistEntryId, timeSlotIds, expiresAt })
+          .returning();
+        await tx
+          .update(waitlistEntries)
+          .set({ status: 'offered', updatedAt: new Date() })
+          .where(eq(waitlistEntries.id, waitlistEntryId));
+        return offer;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+
+  // Ends a pending offer without booking: the hold is released and the
+  // patient goes back to waiting for the next opening
+  async closeWaitlistOffer(id: string, status: 'declined' | 'expired'): Promise<WaitlistOffer | undefined> {
+    return await db.transaction(async (tx) => {
+      const [offer] = await tx
+        .select()
+        .from(waitlistOffers)
+        .where(eq(waitlistOffers.id, id))
+        .for('update');
+      if (!offer || offer.status !== 'pending') return undefined;
+
+      const [closed] = await tx
+        .update(waitlistOffers)
+        .set({ status, respondedAt: new Date() })
+        .where(eq(waitlistOffers.id, id))
+        .returning();
+      await releaseSlots(tx, offer.timeSlotIds);
+      await tx
+        .update(waitlistEntries)
+        .set({ status: 'waiting', updatedAt: new Date() })
+        .where(and(eq(waitlistEntries.id, offer.waitlistEntryId), eq(waitlistEntries.status, 'offered')));
+      return closed;
+    });
+  }
+
+  // Turns a still-valid hold into an appointment on the same seats
+  async acceptWaitlistOffer(id: string, bookingRequirement: string | null = null): Promise<Appointment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [offer] = await tx
+        .select()
+        .from(waitlistOffers)
+        .where(eq(waitlistOffers.id, id))
+        .for('update');
+      if (!offer || offer.status !== 'pending' || offer.expiresAt <= new Date()) return undefined;
+
+      const [entry] = await tx.select().from(waitlistEntries).where(eq(waitlistEntries.id, offer.waitlistEntryId));
+      const [procedure] = await tx.select().from(procedures).where(eq(procedures.id, entry.procedureId));
+      // The procedure was removed while the offer was open, so there's nothing
+      // to book: withdraw the offer, give its hold back and close the entry
+      if (!procedure || procedure.isActive === false) {
+        await tx
+          .update(waitlistOffers)
+          .set({ status: 'withdrawn', respondedAt: new Date() })
+          .where(eq(waitlistOffers.id, id));
+        await releaseSlots(tx, offer.timeSlotIds);
+        await tx
+          .update(waitlistEntries)
+          .set({ status: 'cancelled', updatedAt: new Date() })
+          .where(eq(waitlistEntries.id, entry.id));
+        return undefined;
+      }
+      const held = await tx.select().from(timeSlots).where(inArray(timeSlots.id, offer.timeSlotIds));
+      const first = held.find(slot => slot.id === offer.timeSlotIds[0]);
+      if (!first || held.length !== offer.timeSlotIds.length) return undefined;
+
+      const appointment = await insertBookedAppointment(tx, {
+        patientId: entry.patientId,
+        doctorName: first.doctorName,
+        treatmentType: procedure.name,
+        appointmentDate: first.date,
+        appointmentTime: first.time,
+        status: 'pending',
+        notes: entry.notes,
+        bookingRequirement,
+      }, held, offer.timeSlotIds);
+
+      await tx
+        .update(waitlistOffers)
+        .set({ status: 'accepted', appointmentId: appointment.id, respondedAt: new Date() })
+        .where(eq(waitlistOffers.id, id));
+      await tx
+        .update(waitlistEntries)
+        .set({ status: 'booked', updatedAt: new Date() })
+        .where(eq(waitlistEntries.id, entry.id));
+      return appointment;
+    });
+  }
+
+  // Procedure operations
+  async getProcedures(): Promise<Procedure[]> {
+    return await db
+      .select()
+      .from(procedures)
+      .where(eq(procedures.isActive, true))
+      .orderBy(asc(procedures.displayOrder), asc(procedures.name));
+  }
+
+  // Each one-click button books one procedure, so tagging a procedure with a
+  // button takes the button from whichever procedure had it
+  async createProcedure(procedureData: InsertProcedure): Promise<Procedure> {
+    return await db.transaction(async (tx) => {
+      if (procedureData.bookingIntent) {
+        await tx
+          .update(procedures)
+          .set({ bookingIntent: null, updatedAt: new Date() })
+          .where(eq(procedures.bookingIntent, procedureData.bookingIntent));
+      }
+      const [procedure] = await tx
+        .insert(procedures)
+        .values(procedureData)
+        .returning();
+      return procedure;
+    });
+  }
+
+  async updateProcedure(id: string, procedureData: Partial<InsertProcedure>): Promise<Procedure | undefined> {
+    return await db.transaction(async (tx) => {
+      if (procedureData.bookingIntent) {
+        await tx
+          .update(procedures)
+          .set({ bookingIntent: null, updatedAt: new Date() })
+          .where(and(eq(procedures.bookingIntent, procedureData.bookingIntent), ne(procedures.id, id)));
+      }
+      const [updated] = await tx
+        .update(procedures)
+        .set({ ...procedureData, updatedAt: new Date() })
+        .where(eq(procedures.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async deleteProcedure(id: string): Promise<void> {
+    await db
+      .update(procedures)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(procedures.id, id));
+  }
+
+  // Promotion operations
+  async getPromotions(): Promise<Promotion[]> {
+    return await db
+      .select()
+      .from(promotions)
+      .where(eq(promotions.isActive, true))
+      .orderBy(asc(promotions.displayOrder), desc(promotions.validUntil));
+  }
+
+  async getActivePromotions(): Promise<Promotion[]> {
+    const currentDate = practiceDate();
+    return await db
+      .select()
+      .from(promotions)
+      .where(
+        and(
+          eq(promotions.isActive, true),
+          gte(promotions.validUntil, currentDate)
+        )
+      )
+      .orderBy(asc(promotions.displayOrder));
+  }
+
+  async createPromotion(promotionData: InsertPromotion): Promise<Promotion> {
+    const [promotion] = await db
+      .insert(promotions)
       .values(promotionData)
       .returning();
     return promotion;
@@ -540,6 +2070,380 @@ export class DatabaseStorage implements IStorage {
       .where(eq(forms.id, id));
   }
 
+  // Intake form operations
+  async getIntakeForms(includeInactive = false): Promise<IntakeForm[]> {
+    return await db
+      .select()
+      .from(intakeForms)
+      .where(includeInactive ? undefined : eq(intakeForms.isActive, true))
+      .orderBy(asc(intakeForms.displayOrder), asc(intakeForms.title));
+  }
+
+  async getIntakeForm(id: string): Promise<IntakeForm | undefined> {
+    const [form] = await db.select().from(intakeForms).where(eq(intakeForms.id, id));
+    return form;
+  }
+
+  async createIntakeForm(formData: IntakeFormInput): Promise<IntakeForm> {
+    const [form] = await db
+      .insert(intakeForms)
+      .values(formData)
+      .returning();
+    return form;
+  }
+
+  async updateIntakeForm(id: string, formData: IntakeFormInput): Promise<IntakeForm | undefined> {
+    const [updated] = await db
+      .update(intakeForms)
+      .set({ ...formData, updatedAt: new Date() })
+      .where(eq(intakeForms.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Forms with responses are kept for the record, so this only retires them
+  async deleteIntakeForm(id: string): Promise<void> {
+    await db
+      .update(intakeForms)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(intakeForms.id, id));
+  }
+
+  // Newest first
+  async getIntakeResponses(patientIds: string[]): Promise<IntakeFormResponse[]> {
+    if (patientIds.length === 0) return [];
+    return await db
+      .select()
+      .from(intakeFormResponses)
+      .where(inArray(intakeFormResponses.patientId, patientIds))
+      .orderBy(desc(intakeFormResponses.submittedAt));
+  }
+
+  async createIntakeResponse(form: IntakeForm, patientId: string, appointmentId: string | null, answers: IntakeAnswers, submittedBy: string): Promise<IntakeFormResponse> {
+    const [response] = await db
+      .insert(intakeFormResponses)
+      .values({ formId: form.id, patientId, appointmentId, sections: form.sections, answers, submittedBy })
+      .returning();
+    return response;
+  }
+
+  // Consent operations
+  async getConsentTemplates(includeInactive = false): Promise<ConsentTemplate[]> {
+    return await db
+      .select()
+      .from(consentTemplates)
+      .where(includeInactive ? undefined : eq(consentTemplates.isActive, true))
+      .orderBy(asc(consentTemplates.title));
+  }
+
+  async getConsentTemplate(id: string): Promise<ConsentTemplate | undefined> {
+    const [template] = await db.select().from(consentTemplates).where(eq(consentTemplates.id, id));
+    return template;
+  }
+
+  async createConsentTemplate(templateData: ConsentTemplateInput): Promise<ConsentTemplate> {
+    const [template] = await db
+      .insert(consentTemplates)
+      .values(templateData)
+      .returning();
+    return template;
+  }
+
+  // A new version whenever the wording changes, so signings say which one they agreed to
+  async updateConsentTemplate(id: string, templateData: ConsentTemplateInput): Promise<ConsentTemplate | undefined> {
+    const existing = await this.getConsentTemplate(id);
+    if (!existing) return undefined;
+    const reworded = existing.title !== templateData.title || existing.body !== templateData.body;
+    const [updated] = await db
+      .update(consentTemplates)
+      .set({ ...templateData, version: reworded ? existing.version + 1 : existing.version, updatedAt: new Date() })
+      .where(eq(consentTemplates.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteConsentTemplate(id: string): Promise<void> {
+    await db
+      .update(consentTemplates)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(consentTemplates.id, id));
+  }
+
+  async getSignedConsents(appointmentIds: string[]): Promise<SignedConsentRecord[]> {
+    if (appointmentIds.length === 0) return [];
+    const { pdfData, ...columns } = getTableColumns(signedConsents);
+    return await db
+      .select(columns)
+      .from(signedConsents)
+      .where(inArray(signedConsents.appointmentId, appointmentIds))
+      .orderBy(asc(signedConsents.signedAt));
+  }
+
+  async getSignedConsent(id: string): Promise<SignedConsent | undefined> {
+    const [consent] = await db.select().from(signedConsents).where(eq(signedConsents.id, id));
+    return consent;
+  }
+
+  // Undefined when this consent was already signed for the appointment
+  async createSignedConsent(consent: typeof signedConsents.$inferInsert): Promise<SignedConsent | undefined> {
+    const [created] = await db
+      .insert(signedConsents)
+      .values(consent)
+      .onConflictDoNothing({ target: [signedConsents.appointmentId, signedConsents.templateId] })
+      .returning();
+    return created;
+  }
+
+  // Stored file operations
+  async getStoredFile(id: string): Promise<StoredFile | undefined> {
+    const [file] = await db.select().from(storedFiles).where(eq(storedFiles.id, id));
+    return file;
+  }
+
+  async getPatientFiles(patientId: string): Promise<StoredFile[]> {
+    return await db
+      .select()
+      .from(storedFiles)
+      .where(eq(storedFiles.patientId, patientId))
+      .orderBy(desc(storedFiles.createdAt));
+  }
+
+  async createStoredFile(fileData: typeof storedFiles.$inferInsert): Promise<StoredFile> {
+    const [file] = await db.insert(storedFiles).values(fileData).returning();
+    return file;
+  }
+
+  async deleteStoredFile(id: string): Promise<void> {
+    await db.delete(storedFiles).where(eq(storedFiles.id, id));
+  }
+
+  // Photos saved as base64 data URLs before uploads went to the file store
+  async getTeamMembersWithInlineImages(): Promise<TeamMember[]> {
+    return await db.select().from(teamMembers).where(like(teamMembers.imageUrl, 'data:%'));
+  }
+
+  // Recall operations
+  async getRecallTypes(includeInactive = false): Promise<RecallType[]> {
+    return await db
+      .select()
+      .from(recallTypes)
+      .where(includeInactive ? undefined : eq(recallTypes.isActive, true))
+      .orderBy(asc(recallTypes.displayOrder), asc(recallTypes.name));
+  }
+
+  async getRecallType(id: string): Promise<RecallType | undefined> {
+    const [recallType] = await db.select().from(recallTypes).where(eq(recallTypes.id, id));
+    return recallType;
+  }
+
+  async createRecallType(recallTypeData: RecallTypeInput): Promise<RecallType> {
+    const [recallType] = await db.insert(recallTypes).values(recallTypeData).returning();
+    return recallType;
+  }
+
+  // A new interval moves every patient's due date to match, counted from their last visit
+  async updateRecallType(id: string, recallTypeData: RecallTypeInput): Promise<RecallType | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(recallTypes).where(eq(recallTypes.id, id));
+      if (!existing) return undefined;
+
+      const [recallType] = await tx
+        .update(recallTypes)
+        .set({ ...recallTypeData, updatedAt: new Date() })
+        .where(eq(recallTypes.id, id))
+        .returning();
+      if (existing.intervalMonths !== recallType.intervalMonths) {
+        await tx
+          .update(patientRecalls)
+          .set({
+            dueDate: sql`(${patientRecalls.lastVisitDate} + make_interval(months => ${recallType.intervalMonths}))::date`,
+            updatedAt: new Date(),
+          })
+          .where(eq(patientRecalls.recallTypeId, id));
+      }
+      return recallType;
+    });
+  }
+
+  // Kept so patients' recall history survives; it just stops being tracked
+  async deleteRecallType(id: string): Promise<void> {
+    await db
+      .update(recallTypes)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(recallTypes.id, id));
+  }
+
+  async getPatientRecall(id: string): Promise<PatientRecall | undefined> {
+    const [recall] = await db.select().from(patientRecalls).where(eq(patientRecalls.id, id));
+    return recall;
+  }
+
+  // Soonest due first
+  async getPatientRecalls(filters: { dueFrom?: string; dueTo?: string; recallTypeId?: string; patientId?: string }): Promise<PatientRecall[]> {
+    return await db
+      .select()
+      .from(patientRecalls)
+      .where(and(
+        filters.dueFrom ? gte(patientRecalls.dueDate, filters.dueFrom) : undefined,
+        filters.dueTo ? lte(patientRecalls.dueDate, filters.dueTo) : undefined,
+        filters.recallTypeId ? eq(patientRecalls.recallTypeId, filters.recallTypeId) : undefined,
+        filters.patientId ? eq(patientRecalls.patientId, filters.patientId) : undefined,
+      ))
+      .orderBy(asc(patientRecalls.dueDate));
+  }
+
+  // Only ever moves forward: an older visit completed late (or replayed by a
+  // backfill) leaves a newer one alone. Undefined when nothing changed.
+  async recordRecallVisit(recall: { patientId: string; recallTypeId: string; lastVisitDate: string; lastAppointmentId: string | null; dueDate: string }): Promise<PatientRecall | undefined> {
+    const [saved] = await db
+      .insert(patientRecalls)
+      .values(recall)
+      .onConflictDoUpdate({
+        target: [patientRecalls.patientId, patientRecalls.recallTypeId],
+        set: {
+          lastVisitDate: recall.lastVisitDate,
+          lastAppointmentId: recall.lastAppointmentId,
+          dueDate: recall.dueDate,
+          noticeCount: 0,
+          lastNoticeAt: null,
+          updatedAt: new Date(),
+        },
+        setWhere: lt(patientRecalls.lastVisitDate, recall.lastVisitDate),
+      })
+      .returning();
+    return saved;
+  }
+
+  async setRecallDueDate(id: string, dueDate: string): Promise<PatientRecall | undefined> {
+    const [recall] = await db
+      .update(patientRecalls)
+      .set({ dueDate, updatedAt: new Date() })
+      .where(eq(patientRecalls.id, id))
+      .returning();
+    return recall;
+  }
+
+  async recordRecallNotice(id: string): Promise<PatientRecall | undefined> {
+    const [recall] = await db
+      .update(patientRecalls)
+      .set({ lastNoticeAt: new Date(), noticeCount: sql`${patientRecalls.noticeCount} + 1`, updatedAt: new Date() })
+      .where(eq(patientRecalls.id, id))
+      .returning();
+    return recall;
+  }
+
+  // Treatment types compared case-insensitively, since appointments only keep
+  // the procedure's name as it was typed
+  async getCompletedAppointmentsByTreatment(treatmentTypes: string[]): Promise<Appointment[]> {
+    if (treatmentTypes.length === 0) return [];
+    return await db
+      .select()
+      .from(appointments)
+      .where(and(
+        eq(appointments.status, 'completed'),
+        inArray(sql`lower(${appointments.treatmentType})`, treatmentTypes.map(type => type.toLowerCase())),
+      ))
+      .orderBy(asc(appointments.appointmentDate));
+  }
+
+  // Clinical note operations
+  async getClinicalNoteTemplates(includeInactive = false): Promise<ClinicalNoteTemplate[]> {
+    return await db
+      .select()
+      .from(clinicalNoteTemplates)
+      .where(includeInactive ? undefined : eq(clinicalNoteTemplates.isActive, true))
+      .orderBy(asc(clinicalNoteTemplates.name));
+  }
+
+  async getClinicalNoteTemplate(id: string): Promise<ClinicalNoteTemplate | undefined> {
+    const [template] = await db.select().from(clinicalNoteTemplates).where(eq(clinicalNoteTemplates.id, id));
+    return template;
+  }
+
+  async createClinicalNoteTemplate(templateData: ClinicalNoteTemplateInput): Promise<ClinicalNoteTemplate> {
+    const [template] = await db.insert(clinicalNoteTemplates).values(templateData).returning();
+    return template;
+  }
+
+  async updateClinicalNoteTemplate(id: string, templateData: ClinicalNoteTemplateInput): Promise<ClinicalNoteTemplate | undefined> {
+    const [template] = await db
+      .update(clinicalNoteTemplates)
+      .set({ ...templateData, updatedAt: new Date() })
+      .where(eq(clinicalNoteTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteClinicalNoteTemplate(id: string): Promise<void> {
+    await db
+      .update(clinicalNoteTemplates)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(clinicalNoteTemplates.id, id));
+  }
+
+  async getClinicalNote(id: string): Promise<ClinicalNote | undefined> {
+    const [note] = await db.select().from(clinicalNotes).where(eq(clinicalNotes.id, id));
+    return note;
+  }
+
+  async getClinicalNoteForAppointment(appointmentId: string): Promise<ClinicalNote | undefined> {
+    const [note] = await db.select().from(clinicalNotes).where(eq(clinicalNotes.appointmentId, appointmentId));
+    return note;
+  }
+
+  // Newest first
+  async getClinicalNotesByPatient(patientId: string): Promise<ClinicalNote[]> {
+    return await db
+      .select()
+      .from(clinicalNotes)
+      .where(eq(clinicalNotes.patientId, patientId))
+      .orderBy(desc(clinicalNotes.createdAt));
+  }
+
+  // Undefined when the appointment already has a note
+  async createClinicalNote(noteData: typeof clinicalNotes.$inferInsert): Promise<ClinicalNote | undefined> {
+    const [note] = await db
+      .insert(clinicalNotes)
+      .values(noteData)
+      .onConflictDoNothing({ target: clinicalNotes.appointmentId })
+      .returning();
+    return note;
+  }
+
+  // Undefined once the note is signed (or gone), so a lock can't be raced
+  async updateClinicalNoteDraft(id: string, sections: ClinicalNoteSections): Promise<ClinicalNote | undefined> {
+    const [note] = await db
+      .update(clinicalNotes)
+      .set({ ...sections, updatedAt: new Date() })
+      .where(and(eq(clinicalNotes.id, id), isNull(clinicalNotes.signedAt)))
+      .returning();
+    return note;
+  }
+
+  async signClinicalNote(id: string, signOff: { signedBy: string; signingProviderId: string; signingProviderName: string }): Promise<ClinicalNote | undefined> {
+    const [note] = await db
+      .update(clinicalNotes)
+      .set({ ...signOff, signedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(clinicalNotes.id, id), isNull(clinicalNotes.signedAt)))
+      .returning();
+    return note;
+  }
+
+  // Oldest first, in the order they were written
+  async getClinicalNoteAddenda(noteIds: string[]): Promise<ClinicalNoteAddendum[]> {
+    if (noteIds.length === 0) return [];
+    return await db
+      .select()
+      .from(clinicalNoteAddenda)
+      .where(inArray(clinicalNoteAddenda.noteId, noteIds))
+      .orderBy(asc(clinicalNoteAddenda.createdAt));
+  }
+
+  async createClinicalNoteAddendum(addendumData: typeof clinicalNoteAddenda.$inferInsert): Promise<ClinicalNoteAddendum> {
+    const [addendum] = await db.insert(clinicalNoteAddenda).values(addendumData).returning();
+    return addendum;
+  }
+
   // Payment operations
   async getPaymentsByPatientId(patientId: string): Promise<Payment[]> {
     return await db
@@ -549,6 +2453,15 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(payments.paymentDate));
   }
 
+  async getPaymentsByPatientIds(patientIds: string[]): Promise<Payment[]> {
+    if (patientIds.length === 0) return [];
+    return await db
+      .select()
+      .from(payments)
+      .where(inArray(payments.patientId, patientIds))
+      .orderBy(desc(payments.paymentDate));
+  }
+
   async createPayment(paymentData: InsertPayment): Promise<Payment> {
     const [payment] = await db
       .insert(payments)
@@ -0,0 +1,161 @@
+import { storage } from "./storage";
+import { findOpenStarts, usualProviderId } from "./quick-booking";
+import type { BookableStart } from "./availability";
+import {
+  derivedPlanStatus,
+  estimate,
+  patientPortionCents,
+  planItemStatus,
+  type PlanEstimate,
+  type PlanItemStatus,
+} from "@shared/treatment-plan";
+import type {
+  Appointment,
+  TreatmentPlan,
+  TreatmentPlanInput,
+  TreatmentPlanItem,
+  TreatmentPlanPhase,
+  TreatmentPlanStatus,
+} from "@shared/schema";
+
+// How far ahead to look for openings when booking a plan item
+export const PLAN_BOOKING_DAYS = 28;
+
+export type TreatmentPlanItemView = TreatmentPlanItem & {
+  procedureName: string;
+  durationMinutes: number;
+  patientPortionCents: number;
+  status: PlanItemStatus;
+  appointment: Pick<Appointment, 'id' | 'appointmentDate' | 'appointmentTime' | 'doctorName' | 'status'> | null;
+};
+
+export type TreatmentPlanView = TreatmentPlan & {
+  phases: (TreatmentPlanPhase & { items: TreatmentPlanItemView[]; estimate: PlanEstimate })[];
+  estimate: PlanEstimate;
+};
+
+async function planViews(plans: TreatmentPlan[]): Promise<TreatmentPlanView[]> {
+  const phases = await storage.getTreatmentPlanPhases(plans.map(plan => plan.id));
+  const [items, procedures] = await Promise.all([
+    storage.getTreatmentPlanItems(phases.map(phase => phase.id)),
+    storage.getProcedures(),
+  ]);
+  const appointmentIds = Array.from(new Set(items.flatMap(item => item.appointmentId ? [item.appointmentId] : [])));
+  const appointments = await Promise.all(appointmentIds.map(id => storage.getAppointment(id)));
+
+  const itemView = (item: TreatmentPlanItem): TreatmentPlanItemView => {
+    const procedure = procedures.find(p => p.id === item.procedureId);
+    const appointment = item.appointmentId ? appointments[appointmentIds.indexOf(item.appointmentId)] : undefined;
+    return {
+      ...item,
+      procedureName: procedure?.name || 'Unknown procedure',
+      durationMinutes: procedure?.duration || 0,
+      patientPortionCents: patientPortionCents(item),
+      status: planItemStatus(appointment),
+      appointment: appointment ? {
+        id: appointment.id,
+        appointmentDate: appointment.appointmentDate,
+        appointmentTime: appointment.appointmentTime,
+        doctorName: appointment.doctorName,
+        status: appointment.status,
+      } : null,
+    };
+  };
+
+  return plans.map(plan => {
+    const planPhases = phases
+      .filter(phase => phase.planId === plan.id)
+      .map(phase => {
+        const phaseItems = items.filter(item => item.phaseId === phase.id).map(itemView);
+        return { ...phase, items: phaseItems, estimate: estimate(phaseItems) };
+      });
+    return { ...plan, phases: planPhases, estimate: estimate(planPhases.flatMap(phase => phase.items)) };
+  });
+}
+
+export async function loadTreatmentPlans(patientId: string): Promise<TreatmentPlanView[]> {
+  return await planViews(await storage.getTreatmentPlans(patientId));
+}
+
+export async function loadTreatmentPlan(id: string): Promise<TreatmentPlanView | undefined> {
+  const plan = await storage.getTreatmentPlan(id);
+  if (!plan) return undefined;
+  const [view] = await planViews([plan]);
+  return view;
+}
+
+// Fills in each item's fee from its procedure's current price unless staff
+// set one. Undefined when an item names a procedure that doesn't exist.
+export async function priceTreatmentPlan(plan: TreatmentPlanInput): Promise<TreatmentPlanInput | undefined> {
+  const procedures = await storage.getProcedures();
+  const items = plan.phases.flatMap(phase => phase.items);
+  if (items.some(item => !procedures.some(p => p.id === item.procedureId))) return undefined;
+
+  return {
+    ...plan,
+    phases: plan.phases.map(phase => ({
+      ...phase,
+      items: phase.items.map(item => ({
+        ...item,
+        feeCents: item.feeCents ?? procedures.find(p => p.id === item.procedureId)?.priceCents ?? 0,
+      })),
+    })),
+  };
+}
+
+// Moves an accepted plan along as its items are booked, done or cancelled
+export async function refreshPlanStatus(planId: string): Promise<void> {
+  const plan = await loadTreatmentPlan(planId);
+  if (!plan) return;
+
+  const status = derivedPlanStatus(plan.status as TreatmentPlanStatus, plan.phases.flatMap(phase => phase.items.map(item => item.status)));
+  if (status !== plan.status) {
+    await storage.updateTreatmentPlanStatus(plan.id, status);
+  }
+}
+
+export async function refreshPlansForAppointment(appointmentId: string): Promise<void> {
+  const planIds = await storage.getTreatmentPlanIdsForAppointment(appointmentId);
+  await Promise.all(planIds.map(refreshPlanStatus));
+}
+
+// Why a plan item can't be booked for this patient as this procedure, if it can't
+export async function planItemBookingProblem(patientId: string, itemId: string, treatmentType: string): Promise<string | null> {
+  const item = await storage.getTreatmentPlanItem(itemId);
+  const plan = item ? await loadTreatmentPlan(item.planId) : undefined;
+  const view = plan?.phases.flatMap(phase => phase.items).find(i => i.id === itemId);
+  if (!plan || !view || plan.patientId !== patientId) {
+    return "Treatment plan item not found";
+  }
+  if (plan.status === 'proposed') {
+    return "Accept the treatment plan before booking it";
+  }
+  if (view.status !== 'planned') {
+    return "This part of the plan is already booked";
+  }
+  if (view.procedureName.toLowerCase() !== treatmentType.toLowerCase()) {
+    return `This part of the plan is for ${view.procedureName}`;
+  }
+  return null;
+}
+
+export async function linkPlanItem(itemId: string, appointmentId: string): Promise<void> {
+  const item = await storage.getTreatmentPlanItem(itemId);
+  if (!item) return;
+  await storage.linkTreatmentPlanItem(item.id, appointmentId);
+  await refreshPlanStatus(item.planId);
+}
+
+// Where a plan item could be booked, with the patient's usual dentist first.
+// Slots set aside for a particular kind of visit are left for those visits.
+export async function planItemOpenings(patientId: string, item: TreatmentPlanItem, now: Date = new Date()): Promise<BookableStart[]> {
+  const procedure = (await storage.getProcedures()).find(p => p.id === item.procedureId);
+  if (!procedure) return [];
+
+  return await findOpenStarts({
+    procedure,
+    duration: procedure.duration,
+    days: PLAN_BOOKING_DAYS,
+    accepts: slotType => !slotType || slotType === 'general',
+  }, await usualProviderId(patientId), now);
+}
@@ -0,0 +1,107 @@
+import { storage } from "./storage";
+import { toMinutes } from "@shared/datetime";
+import { canPerform, findBookableStarts, type BookableStart } from "./availability";
+import { hasStarted, practiceDate } from "./practice-time";
+import { loadPracticeCalendar, openSlots } from "./practice-calendar";
+import { publishChange } from "./live-updates";
+import type { WaitlistEntryWithOffers } from "@shared/schema";
+
+// How long a patient has to accept an offered slot before it moves on
+export const HOLD_MINUTES = parseInt(process.env.WAITLIST_HOLD_MINUTES || '120', 10);
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Whether an opening falls inside everything the patient asked for
+export function fitsEntry(entry: WaitlistEntryWithOffers, start: BookableStart): boolean {
+  if (start.date < entry.earliestDate || start.date > entry.latestDate) return false;
+  if (entry.providerIds.length > 0 && (!start.providerId || !entry.providerIds.includes(start.providerId))) {
+    return false;
+  }
+  if (entry.earliestTime && toMinutes(start.time) < toMinutes(entry.earliestTime)) return false;
+  if (entry.latestTime && toMinutes(start.endTime) > toMinutes(entry.latestTime)) return false;
+  return true;
+}
+
+// Offers open capacity between two dates to waiting patients, earliest sign-up
+// first. Each offer holds its slots, so later patients only see what is left.
+// Without an end date, every date someone is still waiting for is covered.
+export async function offerOpenSlots(startDate: string, endDate?: string): Promise<number> {
+  const now = new Date();
+  const from = startDate < practiceDate(now) ? practiceDate(now) : startDate;
+
+  const waiting = await storage.getWaitlistEntries({ statuses: ['waiting'] });
+  const until = endDate || waiting.reduce((latest, entry) => entry.latestDate > latest ? entry.latestDate : latest, from);
+  const entries = waiting.filter(entry => entry.earliestDate <= until && entry.latestDate >= from);
+  if (entries.length === 0) return 0;
+
+  const procedures = await storage.getProcedures();
+  const providers = await storage.getProviders();
+  const calendar = await loadPracticeCalendar(from, until);
+  let slots = openSlots(calendar, await storage.getTimeSlotsInRange(from, until));
+  let offered = 0;
+
+  for (const entry of entries) {
+    const procedure = procedures.find(p => p.id === entry.procedureId);
+    if (!procedure) continue;
+
+    const eligible = new Set(providers.filter(p => canPerform(p, procedure.id)).map(p => p.id));
+    const alreadyOffered = new Set(entry.offers.map(offer => offer.timeSlotIds[0]));
+
+    const match = findBookableStarts(
+      slots.filter(slot => slot.providerId && eligible.has(slot.providerId)),
+      procedure.duration,
+    )
+      .filter(start => !alreadyOffered.has(start.id) && !hasStarted(start, now) && fitsEntry(entry, start))
+      .sort((a, b) => a.date.localeCompare(b.date) || toMinutes(a.time) - toMinutes(b.time))[0];
+    if (!match) continue;
+
+    const expiresAt = new Date(now.getTime() + HOLD_MINUTES * 60 * 1000);
+    const offer = await storage.createWaitlistOffer(entry.id, match.timeSlotIds, expiresAt);
+    if (offer) {
+      offered++;
+      publishChange(['timeslots'], match.date);
+      slots = openSlots(calendar, await storage.getTimeSlotsInRange(from, until));
+    }
+  }
+
+  return offered;
+}
+
+// Lets unanswered holds lapse and drops entries whose date range has passed
+export async function expireWaitlistOffers(now: Date = new Date()): Promise<number> {
+  const due = await storage.getExpiredWaitlistOffers(now);
+  let expired = 0;
+
+  for (const offer of due) {
+    if (await storage.closeWaitlistOffer(offer.id, 'expired')) expired++;
+  }
+  if (expired > 0) publishChange(['timeslots']);
+
+  await storage.expireStaleWaitlistEntries(practiceDate(now));
+  return expired;
+}
+
+// Called wherever capacity opens up. Runs in the background so the request
+// that freed the slot isn't held up or failed by waitlist matching.
+export function notifyCapacityFreed(...dates: string[]) {
+  const sorted = Array.from(new Set(dates)).sort();
+  if (sorted.length === 0) return;
+
+  offerOpenSlots(sorted[0], sorted[sorted.length - 1]).catch(error => {
+    console.error("Error offering slots to waitlist:", error);
+  });
+}
+
+// Expired holds go to the next patient in line on the following pass, which
+// also picks up slots created by the schedule generator
+export function startWaitlistSweeper() {
+  const run = async () => {
+    try {
+      await expireWaitlistOffers();
+      await offerOpenSlots(practiceDate());
+    } catch (error) {
+      console.error("Error sweeping waitlist:", error);
+    }
+  };
+
+  setInterval(run, SWEEP_INTERVAL_MS).unref();
+}
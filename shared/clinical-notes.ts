@@ -0,0 +1,33 @@
+// Clinical note helpers shared by the server and the client: the SOAP
+// sections, and what a note starts from when no template fits.
+import type { ClinicalNoteSections } from "./schema";
+
+export const soapSections = ['subjective', 'objective', 'assessment', 'plan'] as const;
+export type SoapSection = typeof soapSections[number];
+
+export const soapSectionLabels: Record<SoapSection, string> = {
+  subjective: "Subjective",
+  objective: "Objective",
+  assessment: "Assessment",
+  plan: "Plan",
+};
+
+// Shown as placeholders, so they guide without ending up in the record
+export const soapSectionPrompts: Record<SoapSection, string> = {
+  subjective: "Chief complaint, history, what the patient reports",
+  objective: "Exam findings, vitals, radiographs, tests",
+  assessment: "Diagnosis and clinical impression",
+  plan: "Treatment done today, prescriptions, next steps and follow-up",
+};
+
+// The built-in template every appointment can use
+export const BLANK_SOAP_TEMPLATE = "SOAP note";
+
+export function blankSections(): ClinicalNoteSections {
+  return { subjective: '', objective: '', assessment: '', plan: '' };
+}
+
+// Nothing worth signing yet
+export function isBlankNote(note: ClinicalNoteSections): boolean {
+  return soapSections.every(section => note[section].trim() === '');
+}
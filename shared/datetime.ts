@@ -0,0 +1,125 @@
+// Date and time helpers shared by the server and the client.
+//
+// Appointment dates are practice-local calendar dates ("YYYY-MM-DD") and times
+// are practice-local wall-clock times ("HH:MM", 24-hour). Neither means anything
+// on its own in UTC; they only become an instant when combined in the practice's
+// time zone, which is what `zonedInstant` is for.
+
+// "09:30", "09:30:00" or legacy "9:30 AM" -> 570
+export function toMinutes(time: string): number {
+  const [clock, modifier] = time.trim().split(' ');
+  const [hours, minutes] = clock.split(':').map(part => parseInt(part, 10));
+  let hoursNum = hours;
+  if (modifier) {
+    hoursNum = hours % 12 + (modifier.toUpperCase() === 'PM' ? 12 : 0);
+  }
+  return hoursNum * 60 + (minutes || 0);
+}
+
+// 570 -> "09:30"
+export function fromMinutes(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60) % 24;
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+// Any accepted time format -> "HH:MM"
+export function normalizeTime(time: string): string {
+  return fromMinutes(toMinutes(time));
+}
+
+// "14:30" -> "2:30 PM", for display only
+export function formatTime(time: string): string {
+  const total = toMinutes(time);
+  const hours24 = Math.floor(total / 60) % 24;
+  const minutes = total % 60;
+  const modifier = hours24 >= 12 ? 'PM' : 'AM';
+  const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
+  return `${hours12}:${String(minutes).padStart(2, '0')} ${modifier}`;
+}
+
+// Calendar arithmetic on "YYYY-MM-DD", done in UTC so no offset can shift the day
+export function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+// Same day n months on, or the month's last day when it's shorter
+// ("2025-08-31" + 6 -> "2026-02-28")
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+// 0 = Sunday
+export function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// "2025-01-15" -> "Wednesday, January 15, 2025" (or as `options` ask), without
+// the one-day shift `new Date("2025-01-15")` causes west of UTC
+export function formatDate(
+  date: string,
+  options: Intl.DateTimeFormatOptions = { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' },
+): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
+
+function zonedParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '00';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    minutes: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10),
+    seconds: parseInt(get('second'), 10),
+  };
+}
+
+// The calendar date an instant falls on in the time zone
+export function dateInZone(instant: Date, timeZone: string): string {
+  return zonedParts(instant, timeZone).date;
+}
+
+// Minutes since midnight of an instant in the time zone
+export function minutesInZone(instant: Date, timeZone: string): number {
+  return zonedParts(instant, timeZone).minutes;
+}
+
+// The instant a wall-clock time on a date happens in the time zone. Times that
+// don't exist (skipped by a DST change) land just after the gap.
+export function zonedInstant(date: string, time: string, timeZone: string): Date {
+  const wallClock = Date.UTC(
+    parseInt(date.slice(0, 4), 10),
+    parseInt(date.slice(5, 7), 10) - 1,
+    parseInt(date.slice(8, 10), 10),
+  ) + toMinutes(time) * 60 * 1000;
+
+  const offsetAt = (guess: number) => {
+    const parts = zonedParts(new Date(guess), timeZone);
+    const seen = Date.parse(`${parts.date}T00:00:00Z`) + parts.minutes * 60 * 1000 + parts.seconds * 1000;
+    return seen - guess;
+  };
+
+  const first = wallClock - offsetAt(wallClock);
+  const second = wallClock - offsetAt(first);
+  if (second === first) return new Date(first);
+
+  // Offsets disagree near a DST change; keep whichever reads back as the
+  // requested time, or the later one inside a gap
+  const readBack = zonedParts(new Date(second), timeZone);
+  const matches = readBack.date === date && readBack.minutes === toMinutes(time);
+  return new Date(matches ? second : Math.max(first, second));
+}
@@ -0,0 +1,132 @@
+// Dental chart helpers shared by the server and the client: tooth numbering,
+// which entries a new finding or treatment replaces, and the chart as it
+// stood at any point in time.
+import type { ToothCondition, ToothSurface } from "./schema";
+
+export type ToothNumbering = 'universal' | 'fdi';
+
+export const toothConditionLabels: Record<ToothCondition, string> = {
+  caries: "Caries",
+  filling: "Filling",
+  sealant: "Sealant",
+  fracture: "Fracture",
+  crown: "Crown",
+  root_canal: "Root canal",
+  bridge: "Bridge",
+  implant: "Implant",
+  missing: "Missing",
+  extraction_planned: "Extraction planned",
+};
+
+export const toothSurfaceLabels: Record<ToothSurface, string> = {
+  M: "Mesial",
+  O: "Occlusal / incisal",
+  D: "Distal",
+  B: "Buccal / facial",
+  L: "Lingual",
+};
+
+const PRIMARY = "ABCDEFGHIJKLMNOPQRST";
+
+// As the dentist sees the patient: the patient's right on the left of each row
+export const permanentArches = {
+  upper: Array.from({ length: 16 }, (_, i) => String(i + 1)),
+  lower: Array.from({ length: 16 }, (_, i) => String(32 - i)),
+};
+
+export const primaryArches = {
+  upper: PRIMARY.slice(0, 10).split(''),
+  lower: PRIMARY.slice(10).split('').reverse(),
+};
+
+export function isPrimaryTooth(tooth: string): boolean {
+  return tooth.length === 1 && PRIMARY.includes(tooth);
+}
+
+// Universal "1"-"32" / "A"-"T" -> FDI two-digit notation
+export function toFdi(tooth: string): string {
+  if (isPrimaryTooth(tooth)) {
+    const index = PRIMARY.indexOf(tooth); // 0-19, five teeth per quadrant
+    const quadrant = Math.floor(index / 5);
+    const position = quadrant % 2 === 0 ? 5 - (index % 5) : (index % 5) + 1;
+    return `${quadrant + 5}${position}`;
+  }
+  const number = parseInt(tooth, 10);
+  const quadrant = Math.floor((number - 1) / 8); // 0-3 in Universal order
+  const offset = (number - 1) % 8;
+  const position = quadrant % 2 === 0 ? 8 - offset : offset + 1;
+  return `${quadrant + 1}${position}`;
+}
+
+export function toothLabel(tooth: string, numbering: ToothNumbering = 'universal'): string {
+  return numbering === 'fdi' ? toFdi(tooth) : tooth;
+}
+
+// Whether a tooth's mesial surface faces right in the chart layout above,
+// i.e. it sits on the patient's right side of its arch
+export function mesialOnRight(tooth: string): boolean {
+  if (isPrimaryTooth(tooth)) {
+    const index = PRIMARY.indexOf(tooth);
+    return index < 5 || index >= 15;
+  }
+  const number = parseInt(tooth, 10);
+  return number <= 8 || number >= 25;
+}
+
+interface ChartMark {
+  tooth: string;
+  condition: string;
+  surfaces: string[];
+}
+
+const FILLABLE = ['caries', 'filling', 'sealant', 'fracture'];
+
+function overlaps(a: ChartMark, b: ChartMark): boolean {
+  if (a.surfaces.length === 0 || b.surfaces.length === 0) return true;
+  return a.surfaces.some(surface => b.surfaces.includes(surface));
+}
+
+// Whether recording `next` resolves the still-open `existing` entry: a filling
+// treats the caries on its surfaces, a crown covers everything on the tooth,
+// and nothing else matters once a tooth is missing or replaced by an implant.
+// Recording the same condition again on the same surfaces replaces it.
+export function supersedes(next: ChartMark, existing: ChartMark): boolean {
+  if (next.tooth !== existing.tooth) return false;
+
+  switch (next.condition) {
+    case 'missing':
+    case 'implant':
+      return true;
+    case 'crown':
+      return existing.condition === 'crown' || FILLABLE.includes(existing.condition);
+    case 'filling':
+      return FILLABLE.includes(existing.condition) && overlaps(next, existing);
+    default:
+      return existing.condition === next.condition && overlaps(next, existing);
+  }
+}
+
+// Surfaces of a superseded entry that the new one doesn't cover. They stay
+// open: filling the occlusal surface leaves the mesial caries untreated.
+export function uncoveredSurfaces<T extends string>(next: ChartMark, existing: { surfaces: T[] }): T[] {
+  if (next.surfaces.length === 0) return [];
+  return existing.surfaces.filter(surface => !next.surfaces.includes(surface));
+}
+
+interface DatedEntry extends ChartMark {
+  recordedAt: string | Date;
+  resolvedAt: string | Date | null;
+}
+
+// Open entries by tooth as of `at` (default now)
+export function chartAsOf<T extends DatedEntry>(entries: T[], at: string | Date = new Date()): Record<string, T[]> {
+  const time = new Date(at).getTime();
+  const chart: Record<string, T[]> = {};
+  entries
+    .filter(entry => new Date(entry.recordedAt).getTime() <= time
+      && (!entry.resolvedAt || new Date(entry.resolvedAt).getTime() > time))
+    .forEach(entry => {
+      (chart[entry.tooth] ||= []).push(entry);
+    });
+  return chart;
+}
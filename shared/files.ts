@@ -0,0 +1,81 @@
+// File upload rules shared by the server and the client: what each category of
+// file may contain, how big it may be, and who can see it.
+import type { FileCategory, StoredFile } from "./schema";
+
+export interface FileCategoryRule {
+  label: string;
+  contentTypes: string[];
+  maxBytes: number;
+  // Anyone can fetch it, signed in or not (team photos, blank forms)
+  isPublic: boolean;
+  // Part of a patient's record, so it needs a patientId
+  forPatient: boolean;
+  // Patients and guardians may upload it themselves; everything else is staff-only
+  patientUpload: boolean;
+}
+
+const MB = 1024 * 1024;
+
+export const fileCategoryRules: Record<FileCategory, FileCategoryRule> = {
+  team_photo: {
+    label: "Team photo",
+    contentTypes: ['image/jpeg', 'image/png', 'image/webp'],
+    maxBytes: 5 * MB,
+    isPublic: true,
+    forPatient: false,
+    patientUpload: false,
+  },
+  form: {
+    label: "Downloadable form",
+    contentTypes: ['application/pdf'],
+    maxBytes: 10 * MB,
+    isPublic: true,
+    forPatient: false,
+    patientUpload: false,
+  },
+  patient_document: {
+    label: "Document",
+    contentTypes: ['application/pdf', 'image/jpeg', 'image/png'],
+    maxBytes: 20 * MB,
+    isPublic: false,
+    forPatient: true,
+    patientUpload: true,
+  },
+  xray: {
+    label: "X-ray",
+    contentTypes: ['image/jpeg', 'image/png', 'application/dicom'],
+    maxBytes: 50 * MB,
+    isPublic: false,
+    forPatient: true,
+    patientUpload: false,
+  },
+};
+
+// The largest upload any category accepts
+export const MAX_UPLOAD_BYTES = Math.max(...Object.values(fileCategoryRules).map(rule => rule.maxBytes));
+
+export const fileUrl = (fileId: string) => `/api/files/${fileId}`;
+
+// What the API returns for a file: where to fetch it, but not where it's kept
+export type FileRecord = Omit<StoredFile, 'storageKey'> & { url: string };
+
+export function fileRecord({ storageKey, ...file }: StoredFile): FileRecord {
+  return { ...file, url: fileUrl(file.id) };
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / MB).toFixed(1)} MB`;
+}
+
+// Why a file can't be stored in a category, or null when it can
+export function fileProblem(category: FileCategory, contentType: string, size: number): string | null {
+  const rule = fileCategoryRules[category];
+  if (!rule.contentTypes.includes(contentType)) {
+    return `${rule.label} files must be ${rule.contentTypes.map(type => type.split('/')[1].toUpperCase()).join(', ')}`;
+  }
+  if (size === 0) return "The file is empty";
+  if (size > rule.maxBytes) return `${rule.label} files must be ${formatFileSize(rule.maxBytes)} or smaller`;
+  return null;
+}
@@ -0,0 +1,112 @@
+// Intake form helpers shared by the server and the client: which sections a
+// patient's answers reveal, and whether the answers are complete and valid.
+import type { IntakeAnswer, IntakeAnswers, IntakeField, IntakeFieldType, IntakeFormFrequency, IntakeSection } from "./schema";
+
+export const intakeFieldTypeLabels: Record<IntakeFieldType, string> = {
+  text: "Short text",
+  textarea: "Long text",
+  number: "Number",
+  date: "Date",
+  yes_no: "Yes / No",
+  select: "Pick one",
+  multi_select: "Pick any",
+  checkbox: "Checkbox",
+};
+
+export const intakeFormFrequencyLabels: Record<IntakeFormFrequency, string> = {
+  every_visit: "Before every visit",
+  once: "Once per patient",
+};
+
+// The values a section condition can test an earlier field against
+export function conditionValues(field: IntakeField): { value: string; label: string }[] {
+  switch (field.type) {
+    case 'yes_no':
+      return [{ value: 'yes', label: 'Yes' }, { value: 'no', label: 'No' }];
+    case 'checkbox':
+      return [{ value: 'true', label: 'Checked' }];
+    case 'select':
+    case 'multi_select':
+      return field.options.map(option => ({ value: option, label: option }));
+    default:
+      return [];
+  }
+}
+
+function matches(answer: IntakeAnswer | undefined, equals: string): boolean {
+  if (answer === undefined) return false;
+  if (Array.isArray(answer)) return answer.includes(equals);
+  return String(answer) === equals;
+}
+
+// Sections in order, skipping any whose condition isn't met. A condition on a
+// field in a hidden section is never met.
+export function visibleSections(sections: IntakeSection[], answers: IntakeAnswers): IntakeSection[] {
+  const visible: IntakeSection[] = [];
+  for (const section of sections) {
+    const condition = section.showIf;
+    if (condition) {
+      const shown = visible.some(s => s.fields.some(f => f.id === condition.fieldId));
+      if (!shown || !matches(answers[condition.fieldId], condition.equals)) continue;
+    }
+    visible.push(section);
+  }
+  return visible;
+}
+
+function isBlank(answer: IntakeAnswer | undefined): boolean {
+  return answer === undefined || answer === '' || answer === false || (Array.isArray(answer) && answer.length === 0);
+}
+
+function fieldProblem(field: IntakeField, answer: IntakeAnswer): string | null {
+  switch (field.type) {
+    case 'text':
+    case 'textarea':
+      if (typeof answer !== 'string') return "Enter text";
+      return answer.length > 5000 ? "Keep this under 5000 characters" : null;
+    case 'number':
+      return typeof answer === 'number' && Number.isFinite(answer) ? null : "Enter a number";
+    case 'date':
+      return typeof answer === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(answer) ? null : "Enter a date";
+    case 'yes_no':
+      return answer === 'yes' || answer === 'no' ? null : "Answer yes or no";
+    case 'select':
+      return typeof answer === 'string' && field.options.includes(answer) ? null : "Pick one of the options";
+    case 'multi_select':
+      return Array.isArray(answer) && answer.every(a => field.options.includes(a)) ? null : "Pick from the options";
+    case 'checkbox':
+      return typeof answer === 'boolean' ? null : "Tick or untick the box";
+  }
+}
+
+// Keeps only answers to fields the patient can see, and reports what's
+// missing or malformed by field id
+export function checkIntakeAnswers(sections: IntakeSection[], answers: IntakeAnswers): { answers: IntakeAnswers; errors: Record<string, string> } {
+  const kept: IntakeAnswers = {};
+  const errors: Record<string, string> = {};
+
+  for (const section of visibleSections(sections, answers)) {
+    for (const field of section.fields) {
+      const answer = typeof answers[field.id] === 'string' ? (answers[field.id] as string).trim() : answers[field.id];
+      if (isBlank(answer)) {
+        if (field.required) errors[field.id] = field.type === 'checkbox' ? "Please tick this box" : "This is required";
+        continue;
+      }
+      const problem = fieldProblem(field, answer);
+      if (problem) {
+        errors[field.id] = problem;
+      } else {
+        kept[field.id] = answer;
+      }
+    }
+  }
+  return { answers: kept, errors };
+}
+
+export function formatAnswer(field: IntakeField, answer: IntakeAnswer | undefined): string {
+  if (answer === undefined) return "—";
+  if (Array.isArray(answer)) return answer.join(", ");
+  if (field.type === 'yes_no') return answer === 'yes' ? "Yes" : "No";
+  if (field.type === 'checkbox') return answer ? "Yes" : "No";
+  return String(answer);
+}
@@ -0,0 +1,149 @@
+// Medical history helpers shared by the server and the client: what each
+// questionnaire answer means, which ones staff must see before treatment, and
+// what changed between two versions.
+import type { Allergy, AllergySeverity, MedicalCondition, MedicalHistoryInput, Medication } from "./schema";
+
+// `alert` marks conditions that change how treatment is done, such as bleeding
+// risk for extractions or antibiotic cover for heart valves and joint replacements
+export const medicalConditionInfo: Record<MedicalCondition, { label: string; alert: boolean }> = {
+  heart_condition: { label: "Heart condition", alert: true },
+  artificial_heart_valve: { label: "Artificial heart valve", alert: true },
+  pacemaker: { label: "Pacemaker or implanted defibrillator", alert: true },
+  high_blood_pressure: { label: "High blood pressure", alert: false },
+  stroke: { label: "Previous stroke", alert: false },
+  bleeding_disorder: { label: "Bleeding disorder", alert: true },
+  blood_thinners: { label: "Takes blood thinners", alert: true },
+  diabetes: { label: "Diabetes", alert: true },
+  asthma: { label: "Asthma", alert: false },
+  epilepsy: { label: "Epilepsy or seizures", alert: true },
+  hepatitis: { label: "Hepatitis", alert: false },
+  hiv: { label: "HIV", alert: false },
+  kidney_disease: { label: "Kidney disease", alert: false },
+  liver_disease: { label: "Liver disease", alert: false },
+  joint_replacement: { label: "Joint replacement", alert: true },
+  bisphosphonates: { label: "Takes bisphosphonates (osteoporosis)", alert: true },
+  radiation_therapy: { label: "Radiation therapy to head or neck", alert: true },
+  pregnancy: { label: "Pregnant", alert: true },
+  smoker: { label: "Smoker", alert: false },
+};
+
+export const allergySeverityLabels: Record<AllergySeverity, string> = {
+  mild: "Mild",
+  moderate: "Moderate",
+  severe: "Severe / anaphylaxis",
+};
+
+export interface MedicalAlert {
+  kind: 'allergy' | 'condition';
+  label: string;
+  severity?: AllergySeverity;
+}
+
+// What the front desk sees next to a patient's appointments
+export interface MedicalAlertSummary {
+  version: number;
+  submittedAt: string | null;
+  needsReview: boolean;
+  alerts: MedicalAlert[];
+}
+
+export interface MedicalHistoryChange {
+  section: 'conditions' | 'medications' | 'allergies' | 'notes';
+  kind: 'added' | 'removed' | 'changed';
+  description: string;
+}
+
+type Answers = Pick<MedicalHistoryInput, 'conditions' | 'otherConditions' | 'medications' | 'allergies' | 'noKnownAllergies' | 'notes'>;
+
+const severityRank: Record<AllergySeverity, number> = { severe: 0, moderate: 1, mild: 2 };
+
+// Every allergy, most severe first, then the conditions flagged above
+export function medicalAlerts(history: Answers): MedicalAlert[] {
+  const allergies = [...history.allergies]
+    .sort((a, b) => severityRank[a.severity] - severityRank[b.severity])
+    .map(allergy => ({ kind: 'allergy' as const, label: allergy.substance, severity: allergy.severity }));
+  const conditions = history.conditions
+    .filter(condition => medicalConditionInfo[condition]?.alert)
+    .map(condition => ({ kind: 'condition' as const, label: medicalConditionInfo[condition].label }));
+  return [...allergies, ...conditions];
+}
+
+function key(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function text(value: string | null | undefined): string {
+  return (value || '').trim();
+}
+
+function describeMedication(medication: Medication): string {
+  return [medication.name, text(medication.dose), text(medication.frequency)].filter(Boolean).join(', ');
+}
+
+function describeAllergy(allergy: Allergy): string {
+  const reaction = text(allergy.reaction);
+  return `${allergy.substance} (${allergySeverityLabels[allergy.severity].toLowerCase()}${reaction ? `, ${reaction}` : ''})`;
+}
+
+// Added, removed and changed entries in list sections, matched by name
+function diffList<T>(
+  section: MedicalHistoryChange['section'],
+  before: T[],
+  after: T[],
+  name: (item: T) => string,
+  describe: (item: T) => string,
+): MedicalHistoryChange[] {
+  const previous = new Map(before.map(item => [key(name(item)), item]));
+  const next = new Map(after.map(item => [key(name(item)), item]));
+  const changes: MedicalHistoryChange[] = [];
+
+  next.forEach((item, id) => {
+    const old = previous.get(id);
+    if (!old) {
+      changes.push({ section, kind: 'added', description: describe(item) });
+    } else if (describe(old) !== describe(item)) {
+      changes.push({ section, kind: 'changed', description: `${describe(old)} → ${describe(item)}` });
+    }
+  });
+  previous.forEach((item, id) => {
+    if (!next.has(id)) changes.push({ section, kind: 'removed', description: describe(item) });
+  });
+  return changes;
+}
+
+// What a submission changed relative to the one before it. The first version
+// has no previous one, so everything it contains counts as added.
+export function diffMedicalHistories(previous: Answers | undefined, next: Answers): MedicalHistoryChange[] {
+  const before: Answers = previous || {
+    conditions: [], otherConditions: null, medications: [], allergies: [], noKnownAllergies: false, notes: null,
+  };
+  const changes: MedicalHistoryChange[] = [];
+
+  const label = (condition: MedicalCondition) => medicalConditionInfo[condition]?.label || condition;
+  next.conditions.filter(c => !before.conditions.includes(c))
+    .forEach(c => changes.push({ section: 'conditions', kind: 'added', description: label(c) }));
+  before.conditions.filter(c => !next.conditions.includes(c))
+    .forEach(c => changes.push({ section: 'conditions', kind: 'removed', description: label(c) }));
+  if (text(before.otherConditions) !== text(next.otherConditions)) {
+    changes.push({
+      section: 'conditions',
+      kind: !text(before.otherConditions) ? 'added' : !text(next.otherConditions) ? 'removed' : 'changed',
+      description: `Other: ${text(next.otherConditions) || text(before.otherConditions)}`,
+    });
+  }
+
+  changes.push(...diffList('medications', before.medications, next.medications, m => m.name, describeMedication));
+  changes.push(...diffList('allergies', before.allergies, next.allergies, a => a.substance, describeAllergy));
+  if (next.noKnownAllergies && !before.noKnownAllergies) {
+    changes.push({ section: 'allergies', kind: 'changed', description: "Confirmed no known allergies" });
+  }
+
+  if (text(before.notes) !== text(next.notes)) {
+    changes.push({
+      section: 'notes',
+      kind: !text(before.notes) ? 'added' : !text(next.notes) ? 'removed' : 'changed',
+      description: text(next.notes) || text(before.notes),
+    });
+  }
+  return changes;
+}
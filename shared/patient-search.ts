@@ -0,0 +1,68 @@
+// Patient search helpers shared by the server and the client: what kind of
+// thing staff typed, so it can be matched against the right index.
+
+export type PatientQuery =
+  | { kind: 'dob'; date: string }
+  | { kind: 'email'; prefix: string }
+  | { kind: 'phone'; digits: string }
+  | { kind: 'name'; tokens: string[] };
+
+// Shorter queries match too much to be useful
+export const MIN_PATIENT_QUERY_LENGTH = 2;
+
+// Enough to pick from; a more specific query narrows it further
+export const PATIENT_SEARCH_LIMIT = 25;
+
+export interface PatientSearchResult {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  dateOfBirth: string | null;
+  mobilePhone: string | null;
+  homePhone: string | null;
+}
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+const US_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+// "1985-03-09", "3/9/1985" or "03/09/1985" -> "1985-03-09"
+function parseDate(text: string): string | null {
+  const iso = ISO_DATE.exec(text);
+  const us = US_DATE.exec(text);
+  if (!iso && !us) return null;
+  const [year, month, day] = iso ? [iso[1], iso[2], iso[3]] : [us![3], us![1], us![2]];
+
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date ? date : null;
+}
+
+// Null when there's too little to search on
+export function parsePatientQuery(input: string): PatientQuery | null {
+  const text = input.trim().toLowerCase();
+  if (text.length < MIN_PATIENT_QUERY_LENGTH) return null;
+
+  if (ISO_DATE.test(text) || US_DATE.test(text)) {
+    const date = parseDate(text);
+    return date ? { kind: 'dob', date } : null;
+  }
+
+  if (text.includes('@')) return { kind: 'email', prefix: text };
+
+  // Phone numbers as people type them: "(555) 123-4567", "+1 555 123 4567"
+  if (/^[\d\s()+.-]+$/.test(text)) {
+    const digits = text.replace(/\D/g, '');
+    return digits.length >= 3 ? { kind: 'phone', digits } : null;
+  }
+
+  return { kind: 'name', tokens: text.split(/[\s,]+/).filter(Boolean).slice(0, 4) };
+}
+
+export function patientDisplayName(patient: Pick<PatientSearchResult, 'firstName' | 'lastName' | 'email'>): string {
+  return `${patient.firstName || ''} ${patient.lastName || ''}`.trim() || patient.email || 'Unnamed patient';
+}
+
+export function patientDetailPath(patientId: string): string {
+  return `/admin/patients/${patientId}`;
+}
@@ -0,0 +1,10 @@
+// One-click booking helpers shared by the server and the client
+import type { BookingIntent } from "./schema";
+
+// The title on each one-click booking button
+export const bookingIntentLabels: Record<BookingIntent, string> = {
+  emergency: "Emergency Visit",
+  checkup: "Routine Checkup",
+  consultation: "New Patient Consultation",
+  followup: "Follow-up Visit",
+};
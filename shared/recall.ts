@@ -0,0 +1,30 @@
+// Hygiene recall helpers shared by the server and the client: when a patient
+// is next due, and how that compares with today.
+import { addDays, addMonths } from "./datetime";
+
+export const recallStatuses = ['overdue', 'due_soon', 'later'] as const;
+export type RecallStatus = typeof recallStatuses[number];
+
+// How far ahead "due soon" looks
+export const RECALL_DUE_SOON_DAYS = 30;
+
+export const recallStatusLabels: Record<RecallStatus, string> = {
+  overdue: "Overdue",
+  due_soon: "Due soon",
+  later: "Upcoming",
+};
+
+export function recallDueDate(lastVisitDate: string, intervalMonths: number): string {
+  return addMonths(lastVisitDate, intervalMonths);
+}
+
+// All dates are practice-local "YYYY-MM-DD", so plain string comparison works
+export function recallStatus(dueDate: string, today: string): RecallStatus {
+  if (dueDate < today) return 'overdue';
+  return dueDate <= addDays(today, RECALL_DUE_SOON_DAYS) ? 'due_soon' : 'later';
+}
+
+// Whole days from today to the due date; negative once overdue
+export function daysUntilDue(dueDate: string, today: string): number {
+  return Math.round((Date.parse(`${dueDate}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / 86_400_000);
+}
@@ -0,0 +1,52 @@
+// Schedule board helpers shared by the server and the client: the appointment
+// as the board draws it, how overlapping visits sit side by side, and the
+// status staff move each visit to next.
+import { toMinutes } from "./datetime";
+import type { MedicalAlertSummary } from "./medical-history";
+import type { Appointment } from "./schema";
+
+// An appointment with its patient's name, its real length and any alerts
+// staff need to see before treatment
+export type BoardAppointment = Appointment & {
+  patientName: string;
+  durationMinutes: number;
+  endTime: string;
+  medicalAlerts: MedicalAlertSummary | null;
+};
+
+// The forward step staff take from each status as the patient moves through the visit
+export const nextSteps: Record<string, { status: string; label: string }> = {
+  pending: { status: 'confirmed', label: 'Confirm' },
+  confirmed: { status: 'checked_in', label: 'Check In' },
+  checked_in: { status: 'in_chair', label: 'Seat' },
+  in_chair: { status: 'completed', label: 'Complete' },
+};
+
+// A flagged patient's booking is only confirmed once staff have taken the
+// deposit or spoken to them
+const requirementChecks: Record<string, string> = {
+  deposit: "This patient has missed appointments before. Has their deposit been taken?",
+  confirmation: "This patient has missed appointments before. Have you confirmed this booking with them?",
+};
+
+// What staff have to agree to before moving the appointment to `status`, if
+// anything. Saying yes is sent along as requirementMet.
+export function requirementCheck(appointment: Pick<Appointment, 'bookingRequirement'>, status: string): string | undefined {
+  if (status !== 'confirmed' || !appointment.bookingRequirement) return undefined;
+  return requirementChecks[appointment.bookingRequirement];
+}
+
+// Side-by-side lanes for appointments that overlap in one column (a provider
+// with more than one chair)
+export function assignLanes(appointments: Pick<BoardAppointment, 'id' | 'appointmentTime' | 'durationMinutes'>[]) {
+  const laneEnds: number[] = [];
+  const lanes = new Map<string, number>();
+  for (const appointment of [...appointments].sort((a, b) => a.appointmentTime.localeCompare(b.appointmentTime))) {
+    const start = toMinutes(appointment.appointmentTime);
+    let lane = laneEnds.findIndex(end => end <= start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = start + appointment.durationMinutes;
+    lanes.set(appointment.id, lane);
+  }
+  return { lanes, count: Math.max(laneEnds.length, 1) };
+}
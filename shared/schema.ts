@@ -1,5 +1,6 @@
 import { sql } from 'drizzle-orm';
 import {
+  check,
   index,
   jsonb,
   pgTable,
@@ -9,11 +10,27 @@ import {
   integer,
   boolean,
   date,
+  unique,
+  type PgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Clock times are practice-local wall times kept as 24-hour "HH:MM" text
+// rather than Postgres time: the app compares and sorts them as strings,
+// and a time column would come back as "HH:MM:SS". The check constraints
+// hold every row to that format; NULL still passes for optional times.
+// Older "9:30 AM" rows are rewritten by server/migrations/0001_clock_times.sql,
+// which npm runs ahead of db:push.
+export const CLOCK_TIME_PATTERN = '^([01][0-9]|2[0-3]):[0-5][0-9]$';
+
+function clockTimeChecks(tableName: string, ...columns: PgColumn[]) {
+  return columns.map(column =>
+    check(`${tableName}_${column.name}_format`, sql`${column} ~ ${sql.raw(`'${CLOCK_TIME_PATTERN}'`)}`)
+  );
+}
+
 // Session storage table.
 export const sessions = pgTable(
   "sessions",
@@ -28,7 +45,7 @@ export const sessions = pgTable(
 // User storage table.
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  email: varchar("email").unique().notNull(),
+  email: varchar("email").unique(), // Null for dependents, who don't log in
   password: varchar("password"), // For local auth, null for OAuth users
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
@@ -36,22 +53,172 @@ export const users = pgTable("users", {
   role: varchar("role").notNull().default('patient'), // 'patient' or 'admin'
   provider: varchar("provider").notNull().default('local'), // 'local', 'google', 'apple', 'replit'
   providerId: varchar("provider_id"), // External provider ID
+  noShowCount: integer("no_show_count").notNull().default(0),
+  noShowFlaggedAt: timestamp("no_show_flagged_at"), // Set once repeat no-shows need extra steps to book
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // Patient search matches the start of names and emails, ignoring case
+  index("users_first_name_search_idx").on(sql`lower(${table.firstName}) text_pattern_ops`),
+  index("users_last_name_search_idx").on(sql`lower(${table.lastName}) text_pattern_ops`),
+  index("users_email_search_idx").on(sql`lower(${table.email}) text_pattern_ops`),
+]);
+
+// Contact and demographic details, one row per patient. Kept out of `users`
+// so they don't travel with every session lookup.
+export const contactMethods = ['email', 'sms', 'phone'] as const;
+
+export const patientProfiles = pgTable("patient_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  dateOfBirth: date("date_of_birth"),
+  mobilePhone: varchar("mobile_phone"),
+  homePhone: varchar("home_phone"),
+  addressLine1: varchar("address_line1"),
+  addressLine2: varchar("address_line2"),
+  city: varchar("city"),
+  region: varchar("region"), // State, province or county
+  postalCode: varchar("postal_code"),
+  country: varchar("country"),
+  preferredContactMethod: varchar("preferred_contact_method").notNull().default('email'), // See contactMethods
+  emergencyContactName: varchar("emergency_contact_name"),
+  emergencyContactPhone: varchar("emergency_contact_phone"),
+  emergencyContactRelationship: varchar("emergency_contact_relationship"),
+  preferredLanguage: varchar("preferred_language"), // BCP 47 tag, e.g. "en" or "es-MX"
+  preferredProviderId: varchar("preferred_provider_id").references(() => providers.id, { onDelete: "set null" }),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // Patient search by date of birth, and by phone digits however they were typed
+  index("patient_profiles_dob_idx").on(table.dateOfBirth),
+  index("patient_profiles_mobile_search_idx").on(sql`regexp_replace(${table.mobilePhone}, '[^0-9]', '', 'g') text_pattern_ops`),
+  index("patient_profiles_home_search_idx").on(sql`regexp_replace(${table.homePhone}, '[^0-9]', '', 'g') text_pattern_ops`),
+]);
+
+// Who may book, view and pay for another patient's appointments: parents for
+// children, adult children for elderly parents. Dependents are ordinary patient
+// records, usually without a login of their own.
+export const guardianRelationships = ['child', 'parent', 'spouse', 'other'] as const;
+
+export const guardianships = pgTable("guardianships", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  guardianId: varchar("guardian_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  dependentId: varchar("dependent_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  relationship: varchar("relationship").notNull(), // The dependent's relation to the guardian; see guardianRelationships
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique().on(table.guardianId, table.dependentId)]);
+
+// Medical history questionnaire. Every submission is a new numbered version so
+// staff can see what changed since they last reviewed it; nothing is edited in
+// place.
+export const medicalConditions = [
+  'heart_condition', 'artificial_heart_valve', 'pacemaker', 'high_blood_pressure',
+  'stroke', 'bleeding_disorder', 'blood_thinners', 'diabetes', 'asthma',
+  'epilepsy', 'hepatitis', 'hiv', 'kidney_disease', 'liver_disease',
+  'joint_replacement', 'bisphosphonates', 'radiation_therapy', 'pregnancy', 'smoker',
+] as const;
+
+export const allergySeverities = ['mild', 'moderate', 'severe'] as const;
+
+export const medicalHistories = pgTable("medical_histories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(), // 1 for the first submission, then +1 each time
+  conditions: jsonb("conditions").$type<MedicalCondition[]>().notNull().default([]),
+  otherConditions: text("other_conditions"),
+  medications: jsonb("medications").$type<Medication[]>().notNull().default([]),
+  allergies: jsonb("allergies").$type<Allergy[]>().notNull().default([]),
+  noKnownAllergies: boolean("no_known_allergies").notNull().default(false), // Confirmed none, as opposed to not answered
+  notes: text("notes"),
+  submittedBy: varchar("submitted_by").references(() => users.id, { onDelete: "set null" }), // Patient, guardian or staff
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique().on(table.patientId, table.version)]);
+
+// Dental chart (odontogram). Teeth are stored in Universal numbering: "1"-"32"
+// for permanent teeth and "A"-"T" for primary teeth; FDI is a display option.
+// Entries are never edited. A later finding or treatment resolves the entries
+// it replaces, so the chart as it stood on any past date can be rebuilt.
+export const toothSurfaces = ['M', 'O', 'D', 'B', 'L'] as const; // Mesial, occlusal/incisal, distal, buccal/facial, lingual
+
+export const toothConditions = [
+  'caries', 'filling', 'sealant', 'fracture', 'crown', 'root_canal',
+  'bridge', 'implant', 'missing', 'extraction_planned',
+] as const;
+
+// Conditions that sit on particular surfaces; the rest apply to the whole tooth
+export const surfaceToothConditions: readonly ToothCondition[] = ['caries', 'filling', 'sealant'];
+
+export const toothChartEntries = pgTable("tooth_chart_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tooth: varchar("tooth").notNull(), // Universal number or letter
+  surfaces: jsonb("surfaces").$type<ToothSurface[]>().notNull().default([]), // Empty for whole-tooth conditions
+  condition: varchar("condition").notNull(), // See toothConditions
+  notes: text("notes"),
+  appointmentId: varchar("appointment_id").references(() => appointments.id, { onDelete: "set null" }), // Visit that found or treated it
+  recordedBy: varchar("recorded_by").references(() => users.id, { onDelete: "set null" }),
+  recordedAt: timestamp("recorded_at").notNull().defaultNow(),
+  resolvedAt: timestamp("resolved_at"), // Set when treated, superseded or removed as a mistake
+  resolvedBy: varchar("resolved_by").references(() => users.id, { onDelete: "set null" }),
+}, (table) => [index("IDX_tooth_chart_patient").on(table.patientId)]);
 
 // Appointments table
 export const appointments = pgTable("appointments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   patientId: varchar("patient_id").notNull(),
-  doctorName: varchar("doctor_name").notNull(),
+  timeSlotId: varchar("time_slot_id").references(() => timeSlots.id, { onDelete: "set null" }), // Starting slot; see appointmentTimeSlots for the full run
+  providerId: varchar("provider_id").references(() => providers.id),
+  doctorName: varchar("doctor_name").notNull(), // Provider's name at booking time, kept for display
   treatmentType: varchar("treatment_type").notNull(),
   appointmentDate: date("appointment_date").notNull(),
-  appointmentTime: varchar("appointment_time").notNull(),
-  status: varchar("status").notNull().default('pending'), // 'pending', 'confirmed', 'completed', 'cancelled'
-  notes: text("notes"),
+  appointmentTime: varchar("appointment_time").notNull(), // Practice-local 24-hour "HH:MM", copied from the starting slot
+  status: varchar("status").notNull().default('pending'), // See appointmentStatuses
+  notes: text("notes"), // From the patient when booking; staff write clinicalNotes
+  bookingRequirement: varchar("booking_requirement"), // 'deposit' or 'confirmation' a flagged patient still owes before this booking is confirmed
+  calendarSequence: integer("calendar_sequence").notNull().default(0), // iCalendar SEQUENCE; bumped on every reschedule and status change
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => clockTimeChecks("appointments", table.appointmentTime));
+
+export const appointmentStatuses = [
+  'pending',
+  'confirmed',
+  'checked_in',
+  'in_chair',
+  'completed',
+  'cancelled',
+  'no_show',
+] as const;
+
+export type AppointmentStatus = typeof appointmentStatuses[number];
+
+// Where each status may move next. Completed, cancelled and no-show are final.
+export const appointmentStatusTransitions: Record<AppointmentStatus, AppointmentStatus[]> = {
+  pending: ['confirmed', 'cancelled', 'no_show'],
+  confirmed: ['checked_in', 'cancelled', 'no_show'],
+  checked_in: ['in_chair', 'cancelled'],
+  in_chair: ['completed'],
+  completed: [],
+  cancelled: [],
+  no_show: [],
+};
+
+export function canTransition(from: string, to: string): boolean {
+  return (appointmentStatusTransitions[from as AppointmentStatus] || []).includes(to as AppointmentStatus);
+}
+
+// One row per status change, including the initial booking
+export const appointmentStatusHistory = pgTable("appointment_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentId: varchar("appointment_id").notNull().references(() => appointments.id, { onDelete: "cascade" }),
+  fromStatus: varchar("from_status"), // Null for the initial booking
+  toStatus: varchar("to_status").notNull(),
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Team members table
@@ -68,6 +235,26 @@ export const teamMembers = pgTable("team_members", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Bookable clinicians, optionally linked to their public team profile
+export const providers = pgTable("providers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  teamMemberId: varchar("team_member_id").references(() => teamMembers.id, { onDelete: "set null" }),
+  userId: varchar("user_id").unique().references(() => users.id, { onDelete: "set null" }), // Staff login that signs clinical notes as this provider
+  name: varchar("name").notNull(),
+  specialties: text("specialties").array().notNull().default(sql`'{}'::text[]`),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Procedures each provider is qualified to perform
+export const providerProcedures = pgTable("provider_procedures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  providerId: varchar("provider_id").notNull().references(() => providers.id, { onDelete: "cascade" }),
+  procedureId: varchar("procedure_id").notNull().references(() => procedures.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Resources table
 export const resources = pgTable("resources", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -96,10 +283,12 @@ export const chatbotResponses = pgTable("chatbot_responses", {
 // Available time slots table
 export const timeSlots = pgTable("time_slots", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  date: date("date").notNull(),
-  time: varchar("time").notNull(),
-  isAvailable: boolean("is_available").default(true),
-  doctorName: varchar("doctor_name").notNull(),
+  date: date("date").notNull(), // Practice-local
+  time: varchar("time").notNull(), // Practice-local 24-hour "HH:MM"
+  isAvailable: boolean("is_available").default(true), // Open to booking: not blocked by staff and not full
+  blockedByStaff: boolean("blocked_by_staff").notNull().default(false), // Staff closed it whatever its bookings
+  providerId: varchar("provider_id").references(() => providers.id),
+  doctorName: varchar("doctor_name").notNull(), // Provider's name, kept for display
   slotType: varchar("slot_type").default('general'), // 'general', 'emergency', 'consultation', 'cleaning', 'followup'
   duration: integer("duration_minutes").default(60), // Duration in minutes
   maxBookings: integer("max_bookings").default(1), // How many can book this slot
@@ -107,9 +296,134 @@ export const timeSlots = pgTable("time_slots", {
   notes: text("notes"), // Additional notes about the slot
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => clockTimeChecks("time_slots", table.time));
+
+// Whether a slot can take another booking. Checks the staff block and seats
+// directly rather than isAvailable, so callers can count a seat as given back.
+export function hasCapacity(slot: Pick<TimeSlot, 'blockedByStaff' | 'currentBookings' | 'maxBookings'>): boolean {
+  return !slot.blockedByStaff && (slot.currentBookings || 0) < (slot.maxBookings || 1);
+}
+
+// Weekly availability per doctor; the generator turns these into time slots
+export const scheduleTemplates = pgTable("schedule_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  providerId: varchar("provider_id").notNull().references(() => providers.id, { onDelete: "cascade" }),
+  daysOfWeek: integer("days_of_week").array().notNull(), // 0 = Sunday ... 6 = Saturday
+  startTime: varchar("start_time").notNull(), // 24-hour "08:00"
+  endTime: varchar("end_time").notNull(), // 24-hour "17:00"
+  slotDuration: integer("slot_duration_minutes").notNull().default(30),
+  breakStart: varchar("break_start"), // Optional lunch break, 24-hour
+  breakEnd: varchar("break_end"),
+  slotType: varchar("slot_type").default('general'),
+  slotTypesByDay: jsonb("slot_types_by_day").$type<Record<string, string>>(), // Per-weekday override, e.g. { "2": "cleaning" }
+  maxBookings: integer("max_bookings").default(1),
+  effectiveFrom: date("effective_from"),
+  effectiveUntil: date("effective_until"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => clockTimeChecks("schedule_templates", table.startTime, table.endTime, table.breakStart, table.breakEnd));
+
+// One-off changes to a doctor's template for a single date
+export const scheduleExceptions = pgTable("schedule_exceptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  providerId: varchar("provider_id").notNull().references(() => providers.id, { onDelete: "cascade" }),
+  date: date("date").notNull(),
+  type: varchar("type").notNull(), // 'closed' (day off) or 'hours' (replaces the day's hours)
+  startTime: varchar("start_time"), // 24-hour, required for 'hours'
+  endTime: varchar("end_time"),
+  slotType: varchar("slot_type"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => clockTimeChecks("schedule_exceptions", table.startTime, table.endTime));
+
+// Regular opening hours for the whole practice, one row per open weekday.
+// With no rows at all the practice is treated as always open.
+export const practiceHours = pgTable("practice_hours", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  dayOfWeek: integer("day_of_week").notNull().unique(), // 0 = Sunday
+  openTime: varchar("open_time").notNull(), // 24-hour
+  closeTime: varchar("close_time").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => clockTimeChecks("practice_hours", table.openTime, table.closeTime));
+
+// Holidays and unplanned closures. Without times the whole day is closed.
+export const practiceClosures = pgTable("practice_closures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  startTime: varchar("start_time"), // 24-hour, applies on every day of the range
+  endTime: varchar("end_time"),
+  kind: varchar("kind").notNull().default('closure'), // 'holiday', 'closure'
+  reason: text("reason").notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => clockTimeChecks("practice_closures", table.startTime, table.endTime));
+
+// Every slot an appointment occupies (longer procedures span several slots)
+export const appointmentTimeSlots = pgTable("appointment_time_slots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentId: varchar("appointment_id").notNull().references(() => appointments.id, { onDelete: "cascade" }),
+  timeSlotId: varchar("time_slot_id").notNull().references(() => timeSlots.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Audit trail of reschedules and cancellations, whoever made them
+export const appointmentChanges = pgTable("appointment_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentId: varchar("appointment_id").notNull().references(() => appointments.id, { onDelete: "cascade" }),
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }),
+  action: varchar("action").notNull(), // 'rescheduled', 'cancelled'
+  previousDate: date("previous_date").notNull(),
+  previousTime: varchar("previous_time").notNull(),
+  newDate: date("new_date"), // Only set for reschedules
+  newTime: varchar("new_time"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => clockTimeChecks("appointment_changes", table.previousTime, table.newTime));
+
+// Secret subscription URLs for .ics feeds. Each belongs to either a patient or
+// a provider; rotating a feed replaces its row, which kills the old URL.
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  token: varchar("token").notNull().unique(),
+  patientId: varchar("patient_id").unique().references(() => users.id, { onDelete: "cascade" }),
+  providerId: varchar("provider_id").unique().references(() => providers.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Patients waiting for an opening; matched against freed slots in sign-up order
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  procedureId: varchar("procedure_id").notNull().references(() => procedures.id, { onDelete: "cascade" }),
+  providerIds: text("provider_ids").array().notNull().default(sql`'{}'::text[]`), // Preferred providers; empty means any
+  earliestDate: date("earliest_date").notNull(),
+  latestDate: date("latest_date").notNull(),
+  earliestTime: varchar("earliest_time"), // 24-hour, optional daily window
+  latestTime: varchar("latest_time"),
+  status: varchar("status").notNull().default('waiting'), // 'waiting', 'offered', 'booked', 'cancelled', 'expired'
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => clockTimeChecks("waitlist_entries", table.earliestTime, table.latestTime));
+
+// A time-limited hold on a slot run for one waitlisted patient
+export const waitlistOffers = pgTable("waitlist_offers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  waitlistEntryId: varchar("waitlist_entry_id").notNull().references(() => waitlistEntries.id, { onDelete: "cascade" }),
+  timeSlotIds: text("time_slot_ids").array().notNull(), // Held run, starting slot first
+  status: varchar("status").notNull().default('pending'), // 'pending', 'accepted', 'declined', 'expired', 'withdrawn'
+  appointmentId: varchar("appointment_id").references(() => appointments.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Procedures table
+// The one-click booking buttons. Staff pick which procedure each one books.
+export const bookingIntents = ['emergency', 'checkup', 'consultation', 'followup'] as const;
+
 export const procedures = pgTable("procedures", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: varchar("name").notNull(),
@@ -117,12 +431,52 @@ export const procedures = pgTable("procedures", {
   duration: integer("duration_minutes").notNull(), // Duration in minutes
   priceCents: integer("price_cents"), // Price in cents
   category: varchar("category").notNull(), // 'general', 'cosmetic', 'oral-surgery', etc.
+  chartCondition: varchar("chart_condition"), // What completing it records on the dental chart, e.g. 'filling'; see toothConditions
+  bookingIntent: varchar("booking_intent").unique(), // The one-click button that books it, if any; see bookingIntents
   isActive: boolean("is_active").default(true),
   displayOrder: integer("display_order").default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Treatment plans: a patient's proposed care as ordered phases of procedures.
+// Staff write them; the patient accepts them in the portal, after which each
+// item can be booked. Fees and coverage are estimates frozen at planning time.
+export const treatmentPlanStatuses = ['proposed', 'accepted', 'in_progress', 'completed'] as const;
+
+export const treatmentPlans = pgTable("treatment_plans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  title: varchar("title").notNull(),
+  notes: text("notes"),
+  status: varchar("status").notNull().default('proposed'), // See treatmentPlanStatuses
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  acceptedBy: varchar("accepted_by").references(() => users.id, { onDelete: "set null" }), // Patient, guardian or staff
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const treatmentPlanPhases = pgTable("treatment_plan_phases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  planId: varchar("plan_id").notNull().references(() => treatmentPlans.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(), // 1 for the first phase
+  name: varchar("name").notNull(), // e.g. "Urgent care", "Restorative"
+});
+
+export const treatmentPlanItems = pgTable("treatment_plan_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  phaseId: varchar("phase_id").notNull().references(() => treatmentPlanPhases.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(), // Order within the phase
+  procedureId: varchar("procedure_id").notNull().references(() => procedures.id),
+  tooth: varchar("tooth"), // Universal number or letter, as on the dental chart
+  surfaces: jsonb("surfaces").$type<ToothSurface[]>().notNull().default([]),
+  feeCents: integer("fee_cents").notNull(), // The procedure's price when planned, unless staff changed it
+  coveragePercent: integer("coverage_percent").notNull().default(0), // Estimated insurance share, 0-100
+  notes: text("notes"),
+  appointmentId: varchar("appointment_id").references(() => appointments.id, { onDelete: "set null" }), // Set once booked
+});
+
 // Promotions table
 export const promotions = pgTable("promotions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -153,6 +507,171 @@ export const forms = pgTable("forms", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Online intake forms built by staff from typed fields in sections. A section
+// can depend on an earlier answer. Responses keep a copy of the sections they
+// answered, so later edits to a form don't change what a patient submitted.
+export const intakeFieldTypes = ['text', 'textarea', 'number', 'date', 'yes_no', 'select', 'multi_select', 'checkbox'] as const;
+export const intakeChoiceFieldTypes: readonly IntakeFieldType[] = ['select', 'multi_select'];
+export const intakeFormFrequencies = ['every_visit', 'once'] as const; // Fresh answers for each appointment, or once per patient
+
+export const intakeForms = pgTable("intake_forms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: varchar("title").notNull(),
+  description: text("description"),
+  sections: jsonb("sections").$type<IntakeSection[]>().notNull(),
+  frequency: varchar("frequency").notNull().default('every_visit'), // See intakeFormFrequencies
+  procedureIds: text("procedure_ids").array().notNull().default(sql`'{}'::text[]`), // Only before these procedures; empty means every appointment
+  isActive: boolean("is_active").default(true),
+  displayOrder: integer("display_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const intakeFormResponses = pgTable("intake_form_responses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  formId: varchar("form_id").notNull().references(() => intakeForms.id, { onDelete: "cascade" }),
+  patientId: varchar("patient_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  appointmentId: varchar("appointment_id").references(() => appointments.id, { onDelete: "set null" }),
+  sections: jsonb("sections").$type<IntakeSection[]>().notNull(), // The form as it was answered
+  answers: jsonb("answers").$type<IntakeAnswers>().notNull(), // Keyed by field id; hidden sections are left out
+  submittedBy: varchar("submitted_by").references(() => users.id, { onDelete: "set null" }), // Patient, guardian or staff
+  submittedAt: timestamp("submitted_at").defaultNow(),
+}, (table) => [
+  index("intake_form_responses_patient_idx").on(table.patientId, table.formId),
+  index("intake_form_responses_appointment_idx").on(table.appointmentId),
+]);
+
+// Informed consent. Templates name the procedures that need them. A signing
+// is kept exactly as signed: the text, who signed, when and from where, and the
+// flattened PDF with its hash. Signed consents are never updated or deleted.
+export const consentTemplates = pgTable("consent_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: varchar("title").notNull(),
+  body: text("body").notNull(),
+  procedureIds: text("procedure_ids").array().notNull().default(sql`'{}'::text[]`), // Procedures that need it; empty means every appointment
+  version: integer("version").notNull().default(1), // Bumped whenever the wording changes
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const signedConsents = pgTable("signed_consents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: varchar("template_id").references(() => consentTemplates.id, { onDelete: "set null" }),
+  templateVersion: integer("template_version").notNull(),
+  appointmentId: varchar("appointment_id").notNull().references(() => appointments.id, { onDelete: "restrict" }),
+  patientId: varchar("patient_id").notNull().references(() => users.id, { onDelete: "restrict" }),
+  signerId: varchar("signer_id").references(() => users.id, { onDelete: "set null" }), // Patient or guardian
+  signerName: varchar("signer_name").notNull(), // As typed when signing
+  title: varchar("title").notNull(), // The consent as it read when signed
+  body: text("body").notNull(),
+  signerIp: varchar("signer_ip"),
+  userAgent: text("user_agent"),
+  documentHash: varchar("document_hash").notNull(), // SHA-256 of what was agreed to, printed on the PDF
+  pdfHash: varchar("pdf_hash").notNull(), // SHA-256 of the PDF bytes, checked before serving
+  pdfData: text("pdf_data").notNull(), // Base64
+  signedAt: timestamp("signed_at").notNull(),
+}, (table) => [unique().on(table.appointmentId, table.templateId)]);
+
+// Uploaded files. The bytes live in the configured file store under
+// storageKey; the row says what the file is and who may see it. Files with a
+// patientId belong to that patient's record.
+export const fileCategories = ['team_photo', 'form', 'patient_document', 'xray'] as const;
+
+export const storedFiles = pgTable("stored_files", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  category: varchar("category").notNull(), // One of fileCategories
+  storageKey: varchar("storage_key").notNull().unique(),
+  fileName: varchar("file_name").notNull(),
+  contentType: varchar("content_type").notNull(),
+  size: integer("size").notNull(), // Bytes
+  sha256: varchar("sha256").notNull(),
+  patientId: varchar("patient_id").references(() => users.id, { onDelete: "cascade" }),
+  description: text("description"),
+  uploadedBy: varchar("uploaded_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("stored_files_patient_idx").on(table.patientId, table.category)]);
+
+// Hygiene recalls. A recall type says how often patients come back for
+// something (a cleaning every 6 months) and which procedures count as having
+// done it. Completing one of those sets the patient's next due date.
+export const recallTypes = pgTable("recall_types", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(), // e.g. "Prophy", "Perio maintenance"
+  intervalMonths: integer("interval_months").notNull(),
+  procedureIds: text("procedure_ids").array().notNull().default(sql`'{}'::text[]`), // The first is what a recall visit books
+  isActive: boolean("is_active").default(true),
+  displayOrder: integer("display_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One row per patient and recall type, created the first time the patient
+// completes a matching procedure
+export const patientRecalls = pgTable("patient_recalls", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  recallTypeId: varchar("recall_type_id").notNull().references(() => recallTypes.id, { onDelete: "cascade" }),
+  lastVisitDate: date("last_visit_date").notNull(), // Practice-local date of the last matching procedure
+  lastAppointmentId: varchar("last_appointment_id").references(() => appointments.id, { onDelete: "set null" }),
+  dueDate: date("due_date").notNull(), // Last visit plus the interval, unless staff moved it
+  lastNoticeAt: timestamp("last_notice_at"),
+  noticeCount: integer("notice_count").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique().on(table.patientId, table.recallTypeId),
+  index("patient_recalls_due_idx").on(table.dueDate),
+]);
+
+// Staff-only clinical notes, kept apart from appointments.notes (which the
+// patient writes when booking) so no patient-facing endpoint can return them.
+// Templates prefill the SOAP sections for particular procedures.
+export const clinicalNoteTemplates = pgTable("clinical_note_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  procedureIds: text("procedure_ids").array().notNull().default(sql`'{}'::text[]`), // Procedures it's offered for; empty means every appointment
+  subjective: text("subjective").notNull().default(''),
+  objective: text("objective").notNull().default(''),
+  assessment: text("assessment").notNull().default(''),
+  plan: text("plan").notNull().default(''),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One note per appointment. Editable until a provider signs it; after that
+// it's locked and corrections go in addenda.
+export const clinicalNotes = pgTable("clinical_notes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentId: varchar("appointment_id").notNull().unique().references(() => appointments.id, { onDelete: "restrict" }),
+  patientId: varchar("patient_id").notNull().references(() => users.id, { onDelete: "restrict" }),
+  templateId: varchar("template_id").references(() => clinicalNoteTemplates.id, { onDelete: "set null" }),
+  templateName: varchar("template_name").notNull(), // As it was called when the note was started
+  subjective: text("subjective").notNull().default(''),
+  objective: text("objective").notNull().default(''),
+  assessment: text("assessment").notNull().default(''),
+  plan: text("plan").notNull().default(''),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+  // Sign-off; null until signed
+  signedAt: timestamp("signed_at"),
+  signedBy: varchar("signed_by").references(() => users.id, { onDelete: "set null" }),
+  signingProviderId: varchar("signing_provider_id").references(() => providers.id, { onDelete: "set null" }),
+  signingProviderName: varchar("signing_provider_name"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("clinical_notes_patient_idx").on(table.patientId)]);
+
+// Added to a signed note; never edited or removed
+export const clinicalNoteAddenda = pgTable("clinical_note_addenda", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  noteId: varchar("note_id").notNull().references(() => clinicalNotes.id, { onDelete: "restrict" }),
+  body: text("body").notNull(),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+  authorName: varchar("author_name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("clinical_note_addenda_note_idx").on(table.noteId)]);
+
 // Payment history table
 export const payments = pgTable("payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -175,11 +694,246 @@ export const usersRelations = relations(users, ({ many }) => ({
   appointments: many(appointments),
 }));
 
-export const appointmentsRelations = relations(appointments, ({ one }) => ({
+export const appointmentsRelations = relations(appointments, ({ one, many }) => ({
   patient: one(users, {
     fields: [appointments.patientId],
     references: [users.id],
   }),
+  timeSlot: one(timeSlots, {
+    fields: [appointments.timeSlotId],
+    references: [timeSlots.id],
+  }),
+  provider: one(providers, {
+    fields: [appointments.providerId],
+    references: [providers.id],
+  }),
+  reservedSlots: many(appointmentTimeSlots),
+  changes: many(appointmentChanges),
+  statusHistory: many(appointmentStatusHistory),
+}));
+
+export const appointmentStatusHistoryRelations = relations(appointmentStatusHistory, ({ one }) => ({
+  appointment: one(appointments, {
+    fields: [appointmentStatusHistory.appointmentId],
+    references: [appointments.id],
+  }),
+  changedByUser: one(users, {
+    fields: [appointmentStatusHistory.changedBy],
+    references: [users.id],
+  }),
+}));
+
+export const timeSlotsRelations = relations(timeSlots, ({ one, many }) => ({
+  provider: one(providers, {
+    fields: [timeSlots.providerId],
+    references: [providers.id],
+  }),
+  appointments: many(appointments),
+  reservations: many(appointmentTimeSlots),
+}));
+
+export const providersRelations = relations(providers, ({ one, many }) => ({
+  teamMember: one(teamMembers, {
+    fields: [providers.teamMemberId],
+    references: [teamMembers.id],
+  }),
+  procedures: many(providerProcedures),
+  appointments: many(appointments),
+  timeSlots: many(timeSlots),
+}));
+
+export const providerProceduresRelations = relations(providerProcedures, ({ one }) => ({
+  provider: one(providers, {
+    fields: [providerProcedures.providerId],
+    references: [providers.id],
+  }),
+  procedure: one(procedures, {
+    fields: [providerProcedures.procedureId],
+    references: [procedures.id],
+  }),
+}));
+
+export const appointmentTimeSlotsRelations = relations(appointmentTimeSlots, ({ one }) => ({
+  appointment: one(appointments, {
+    fields: [appointmentTimeSlots.appointmentId],
+    references: [appointments.id],
+  }),
+  timeSlot: one(timeSlots, {
+    fields: [appointmentTimeSlots.timeSlotId],
+    references: [timeSlots.id],
+  }),
+}));
+
+export const appointmentChangesRelations = relations(appointmentChanges, ({ one }) => ({
+  appointment: one(appointments, {
+    fields: [appointmentChanges.appointmentId],
+    references: [appointments.id],
+  }),
+  changedByUser: one(users, {
+    fields: [appointmentChanges.changedBy],
+    references: [users.id],
+  }),
+}));
+
+export const waitlistEntriesRelations = relations(waitlistEntries, ({ one, many }) => ({
+  patient: one(users, {
+    fields: [waitlistEntries.patientId],
+    references: [users.id],
+  }),
+  procedure: one(procedures, {
+    fields: [waitlistEntries.procedureId],
+    references: [procedures.id],
+  }),
+  offers: many(waitlistOffers),
+}));
+
+export const patientProfilesRelations = relations(patientProfiles, ({ one }) => ({
+  user: one(users, {
+    fields: [patientProfiles.userId],
+    references: [users.id],
+  }),
+  preferredProvider: one(providers, {
+    fields: [patientProfiles.preferredProviderId],
+    references: [providers.id],
+  }),
+}));
+
+export const guardianshipsRelations = relations(guardianships, ({ one }) => ({
+  guardian: one(users, {
+    fields: [guardianships.guardianId],
+    references: [users.id],
+  }),
+  dependent: one(users, {
+    fields: [guardianships.dependentId],
+    references: [users.id],
+  }),
+}));
+
+export const medicalHistoriesRelations = relations(medicalHistories, ({ one }) => ({
+  patient: one(users, {
+    fields: [medicalHistories.patientId],
+    references: [users.id],
+  }),
+}));
+
+export const toothChartEntriesRelations = relations(toothChartEntries, ({ one }) => ({
+  patient: one(users, {
+    fields: [toothChartEntries.patientId],
+    references: [users.id],
+  }),
+  appointment: one(appointments, {
+    fields: [toothChartEntries.appointmentId],
+    references: [appointments.id],
+  }),
+}));
+
+export const treatmentPlansRelations = relations(treatmentPlans, ({ one, many }) => ({
+  patient: one(users, {
+    fields: [treatmentPlans.patientId],
+    references: [users.id],
+  }),
+  phases: many(treatmentPlanPhases),
+}));
+
+export const treatmentPlanPhasesRelations = relations(treatmentPlanPhases, ({ one, many }) => ({
+  plan: one(treatmentPlans, {
+    fields: [treatmentPlanPhases.planId],
+    references: [treatmentPlans.id],
+  }),
+  items: many(treatmentPlanItems),
+}));
+
+export const treatmentPlanItemsRelations = relations(treatmentPlanItems, ({ one }) => ({
+  phase: one(treatmentPlanPhases, {
+    fields: [treatmentPlanItems.phaseId],
+    references: [treatmentPlanPhases.id],
+  }),
+  procedure: one(procedures, {
+    fields: [treatmentPlanItems.procedureId],
+    references: [procedures.id],
+  }),
+  appointment: one(appointments, {
+    fields: [treatmentPlanItems.appointmentId],
+    references: [appointments.id],
+  }),
+}));
+
+export const intakeFormResponsesRelations = relations(intakeFormResponses, ({ one }) => ({
+  form: one(intakeForms, {
+    fields: [intakeFormResponses.formId],
+    references: [intakeForms.id],
+  }),
+  patient: one(users, {
+    fields: [intakeFormResponses.patientId],
+    references: [users.id],
+  }),
+  appointment: one(appointments, {
+    fields: [intakeFormResponses.appointmentId],
+    references: [appointments.id],
+  }),
+}));
+
+export const signedConsentsRelations = relations(signedConsents, ({ one }) => ({
+  template: one(consentTemplates, {
+    fields: [signedConsents.templateId],
+    references: [consentTemplates.id],
+  }),
+  appointment: one(appointments, {
+    fields: [signedConsents.appointmentId],
+    references: [appointments.id],
+  }),
+  patient: one(users, {
+    fields: [signedConsents.patientId],
+    references: [users.id],
+  }),
+}));
+
+export const storedFilesRelations = relations(storedFiles, ({ one }) => ({
+  patient: one(users, {
+    fields: [storedFiles.patientId],
+    references: [users.id],
+  }),
+}));
+
+export const patientRecallsRelations = relations(patientRecalls, ({ one }) => ({
+  patient: one(users, {
+    fields: [patientRecalls.patientId],
+    references: [users.id],
+  }),
+  recallType: one(recallTypes, {
+    fields: [patientRecalls.recallTypeId],
+    references: [recallTypes.id],
+  }),
+}));
+
+export const clinicalNotesRelations = relations(clinicalNotes, ({ one, many }) => ({
+  appointment: one(appointments, {
+    fields: [clinicalNotes.appointmentId],
+    references: [appointments.id],
+  }),
+  patient: one(users, {
+    fields: [clinicalNotes.patientId],
+    references: [users.id],
+  }),
+  addenda: many(clinicalNoteAddenda),
+}));
+
+export const clinicalNoteAddendaRelations = relations(clinicalNoteAddenda, ({ one }) => ({
+  note: one(clinicalNotes, {
+    fields: [clinicalNoteAddenda.noteId],
+    references: [clinicalNotes.id],
+  }),
+}));
+
+export const waitlistOffersRelations = relations(waitlistOffers, ({ one }) => ({
+  entry: one(waitlistEntries, {
+    fields: [waitlistOffers.waitlistEntryId],
+    references: [waitlistEntries.id],
+  }),
+  appointment: one(appointments, {
+    fields: [waitlistOffers.appointmentId],
+    references: [appointments.id],
+  }),
 }));
 
 // Insert schemas
@@ -189,8 +943,152 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const insertDependentSchema = createInsertSchema(users, {
+  firstName: z.string().trim().min(1, "First name is required"),
+  lastName: z.string().trim().min(1, "Last name is required"),
+}).pick({
+  firstName: true,
+  lastName: true,
+}).extend({
+  relationship: z.enum(guardianRelationships),
+});
+
+const phoneNumber = z.string().trim().regex(/^\+?[\d\s().-]{7,20}$/, "Enter a valid phone number");
+
+// Blank form fields clear the value rather than failing validation
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => value === '' ? null : value, schema.nullish());
+
+export const patientProfileSchema = createInsertSchema(patientProfiles, {
+  dateOfBirth: optional(z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+    .refine(value => value >= '1900-01-01' && value <= new Date().toISOString().slice(0, 10), "Enter a real date of birth")),
+  mobilePhone: optional(phoneNumber),
+  homePhone: optional(phoneNumber),
+  addressLine1: optional(z.string().trim().max(200)),
+  addressLine2: optional(z.string().trim().max(200)),
+  city: optional(z.string().trim().max(100)),
+  region: optional(z.string().trim().max(100)),
+  postalCode: optional(z.string().trim().max(20)),
+  country: optional(z.string().trim().max(100)),
+  preferredContactMethod: z.enum(contactMethods).default('email'),
+  emergencyContactName: optional(z.string().trim().max(200)),
+  emergencyContactPhone: optional(phoneNumber),
+  emergencyContactRelationship: optional(z.string().trim().max(100)),
+  preferredLanguage: optional(z.string().trim().regex(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/, "Use a language code such as en or es-MX")),
+  preferredProviderId: optional(z.string()),
+}).omit({
+  id: true,
+  userId: true,
+  updatedBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  firstName: z.string().trim().min(1, "First name is required").optional(),
+  lastName: z.string().trim().min(1, "Last name is required").optional(),
+}).refine(p => p.preferredContactMethod !== 'sms' || !!p.mobilePhone, {
+  message: "Add a mobile number to get text messages",
+  path: ["mobilePhone"],
+}).refine(p => p.preferredContactMethod !== 'phone' || !!p.mobilePhone || !!p.homePhone, {
+  message: "Add a phone number to be contacted by phone",
+  path: ["mobilePhone"],
+}).refine(p => !p.emergencyContactName === !p.emergencyContactPhone, {
+  message: "An emergency contact needs both a name and a phone number",
+  path: ["emergencyContactPhone"],
+});
+
+export const medicationSchema = z.object({
+  name: z.string().trim().min(1, "Name the medication").max(200),
+  dose: optional(z.string().trim().max(100)),
+  frequency: optional(z.string().trim().max(100)),
+});
+
+export const allergySchema = z.object({
+  substance: z.string().trim().min(1, "Name what you're allergic to").max(200),
+  reaction: optional(z.string().trim().max(200)),
+  severity: z.enum(allergySeverities),
+});
+
+export const medicalHistorySchema = createInsertSchema(medicalHistories, {
+  conditions: z.array(z.enum(medicalConditions)).default([]),
+  otherConditions: optional(z.string().trim().max(1000)),
+  medications: z.array(medicationSchema).max(50).default([]),
+  allergies: z.array(allergySchema).max(50).default([]),
+  noKnownAllergies: z.boolean().default(false),
+  notes: optional(z.string().trim().max(2000)),
+}).pick({
+  conditions: true,
+  otherConditions: true,
+  medications: true,
+  allergies: true,
+  noKnownAllergies: true,
+  notes: true,
+}).refine(h => h.allergies.length > 0 || h.noKnownAllergies, {
+  message: "List your allergies or confirm you have none",
+  path: ["noKnownAllergies"],
+}).refine(h => h.allergies.length === 0 || !h.noKnownAllergies, {
+  message: "You've listed allergies, so untick \"no known allergies\"",
+  path: ["noKnownAllergies"],
+});
+
+const universalTooth = /^([1-9]|[12]\d|3[0-2]|[A-T])$/;
+
+export const insertToothChartEntrySchema = createInsertSchema(toothChartEntries, {
+  tooth: z.string().trim().toUpperCase().regex(universalTooth, "Use a Universal tooth number (1-32) or letter (A-T)"),
+  surfaces: z.array(z.enum(toothSurfaces)).default([]),
+  condition: z.enum(toothConditions),
+  notes: optional(z.string().trim().max(1000)),
+  appointmentId: optional(z.string()),
+}).pick({
+  tooth: true,
+  surfaces: true,
+  condition: true,
+  notes: true,
+  appointmentId: true,
+}).refine(e => !surfaceToothConditions.includes(e.condition) || e.surfaces.length > 0, {
+  message: "Pick the affected surfaces",
+  path: ["surfaces"],
+}).refine(e => surfaceToothConditions.includes(e.condition) || e.condition === 'fracture' || e.surfaces.length === 0, {
+  message: "This condition applies to the whole tooth",
+  path: ["surfaces"],
+});
+
+export const treatmentPlanItemSchema = createInsertSchema(treatmentPlanItems, {
+  procedureId: z.string().min(1, "Pick a procedure"),
+  tooth: optional(z.string().trim().toUpperCase().regex(universalTooth, "Use a Universal tooth number (1-32) or letter (A-T)")),
+  surfaces: z.array(z.enum(toothSurfaces)).default([]),
+  feeCents: z.number().int().min(0).optional(), // Defaults to the procedure's price
+  coveragePercent: z.number().int().min(0).max(100).default(0),
+  notes: optional(z.string().trim().max(500)),
+}).pick({
+  procedureId: true,
+  tooth: true,
+  surfaces: true,
+  feeCents: true,
+  coveragePercent: true,
+  notes: true,
+}).refine(item => item.surfaces.length === 0 || !!item.tooth, {
+  message: "Surfaces need a tooth",
+  path: ["tooth"],
+});
+
+// A whole plan in one go: phases and items in the order given
+export const treatmentPlanSchema = createInsertSchema(treatmentPlans, {
+  title: z.string().trim().min(1, "Give the plan a title").max(200),
+  notes: optional(z.string().trim().max(2000)),
+}).pick({
+  title: true,
+  notes: true,
+}).extend({
+  phases: z.array(z.object({
+    name: z.string().trim().min(1, "Name the phase").max(100),
+    items: z.array(treatmentPlanItemSchema).min(1, "Add at least one procedure"),
+  })).min(1, "Add at least one phase"),
+});
+
 export const insertAppointmentSchema = createInsertSchema(appointments).omit({
   id: true,
+  calendarSequence: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -201,6 +1099,17 @@ export const insertTeamMemberSchema = createInsertSchema(teamMembers).omit({
   updatedAt: true,
 });
 
+export const insertProviderSchema = createInsertSchema(providers, {
+  name: z.string().min(1, "Name is required"),
+  specialties: z.array(z.string()).default([]),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  procedureIds: z.array(z.string()).default([]),
+});
+
 export const insertResourceSchema = createInsertSchema(resources).omit({
   id: true,
   createdAt: true,
@@ -215,12 +1124,95 @@ export const insertChatbotResponseSchema = createInsertSchema(chatbotResponses).
 
 export const insertTimeSlotSchema = createInsertSchema(timeSlots).omit({
   id: true,
+  isAvailable: true,
   createdAt: true,
   updatedAt: true,
   currentBookings: true,
 });
 
-export const insertProcedureSchema = createInsertSchema(procedures).omit({
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use 24-hour HH:MM");
+
+export const insertScheduleTemplateSchema = createInsertSchema(scheduleTemplates, {
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1, "Pick at least one day"),
+  startTime: clockTime,
+  endTime: clockTime,
+  breakStart: clockTime.nullish(),
+  breakEnd: clockTime.nullish(),
+  slotDuration: z.number().int().min(5).max(240),
+  slotTypesByDay: z.record(z.string()).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).refine(t => t.startTime < t.endTime, { message: "End time must be after start time", path: ["endTime"] });
+
+export const insertScheduleExceptionSchema = createInsertSchema(scheduleExceptions, {
+  type: z.enum(['closed', 'hours']),
+  startTime: clockTime.nullish(),
+  endTime: clockTime.nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+}).refine(e => e.type === 'closed' || (!!e.startTime && !!e.endTime && e.startTime < e.endTime), {
+  message: "Custom hours need a start and end time",
+  path: ["endTime"],
+});
+
+export const insertPracticeHoursSchema = createInsertSchema(practiceHours, {
+  dayOfWeek: z.number().int().min(0).max(6),
+  openTime: clockTime,
+  closeTime: clockTime,
+}).omit({
+  id: true,
+  updatedAt: true,
+}).refine(h => h.openTime < h.closeTime, {
+  message: "Closing time must be after opening time",
+  path: ["closeTime"],
+});
+
+export const insertPracticeClosureSchema = createInsertSchema(practiceClosures, {
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  startTime: clockTime.nullish(),
+  endTime: clockTime.nullish(),
+  kind: z.enum(['holiday', 'closure']),
+  reason: z.string().min(1, "Reason is required"),
+}).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+}).refine(c => c.startDate <= c.endDate, {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
+}).refine(c => (!c.startTime && !c.endTime) || (!!c.startTime && !!c.endTime && c.startTime < c.endTime), {
+  message: "A partial-day closure needs a start time before its end time",
+  path: ["endTime"],
+});
+
+export const insertWaitlistEntrySchema = createInsertSchema(waitlistEntries, {
+  providerIds: z.array(z.string()).default([]),
+  earliestDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  latestDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  earliestTime: clockTime.nullish(),
+  latestTime: clockTime.nullish(),
+}).omit({
+  id: true,
+  patientId: true,
+  status: true,
+  createdAt: true,
+  updatedAt: true,
+}).refine(w => w.earliestDate <= w.latestDate, {
+  message: "Latest date must be on or after the earliest date",
+  path: ["latestDate"],
+}).refine(w => !w.earliestTime || !w.latestTime || w.earliestTime < w.latestTime, {
+  message: "Latest time must be after the earliest time",
+  path: ["latestTime"],
+});
+
+export const insertProcedureSchema = createInsertSchema(procedures, {
+  chartCondition: z.enum(toothConditions).nullish(),
+  bookingIntent: z.enum(bookingIntents).nullish(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -238,16 +1230,220 @@ export const insertFormSchema = createInsertSchema(forms).omit({
   updatedAt: true,
 });
 
+const intakeFieldSchema = z.object({
+  id: z.string().min(1).max(50),
+  label: z.string().trim().min(1, "Label the field").max(300),
+  type: z.enum(intakeFieldTypes),
+  required: z.boolean().default(false),
+  options: z.array(z.string().trim().min(1).max(200)).max(50).default([]), // Choices for select fields
+  helpText: optional(z.string().trim().max(500)),
+}).refine(field => !intakeChoiceFieldTypes.includes(field.type) || field.options.length >= 2, {
+  message: "Give at least two options",
+  path: ["options"],
+});
+
+const intakeSectionSchema = z.object({
+  id: z.string().min(1).max(50),
+  title: z.string().trim().min(1, "Title the section").max(200),
+  // Shown only when this earlier field's answer is (or, for multi-selects, includes) the value
+  showIf: z.object({
+    fieldId: z.string().min(1),
+    equals: z.string().min(1),
+  }).nullable().default(null),
+  fields: z.array(intakeFieldSchema).min(1, "Add at least one field"),
+});
+
+export const insertIntakeFormSchema = createInsertSchema(intakeForms, {
+  title: z.string().trim().min(1, "Give the form a title").max(200),
+  description: optional(z.string().trim().max(2000)),
+  sections: z.array(intakeSectionSchema).min(1, "Add at least one section").max(30),
+  frequency: z.enum(intakeFormFrequencies).default('every_visit'),
+  procedureIds: z.array(z.string()).default([]),
+  displayOrder: z.number().int().default(0),
+}).pick({
+  title: true,
+  description: true,
+  sections: true,
+  frequency: true,
+  procedureIds: true,
+  displayOrder: true,
+}).superRefine((form, ctx) => {
+  const seen: string[] = [];
+  form.sections.forEach((section, i) => {
+    if (section.showIf && !seen.includes(section.showIf.fieldId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "A section can only depend on a field in an earlier section",
+        path: ["sections", i, "showIf"],
+      });
+    }
+    section.fields.forEach((field, j) => {
+      if (seen.includes(field.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Field ids must be unique", path: ["sections", i, "fields", j, "id"] });
+      }
+      seen.push(field.id);
+    });
+  });
+});
+
+export const insertConsentTemplateSchema = createInsertSchema(consentTemplates, {
+  title: z.string().trim().min(1, "Give the consent a title").max(200),
+  body: z.string().trim().min(1, "Write the consent text").max(20000),
+  procedureIds: z.array(z.string()).default([]),
+}).pick({
+  title: true,
+  body: true,
+  procedureIds: true,
+});
+
+export const signConsentSchema = z.object({
+  templateVersion: z.number().int(), // The wording the signer was shown
+  signerName: z.string().trim().min(2, "Type your full name").max(200),
+  agreed: z.literal(true, { errorMap: () => ({ message: "Confirm you have read and agree" }) }),
+  // PNG from the signature pad
+  signature: z.string().regex(/^data:image\/png;base64,[A-Za-z0-9+/]+=*$/, "Sign in the box").max(500_000, "Signature image is too large"),
+});
+
+// The text fields sent alongside the file in POST /api/files
+export const fileUploadSchema = z.object({
+  category: z.enum(fileCategories),
+  patientId: optional(z.string()),
+  description: optional(z.string().trim().max(500)),
+});
+
+export const insertRecallTypeSchema = createInsertSchema(recallTypes, {
+  name: z.string().trim().min(1, "Name the recall").max(100),
+  intervalMonths: z.number().int().min(1, "At least 1 month").max(60, "At most 60 months"),
+  procedureIds: z.array(z.string()).min(1, "Pick the procedures that count as a recall visit"),
+  displayOrder: z.number().int().min(0).default(0),
+}).pick({
+  name: true,
+  intervalMonths: true,
+  procedureIds: true,
+  displayOrder: true,
+});
+
+// The admin recall list's filters, from the query string
+export const recallListQuerySchema = z.object({
+  status: z.enum(['overdue', 'upcoming', 'all']).default('all'),
+  withinDays: z.coerce.number().int().min(1).max(365).default(60), // How far ahead "upcoming" looks
+  recallTypeId: z.string().optional(),
+  unscheduled: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+});
+
+// Staff moving a patient's due date, e.g. to bring a perio patient in sooner
+export const recallDueDateSchema = z.object({
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+});
+
+const soapText = z.string().max(20000, "Keep each section under 20,000 characters").default('');
+
+export const insertClinicalNoteTemplateSchema = createInsertSchema(clinicalNoteTemplates, {
+  name: z.string().trim().min(1, "Name the template").max(100),
+  procedureIds: z.array(z.string()).default([]),
+  subjective: soapText,
+  objective: soapText,
+  assessment: soapText,
+  plan: soapText,
+}).pick({
+  name: true,
+  procedureIds: true,
+  subjective: true,
+  objective: true,
+  assessment: true,
+  plan: true,
+});
+
+// Starting a note; without a template it's a plain SOAP note
+export const startClinicalNoteSchema = z.object({
+  templateId: optional(z.string()),
+});
+
+export const clinicalNoteSectionsSchema = z.object({
+  subjective: soapText,
+  objective: soapText,
+  assessment: soapText,
+  plan: soapText,
+});
+
+// Notes are signed as the provider linked to the signer's login. A providerId,
+// if sent, has to be that provider.
+export const signClinicalNoteSchema = z.object({
+  providerId: z.string().optional(),
+});
+
+export const clinicalNoteAddendumSchema = z.object({
+  body: z.string().trim().min(1, "Write the addendum").max(10000),
+});
+
 export const insertPaymentSchema = createInsertSchema(payments).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// A patient or guardian paying toward a patient's account, optionally for one
+// of their appointments
+export const patientPaymentSchema = z.object({
+  patientId: z.string().min(1),
+  appointmentId: z.string().optional(),
+  amount: z.number().int().positive("Enter an amount to pay"),
+  description: z.string().trim().max(500).optional(),
+});
+
 // Types
 export type InsertUser = typeof users.$inferInsert;
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type PatientProfile = typeof patientProfiles.$inferSelect;
+export type PatientProfileInput = z.infer<typeof patientProfileSchema>;
+export type ContactMethod = typeof contactMethods[number];
+export type Guardianship = typeof guardianships.$inferSelect;
+export type InsertDependent = z.infer<typeof insertDependentSchema>;
+export type Dependent = User & { relationship: string };
+export type MedicalCondition = typeof medicalConditions[number];
+export type AllergySeverity = typeof allergySeverities[number];
+export type Medication = z.infer<typeof medicationSchema>;
+export type Allergy = z.infer<typeof allergySchema>;
+export type MedicalHistory = typeof medicalHistories.$inferSelect;
+export type MedicalHistoryInput = z.infer<typeof medicalHistorySchema>;
+export type ToothSurface = typeof toothSurfaces[number];
+export type ToothCondition = typeof toothConditions[number];
+export type BookingIntent = typeof bookingIntents[number];
+export type ToothChartEntry = typeof toothChartEntries.$inferSelect;
+export type InsertToothChartEntry = z.infer<typeof insertToothChartEntrySchema>;
+export type TreatmentPlanStatus = typeof treatmentPlanStatuses[number];
+export type TreatmentPlan = typeof treatmentPlans.$inferSelect;
+export type TreatmentPlanPhase = typeof treatmentPlanPhases.$inferSelect;
+export type TreatmentPlanItem = typeof treatmentPlanItems.$inferSelect;
+export type TreatmentPlanItemInput = z.infer<typeof treatmentPlanItemSchema>;
+export type TreatmentPlanInput = z.infer<typeof treatmentPlanSchema>;
+export type IntakeFieldType = typeof intakeFieldTypes[number];
+export type IntakeFormFrequency = typeof intakeFormFrequencies[number];
+export type IntakeField = z.infer<typeof intakeFieldSchema>;
+export type IntakeSection = z.infer<typeof intakeSectionSchema>;
+export type IntakeAnswer = string | number | boolean | string[];
+export type IntakeAnswers = Record<string, IntakeAnswer>;
+export type IntakeForm = typeof intakeForms.$inferSelect;
+export type IntakeFormInput = z.infer<typeof insertIntakeFormSchema>;
+export type IntakeFormResponse = typeof intakeFormResponses.$inferSelect;
+export type ConsentTemplate = typeof consentTemplates.$inferSelect;
+export type ConsentTemplateInput = z.infer<typeof insertConsentTemplateSchema>;
+export type SignedConsent = typeof signedConsents.$inferSelect;
+export type SignedConsentRecord = Omit<SignedConsent, 'pdfData'>; // Everything but the PDF itself
+export type SignConsentInput = z.infer<typeof signConsentSchema>;
+export type FileCategory = typeof fileCategories[number];
+export type StoredFile = typeof storedFiles.$inferSelect;
+export type FileUploadInput = z.infer<typeof fileUploadSchema>;
+export type RecallType = typeof recallTypes.$inferSelect;
+export type RecallTypeInput = z.infer<typeof insertRecallTypeSchema>;
+export type PatientRecall = typeof patientRecalls.$inferSelect;
+export type RecallListQuery = z.infer<typeof recallListQuerySchema>;
+export type ClinicalNoteTemplate = typeof clinicalNoteTemplates.$inferSelect;
+export type ClinicalNoteTemplateInput = z.infer<typeof insertClinicalNoteTemplateSchema>;
+export type ClinicalNote = typeof clinicalNotes.$inferSelect;
+export type ClinicalNoteSections = z.infer<typeof clinicalNoteSectionsSchema>;
+export type ClinicalNoteAddendum = typeof clinicalNoteAddenda.$inferSelect;
 
 // Patient Points and Achievements Tables
 export const patientPoints = pgTable("patient_points", {
@@ -375,14 +1571,33 @@ export type PatientChallenge = typeof patientChallenges.$inferSelect;
 export type InsertPatientChallenge = typeof patientChallenges.$inferInsert;
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
 export type Appointment = typeof appointments.$inferSelect;
+export type AppointmentStatusChange = typeof appointmentStatusHistory.$inferSelect;
 export type InsertTeamMember = z.infer<typeof insertTeamMemberSchema>;
 export type TeamMember = typeof teamMembers.$inferSelect;
+export type InsertProvider = z.infer<typeof insertProviderSchema>;
+export type Provider = typeof providers.$inferSelect;
+export type ProviderWithProcedures = Provider & { procedureIds: string[] };
 export type InsertResource = z.infer<typeof insertResourceSchema>;
 export type Resource = typeof resources.$inferSelect;
 export type InsertChatbotResponse = z.infer<typeof insertChatbotResponseSchema>;
 export type ChatbotResponse = typeof chatbotResponses.$inferSelect;
 export type InsertTimeSlot = z.infer<typeof insertTimeSlotSchema>;
 export type TimeSlot = typeof timeSlots.$inferSelect;
+export type AppointmentTimeSlot = typeof appointmentTimeSlots.$inferSelect;
+export type AppointmentChange = typeof appointmentChanges.$inferSelect;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type InsertScheduleTemplate = z.infer<typeof insertScheduleTemplateSchema>;
+export type ScheduleTemplate = typeof scheduleTemplates.$inferSelect;
+export type InsertScheduleException = z.infer<typeof insertScheduleExceptionSchema>;
+export type ScheduleException = typeof scheduleExceptions.$inferSelect;
+export type InsertPracticeHours = z.infer<typeof insertPracticeHoursSchema>;
+export type PracticeHours = typeof practiceHours.$inferSelect;
+export type InsertPracticeClosure = z.infer<typeof insertPracticeClosureSchema>;
+export type PracticeClosure = typeof practiceClosures.$inferSelect;
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type WaitlistOffer = typeof waitlistOffers.$inferSelect;
+export type WaitlistEntryWithOffers = WaitlistEntry & { offers: WaitlistOffer[] };
 export type InsertProcedure = z.infer<typeof insertProcedureSchema>;
 export type Procedure = typeof procedures.$inferSelect;
 export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
@@ -392,3 +1607,5 @@ export type Form = typeof forms.$inferSelect;
 
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type Payment = typeof payments.$inferSelect;
+export type PaymentWithPatient = Payment & { patientName: string };
+export type PatientPayment = z.infer<typeof patientPaymentSchema>;
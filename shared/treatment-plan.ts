@@ -0,0 +1,50 @@
+// Treatment plan helpers shared by the server and the client: what the
+// patient is expected to pay, and where a plan stands as its items get booked
+// and done.
+import type { TreatmentPlanStatus } from "./schema";
+
+export type PlanItemStatus = 'planned' | 'booked' | 'completed';
+
+export const treatmentPlanStatusLabels: Record<TreatmentPlanStatus, string> = {
+  proposed: "Proposed",
+  accepted: "Accepted",
+  in_progress: "In progress",
+  completed: "Completed",
+};
+
+interface Priced {
+  feeCents: number;
+  coveragePercent: number;
+}
+
+export interface PlanEstimate {
+  feeCents: number;
+  insuranceCents: number;
+  patientCents: number;
+}
+
+export function patientPortionCents(item: Priced): number {
+  return Math.round(item.feeCents * (100 - item.coveragePercent) / 100);
+}
+
+export function estimate(items: Priced[]): PlanEstimate {
+  const feeCents = items.reduce((sum, item) => sum + item.feeCents, 0);
+  const patientCents = items.reduce((sum, item) => sum + patientPortionCents(item), 0);
+  return { feeCents, insuranceCents: feeCents - patientCents, patientCents };
+}
+
+// An item is booked while it has a live appointment; a cancelled or missed
+// one puts it back to planned so it can be booked again
+export function planItemStatus(appointment?: { status: string } | null): PlanItemStatus {
+  if (!appointment || appointment.status === 'cancelled' || appointment.status === 'no_show') return 'planned';
+  return appointment.status === 'completed' ? 'completed' : 'booked';
+}
+
+// Proposed plans wait for the patient. Once accepted, a plan follows its
+// items: in progress from the first booking, completed when all are done.
+export function derivedPlanStatus(current: TreatmentPlanStatus, items: PlanItemStatus[]): TreatmentPlanStatus {
+  if (current === 'proposed') return current;
+  if (items.length > 0 && items.every(status => status === 'completed')) return 'completed';
+  if (items.some(status => status !== 'planned')) return 'in_progress';
+  return 'accepted';
+}
@@ -23,13 +23,13 @@ if [ "$1" == "frontend" ]; then
     node tests/frontend.test.js
 elif [ "$1" == "backend" ]; then
     print_status "Running Backend Tests..."
-    node tests/backend.test.js
+    npx tsx tests/backend.test.js
 elif [ "$1" == "integration" ]; then
     print_status "Running Integration Tests..."
     node tests/integration.test.js
 elif [ "$1" == "database" ]; then
     print_status "Running Database Tests..."
-    node tests/database.test.js
+    npx tsx tests/database.test.js
 else
     echo "Usage: $0 [frontend|backend|integration|database]"
     echo ""
@@ -33,6 +33,10 @@ function expect(actual) {
   };
 }
 
+// Feature tests import the real modules, so run this file with tsx. Modules
+// that reach storage need a DATABASE_URL to load; these tests never query it.
+process.env.DATABASE_URL ||= 'postgres://test@localhost/test';
+
 // Mock database operations
 const mockStorage = {
   async getUser(id) {
@@ -166,6 +170,353 @@ test('Appointment status updates work', () => {
   expect(validStatuses).toContain(testStatus);
 });
 
+test('Appointment status follows the lifecycle', async () => {
+  const { canTransition } = await import('../shared/schema.ts');
+
+  expect(canTransition('pending', 'completed')).toBe(false);
+  expect(canTransition('pending', 'confirmed')).toBe(true);
+  expect(canTransition('confirmed', 'checked_in')).toBe(true);
+  expect(canTransition('checked_in', 'in_chair')).toBe(true);
+  expect(canTransition('in_chair', 'completed')).toBe(true);
+  expect(canTransition('completed', 'in_chair')).toBe(false);
+  expect(canTransition('completed', 'completed')).toBe(false);
+  expect(canTransition('cancelled', 'confirmed')).toBe(false);
+  expect(canTransition('unknown', 'confirmed')).toBe(false);
+});
+
+test('Slot booking enforces capacity', async () => {
+  const { hasCapacity } = await import('../shared/schema.ts');
+  const slot = { id: 'slot-1', maxBookings: 2, currentBookings: 1, blockedByStaff: false };
+
+  expect(hasCapacity(slot)).toBe(true);
+  expect(hasCapacity({ ...slot, currentBookings: 2 })).toBe(false);
+  // Staff blocking a slot closes it however many seats are left
+  expect(hasCapacity({ ...slot, blockedByStaff: true })).toBe(false);
+  // Slots made before capacity existed hold one patient
+  expect(hasCapacity({ ...slot, maxBookings: null, currentBookings: null })).toBe(true);
+});
+
+test('Long procedures only start where contiguous slots are free', async () => {
+  const { findBookableStarts, findSlotRun } = await import('../server/availability.ts');
+  const slots = [
+    { id: 'a', time: '09:00', currentBookings: 0 },
+    { id: 'b', time: '09:30', currentBookings: 0 },
+    { id: 'c', time: '10:00', currentBookings: 0 },
+    { id: 'd', time: '10:30', currentBookings: 1 },
+    { id: 'e', time: '11:00', currentBookings: 0 },
+  ].map(slot => ({ ...slot, date: '2025-01-15', providerId: 'dr-1', duration: 30, maxBookings: 1 }));
+  // Another provider's free slot doesn't continue the run
+  slots.push({ ...slots[4], id: 'f', time: '10:30', providerId: 'dr-2', currentBookings: 0 });
+
+  const starts = findBookableStarts(slots, 90);
+  expect(starts.map(s => s.id).join(',')).toBe('a');
+  expect(starts[0].endTime).toBe('10:30');
+  expect(starts[0].timeSlotIds.join(',')).toBe('a,b,c');
+  expect(findSlotRun(slots, slots[4], 60)).toBe(undefined); // nothing after 11:30
+  expect(findBookableStarts(slots, 30).length).toBe(5);
+});
+
+test('Schedule templates generate slots around the lunch break', async () => {
+  const { planDay } = await import('../server/schedule.ts');
+  const provider = { id: 'dr-1', name: 'Dr. Chen' };
+  const templates = [{
+    providerId: 'dr-1',
+    daysOfWeek: [1, 2, 3, 4, 5],
+    startTime: '08:00',
+    endTime: '17:00',
+    slotDuration: 30,
+    breakStart: '12:00',
+    breakEnd: '13:00',
+    slotType: 'general',
+    slotTypesByDay: { '3': 'cleaning' },
+    maxBookings: 1,
+  }];
+
+  const monday = planDay(provider, '2025-01-13', templates);
+  expect(monday.length).toBe(16);
+  expect(monday.some(slot => slot.time === '12:00' || slot.time === '12:30')).toBe(false);
+  expect(monday.some(slot => slot.time === '13:00')).toBe(true);
+  expect(planDay(provider, '2025-01-15', templates)[0].slotType).toBe('cleaning');
+  expect(planDay(provider, '2025-01-12', templates).length).toBe(0); // Sunday
+  expect(planDay(provider, '2025-01-14', templates, { type: 'closed' }).length).toBe(0);
+  // Changed hours for one day keep the template's slot length
+  const late = planDay(provider, '2025-01-14', templates, { type: 'hours', startTime: '14:00', endTime: '16:00' });
+  expect(late.map(slot => slot.time).join(',')).toBe('14:00,14:30,15:00,15:30');
+});
+
+test('Patient changes respect the notice period and reschedule limit', async () => {
+  const { patientChangeBlocked } = await import('../server/appointment-policy.ts');
+  const { practiceInstant } = await import('../server/practice-time.ts');
+  const policy = { cutoffHours: 24, maxReschedules: 2 };
+  const now = practiceInstant('2025-01-15', '09:00');
+  const blocked = (status, appointmentDate, appointmentTime, action, reschedules) =>
+    patientChangeBlocked({ status, appointmentDate, appointmentTime }, action, reschedules, now, policy);
+
+  expect(blocked('confirmed', '2025-01-17', '10:00', 'reschedule', 0)).toBe(undefined);
+  expect(blocked('confirmed', '2025-01-16', '08:00', 'cancel', 0)).toContain('within 24 hours');
+  expect(blocked('confirmed', '2025-01-16', '09:00', 'cancel', 0)).toBe(undefined);
+  expect(blocked('pending', '2025-01-20', '10:00', 'reschedule', 2)).toContain('rescheduled 2 times');
+  expect(blocked('pending', '2025-01-20', '10:00', 'cancel', 2)).toBe(undefined);
+  expect(blocked('cancelled', '2025-01-20', '10:00', 'cancel', 0)).toBe("A cancelled appointment can't be changed");
+});
+
+test('Office hours and closures hide slots and flag booked patients', async () => {
+  const { isOpen, closedReason, openSlots, affectedAppointments } = await import('../server/practice-calendar.ts');
+  const calendar = {
+    hours: [{ dayOfWeek: 3, openTime: '08:00', closeTime: '17:00' }], // Wednesdays only
+    closures: [
+      { startDate: '2025-01-22', endDate: '2025-01-22', startTime: '12:00', endTime: '17:00', reason: 'Staff training' },
+      { startDate: '2025-01-29', endDate: '2025-01-29', startTime: null, endTime: null, reason: 'Holiday' },
+    ],
+  };
+
+  expect(isOpen(calendar, '2025-01-15', 9 * 60, 10 * 60)).toBe(true);
+  expect(closedReason(calendar, '2025-01-16', 9 * 60, 10 * 60)).toBe('Outside office hours'); // Thursday
+  expect(isOpen(calendar, '2025-01-15', 16 * 60 + 30, 17 * 60 + 30)).toBe(false); // runs past closing
+  expect(isOpen(calendar, '2025-01-22', 10 * 60, 11 * 60)).toBe(true); // before the afternoon closure
+  expect(closedReason(calendar, '2025-01-22', 11 * 60 + 30, 12 * 60 + 30)).toBe('Staff training'); // runs into it
+  expect(closedReason(calendar, '2025-01-29', 9 * 60, 10 * 60)).toBe('Holiday');
+  expect(isOpen({ hours: [], closures: [] }, '2025-01-16', 9 * 60, 10 * 60)).toBe(true);
+
+  const slots = [
+    { date: '2025-01-22', time: '11:00', duration: 30 },
+    { date: '2025-01-22', time: '11:30', duration: 60 },
+    { date: '2025-01-22', time: '11:30' }, // an hour when unset
+  ];
+  expect(openSlots(calendar, slots).length).toBe(1);
+
+  const booked = [
+    { id: 'a-1', appointmentDate: '2025-01-22', appointmentTime: '09:00', duration: 60 },
+    { id: 'a-2', appointmentDate: '2025-01-22', appointmentTime: '11:30', duration: 60 },
+    { id: 'a-3', appointmentDate: '2025-01-29', appointmentTime: '09:00', duration: 30 },
+  ];
+  const affected = calendar.closures.flatMap(c => affectedAppointments(c, booked, a => a.duration));
+  expect(affected.map(a => a.id).join(',')).toBe('a-2,a-3');
+});
+
+test('Practice-local times resolve in the practice time zone', async () => {
+  const { toMinutes, normalizeTime, zonedInstant, dateInZone, minutesInZone } = await import('../shared/datetime.ts');
+  const timeZone = 'America/New_York';
+
+  expect(toMinutes('2:30 PM')).toBe(toMinutes('14:30'));
+  expect(toMinutes('12:15 AM')).toBe(15);
+  expect(normalizeTime('9:05 AM')).toBe('09:05');
+  expect(zonedInstant('2025-01-15', '09:30', timeZone).toISOString()).toBe('2025-01-15T14:30:00.000Z');
+  expect(zonedInstant('2025-07-15', '09:30', timeZone).toISOString()).toBe('2025-07-15T13:30:00.000Z');
+  // 2:30 AM doesn't exist on the spring-forward day; it moves past the gap to 3:30
+  expect(zonedInstant('2025-03-09', '02:30', timeZone).toISOString()).toBe('2025-03-09T07:30:00.000Z');
+  // Late evening in New York is already tomorrow in UTC
+  expect(dateInZone(new Date('2025-01-16T03:00:00Z'), timeZone)).toBe('2025-01-15');
+  expect(minutesInZone(new Date('2025-01-16T03:00:00Z'), timeZone)).toBe(22 * 60);
+});
+
+test('Calendar text is escaped and long lines fold on character boundaries', async () => {
+  const { escapeText, foldLine } = await import('../server/ical.ts');
+
+  expect(escapeText('Cleaning, polish; floss\nthen rinse \\ spit')).toBe('Cleaning\\, polish\\; floss\\nthen rinse \\\\ spit');
+  expect(foldLine('SUMMARY:Cleaning')).toBe('SUMMARY:Cleaning');
+
+  // Two-byte characters can't be split, so the first piece stops at 74 octets
+  const folded = foldLine(`DESCRIPTION:${'é'.repeat(60)}`).split('\r\n');
+  expect(folded.length).toBe(2);
+  expect(Buffer.byteLength(folded[0])).toBe(74);
+  expect(folded.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+  expect(folded[1].startsWith(' é')).toBe(true);
+  expect(folded.map((line, i) => i === 0 ? line : line.slice(1)).join('')).toBe(`DESCRIPTION:${'é'.repeat(60)}`);
+});
+
+test('Schedule board lanes overlapping appointments and only offers allowed steps', async () => {
+  const { assignLanes, nextSteps, requirementCheck } = await import('../shared/schedule-board.ts');
+  const { canTransition } = await import('../shared/schema.ts');
+
+  const { lanes, count } = assignLanes([
+    { id: 'crown', appointmentTime: '09:00', durationMinutes: 90 },
+    { id: 'cleaning', appointmentTime: '09:30', durationMinutes: 30 },
+    { id: 'checkup', appointmentTime: '10:00', durationMinutes: 30 },
+    { id: 'filling', appointmentTime: '10:30', durationMinutes: 45 },
+  ]);
+  expect(count).toBe(2);
+  expect(lanes.get('crown')).toBe(0);
+  expect(lanes.get('cleaning')).toBe(1);
+  expect(lanes.get('checkup')).toBe(1); // cleaning has finished by 10:00
+  expect(lanes.get('filling')).toBe(0); // crown ends at 10:30
+  expect(assignLanes([]).count).toBe(1);
+
+  for (const [from, step] of Object.entries(nextSteps)) {
+    expect(canTransition(from, step.status)).toBe(true);
+  }
+
+  // Staff are only asked about a flagged patient's booking when confirming it
+  expect(requirementCheck({ bookingRequirement: 'deposit' }, 'confirmed')).toContain('deposit');
+  expect(requirementCheck({ bookingRequirement: 'deposit' }, 'checked_in')).toBe(undefined);
+  expect(requirementCheck({ bookingRequirement: null }, 'confirmed')).toBe(undefined);
+});
+
+test('Live updates batch changes and only reach subscribed topics', async () => {
+  const { createServer } = await import('http');
+  const { WebSocket } = await import('ws');
+  const { attachLiveUpdates, publishChange } = await import('../server/live-updates.ts');
+  const server = createServer();
+  attachLiveUpdates(server);
+  await new Promise(resolve => server.listen(0, resolve));
+  const wait = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+  const sockets = [];
+  const connect = async (topics) => {
+    const ws = new WebSocket(`ws://localhost:${server.address().port}/ws`);
+    sockets.push(ws);
+    const received = [];
+    ws.on('message', data => received.push(JSON.parse(data.toString())));
+    await new Promise(resolve => ws.on('open', resolve));
+    ws.send(JSON.stringify({ type: 'subscribe', topics }));
+    return { ws, received };
+  };
+
+  try {
+    const frontDesk = await connect(['appointments', 'timeslots']);
+    const patientCalendar = await connect(['timeslots', 'patients']);
+    await wait(50);
+
+    publishChange(['appointments'], '2025-01-16');
+    publishChange(['appointments', 'timeslots'], '2025-01-15');
+    await wait(400);
+    expect(frontDesk.received.length).toBe(1);
+    expect(frontDesk.received[0].topics.join(',')).toBe('appointments,timeslots');
+    expect(frontDesk.received[0].dates.join(',')).toBe('2025-01-15,2025-01-16');
+    expect(patientCalendar.received[0].topics.join(',')).toBe('timeslots');
+
+    publishChange(['appointments'], '2025-01-17');
+    await wait(400);
+    expect(frontDesk.received.length).toBe(2);
+    expect(patientCalendar.received.length).toBe(1);
+  } finally {
+    sockets.forEach(ws => ws.terminate());
+    server.close();
+  }
+});
+
+test('Medical history versions diff against the previous one', async () => {
+  const { medicalAlerts, diffMedicalHistories } = await import('../shared/medical-history.ts');
+  const answers = (conditions, allergies, extra = {}) => ({
+    conditions, allergies, otherConditions: null, medications: [], noKnownAllergies: false, notes: null, ...extra,
+  });
+  const summary = (changes) => changes.map(c => `${c.section}:${c.kind}:${c.description}`).join(' | ');
+
+  const v1 = answers(['asthma'], [{ substance: 'Latex', severity: 'mild' }]);
+  const v2 = answers(['asthma', 'blood_thinners'], [
+    { substance: 'latex', severity: 'moderate' },
+    { substance: 'Penicillin', severity: 'severe', reaction: 'Hives' },
+  ]);
+  const v3 = answers(['blood_thinners'], [{ substance: 'Penicillin', severity: 'severe', reaction: 'Hives' }], { notes: 'Nervous patient' });
+
+  expect(summary(diffMedicalHistories(undefined, v1))).toBe('conditions:added:Asthma | allergies:added:Latex (mild)');
+  // Allergies are matched regardless of case
+  expect(summary(diffMedicalHistories(v1, v2))).toBe(
+    'conditions:added:Takes blood thinners | allergies:changed:Latex (mild) → latex (moderate) | allergies:added:Penicillin (severe / anaphylaxis, Hives)'
+  );
+  expect(summary(diffMedicalHistories(v2, v3))).toBe(
+    'conditions:removed:Asthma | allergies:removed:latex (moderate) | notes:added:Nervous patient'
+  );
+  expect(diffMedicalHistories(v3, v3).length).toBe(0);
+
+  // Most severe allergy first; asthma isn't an alert but blood thinners are
+  expect(medicalAlerts(v2).map(alert => alert.label).join(',')).toBe('Penicillin,latex,Takes blood thinners');
+});
+
+test('Treatment plan estimates and status follow the booked items', async () => {
+  const { patientPortionCents, estimate, planItemStatus, derivedPlanStatus } = await import('../shared/treatment-plan.ts');
+
+  const items = [
+    { feeCents: 15000, coveragePercent: 80 },
+    { feeCents: 120000, coveragePercent: 50 },
+    { feeCents: 9999, coveragePercent: 0 },
+  ];
+  expect(items.map(patientPortionCents).join(',')).toBe('3000,60000,9999');
+  const total = estimate(items);
+  expect(total.feeCents).toBe(144999);
+  expect(total.patientCents).toBe(72999);
+  expect(total.insuranceCents).toBe(72000);
+
+  expect(derivedPlanStatus('proposed', ['booked'])).toBe('proposed'); // the patient hasn't accepted yet
+  expect(derivedPlanStatus('accepted', ['planned', 'planned'])).toBe('accepted');
+  expect(derivedPlanStatus('accepted', [planItemStatus({ status: 'confirmed' }), planItemStatus(null)])).toBe('in_progress');
+  expect(derivedPlanStatus('in_progress', [planItemStatus({ status: 'completed' }), planItemStatus({ status: 'completed' })])).toBe('completed');
+  // A cancelled or missed visit frees the item to be booked again
+  expect(derivedPlanStatus('in_progress', [planItemStatus({ status: 'cancelled' })])).toBe('accepted');
+  expect(planItemStatus({ status: 'no_show' })).toBe('planned');
+  expect(derivedPlanStatus('accepted', [])).toBe('accepted');
+});
+
+test('Intake forms show conditional sections and check only what is visible', async () => {
+  const { visibleSections, checkIntakeAnswers } = await import('../shared/intake-form.ts');
+  const field = (id, type, required, options = []) => ({ id, label: id, type, required, options });
+  const sections = [
+    { id: 's1', title: 'Coverage', showIf: null, fields: [field('insured', 'yes_no', true)] },
+    { id: 's2', title: 'Carrier', showIf: { fieldId: 'insured', equals: 'yes' }, fields: [field('carrier', 'select', true, ['Delta', 'Aetna'])] },
+    { id: 's3', title: 'Member', showIf: { fieldId: 'carrier', equals: 'Delta' }, fields: [field('member', 'text', false)] },
+  ];
+  const visible = (answers) => visibleSections(sections, answers).map(s => s.id).join(',');
+
+  expect(visible({})).toBe('s1');
+  expect(visible({ insured: 'yes', carrier: 'Delta' })).toBe('s1,s2,s3');
+  // A stale answer in a hidden section doesn't reveal what depends on it
+  expect(visible({ insured: 'no', carrier: 'Delta' })).toBe('s1');
+
+  const missing = checkIntakeAnswers(sections, { insured: 'yes' });
+  expect(Object.keys(missing.errors).join(',')).toBe('carrier');
+  expect(checkIntakeAnswers(sections, { insured: 'yes', carrier: 'Cigna' }).errors.carrier).toBe('Pick one of the options');
+
+  const dropped = checkIntakeAnswers(sections, { insured: 'no', carrier: 'Delta', member: '123' });
+  expect(Object.keys(dropped.errors).length).toBe(0);
+  expect(Object.keys(dropped.answers).join(',')).toBe('insured');
+  expect(checkIntakeAnswers(sections, { insured: 'yes', carrier: 'Delta', member: '  123 ' }).answers.member).toBe('123');
+});
+
+test('Uploaded files are checked by content, not by what the browser says', async () => {
+  const { sniffContentType, cleanFileName, isInlineImage } = await import('../server/files.ts');
+  const { fileProblem } = await import('../shared/files.ts');
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0]);
+  const dicom = Buffer.concat([Buffer.alloc(128), Buffer.from('DICM')]);
+
+  expect(sniffContentType(png)).toBe('image/png');
+  // A PDF renamed to .png is still a PDF
+  expect(sniffContentType(Buffer.from('%PDF-1.7'))).toBe('application/pdf');
+  expect(sniffContentType(dicom)).toBe('application/dicom');
+  expect(sniffContentType(Buffer.from('<svg></svg>'))).toBe(null);
+
+  expect(fileProblem('xray', 'image/png', png.length)).toBe(null);
+  expect(fileProblem('xray', 'application/pdf', 8)).toBe('X-ray files must be JPEG, PNG, DICOM');
+  expect(fileProblem('team_photo', 'image/png', 6 * 1024 * 1024)).toBe('Team photo files must be 5.0 MB or smaller');
+  expect(fileProblem('form', 'application/pdf', 0)).toBe('The file is empty');
+
+  expect(cleanFileName('C:\\scans\\bite"wing.png', 'image/png')).toBe('bitewing.png');
+  expect(cleanFileName('', 'application/dicom')).toBe('upload.dcm');
+  expect(isInlineImage(' DATA:image/png;base64,AAAA')).toBe(true);
+  expect(isInlineImage('/api/files/abc')).toBe(false);
+});
+
+test('Patient search reads what staff typed as a date, email, phone or name', async () => {
+  const { parsePatientQuery } = await import('../shared/patient-search.ts');
+
+  expect(parsePatientQuery('3/9/1985').date).toBe('1985-03-09');
+  expect(parsePatientQuery('1985-02-30')).toBe(null);
+  expect(parsePatientQuery('Jane@Example').kind).toBe('email');
+  expect(parsePatientQuery('(555) 123-4567').digits).toBe('5551234567');
+  expect(parsePatientQuery('55')).toBe(null);
+  expect(parsePatientQuery('Smith, Jane').tokens.join(' ')).toBe('smith jane');
+  expect(parsePatientQuery('j')).toBe(null);
+});
+
+test('Failed requests show the API message rather than the raw response', async () => {
+  const { errorMessage } = await import('../client/src/lib/queryClient.ts');
+
+  expect(errorMessage(new Error('409: {"message":"That slot was just taken, \\"sorry\\""}'), 'Failed')).toBe('That slot was just taken, "sorry"');
+  expect(errorMessage(new Error('400: {"message":"Invalid data","errors":[{"path":["date"]}]}'), 'Failed')).toBe('Invalid data');
+  expect(errorMessage(new Error('500: {"error":"boom"}'), 'Failed to save.')).toBe('Failed to save.');
+  expect(errorMessage(new Error('502: Bad Gateway'), 'Failed')).toBe('Bad Gateway');
+  expect(errorMessage(new Error('Failed to fetch'), 'Failed')).toBe('Failed to fetch');
+});
+
 test('Role-based access control', () => {
   const checkAdminAccess = (user) => {
     return user && user.role === 'admin';
@@ -94,7 +94,8 @@ class MockDatabase {
       appointments: [],
       procedures: [],
       promotions: [],
-      forms: []
+      forms: [],
+      providers: []
     };
   }
   
@@ -137,6 +138,57 @@ class MockDatabase {
   }
 }
 
+// The real storage layer on a fresh in-memory Postgres (PGlite) with the
+// app's schema applied. Run under tsx so the TypeScript modules load.
+let appModules;
+async function withRealDatabase() {
+  appModules ||= (async () => {
+    // server/db.ts won't load without a URL; nothing ever connects to it
+    process.env.DATABASE_URL ||= 'postgres://test@localhost/test';
+    const { createRequire } = await import('module');
+    const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)('drizzle-kit/api');
+    const schema = await import('../shared/schema.ts');
+    return {
+      schema,
+      statements: await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema)),
+      db: (await import('../server/db.ts')).db,
+      storage: (await import('../server/storage.ts')).storage,
+    };
+  })();
+  const { schema, statements, db, storage } = await appModules;
+  const { PGlite } = await import('@electric-sql/pglite');
+  const { drizzle } = await import('drizzle-orm/pglite');
+
+  const client = new PGlite();
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  const testDb = drizzle({ client, schema });
+  // Point the app's Neon-backed db at this database
+  for (const method of ['select', 'selectDistinct', 'selectDistinctOn', 'insert', 'update', 'delete', 'execute', 'transaction', 'with', '$count']) {
+    db[method] = testDb[method].bind(testDb);
+  }
+  db.query = testDb.query;
+  return { storage };
+}
+
+// An appointment row for the patient; tests override only what they check
+function appointmentFor(patient, fields = {}) {
+  return {
+    patientId: patient.id,
+    doctorName: 'Dr. Chen',
+    treatmentType: 'Cleaning',
+    appointmentDate: '2026-11-02',
+    appointmentTime: '09:00',
+    status: 'pending',
+    ...fields,
+  };
+}
+
+function procedureNamed(name, fields = {}) {
+  return { name, description: name, duration: 60, category: 'general', ...fields };
+}
+
 // Database Tests
 test('Database schema validation', () => {
   const requiredTables = Object.keys(validateSchema);
@@ -311,6 +363,588 @@ test('Foreign key relationships', async () => {
   expect(userAppointments.length).toBe(1);
 });
 
+test('Doctor names migrate to provider references', async () => {
+  const { storage } = await withRealDatabase();
+  const patient = await storage.createUser({ email: 'backfill@example.com' });
+  const johnson = await storage.createProvider({ name: 'Dr. Johnson' });
+  const slot = await storage.createTimeSlot({ date: '2026-11-04', time: '09:00', doctorName: 'dr. johnson' });
+  const appointment = (doctorName) => storage.createAppointment(appointmentFor(patient, { doctorName }));
+  const chen = await appointment('Dr. Chen');
+  const lee = await appointment('Dr. Lee');
+  const leeAgain = await appointment('DR. LEE');
+
+  // Names match existing providers case-insensitively; each new name gets one provider
+  expect(await storage.migrateDoctorNamesToProviders()).toBe(2);
+  expect(await storage.migrateDoctorNamesToProviders()).toBe(0);
+
+  const providers = await storage.getProviders();
+  const providerOf = async (apt) => (await storage.getAppointment(apt.id)).providerId;
+  expect(providers.length).toBe(3);
+  expect((await storage.getTimeSlot(slot.id)).providerId).toBe(johnson.id);
+  expect(await providerOf(lee)).toBe(await providerOf(leeAgain));
+  const chenId = await providerOf(chen);
+  expect(providers.find(p => p.id === chenId).name).toBe('Dr. Chen');
+});
+
+test('Status changes are recorded once and completing twice is refused', async () => {
+  const { storage } = await withRealDatabase();
+  const patient = await storage.createUser({ email: 'lifecycle@example.com' });
+  const appointment = await storage.createAppointment(appointmentFor(patient));
+  const move = (status) => storage.updateAppointmentStatus(appointment.id, status, { changedBy: patient.id });
+
+  expect(await move('completed')).toBe(undefined);
+  for (const status of ['confirmed', 'checked_in', 'in_chair', 'completed']) {
+    expect((await move(status)).status).toBe(status);
+  }
+  // The route only awards points when this succeeds
+  expect(await move('completed')).toBe(undefined);
+  expect(await move('in_chair')).toBe(undefined);
+
+  const history = await storage.getAppointmentStatusHistory(appointment.id);
+  expect(history.map(change => change.toStatus).join(',')).toBe('pending,confirmed,checked_in,in_chair,completed');
+  expect(history[0].fromStatus).toBe(null);
+});
+
+test('Overdue appointments become no-shows and repeat patients are flagged', async () => {
+  const { storage } = await withRealDatabase();
+  const { detectNoShows, noShowPolicy, bookingRequirement } = await import('../server/no-show.ts');
+  const { practiceInstant } = await import('../server/practice-time.ts');
+  const patient = await storage.createUser({ email: 'late@example.com', noShowCount: noShowPolicy.flagThreshold - 1 });
+  const book = (appointmentTime, status) =>
+    storage.createAppointment(appointmentFor(patient, { appointmentDate: '2025-01-15', appointmentTime, status }));
+  const missed = await book('09:00', 'confirmed');
+  const arrived = await book('10:00', 'checked_in');
+  const upcoming = await book('10:20', 'pending');
+
+  // 10:40 is past the grace period for 9:00 but not for 10:20
+  const now = practiceInstant('2025-01-15', '10:40');
+  expect((await detectNoShows(now)).map(apt => apt.id).join(',')).toBe(missed.id);
+  expect((await detectNoShows(now)).length).toBe(0);
+
+  expect((await storage.getAppointment(arrived.id)).status).toBe('checked_in');
+  expect((await storage.getAppointment(upcoming.id)).status).toBe('pending');
+  const flagged = await storage.getUser(patient.id);
+  expect(flagged.noShowCount).toBe(noShowPolicy.flagThreshold);
+  expect(!!flagged.noShowFlaggedAt).toBe(true);
+  expect(bookingRequirement(flagged)).toBe(noShowPolicy.flaggedRequirement);
+  expect(bookingRequirement(patient)).toBe(null);
+});
+
+test('A flagged booking waits until its deposit is taken', async () => {
+  const { storage } = await withRealDatabase();
+  const { unmetBookingRequirement } = await import('../server/no-show.ts');
+  const patient = await storage.createUser({ email: 'deposit@example.com' });
+  const appointment = await storage.createAppointment(appointmentFor(patient, { bookingRequirement: 'deposit' }));
+
+  expect(await unmetBookingRequirement(appointment, false)).toContain('deposit');
+  // Staff can vouch for it, or a completed payment against the visit covers it
+  expect(await unmetBookingRequirement(appointment, true)).toBe(undefined);
+  await storage.createPayment({
+    patientId: patient.id,
+    appointmentId: appointment.id,
+    amount: 5000,
+    paymentMethod: 'credit_card',
+    procedureName: 'Cleaning',
+    patientResponsibility: 5000,
+  });
+  expect(await unmetBookingRequirement(appointment, false)).toBe(undefined);
+
+  const confirmed = await storage.updateAppointmentStatus(appointment.id, 'confirmed', { changedBy: patient.id });
+  expect(confirmed.bookingRequirement).toBe(null);
+});
+
+test('Waitlist offers freed slots in sign-up order with a time-limited hold', async () => {
+  const { storage } = await withRealDatabase();
+  const { offerOpenSlots, expireWaitlistOffers, HOLD_MINUTES } = await import('../server/waitlist.ts');
+  const { practiceDate } = await import('../server/practice-time.ts');
+  const { addDays } = await import('../shared/datetime.ts');
+  const date = addDays(practiceDate(), 7);
+
+  const chen = await storage.createProvider({ name: 'Dr. Chen' });
+  const lee = await storage.createProvider({ name: 'Dr. Lee' });
+  const cleaning = await storage.createProcedure(procedureNamed('Cleaning'));
+  const slot = await storage.createTimeSlot({ date, time: '09:00', doctorName: 'Dr. Chen', providerId: chen.id });
+  const waitFor = async (email, entry) => storage.createWaitlistEntry({
+    patientId: (await storage.createUser({ email })).id,
+    procedureId: cleaning.id,
+    earliestDate: date,
+    latestDate: addDays(date, 3),
+    providerIds: [],
+    ...entry,
+  });
+  await waitFor('wants-lee@example.com', { providerIds: [lee.id] });
+  await waitFor('mornings-only@example.com', { latestTime: '09:30' });
+  const second = await waitFor('second@example.com');
+  const third = await waitFor('third@example.com');
+
+  // The first sign-up wants another doctor and the next one's window is too short
+  expect(await offerOpenSlots(date)).toBe(1);
+  expect(await offerOpenSlots(date)).toBe(0);
+  const [offer] = (await storage.getWaitlistEntries({ statuses: ['offered'] })).flatMap(entry => entry.offers);
+  expect(offer.waitlistEntryId).toBe(second.id);
+  expect((await storage.getTimeSlot(slot.id)).currentBookings).toBe(1);
+
+  // Nobody answers, so the hold lapses and the next patient gets it
+  const later = new Date(Date.now() + (HOLD_MINUTES + 1) * 60 * 1000);
+  expect(await expireWaitlistOffers(later)).toBe(1);
+  expect((await storage.getWaitlistOffer(offer.id)).status).toBe('expired');
+  expect((await storage.getTimeSlot(slot.id)).currentBookings).toBe(0);
+  expect(await offerOpenSlots(date)).toBe(1);
+  const [next] = (await storage.getWaitlistEntries({ statuses: ['offered'] })).flatMap(entry => entry.offers);
+  expect(next.waitlistEntryId).toBe(third.id);
+});
+
+test('Accepting an offer for a removed procedure withdraws it instead of booking', async () => {
+  const { storage } = await withRealDatabase();
+  const { offerOpenSlots } = await import('../server/waitlist.ts');
+  const { practiceDate } = await import('../server/practice-time.ts');
+  const { addDays } = await import('../shared/datetime.ts');
+  const date = addDays(practiceDate(), 7);
+
+  const chen = await storage.createProvider({ name: 'Dr. Chen' });
+  const whitening = await storage.createProcedure(procedureNamed('Whitening'));
+  const slot = await storage.createTimeSlot({ date, time: '09:00', doctorName: 'Dr. Chen', providerId: chen.id });
+  const entry = await storage.createWaitlistEntry({
+    patientId: (await storage.createUser({ email: 'whiter@example.com' })).id,
+    procedureId: whitening.id,
+    earliestDate: date,
+    latestDate: date,
+    providerIds: [],
+  });
+  expect(await offerOpenSlots(date)).toBe(1);
+  const [offer] = (await storage.getWaitlistEntries({ statuses: ['offered'] })).flatMap(e => e.offers);
+
+  await storage.deleteProcedure(whitening.id);
+  expect(await storage.acceptWaitlistOffer(offer.id)).toBe(undefined);
+  expect((await storage.getWaitlistOffer(offer.id)).status).toBe('withdrawn');
+  expect((await storage.getWaitlistEntry(entry.id)).status).toBe('cancelled');
+  expect((await storage.getTimeSlot(slot.id)).currentBookings).toBe(0);
+});
+
+test('Quick booking picks the earliest fitting slot, preferring the usual provider', async () => {
+  const { storage } = await withRealDatabase();
+  const { findQuickBookingStarts, usualProviderId } = await import('../server/quick-booking.ts');
+  const { practiceInstant } = await import('../server/practice-time.ts');
+  const lee = await storage.createProvider({ name: 'Dr. Lee' });
+  const kim = await storage.createProvider({ name: 'Dr. Kim' });
+  const slot = (provider, date, time, slotType) =>
+    storage.createTimeSlot({ date, time, doctorName: provider.name, providerId: provider.id, slotType });
+  const emergency = await slot(lee, '2025-01-15', '09:00', 'emergency');
+  const cleaning = await slot(kim, '2025-01-15', '10:00', 'cleaning');
+  const general = await slot(lee, '2025-01-16', '08:00', 'general');
+  await slot(kim, '2025-01-15', '11:00', 'consultation');
+  const now = practiceInstant('2025-01-15', '07:00');
+  const first = async (intent, preferProviderId) =>
+    (await findQuickBookingStarts(intent, preferProviderId, now)).starts[0].id;
+
+  expect(await first('emergency')).toBe(emergency.id);
+  expect(await first('checkup')).toBe(cleaning.id); // emergency slots are held back
+  expect(await first('checkup', lee.id)).toBe(general.id);
+  expect(await first('checkup', 'dr-unknown')).toBe(cleaning.id);
+  expect((await findQuickBookingStarts('checkup', undefined, now)).starts.length).toBe(2);
+
+  // Whoever the patient saw last is their usual provider
+  const patient = await storage.createUser({ email: 'regular@example.com' });
+  await storage.createAppointment(appointmentFor(patient, {
+    doctorName: kim.name,
+    providerId: kim.id,
+    appointmentDate: '2024-07-01',
+    status: 'completed',
+  }));
+  expect(await usualProviderId(patient.id)).toBe(kim.id);
+});
+
+test('Quick booking books the procedure staff picked for the button, whatever it is called', async () => {
+  const { storage } = await withRealDatabase();
+  const { findQuickBookingStarts, migrateBookingIntents } = await import('../server/quick-booking.ts');
+  const { practiceInstant } = await import('../server/practice-time.ts');
+  const now = practiceInstant('2025-01-15', '07:00');
+  const booked = async (intent) => {
+    const { treatmentType, durationMinutes } = await findQuickBookingStarts(intent, undefined, now);
+    return `${treatmentType} (${durationMinutes})`;
+  };
+
+  // Until staff pick one, the button books its default
+  expect(await booked('checkup')).toBe('Routine Cleaning (60)');
+
+  const cleaning = await storage.createProcedure(procedureNamed('Routine Cleaning', { duration: 45 }));
+  expect(await migrateBookingIntents()).toBe(1);
+  await storage.updateProcedure(cleaning.id, { name: 'Adult Prophylaxis' });
+  expect(await booked('checkup')).toBe('Adult Prophylaxis (45)');
+
+  // Tagging another procedure moves the button to it
+  await storage.createProcedure(procedureNamed('Hygiene Visit', { duration: 50, bookingIntent: 'checkup' }));
+  expect(await booked('checkup')).toBe('Hygiene Visit (50)');
+  expect(await booked('emergency')).toBe('Emergency Consultation (30)');
+});
+
+test('Full slots close, and cancelling reopens them unless staff blocked them', async () => {
+  const { storage } = await withRealDatabase();
+  const patient = await storage.createUser({ email: 'booking@example.com' });
+  const slot = await storage.createTimeSlot({ date: '2026-11-03', time: '09:00', doctorName: 'Dr. Chen', maxBookings: 2 });
+  const book = () => storage.bookAppointment(appointmentFor(patient, { appointmentDate: slot.date, appointmentTime: slot.time }), [slot.id]);
+
+  const first = await book();
+  const second = await book();
+  expect(!!first && !!second).toBe(true);
+  expect(await book()).toBe(undefined);
+  expect((await storage.getTimeSlot(slot.id)).isAvailable).toBe(false);
+
+  await storage.updateAppointmentStatus(first.id, 'cancelled', { changedBy: patient.id });
+  expect((await storage.getTimeSlot(slot.id)).isAvailable).toBe(true);
+
+  // Staff block the slot, then a patient cancels
+  await storage.updateTimeSlot(slot.id, { blockedByStaff: true });
+  expect((await storage.getTimeSlot(slot.id)).isAvailable).toBe(false);
+  await storage.updateAppointmentStatus(second.id, 'cancelled', { changedBy: patient.id });
+  const after = await storage.getTimeSlot(slot.id);
+  expect(after.currentBookings).toBe(0);
+  expect(after.isAvailable).toBe(false);
+  expect(await book()).toBe(undefined);
+
+  await storage.updateTimeSlot(slot.id, { blockedByStaff: false });
+  expect(!!(await book())).toBe(true);
+});
+
+test('A cancelled appointment cannot be rescheduled', async () => {
+  const { storage } = await withRealDatabase();
+  const patient = await storage.createUser({ email: 'moving@example.com' });
+  const [nine, ten, eleven] = await storage.createTimeSlots(['09:00', '10:00', '11:00'].map(time => ({
+    date: '2026-11-02',
+    time,
+    doctorName: 'Dr. Chen',
+  })));
+  const seats = async (slot) => (await storage.getTimeSlot(slot.id)).currentBookings;
+
+  const appointment = await storage.bookAppointment(appointmentFor(patient, { appointmentDate: nine.date, appointmentTime: nine.time }), [nine.id]);
+
+  // A live appointment moves and takes its seat with it
+  const moved = await storage.rescheduleAppointment(appointment.id, [ten.id], { changedBy: patient.id });
+  expect(moved.appointmentTime).toBe('10:00');
+  expect(await seats(nine)).toBe(0);
+  expect(await seats(ten)).toBe(1);
+
+  // Cancelled in between the route's check and the move
+  await storage.updateAppointmentStatus(appointment.id, 'cancelled', { changedBy: patient.id });
+  expect(await storage.rescheduleAppointment(appointment.id, [eleven.id], { changedBy: patient.id })).toBe(undefined);
+  expect(await seats(ten)).toBe(0);
+  expect(await seats(eleven)).toBe(0);
+  expect((await storage.getAppointment(appointment.id)).status).toBe('cancelled');
+});
+
+test('Only moves by the patient or their guardian count toward the reschedule limit', async () => {
+  const { storage } = await withRealDatabase();
+  const { patientChangeBlocked } = await import('../server/appointment-policy.ts');
+  const parent = await storage.createUser({ email: 'parent-mover@example.com' });
+  const dentist = await storage.createUser({ email: 'front-desk@example.com', role: 'admin' });
+  const child = await storage.createDependent(parent.id, { firstName: 'Leo', lastName: 'Diaz', relationship: 'child' });
+  const slots = await storage.createTimeSlots(['09:00', '10:00', '11:00', '12:00', '13:00'].map(time => ({
+    date: '2026-11-02',
+    time,
+    doctorName: 'Dr. Chen',
+  })));
+  const appointment = await storage.bookAppointment(appointmentFor(child, { appointmentDate: slots[0].date, appointmentTime: slots[0].time }), [slots[0].id]);
+  const moveTo = (slot, changedBy) => storage.rescheduleAppointment(appointment.id, [slot.id], { changedBy });
+  const policy = { cutoffHours: 24, maxReschedules: 2 };
+  const blocked = async () =>
+    patientChangeBlocked(await storage.getAppointment(appointment.id), 'reschedule', await storage.countPatientReschedules(appointment), new Date('2026-10-01T00:00:00Z'), policy);
+
+  // The office moving the visit around doesn't use up the family's changes
+  await moveTo(slots[1], dentist.id);
+  await moveTo(slots[2], dentist.id);
+  expect(await storage.countPatientReschedules(appointment)).toBe(0);
+  expect(await blocked()).toBe(undefined);
+
+  await moveTo(slots[3], parent.id);
+  await moveTo(slots[4], child.id);
+  expect(await storage.countPatientReschedules(appointment)).toBe(2);
+  expect(await blocked()).toContain('rescheduled 2 times');
+});
+
+test('Guardians act for their dependents and nobody else', async () => {
+  const { storage } = await withRealDatabase();
+  const { canActFor, familyPatientIds, bookingPatient } = await import('../server/family.ts');
+  const parent = await storage.createUser({ email: 'parent@example.com', role: 'patient' });
+  const otherParent = await storage.createUser({ email: 'other-parent@example.com', role: 'patient' });
+  const frontDesk = await storage.createUser({ email: 'desk@example.com', role: 'admin' });
+  const child = await storage.createDependent(parent.id, { firstName: 'Leo', lastName: 'Diaz', relationship: 'child' });
+  const sibling = await storage.createDependent(parent.id, { firstName: 'Mia', lastName: 'Diaz', relationship: 'child' });
+  const neighbour = await storage.createDependent(otherParent.id, { firstName: 'Sam', lastName: 'Reed', relationship: 'child' });
+
+  expect(await canActFor(parent, child.id)).toBe(true);
+  expect(await canActFor(parent, neighbour.id)).toBe(false);
+  expect(await canActFor(await storage.getUser(child.id), parent.id)).toBe(false); // links only go one way
+  expect(await canActFor(frontDesk, sibling.id)).toBe(true);
+  expect((await familyPatientIds(parent.id)).sort().join(',')).toBe([parent.id, child.id, sibling.id].sort().join(','));
+  expect((await familyPatientIds(otherParent.id)).length).toBe(2);
+
+  expect((await bookingPatient(parent)).id).toBe(parent.id);
+  expect((await bookingPatient(parent, child.id)).firstName).toBe('Leo');
+  expect(await bookingPatient(parent, neighbour.id)).toBe(undefined);
+  // Unlinking takes the access away but keeps the patient record
+  expect(await storage.removeDependent(parent.id, child.id)).toBe(true);
+  expect(await canActFor(parent, child.id)).toBe(false);
+  expect(!!(await storage.getUser(child.id))).toBe(true);
+});
+
+test('Reminders reach dependents through their guardian', async () => {
+  const { storage } = await withRealDatabase();
+  const { patientContact } = await import('../server/patient-profile.ts');
+  const parent = await storage.createUser({ email: 'ana@example.com', firstName: 'Ana', lastName: 'Diaz' });
+  await storage.savePatientProfile(parent.id, { mobilePhone: '+1 555 010 2000', preferredContactMethod: 'sms' }, parent.id);
+  const child = await storage.createDependent(parent.id, { firstName: 'Leo', lastName: 'Diaz', relationship: 'child' });
+  const adult = await storage.createUser({ firstName: 'Sam', lastName: 'Reed' });
+  await storage.savePatientProfile(adult.id, { homePhone: '555-0199', preferredContactMethod: 'phone' }, adult.id);
+
+  expect((await patientContact(parent.id)).phone).toBe('+1 555 010 2000');
+  const childContact = await patientContact(child.id);
+  expect(childContact.name).toBe('Leo Diaz');
+  expect(childContact.email).toBe('ana@example.com');
+  expect(childContact.preferredMethod).toBe('sms');
+  expect(childContact.viaGuardian).toBe('Ana Diaz');
+  const adultContact = await patientContact(adult.id);
+  expect(adultContact.phone).toBe('555-0199'); // falls back to the home number
+  expect(adultContact.viaGuardian).toBe(undefined);
+  expect(await patientContact('no-such-patient')).toBe(undefined);
+});
+
+test('Charting a treatment resolves what it replaces and keeps history', async () => {
+  const { storage } = await withRealDatabase();
+  const { chartAsOf, toFdi } = await import('../shared/dental-chart.ts');
+  const patient = await storage.createUser({ email: 'chart@example.com' });
+  const dentist = await storage.createUser({ email: 'dentist@example.com', role: 'admin' });
+  const record = (tooth, condition, surfaces = []) => storage.addChartEntry(patient.id, { tooth, condition, surfaces }, dentist.id);
+  const chart = async (at) => Object.values(chartAsOf(await storage.getChartEntries(patient.id), at))
+    .flat()
+    .map(entry => `${entry.tooth}:${entry.condition}${entry.surfaces.join('')}`)
+    .sort()
+    .join(',');
+
+  await record('3', 'caries', ['M', 'O']);
+  const decay = await record('14', 'caries', ['D']);
+  const filling = await record('3', 'filling', ['O']); // the mesial caries stays open
+  await record('14', 'missing');
+
+  expect(await chart(decay.recordedAt)).toBe('14:cariesD,3:cariesMO');
+  expect(await chart(filling.recordedAt)).toBe('14:cariesD,3:cariesM,3:fillingO');
+  expect(await chart()).toBe('14:missing,3:cariesM,3:fillingO');
+  expect((await storage.getChartEntries(patient.id)).length).toBe(5); // nothing is deleted
+
+  expect(['1', '8', '9', '16', '17', '24', '25', '32', 'A', 'K'].map(toFdi).join(',')).toBe('18,11,21,28,38,31,41,48,55,75');
+});
+
+test('Consent signing is version-checked, once per appointment and tamper-evident', async () => {
+  const { storage } = await withRealDatabase();
+  const { appointmentConsents, signConsent, verifiedConsentPdf } = await import('../server/consents.ts');
+  const patient = await storage.createUser({ email: 'consent@example.com', firstName: 'Jo', lastName: 'Bloggs' });
+  const extraction = await storage.createProcedure(procedureNamed('Extraction', { category: 'oral-surgery' }));
+  const wording = { title: 'Extraction consent', body: 'I agree to the extraction', procedureIds: [extraction.id] };
+  const created = await storage.createConsentTemplate(wording);
+  const cleaning = await storage.createAppointment(appointmentFor(patient));
+  const visit = await storage.createAppointment(appointmentFor(patient, { treatmentType: 'extraction' }));
+
+  expect((await appointmentConsents(cleaning)).length).toBe(0);
+  // Rewording makes a new version, so a page showing the old one is out of date
+  const template = await storage.updateConsentTemplate(created.id, { ...wording, body: 'I agree to the extraction of tooth 3' });
+  expect(template.version).toBe(created.version + 1);
+  const unchanged = await storage.updateConsentTemplate(created.id, { ...wording, body: template.body });
+  expect(unchanged.version).toBe(template.version);
+
+  const sign = () => signConsent({
+    template,
+    appointment: visit,
+    patient,
+    signer: patient,
+    input: {
+      templateVersion: template.version,
+      signerName: 'Jo Bloggs',
+      agreed: true,
+      signature: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+    },
+    signerIp: '203.0.113.9',
+    userAgent: null,
+  });
+  const signed = await sign();
+  expect(!!signed).toBe(true);
+  expect(await sign()).toBe(undefined);
+  const [needed] = await appointmentConsents(visit);
+  expect(needed.signed.id).toBe(signed.id);
+  expect(needed.signed.templateVersion).toBe(template.version);
+
+  expect(!!verifiedConsentPdf(signed)).toBe(true);
+  const tampered = Buffer.from(signed.pdfData, 'base64');
+  tampered[tampered.length - 10] ^= 1;
+  expect(verifiedConsentPdf({ ...signed, pdfData: tampered.toString('base64') })).toBe(null);
+});
+
+test('Uploaded files are only shown to the right people', async () => {
+  const { storage } = await withRealDatabase();
+  const { canReadFile, uploadDenied } = await import('../server/files.ts');
+  const guardian = await storage.createUser({ email: 'guardian@example.com', role: 'patient' });
+  const stranger = await storage.createUser({ email: 'stranger@example.com', role: 'patient' });
+  const staff = await storage.createUser({ email: 'staff@example.com', role: 'admin' });
+  const child = await storage.createDependent(guardian.id, { firstName: 'Leo', lastName: 'Diaz', relationship: 'child' });
+  const file = (category, patientId) => storage.createStoredFile({
+    category,
+    storageKey: `${category}/${Math.random()}.png`,
+    fileName: 'scan.png',
+    contentType: 'image/png',
+    size: 10,
+    sha256: '0'.repeat(64),
+    patientId,
+    uploadedBy: staff.id,
+  });
+  const xray = await file('xray', child.id);
+  const photo = await file('team_photo', null);
+
+  expect(await canReadFile(undefined, photo)).toBe(true);
+  expect(await canReadFile(undefined, xray)).toBe(false);
+  expect(await canReadFile(guardian, xray)).toBe(true);
+  expect(await canReadFile(stranger, xray)).toBe(false);
+  expect(await canReadFile(staff, xray)).toBe(true);
+
+  expect(await uploadDenied(guardian, 'patient_document', child.id)).toBe(null);
+  expect(await uploadDenied(stranger, 'patient_document', child.id)).toBe("You can't add files to this patient's record");
+  expect(await uploadDenied(guardian, 'xray', child.id)).toBe('Only staff can upload these files');
+  expect(await uploadDenied(staff, 'team_photo', null)).toBe(null);
+});
+
+test('Recall due dates follow completed visits and only move forward', async () => {
+  const { storage } = await withRealDatabase();
+  const { recordRecallVisit, recallProcedure } = await import('../server/recalls.ts');
+  const { recallStatus } = await import('../shared/recall.ts');
+  const adult = await storage.createProcedure(procedureNamed('Adult Cleaning'));
+  const child = await storage.createProcedure(procedureNamed('Child Cleaning'));
+  const prophy = await storage.createRecallType({ name: 'Prophy', intervalMonths: 6, procedureIds: [adult.id, child.id] });
+  const patient = await storage.createUser({ email: 'recall@example.com' });
+  const complete = async (treatmentType, appointmentDate) => recordRecallVisit(
+    await storage.createAppointment(appointmentFor(patient, { treatmentType, appointmentDate, status: 'completed' })),
+  );
+  const recall = async () => (await storage.getPatientRecalls({ patientId: patient.id }))[0];
+
+  await complete('adult cleaning', '2025-08-31');
+  // Month-end visits land on the last day of a shorter month
+  expect((await recall()).dueDate).toBe('2026-02-28');
+  expect(recallStatus((await recall()).dueDate, '2026-03-01')).toBe('overdue');
+
+  // An older visit marked completed late doesn't pull the date back
+  await complete('Adult Cleaning', '2025-06-01');
+  expect((await recall()).lastVisitDate).toBe('2025-08-31');
+
+  await complete('Filling', '2026-03-01');
+  expect((await recall()).dueDate).toBe('2026-02-28');
+  await complete('child cleaning', '2026-03-01');
+  expect((await recall()).dueDate).toBe('2026-09-01');
+  expect(recallStatus('2026-09-01', '2026-03-01')).toBe('later');
+  expect(recallStatus('2026-03-31', '2026-03-01')).toBe('due_soon');
+  expect((await storage.getPatientRecalls({ patientId: patient.id })).length).toBe(1);
+
+  expect(recallProcedure(prophy, [child, adult]).id).toBe(adult.id);
+});
+
+test('Clinical notes lock when signed, take addenda after, and stay out of patient responses', async () => {
+  const { storage } = await withRealDatabase();
+  const { startClinicalNote, patientClinicalNotes } = await import('../server/clinical-notes.ts');
+  const { isBlankNote, blankSections } = await import('../shared/clinical-notes.ts');
+  const patient = await storage.createUser({ email: 'notes@example.com' });
+  const dentist = await storage.createUser({ email: 'dr-smith@example.com', role: 'admin' });
+  const provider = await storage.createProvider({ name: 'Dr. Smith' });
+  const appointment = await storage.createAppointment(appointmentFor(patient, {
+    doctorName: provider.name,
+    status: 'completed',
+    notes: 'Please call before',
+  }));
+  const template = { id: null, name: 'SOAP note', ...blankSections() };
+  const signOff = { signedBy: dentist.id, signingProviderId: provider.id, signingProviderName: provider.name };
+
+  const note = await startClinicalNote(appointment, template, dentist.id);
+  expect(isBlankNote(note)).toBe(true);
+  expect(await startClinicalNote(appointment, template, dentist.id)).toBe(undefined); // one per appointment
+  const sections = { ...blankSections(), assessment: 'Caries #14', plan: 'Composite #14 next visit' };
+  expect(isBlankNote(await storage.updateClinicalNoteDraft(note.id, sections))).toBe(false);
+
+  expect(!!(await storage.signClinicalNote(note.id, signOff))).toBe(true);
+  expect(await storage.signClinicalNote(note.id, { ...signOff, signingProviderName: 'Dr. Jones' })).toBe(undefined);
+  expect(await storage.updateClinicalNoteDraft(note.id, { ...sections, assessment: 'Changed' })).toBe(undefined);
+  await storage.createClinicalNoteAddendum({ noteId: note.id, body: 'Tooth was #15, not #14', authorId: dentist.id, authorName: 'Dr. Smith' });
+
+  const [saved] = await patientClinicalNotes(patient.id);
+  expect(saved.assessment).toBe('Caries #14');
+  expect(saved.signingProviderName).toBe('Dr. Smith');
+  expect(saved.addenda.length).toBe(1);
+
+  // Notes live in their own table; the patient's appointment list never joins them
+  const patientResponse = JSON.stringify(await storage.getAppointmentsByPatient(patient.id));
+  expect(patientResponse.includes('Please call before')).toBe(true);
+  expect(patientResponse.includes('Caries')).toBe(false);
+});
+
+test('Staff can only sign clinical notes as the provider linked to their login', async () => {
+  const { storage } = await withRealDatabase();
+  const { signingProvider } = await import('../server/clinical-notes.ts');
+  const smith = await storage.createUser({ email: 'dr-smith@example.com', role: 'admin' });
+  const jones = await storage.createUser({ email: 'dr-jones@example.com', role: 'admin' });
+  const frontDesk = await storage.createUser({ email: 'desk@example.com', role: 'admin' });
+  const drSmith = await storage.createProvider({ name: 'Dr. Smith', userId: smith.id });
+  const drJones = await storage.createProvider({ name: 'Dr. Jones', userId: jones.id });
+
+  expect((await signingProvider(smith.id)).id).toBe(drSmith.id);
+  expect((await signingProvider(smith.id, drSmith.id)).id).toBe(drSmith.id);
+  expect(await signingProvider(smith.id, drJones.id)).toBe(undefined);
+  expect(await signingProvider(frontDesk.id, drSmith.id)).toBe(undefined);
+  expect(await signingProvider(frontDesk.id)).toBe(undefined);
+});
+
+test('Patient search matches names, emails, phones and birth dates', async () => {
+  const { storage } = await withRealDatabase();
+  const { parsePatientQuery } = await import('../shared/patient-search.ts');
+  const patient = async (email, firstName, lastName, profile = {}) => {
+    const user = await storage.createUser({ email, firstName, lastName, role: 'patient' });
+    await storage.savePatientProfile(user.id, profile, user.id);
+    return user.id;
+  };
+  const jane = await patient('jane@example.com', 'Jane', 'Smith', { dateOfBirth: '1985-03-09', mobilePhone: '(555) 123-4567' });
+  const john = await patient('john@example.com', 'John', 'Smithers', { homePhone: '555-0199' });
+  const janet = await patient('janet@example.com', 'Janet', 'Doe');
+  await storage.createUser({ email: 'smith.staff@example.com', firstName: 'Ann', lastName: 'Smith', role: 'admin' });
+  const search = async (text) => (await storage.searchPatients(parsePatientQuery(text), 25)).map(p => p.id).join(',');
+
+  // Every name word has to start a first or last name; staff never show up
+  expect(await search('smith')).toBe(`${jane},${john}`);
+  expect(await search('Smith, Ja')).toBe(jane);
+  expect(await search('ja')).toBe(`${janet},${jane}`);
+  expect(await search('JANET@')).toBe(janet);
+  expect(await search('555 123')).toBe(jane);
+  expect(await search('5550')).toBe(john);
+  expect(await search('3/9/1985')).toBe(jane);
+  expect(await search('100%')).toBe('');
+});
+
+test('Calendar feeds escape text, fold long lines and keep cancelled events', async () => {
+  const { storage } = await withRealDatabase();
+  const { appointmentCalendar } = await import('../server/ical.ts');
+  const patient = await storage.createUser({ email: 'calendar@example.com' });
+  const appointment = await storage.createAppointment(appointmentFor(patient, {
+    treatmentType: `Cleaning, polish; floss ${'é'.repeat(40)}`,
+    status: 'confirmed',
+  }));
+  const lines = (calendar) => calendar.split('\r\n');
+  const field = (calendar, name) => lines(calendar).find(line => line.startsWith(`${name}:`));
+
+  const booked = await appointmentCalendar(appointment);
+  expect(field(booked, 'SUMMARY')).toContain('Cleaning\\, polish\\; floss');
+  expect(lines(booked).every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+  expect(lines(booked).some(line => line.startsWith(' é'))).toBe(true);
+  expect(booked.endsWith('END:VCALENDAR\r\n')).toBe(true);
+
+  // Same event, a newer sequence, marked cancelled rather than dropped
+  const cancelled = await appointmentCalendar(await storage.updateAppointmentStatus(appointment.id, 'cancelled', { changedBy: patient.id }));
+  expect(field(cancelled, 'UID')).toBe(field(booked, 'UID'));
+  expect(field(cancelled, 'SEQUENCE')).toBe('SEQUENCE:1');
+  expect(field(cancelled, 'STATUS')).toBe('STATUS:CANCELLED');
+  expect(field(booked, 'STATUS')).toBe('STATUS:CONFIRMED');
+});
+
 test('Date and time handling', () => {
   // Test date format validation
   const validateDate = (dateString) => {